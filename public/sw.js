@@ -0,0 +1,265 @@
+/*
+  Qivr service worker
+
+  1. App shell
+    - Precaches the entry HTML and caches built assets as they are fetched, so the
+      app opens without a connection
+    - Navigations go to the network first and fall back to the cached shell
+
+  2. Offline learning content
+    - Serves anything the patient saved from the Learn section out of the content
+      cache written by src/lib/offlineContent.ts, including byte ranges for video
+
+  3. Submission replay
+    - Replays check-ins and assessments that were saved on the device while offline.
+      The queue lives in IndexedDB and is written by src/lib/offlineQueue.ts; the
+      database, store and tag names below must match that module.
+
+  4. Push notifications
+    - Shows Web Push messages sent by the reminder-scheduler and push-test Edge
+      Functions, and opens the message's `action_url` when it is tapped
+*/
+
+const SHELL_CACHE = 'qivr-shell-v1';
+const CONTENT_CACHE = 'qivr-offline-content-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+const DB_NAME = 'qivr-offline';
+const DB_VERSION = 1;
+const SUBMISSIONS_STORE = 'submissions';
+const META_STORE = 'meta';
+const SYNC_TAG = 'qivr-submissions';
+const CHANNEL_NAME = 'qivr-submissions';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('qivr-shell-') && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+    return;
+  }
+
+  if (['image', 'video', 'audio'].includes(request.destination)) {
+    event.respondWith(fromContentCache(request));
+    return;
+  }
+
+  // Vite's hashed build output never changes under the same name, so cache-first is safe.
+  // Dev-server modules (/src, /@vite) are deliberately left alone.
+  if (url.origin === self.location.origin && (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/icons/'))) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+async function networkFirstShell(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function fromContentCache(request) {
+  const cache = await caches.open(CONTENT_CACHE);
+  const cached = await cache.match(request.url);
+  if (!cached) return fetch(request);
+
+  const range = request.headers.get('range');
+  if (!range) return cached;
+
+  // Media elements seek with Range requests, which the Cache API won't answer on its own.
+  const blob = await cached.blob();
+  const [, startText, endText] = /bytes=(\d*)-(\d*)/.exec(range) || [];
+  const suffixOnly = !startText && endText;
+  const start = suffixOnly ? Math.max(blob.size - Number(endText), 0) : Number(startText || 0);
+  const end = endText && !suffixOnly ? Math.min(Number(endText), blob.size - 1) : blob.size - 1;
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || blob.type,
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replaySubmissions());
+  }
+});
+
+function openQueueDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) {
+        db.createObjectStore(SUBMISSIONS_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runInStore(db, storeName, mode, operation) {
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function replaySubmissions() {
+  // An open tab has a fresh session, so let it do the work.
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length > 0) {
+    windows.forEach(client => client.postMessage({ type: 'flush-submissions' }));
+    return;
+  }
+
+  const db = await openQueueDb();
+  const auth = await runInStore(db, META_STORE, 'readonly', store => store.get('auth'));
+  if (!auth) return;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const submissions = await runInStore(db, SUBMISSIONS_STORE, 'readonly', store => store.getAll());
+  let retryLater = false;
+
+  for (const submission of submissions) {
+    if (submission.status === 'synced' || submission.status === 'failed') continue;
+
+    let response;
+    try {
+      response = await fetch(
+        `${auth.supabaseUrl}/rest/v1/${submission.table}?on_conflict=${submission.onConflict}`,
+        {
+          method: 'POST',
+          headers: {
+            apikey: auth.anonKey,
+            Authorization: `Bearer ${auth.accessToken}`,
+            'Content-Type': 'application/json',
+            Prefer: `resolution=${submission.ignoreDuplicates ? 'ignore-duplicates' : 'merge-duplicates'},return=minimal`,
+          },
+          body: JSON.stringify(submission.payload),
+        }
+      );
+    } catch {
+      retryLater = true;
+      break;
+    }
+
+    // An expired token is not the entry's fault; it stays queued until the app is next opened.
+    if (response.status === 401) break;
+
+    const current = await runInStore(db, SUBMISSIONS_STORE, 'readonly', store => store.get(submission.key));
+    if (current && current.savedAt !== submission.savedAt) continue;
+
+    const update = response.ok
+      ? { ...submission, status: 'synced', lastError: null, syncedAt: new Date().toISOString() }
+      : {
+          ...submission,
+          status: response.status >= 500 ? 'pending' : 'failed',
+          attempts: submission.attempts + 1,
+          lastError: await response.text(),
+        };
+
+    if (response.status >= 500) retryLater = true;
+
+    await runInStore(db, SUBMISSIONS_STORE, 'readwrite', store => store.put(update));
+    channel.postMessage('changed');
+  }
+
+  channel.close();
+
+  // Rejecting tells the browser to schedule another sync attempt with backoff.
+  if (retryLater) throw new Error('Some submissions could not be sent yet');
+}
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Qivr', {
+      body: message.body || '',
+      icon: '/icons/icon-192.png',
+      badge: '/icons/icon-192.png',
+      tag: message.tag || message.notification_id,
+      data: { url: message.action_url || '/notifications' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  // Same rule as getNotificationPath: only paths within the app, never another site.
+  let url = new URL('/notifications', self.location.origin).href;
+  try {
+    const target = new URL(event.notification.data?.url || '/', self.location.origin);
+    if (target.origin === self.location.origin) url = target.href;
+  } catch {
+    // Malformed URLs fall back to the inbox.
+  }
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window' });
+    const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+
+    if (existing) {
+      await existing.focus();
+      return existing.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
@@ -1,34 +1,167 @@
-import { useState, useEffect } from 'react';
+import { ReactNode } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { RouterProvider, useRouter, Redirect } from './contexts/RouterContext';
+import { paths, publicPaths, matchPath, nextPathFrom, withNextPath, RouteParams } from './lib/routes';
+import { isCurrentCondition } from './lib/conditions';
 import { Welcome } from './pages/Welcome';
 import { SignIn } from './pages/SignIn';
 import { Registration } from './pages/Registration';
 import { ConditionAssessment } from './pages/ConditionAssessment';
 import { Personalization } from './pages/Personalization';
 import { Home } from './pages/Home';
+import { Notifications } from './pages/Notifications';
+import { Appointments } from './pages/Appointments';
 import { Chat } from './pages/Chat';
 import { Learn } from './pages/Learn';
+import { ContentViewer } from './pages/ContentViewer';
 import { Progress } from './pages/Progress';
 import { Profile } from './pages/Profile';
+import { EditProfile } from './pages/EditProfile';
+import { NotificationSettings } from './pages/NotificationSettings';
+import { MedicalRecords } from './pages/MedicalRecords';
+import { Medications } from './pages/Medications';
 import { Providers } from './pages/Providers';
 import { CheckIn } from './pages/CheckIn';
+import { DataSharing } from './pages/DataSharing';
+import { ClinicianPatients } from './pages/ClinicianPatients';
+import { ClinicianCohorts } from './pages/ClinicianCohorts';
+import { ClinicianPatient } from './pages/ClinicianPatient';
+import { PromAssessment } from './components/PromAssessment';
+import { EQ5DAssessment } from './components/EQ5DAssessment';
 import { BottomNav } from './components/BottomNav';
 
+interface AppRoute {
+  path: string;
+  tab?: string;
+  hideNav?: boolean;
+  render: (params: RouteParams) => ReactNode;
+}
+
+const tabPaths: Record<string, string> = {
+  home: paths.home,
+  learn: paths.learn,
+  providers: paths.providers,
+  progress: paths.progress,
+  profile: paths.profile,
+};
+
 function AppContent() {
-  const { user, profile, loading } = useAuth();
-  const [onboardingStep, setOnboardingStep] = useState<'welcome' | 'signin' | 'register' | 'assessment' | 'personalization' | 'complete'>('welcome');
-  const [activeTab, setActiveTab] = useState('home');
-  const [showCheckIn, setShowCheckIn] = useState(false);
-
-  useEffect(() => {
-    if (!loading && user) {
-      if (profile?.condition) {
-        setOnboardingStep('complete');
-      } else {
-        setOnboardingStep('assessment');
-      }
-    }
-  }, [user, profile, loading]);
+  const { user, profile, clinician, loading, profileError, reloadProfile } = useAuth();
+  const { pathname, searchParams, navigate } = useRouter();
+
+  const appRoutes: AppRoute[] = [
+    { path: paths.home, tab: 'home', render: () => <Home onOpenChat={() => navigate(paths.chat)} /> },
+    {
+      path: paths.notifications,
+      tab: 'home',
+      render: () => <Notifications onBack={() => navigate(paths.home)} />,
+    },
+    {
+      path: paths.appointments,
+      tab: 'home',
+      render: () => <Appointments onBack={() => navigate(paths.home)} />,
+    },
+    { path: paths.learn, tab: 'learn', render: () => <Learn /> },
+    {
+      path: '/learn/:contentId',
+      tab: 'learn',
+      render: ({ contentId }) => (
+        <ContentViewer contentId={contentId} onBack={() => navigate(paths.learn)} />
+      ),
+    },
+    { path: paths.chat, render: () => <Chat /> },
+    {
+      path: '/chat/:chatSessionId',
+      render: ({ chatSessionId }) => <Chat chatSessionId={chatSessionId} />,
+    },
+    {
+      path: paths.checkIn,
+      hideNav: true,
+      render: () => <CheckIn onComplete={() => navigate(paths.progress)} />,
+    },
+    { path: paths.progress, tab: 'progress', render: () => <Progress /> },
+    {
+      path: paths.newODIAssessment,
+      tab: 'progress',
+      render: () => {
+        const referralId = searchParams.get('referral') ?? undefined;
+        const done = () => navigate(referralId ? paths.referral(referralId) : paths.progress);
+        return <PromAssessment instrumentId="odi" referralId={referralId} onComplete={done} onCancel={done} />;
+      },
+    },
+    {
+      path: paths.newNDIAssessment,
+      tab: 'progress',
+      render: () => (
+        <PromAssessment
+          instrumentId="ndi"
+          onComplete={() => navigate(paths.progress)}
+          onCancel={() => navigate(paths.progress)}
+        />
+      ),
+    },
+    {
+      path: paths.newEQ5DAssessment,
+      tab: 'progress',
+      render: () => (
+        <EQ5DAssessment onComplete={() => navigate(paths.progress)} onCancel={() => navigate(paths.progress)} />
+      ),
+    },
+    {
+      path: '/progress/proms/:instrumentId/new',
+      tab: 'progress',
+      render: ({ instrumentId }) => {
+        const referralId = searchParams.get('referral') ?? undefined;
+        const done = () => navigate(referralId ? paths.referral(referralId) : paths.progress);
+        return <PromAssessment instrumentId={instrumentId} referralId={referralId} onComplete={done} onCancel={done} />;
+      },
+    },
+    { path: paths.providers, tab: 'providers', render: () => <Providers view="browse" /> },
+    { path: paths.careTeam, tab: 'providers', render: () => <Providers view="care-team" /> },
+    { path: paths.referrals, tab: 'providers', render: () => <Providers view="my-referrals" /> },
+    {
+      path: '/providers/referrals/:referralId',
+      tab: 'providers',
+      render: ({ referralId }) => <Providers view="my-referrals" highlightedReferralId={referralId} />,
+    },
+    { path: paths.profile, tab: 'profile', render: () => <Profile /> },
+    {
+      path: paths.editProfile,
+      tab: 'profile',
+      render: () => <EditProfile onBack={() => navigate(paths.profile)} />,
+    },
+    {
+      path: paths.notificationSettings,
+      tab: 'profile',
+      render: () => <NotificationSettings onBack={() => navigate(paths.profile)} />,
+    },
+    {
+      path: paths.medicalRecords,
+      tab: 'profile',
+      render: () => <MedicalRecords onBack={() => navigate(paths.profile)} />,
+    },
+    {
+      path: paths.medications,
+      tab: 'profile',
+      render: () => <Medications onBack={() => navigate(paths.profile)} />,
+    },
+    {
+      path: paths.dataSharing,
+      tab: 'profile',
+      render: () => <DataSharing onBack={() => navigate(paths.profile)} />,
+    },
+  ];
+
+  const clinicianRoutes: AppRoute[] = [
+    { path: paths.clinician, render: () => <ClinicianPatients /> },
+    { path: paths.clinicianCohorts, render: () => <ClinicianCohorts /> },
+    {
+      path: '/clinician/patients/:patientId',
+      render: ({ patientId }) => (
+        <ClinicianPatient patientId={patientId} onBack={() => navigate(paths.clinician)} />
+      ),
+    },
+  ];
 
   if (loading) {
     return (
@@ -42,77 +175,118 @@ function AppContent() {
   }
 
   if (!user) {
-    switch (onboardingStep) {
-      case 'signin':
+    switch (pathname) {
+      case paths.signIn:
         return (
           <SignIn
-            onBack={() => setOnboardingStep('welcome')}
-            onSuccess={() => setOnboardingStep('complete')}
+            onBack={() => navigate(paths.welcome)}
+            onSuccess={() => navigate(nextPathFrom(searchParams), { replace: true })}
           />
         );
-      case 'register':
+      case paths.register:
         return (
           <Registration
-            onBack={() => setOnboardingStep('welcome')}
-            onComplete={() => setOnboardingStep('assessment')}
+            onBack={() => navigate(paths.welcome)}
+            onComplete={() => navigate(paths.onboardingCondition, { replace: true })}
           />
         );
-      default:
+      case paths.welcome:
         return (
           <Welcome
-            onGetStarted={() => setOnboardingStep('register')}
-            onSignIn={() => setOnboardingStep('signin')}
+            onGetStarted={() => navigate(paths.register)}
+            onSignIn={() => navigate(withNextPath(paths.signIn, nextPathFrom(searchParams)))}
           />
         );
+      default: {
+        const search = searchParams.toString();
+        return <Redirect to={withNextPath(paths.welcome, search ? `${pathname}?${search}` : pathname)} />;
+      }
+    }
+  }
+
+  // A profile that failed to load is not the same as one without a condition, so don't send them to onboarding.
+  if (profileError) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center p-6">
+        <div className="text-center max-w-sm">
+          <p className="text-gray-900 font-semibold mb-2">We couldn't load your profile</p>
+          <p className="text-gray-600 mb-6">Check your connection and try again.</p>
+          <button
+            onClick={reloadProfile}
+            className="bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors"
+          >
+            Try again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Clinicians who aren't also patients only ever see the clinician portal, which has no patient navigation.
+  if (clinician && (!profile?.condition || pathname.startsWith(paths.clinician))) {
+    for (const route of clinicianRoutes) {
+      const params = matchPath(route.path, pathname);
+      if (params) return <>{route.render(params)}</>;
     }
+    return <Redirect to={paths.clinician} />;
   }
 
-  if (onboardingStep === 'assessment') {
+  // Anyone who has not told us about their condition yet finishes onboarding first; anyone whose condition is
+  // no longer offered picks again and goes straight back to the app.
+  if (!isCurrentCondition(profile?.condition)) {
+    if (pathname !== paths.onboardingCondition) {
+      return <Redirect to={paths.onboardingCondition} />;
+    }
+
     return (
       <ConditionAssessment
-        onBack={() => setOnboardingStep('welcome')}
-        onComplete={() => setOnboardingStep('personalization')}
+        onBack={() => navigate(paths.welcome)}
+        onComplete={() => navigate(profile?.condition ? paths.home : paths.onboardingPersonalization, { replace: true })}
       />
     );
   }
 
-  if (onboardingStep === 'personalization') {
+  if (pathname === paths.onboardingPersonalization) {
     return (
       <Personalization
-        onBack={() => setOnboardingStep('assessment')}
-        onComplete={() => setOnboardingStep('complete')}
+        onBack={() => navigate(paths.onboardingCondition)}
+        onComplete={() => navigate(paths.home, { replace: true })}
       />
     );
   }
 
-  if (showCheckIn) {
+  if (publicPaths.includes(pathname) || pathname === paths.onboardingCondition) {
+    return <Redirect to={paths.home} />;
+  }
+
+  for (const route of appRoutes) {
+    const params = matchPath(route.path, pathname);
+    if (!params) continue;
+
+    if (route.hideNav) {
+      return <>{route.render(params)}</>;
+    }
+
     return (
-      <CheckIn
-        onComplete={() => {
-          setShowCheckIn(false);
-          setActiveTab('progress');
-        }}
-      />
+      <div className="relative">
+        {route.render(params)}
+        <BottomNav
+          activeTab={route.tab ?? ''}
+          onTabChange={(tab) => navigate(tabPaths[tab])}
+        />
+      </div>
     );
   }
 
-  return (
-    <div className="relative">
-      {activeTab === 'home' && <Home onOpenChat={() => setActiveTab('chat')} />}
-      {activeTab === 'learn' && <Learn />}
-      {activeTab === 'chat' && <Chat />}
-      {activeTab === 'progress' && <Progress />}
-      {activeTab === 'providers' && <Providers />}
-      {activeTab === 'profile' && <Profile />}
-      <BottomNav activeTab={activeTab} onTabChange={setActiveTab} />
-    </div>
-  );
+  return <Redirect to={paths.home} />;
 }
 
 export default function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <RouterProvider>
+      <AuthProvider>
+        <AppContent />
+      </AuthProvider>
+    </RouterProvider>
   );
 }
@@ -0,0 +1,265 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { Activity, Dumbbell, ClipboardList, CalendarPlus, Check, X, MapPin, ChevronRight, Heart } from 'lucide-react';
+import { ChatAction, ChatActionType } from '../lib/chatActions';
+import { useAuth } from '../contexts/AuthContext';
+import { Provider, getSpecialtyLabel, loadProvidersBySpecialty } from '../lib/providers';
+import { CareTeamMember, getCareTeamRoleLabel, loadCareTeam } from '../lib/careTeam';
+
+const actionIcons: Record<ChatActionType, typeof Activity> = {
+  log_pain: Activity,
+  start_exercises: Dumbbell,
+  start_odi: ClipboardList,
+  book_referral: CalendarPlus,
+};
+
+interface ChatActionButtonsProps {
+  actions: ChatAction[];
+  completedActionIds: string[];
+  onSelect: (action: ChatAction) => void;
+}
+
+export function ChatActionButtons({ actions, completedActionIds, onSelect }: ChatActionButtonsProps) {
+  return (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {actions.map(action => {
+        const Icon = actionIcons[action.type];
+        const completed = completedActionIds.includes(action.id);
+
+        return (
+          <button
+            key={action.id}
+            onClick={() => onSelect(action)}
+            disabled={completed}
+            className={`inline-flex items-center space-x-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+              completed
+                ? 'bg-green-50 text-green-700 cursor-default'
+                : 'bg-qivr-blue/10 text-qivr-blue hover:bg-qivr-blue hover:text-white'
+            }`}
+          >
+            {completed ? <Check className="w-3.5 h-3.5" /> : <Icon className="w-3.5 h-3.5" />}
+            <span>{action.label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ActionOverlayProps {
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+}
+
+// Full-screen host for flows that are normally their own page, such as ExerciseGuide.
+export function ActionOverlay({ title, onClose, children }: ActionOverlayProps) {
+  return (
+    <div className="fixed inset-0 bg-[#F8FAFB] z-50 overflow-y-auto">
+      <div className="sticky top-0 z-10 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-[#1F2937]">{title}</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+const painLocations = [
+  { value: 'lower_back', label: 'Lower back' },
+  { value: 'neck', label: 'Neck' },
+  { value: 'knee', label: 'Knee' },
+  { value: 'hip', label: 'Hip' },
+  { value: 'shoulder', label: 'Shoulder' },
+  { value: 'leg', label: 'Leg' },
+  { value: 'other', label: 'Other' },
+];
+
+interface LogPainModalProps {
+  onClose: () => void;
+  onConfirm: (painScore: number, painLocation: string, painDescription: string) => Promise<void>;
+}
+
+export function LogPainModal({ onClose, onConfirm }: LogPainModalProps) {
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    painScore: 5,
+    painLocation: 'lower_back',
+    painDescription: '',
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      await onConfirm(formData.painScore, formData.painLocation, formData.painDescription);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">Log Pain Level</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <div className="text-center mb-4">
+              <div className="text-3xl font-bold text-qivr-blue">{formData.painScore}/10</div>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="10"
+              value={formData.painScore}
+              onChange={(e) => setFormData({ ...formData, painScore: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-[#2E7D88]"
+            />
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>No Pain</span>
+              <span>Worst Pain</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Where is the pain?
+            </label>
+            <select
+              value={formData.painLocation}
+              onChange={(e) => setFormData({ ...formData, painLocation: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+            >
+              {painLocations.map(location => (
+                <option key={location.value} value={location.value}>{location.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Description (Optional)
+            </label>
+            <input
+              type="text"
+              value={formData.painDescription}
+              onChange={(e) => setFormData({ ...formData, painDescription: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+              placeholder="e.g., Dull ache after walking"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Log Pain'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface ProviderPickerModalProps {
+  specialty: string;
+  onClose: () => void;
+  onSelect: (provider: Provider) => void;
+}
+
+export function ProviderPickerModal({ specialty, onClose, onSelect }: ProviderPickerModalProps) {
+  const { user } = useAuth();
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [careTeam, setCareTeam] = useState<CareTeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([
+      loadProvidersBySpecialty(specialty),
+      user ? loadCareTeam(user.id) : Promise.resolve([]),
+    ])
+      .then(([found, team]) => {
+        setProviders(found);
+        setCareTeam(team);
+      })
+      .catch(error => console.error('Error loading providers:', error))
+      .finally(() => setLoading(false));
+  }, [specialty, user]);
+
+  // Someone the patient already sees is the likeliest pick, so their care team comes first.
+  const memberFor = (provider: Provider) => careTeam.find(member => member.provider_id === provider.id);
+  const sortedProviders = [
+    ...careTeam.map(member => providers.find(p => p.id === member.provider_id)).filter((p): p is Provider => !!p),
+    ...providers.filter(provider => !memberFor(provider)),
+  ].map(provider => ({ provider, member: memberFor(provider) }));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">Choose a {getSpecialtyLabel(specialty)}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : providers.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              No providers found for this specialty yet.
+            </p>
+          ) : (
+            sortedProviders.map(({ provider, member }) => (
+              <button
+                key={provider.id}
+                onClick={() => onSelect(provider)}
+                className="w-full text-left p-4 rounded-lg border border-gray-200 hover:border-qivr-blue transition-colors flex items-center justify-between"
+              >
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900">{provider.provider_name}</h3>
+                  <p className="text-sm text-gray-600">{provider.practice_name}</p>
+                  {member && (
+                    <p className="flex items-center text-xs text-qivr-blue font-medium mt-1">
+                      <Heart className="w-3.5 h-3.5 mr-1 fill-current" />
+                      Your {getCareTeamRoleLabel(member.role)}
+                    </p>
+                  )}
+                  <div className="flex items-center text-xs text-gray-500 mt-1">
+                    <MapPin className="w-3.5 h-3.5 mr-1" />
+                    <span>{provider.city}</span>
+                    {provider.accepts_new_patients && (
+                      <span className="ml-2 text-green-700">· Accepting new patients</span>
+                    )}
+                  </div>
+                </div>
+                <ChevronRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
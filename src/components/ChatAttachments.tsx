@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { FileText, FolderPlus, FolderCheck, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { ChatAttachment, fileAttachmentToMedicalRecords, isImageAttachment } from '../lib/attachments';
+import { documentTypeOptions, suggestDocumentType, DocumentType } from '../lib/medicalRecords';
+import { getSignedUrl, openInNewTab } from '../lib/storage';
+
+interface AttachmentPreviewProps {
+  attachment: ChatAttachment;
+  fromPatient: boolean;
+  onFile?: () => void;
+}
+
+export function AttachmentPreview({ attachment, fromPatient, onFile }: AttachmentPreviewProps) {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const isImage = isImageAttachment(attachment);
+
+  useEffect(() => {
+    if (!isImage) return;
+    let cancelled = false;
+
+    getSignedUrl(attachment.bucket, attachment.path)
+      .then(url => {
+        if (!cancelled) setThumbnailUrl(url);
+      })
+      .catch(error => console.error('Error loading attachment preview:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.bucket, attachment.path, isImage]);
+
+  const openAttachment = () => {
+    openInNewTab(() => getSignedUrl(attachment.bucket, attachment.path)).catch(error => {
+      console.error('Error opening attachment:', error);
+      alert('Could not open this attachment');
+    });
+  };
+
+  return (
+    <div className="mb-2">
+      {isImage ? (
+        <button onClick={openAttachment} className="block">
+          {thumbnailUrl ? (
+            <img
+              src={thumbnailUrl}
+              alt={attachment.name}
+              className="w-48 h-36 object-cover rounded-lg"
+            />
+          ) : (
+            <div className={`w-48 h-36 rounded-lg animate-pulse ${fromPatient ? 'bg-white/20' : 'bg-gray-100'}`} />
+          )}
+        </button>
+      ) : (
+        <button
+          onClick={openAttachment}
+          className={`flex items-center space-x-3 p-3 rounded-lg w-full text-left ${
+            fromPatient ? 'bg-white/15 hover:bg-white/25' : 'bg-gray-50 hover:bg-gray-100'
+          }`}
+        >
+          <FileText className="w-6 h-6 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{attachment.name}</p>
+            <p className={`text-xs ${fromPatient ? 'text-white/70' : 'text-gray-500'}`}>
+              PDF · {(attachment.size / (1024 * 1024)).toFixed(1)} MB
+            </p>
+          </div>
+        </button>
+      )}
+
+      {attachment.medical_record_id ? (
+        <span className={`inline-flex items-center space-x-1 text-xs mt-1 ${fromPatient ? 'text-white/80' : 'text-gray-500'}`}>
+          <FolderCheck className="w-3.5 h-3.5" />
+          <span>Saved to medical records</span>
+        </span>
+      ) : onFile && (
+        <button
+          onClick={onFile}
+          className={`inline-flex items-center space-x-1 text-xs mt-1 font-medium ${
+            fromPatient ? 'text-white hover:text-white/80' : 'text-qivr-blue hover:text-qivr-blue-dark'
+          }`}
+        >
+          <FolderPlus className="w-3.5 h-3.5" />
+          <span>Save to medical records</span>
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface PendingAttachmentProps {
+  file: File;
+  onRemove: () => void;
+}
+
+export function PendingAttachment({ file, onRemove }: PendingAttachmentProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <div className="relative flex-shrink-0">
+      {previewUrl ? (
+        <img src={previewUrl} alt={file.name} className="w-16 h-16 object-cover rounded-lg border border-gray-200" />
+      ) : (
+        <div className="w-16 h-16 rounded-lg border border-gray-200 bg-gray-50 flex flex-col items-center justify-center px-1">
+          <FileText className="w-6 h-6 text-gray-500" />
+          <span className="text-[10px] text-gray-500 truncate w-full text-center">{file.name}</span>
+        </div>
+      )}
+      <button
+        onClick={onRemove}
+        className="absolute -top-2 -right-2 w-5 h-5 bg-gray-700 text-white rounded-full flex items-center justify-center"
+        aria-label={`Remove ${file.name}`}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
+
+interface FileToRecordsModalProps {
+  messageId: string;
+  attachment: ChatAttachment;
+  onClose: () => void;
+  onFiled: (attachment: ChatAttachment) => void;
+}
+
+export function FileToRecordsModal({ messageId, attachment, onClose, onFiled }: FileToRecordsModalProps) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    documentName: attachment.name.replace(/\.[^.]+$/, ''),
+    documentType: suggestDocumentType(attachment.name, attachment.mime_type),
+    notes: '',
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !formData.documentName.trim()) return;
+
+    try {
+      setSaving(true);
+      const filed = await fileAttachmentToMedicalRecords(user.id, messageId, attachment, {
+        ...formData,
+        documentName: formData.documentName.trim(),
+      });
+      onFiled(filed);
+    } catch (error) {
+      console.error('Error filing attachment:', error);
+      alert('Failed to save to medical records');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">Save to Medical Records</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Document Name
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.documentName}
+              onChange={(e) => setFormData({ ...formData, documentName: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Document Type
+            </label>
+            <select
+              value={formData.documentType}
+              onChange={(e) => setFormData({ ...formData, documentType: e.target.value as DocumentType })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+            >
+              {documentTypeOptions.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Notes (Optional)
+            </label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
+              placeholder="e.g., Incision photo, day 5"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
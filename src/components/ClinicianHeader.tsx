@@ -0,0 +1,65 @@
+import { LogOut } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { paths } from '../lib/routes';
+import { getSpecialtyLabel } from '../lib/providers';
+
+interface ClinicianHeaderProps {
+  active: 'patients' | 'cohorts';
+}
+
+export function ClinicianHeader({ active }: ClinicianHeaderProps) {
+  const { clinician, signOut } = useAuth();
+  const { navigate } = useRouter();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  const tabs = [
+    { key: 'patients', label: 'My Patients', path: paths.clinician },
+    { key: 'cohorts', label: 'Cohorts', path: paths.clinicianCohorts },
+  ] as const;
+
+  return (
+    <div className="bg-white px-6 pt-4 border-b border-gray-200 sticky top-0 z-10">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-[#1F2937]">Clinician Portal</h1>
+          {clinician && (
+            <p className="text-sm text-gray-600 mt-1">
+              {clinician.provider.provider_name} • {getSpecialtyLabel(clinician.provider.specialty)}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleSignOut}
+          className="flex items-center space-x-1 text-sm text-gray-600 hover:text-red-600"
+        >
+          <LogOut className="w-4 h-4" />
+          <span>Sign Out</span>
+        </button>
+      </div>
+
+      <div className="flex space-x-6 mt-3">
+        {tabs.map(tab => (
+          <button
+            key={tab.key}
+            onClick={() => navigate(tab.path)}
+            className={`pb-3 text-sm font-medium border-b-2 transition-colors ${
+              active === tab.key
+                ? 'border-qivr-blue text-qivr-blue'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
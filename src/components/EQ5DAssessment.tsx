@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight, Check, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { queueSubmission } from '../lib/offlineQueue';
+import { localDateString } from '../lib/dates';
+import { EQ5DDimension, eq5dDimensions } from '../lib/eq5d';
+
+interface EQ5DAssessmentProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+// The five dimensions, then the VAS as the last step.
+const TOTAL_STEPS = eq5dDimensions.length + 1;
+
+export function EQ5DAssessment({ onComplete, onCancel }: EQ5DAssessmentProps) {
+  const { user } = useAuth();
+  const [currentStep, setCurrentStep] = useState(0);
+  const [levels, setLevels] = useState<Partial<Record<EQ5DDimension, number>>>({});
+  const [vas, setVas] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isVasStep = currentStep === eq5dDimensions.length;
+  const currentDimension = isVasStep ? null : eq5dDimensions[currentStep];
+  const currentLevel = currentDimension ? levels[currentDimension.id] : undefined;
+  const canProceed = isVasStep ? vas !== null : currentLevel !== undefined;
+  const progress = ((currentStep + (canProceed ? 1 : 0)) / TOTAL_STEPS) * 100;
+
+  const handleNext = () => {
+    if (currentStep < TOTAL_STEPS - 1) {
+      setCurrentStep(currentStep + 1);
+    } else {
+      handleSubmit();
+    }
+  };
+
+  const handleBack = () => {
+    if (currentStep > 0) {
+      setCurrentStep(currentStep - 1);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    const allAnswered = eq5dDimensions.every(({ id }) => levels[id] !== undefined) && vas !== null;
+    if (!allAnswered) {
+      alert('Please answer every question before submitting');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const date = localDateString();
+      await queueSubmission('eq5d', user.id, date, { ...levels, vas });
+      onComplete();
+    } catch (error) {
+      console.error('Error saving EQ-5D-5L assessment:', error);
+      alert('Failed to save assessment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB] pb-24">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="px-6 py-4">
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={onCancel}
+              className="flex items-center text-qivr-blue hover:text-qivr-blue-light transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+            <div className="text-sm text-gray-600">
+              Question {currentStep + 1} of {TOTAL_STEPS}
+            </div>
+          </div>
+
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-qivr-blue rounded-full h-2 transition-all duration-300"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-blue-800">
+            <p className="font-semibold mb-1">EQ-5D-5L Health Questionnaire</p>
+            <p>Under each heading, please select the ONE statement that best describes your health TODAY.</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 border border-gray-200 mb-6">
+          {currentDimension ? (
+            <>
+              <h2 className="text-xl font-bold text-[#1F2937] mb-6">
+                {currentDimension.title}
+              </h2>
+
+              <div className="space-y-3">
+                {currentDimension.options.map((option, index) => {
+                  const level = index + 1;
+                  return (
+                    <button
+                      key={level}
+                      onClick={() => setLevels({ ...levels, [currentDimension.id]: level })}
+                      className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
+                        currentLevel === level
+                          ? 'border-qivr-blue bg-qivr-blue/5'
+                          : 'border-gray-200 hover:border-qivr-blue/50 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-start space-x-3">
+                        <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0 mt-0.5 ${
+                          currentLevel === level
+                            ? 'border-qivr-blue bg-qivr-blue'
+                            : 'border-gray-300'
+                        }`}>
+                          {currentLevel === level && (
+                            <Check className="w-3 h-3 text-white" />
+                          )}
+                        </div>
+                        <span className="text-gray-700">{option}</span>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </>
+          ) : (
+            <>
+              <h2 className="text-xl font-bold text-[#1F2937] mb-2">
+                Your Health Today
+              </h2>
+              <p className="text-sm text-gray-600 mb-6">
+                We would like to know how good or bad your health is TODAY. 100 means the best health you can imagine
+                and 0 means the worst health you can imagine. Move the slider to show your health today.
+              </p>
+
+              <div className="text-center mb-4">
+                <span className="text-5xl font-bold text-qivr-blue">{vas ?? '—'}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={vas ?? 50}
+                onChange={(e) => setVas(Number(e.target.value))}
+                onClick={() => vas === null && setVas(50)}
+                className="w-full accent-qivr-blue"
+                aria-label="Your health today, from 0 (worst) to 100 (best)"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>Worst imaginable</span>
+                <span>Best imaginable</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex space-x-3">
+          {currentStep > 0 && (
+            <button
+              onClick={handleBack}
+              className="flex-1 bg-gray-100 text-gray-700 py-4 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors flex items-center justify-center space-x-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </button>
+          )}
+
+          <button
+            onClick={handleNext}
+            disabled={!canProceed || saving}
+            className="flex-1 bg-qivr-blue text-white py-4 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+          >
+            <span>
+              {saving
+                ? 'Saving...'
+                : isVasStep
+                ? 'Complete Assessment'
+                : 'Next'}
+            </span>
+            {isVasStep ? <Check className="w-5 h-5" /> : <ArrowRight className="w-5 h-5" />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { HeartPulse, Plus } from 'lucide-react';
+import { useRouter } from '../contexts/RouterContext';
+import { paths } from '../lib/routes';
+import { EQ5DAssessment, EQ5DValueSet, eq5dIndex, valueSetNotice } from '../lib/eq5d';
+
+interface EQ5DHistoryCardProps {
+  assessments: EQ5DAssessment[];
+  valueSets: EQ5DValueSet[];
+  valueSet: EQ5DValueSet | null;
+  onValueSetChange: (valueSetId: string) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = { top: 10, right: 32, bottom: 24, left: 36 };
+const INDEX_COLOR = '#1E9BFF';
+const VAS_COLOR = '#F97316';
+
+const formatIndex = (value: number) => value.toFixed(3);
+
+export function EQ5DHistoryCard({ assessments, valueSets, valueSet, onValueSetChange }: EQ5DHistoryCardProps) {
+  const { navigate } = useRouter();
+
+  const points = assessments.map(assessment => ({
+    assessment,
+    index: valueSet ? eq5dIndex(valueSet, assessment) : null,
+  }));
+  const latest = points[points.length - 1];
+  const baseline = points.find(point => point.assessment.is_baseline) ?? points[0];
+  const notice = valueSetNotice(valueSet, valueSets);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-[#1F2937]">EQ-5D-5L</h2>
+          <p className="text-sm text-gray-600">Health-related quality of life</p>
+        </div>
+        <HeartPulse className="w-5 h-5 text-qivr-blue flex-shrink-0" />
+      </div>
+
+      {!latest ? (
+        <p className="text-sm text-gray-600 mb-4">
+          Five quick questions about your mobility, self-care, usual activities, pain and mood, and how good your health
+          is today. Take it now to set your baseline.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Index</p>
+              <p className="text-3xl font-bold text-[#1F2937]">{latest.index !== null ? formatIndex(latest.index) : '—'}</p>
+              {latest.index !== null && baseline.index !== null && baseline !== latest && (
+                <p className={`text-xs font-medium ${latest.index >= baseline.index ? 'text-green-600' : 'text-orange-600'}`}>
+                  {latest.index >= baseline.index ? '+' : ''}{formatIndex(latest.index - baseline.index)} since baseline
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Health today (VAS)</p>
+              <p className="text-3xl font-bold text-[#1F2937]">{latest.assessment.vas ?? '—'}</p>
+              <p className="text-xs text-gray-500">Health state {latest.assessment.health_state}</p>
+            </div>
+          </div>
+
+          {notice && <p className="text-xs text-orange-700 bg-orange-50 rounded-lg px-3 py-2 mb-4">{notice}</p>}
+
+          {points.length > 1 && <EQ5DChart points={points} />}
+
+          {valueSets.length > 0 && (
+            <div className="flex items-center justify-between mt-3 mb-4 text-xs text-gray-600">
+              <div className="flex items-center space-x-3">
+                <span className="flex items-center">
+                  <span className="w-3 h-3 rounded-full mr-1.5" style={{ backgroundColor: INDEX_COLOR }} />
+                  Index
+                </span>
+                <span className="flex items-center">
+                  <span className="w-3 h-3 rounded-full mr-1.5" style={{ backgroundColor: VAS_COLOR }} />
+                  VAS
+                </span>
+              </div>
+              <select
+                value={valueSet?.id ?? ''}
+                onChange={(e) => onValueSetChange(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-xs text-gray-700 focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                aria-label="Value set"
+                title={valueSet?.source}
+              >
+                {!valueSet && <option value="" disabled>Choose a value set</option>}
+                {valueSets.map(option => (
+                  <option key={option.id} value={option.id}>{option.country} value set</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </>
+      )}
+
+      <button
+        onClick={() => navigate(paths.newEQ5DAssessment)}
+        className="w-full bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
+      >
+        <Plus className="w-5 h-5" />
+        <span>Take EQ-5D-5L</span>
+      </button>
+    </div>
+  );
+}
+
+// The index on the left axis and the VAS on the right, both with their best value at the top.
+function EQ5DChart({ points }: { points: { assessment: EQ5DAssessment; index: number | null }[] }) {
+  const indexes = points.flatMap(point => (point.index !== null ? [point.index] : []));
+  const minIndex = Math.floor(Math.min(0, ...indexes) * 10) / 10;
+  const times = points.map(point => new Date(point.assessment.assessment_date).getTime());
+  const firstTime = times[0];
+  const timeSpan = Math.max(1, times[times.length - 1] - firstTime);
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (time: number) => CHART_PADDING.left + ((time - firstTime) / timeSpan) * plotWidth;
+  const yIndex = (index: number) => CHART_PADDING.top + ((1 - index) / (1 - minIndex)) * plotHeight;
+  const yVas = (vas: number) => CHART_PADDING.top + (1 - vas / 100) * plotHeight;
+  const formatDate = (time: number) => new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const indexPoints = points.flatMap((point, i) => (point.index !== null ? [{ x: x(times[i]), y: yIndex(point.index), point }] : []));
+  const vasPoints = points.flatMap((point, i) => (point.assessment.vas !== null ? [{ x: x(times[i]), y: yVas(point.assessment.vas), point }] : []));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="EQ-5D-5L index and VAS over time">
+      {[minIndex, (minIndex + 1) / 2, 1].map(tick => (
+        <g key={tick}>
+          <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={yIndex(tick)} y2={yIndex(tick)} stroke="#E5E7EB" />
+          <text x={CHART_PADDING.left - 6} y={yIndex(tick) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">{tick.toFixed(2)}</text>
+        </g>
+      ))}
+      {[0, 50, 100].map(tick => (
+        <text key={tick} x={CHART_WIDTH - CHART_PADDING.right + 6} y={yVas(tick) + 4} className="fill-gray-500 text-[10px]">{tick}</text>
+      ))}
+      {[firstTime, firstTime + timeSpan].map(tick => (
+        <text key={tick} x={x(tick)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+          {formatDate(tick)}
+        </text>
+      ))}
+      <polyline points={vasPoints.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke={VAS_COLOR} strokeWidth={2} />
+      {vasPoints.map(p => (
+        <circle key={p.point.assessment.id} cx={p.x} cy={p.y} r={3} fill={VAS_COLOR}>
+          <title>{`${formatDate(new Date(p.point.assessment.assessment_date).getTime())}: VAS ${p.point.assessment.vas}`}</title>
+        </circle>
+      ))}
+      <polyline points={indexPoints.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke={INDEX_COLOR} strokeWidth={2} />
+      {indexPoints.map(p => (
+        <circle key={p.point.assessment.id} cx={p.x} cy={p.y} r={3} fill={INDEX_COLOR}>
+          <title>{`${formatDate(new Date(p.point.assessment.assessment_date).getTime())}: index ${p.point.index?.toFixed(3)} (${p.point.assessment.health_state})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
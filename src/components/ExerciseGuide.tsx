@@ -1,16 +1,6 @@
 import { useState } from 'react';
 import { Check, AlertCircle, ChevronRight, Timer, Repeat } from 'lucide-react';
-
-interface Exercise {
-  name: string;
-  description: string;
-  sets: number;
-  reps: string;
-  duration?: string;
-  instructions: string[];
-  tips: string[];
-  warnings?: string[];
-}
+import { DEFAULT_EXERCISES, Exercise } from '../lib/exercises';
 
 interface ExerciseGuideProps {
   title: string;
@@ -23,110 +13,7 @@ export function ExerciseGuide({ title, exercises: propExercises, onComplete }: E
   const [completedExercises, setCompletedExercises] = useState<number[]>([]);
   const [showInstructions, setShowInstructions] = useState(true);
 
-  const defaultExercises: Exercise[] = [
-    {
-      name: 'Ankle Pumps',
-      description: 'Gentle movement to improve circulation and prevent blood clots',
-      sets: 3,
-      reps: '10-15',
-      instructions: [
-        'Lie on your back with legs extended',
-        'Point your toes away from you as far as comfortable',
-        'Pull your toes back toward you',
-        'Repeat in a smooth, controlled motion',
-      ],
-      tips: [
-        'Can be done while sitting or lying down',
-        'Perform throughout the day, especially after periods of rest',
-        'Should not cause pain',
-      ],
-      warnings: [
-        'Stop if you experience sharp pain',
-        'Avoid forcing the movement',
-      ],
-    },
-    {
-      name: 'Quadriceps Sets',
-      description: 'Strengthens the front thigh muscles without moving the knee',
-      sets: 3,
-      reps: '10',
-      duration: '5 seconds hold',
-      instructions: [
-        'Sit with your leg straight out in front of you',
-        'Tighten the muscle on top of your thigh',
-        'Push the back of your knee down toward the surface',
-        'Hold for 5 seconds, then relax',
-      ],
-      tips: [
-        'You should see your kneecap move up slightly',
-        'Place a small towel under your knee if needed',
-        'Breathe normally during the hold',
-      ],
-    },
-    {
-      name: 'Heel Slides',
-      description: 'Improves knee bending range of motion',
-      sets: 3,
-      reps: '10',
-      instructions: [
-        'Lie on your back with legs extended',
-        'Slowly slide your heel toward your buttocks',
-        'Bend your knee as far as comfortable',
-        'Hold for 2-3 seconds, then slide back to starting position',
-      ],
-      tips: [
-        'Use a towel or strap around your ankle to assist if needed',
-        'Progress gradually - don\'t force the bend',
-        'Some discomfort is normal, but stop if you feel sharp pain',
-      ],
-      warnings: [
-        'Do not bounce or jerk the leg',
-        'Maintain control throughout the movement',
-      ],
-    },
-    {
-      name: 'Straight Leg Raises',
-      description: 'Strengthens hip flexors and quadriceps',
-      sets: 3,
-      reps: '10',
-      instructions: [
-        'Lie on your back with one knee bent, foot flat',
-        'Keep the other leg straight',
-        'Tighten the thigh muscle of your straight leg',
-        'Lift the straight leg 6-12 inches off the ground',
-        'Hold for 2-3 seconds, then lower slowly',
-      ],
-      tips: [
-        'Keep your back flat against the surface',
-        'Lift only as high as the bent knee',
-        'Control the lowering phase',
-      ],
-      warnings: [
-        'Stop if you feel back pain',
-        'Do not arch your lower back',
-      ],
-    },
-    {
-      name: 'Seated Knee Extension',
-      description: 'Strengthens quadriceps in a seated position',
-      sets: 3,
-      reps: '10',
-      duration: '3 seconds hold',
-      instructions: [
-        'Sit in a firm chair with feet flat on the floor',
-        'Slowly straighten one knee, lifting your foot',
-        'Hold your leg straight for 3 seconds',
-        'Lower slowly back to starting position',
-      ],
-      tips: [
-        'Keep your back against the chair',
-        'Tighten your thigh muscle at the top',
-        'Can add ankle weights as you progress',
-      ],
-    },
-  ];
-
-  const exercises = propExercises.length > 0 ? propExercises : defaultExercises;
+  const exercises = propExercises.length > 0 ? propExercises : DEFAULT_EXERCISES;
   const exercise = exercises[currentExercise];
   const progress = (completedExercises.length / exercises.length) * 100;
 
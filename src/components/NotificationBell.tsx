@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { countUnreadNotifications, subscribeToNotifications } from '../lib/notifications';
+import { paths } from '../lib/routes';
+
+export function NotificationBell() {
+  const { user } = useAuth();
+  const { navigate } = useRouter();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const refresh = () => {
+      countUnreadNotifications(user.id)
+        .then(count => {
+          if (!cancelled) setUnreadCount(count);
+        })
+        .catch(error => console.error('Error loading unread notifications:', error));
+    };
+
+    refresh();
+    // Recounting on every change keeps read/delete events from other devices accurate too.
+    const unsubscribe = subscribeToNotifications(user.id, {
+      onInsert: refresh,
+      onUpdate: refresh,
+      onDelete: refresh,
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user]);
+
+  return (
+    <button
+      onClick={() => navigate(paths.notifications)}
+      className="relative w-12 h-12 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center text-white hover:bg-white/30 transition-colors"
+      aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+    >
+      <Bell className="w-6 h-6" />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center border-2 border-qivr-blue">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </button>
+  );
+}
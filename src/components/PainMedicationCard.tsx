@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Pill, ChevronRight } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { supabase } from '../lib/supabase';
+import { DailyMedicationSummary, loadDoseLogs, loadMedications, summarizeMedicationDays } from '../lib/medications';
+import { localDateString } from '../lib/dates';
+import { paths } from '../lib/routes';
+
+const DAYS = 14;
+
+type DayPoint = DailyMedicationSummary & { pain: number | null };
+
+const adherenceColor = (day: DailyMedicationSummary) => {
+  if (day.scheduled === 0) return 'bg-gray-200';
+  const rate = day.taken / day.scheduled;
+  if (rate >= 0.8) return 'bg-green-500';
+  if (rate >= 0.5) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+export function PainMedicationCard() {
+  const { user } = useAuth();
+  const { navigate } = useRouter();
+  const [days, setDays] = useState<DayPoint[]>([]);
+  const [hasMedications, setHasMedications] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const dates = Array.from({ length: DAYS }, (_, index) => {
+      const date = new Date();
+      date.setDate(date.getDate() - (DAYS - 1 - index));
+      return localDateString(date);
+    });
+
+    const load = async () => {
+      const [medications, logs, pain] = await Promise.all([
+        loadMedications(user.id, { includeStopped: true }),
+        loadDoseLogs(user.id, dates[0]),
+        supabase
+          .from('proms_data')
+          .select('check_in_date, pain_level')
+          .eq('patient_id', user.id)
+          .gte('check_in_date', dates[0]),
+      ]);
+      if (pain.error) throw pain.error;
+      if (cancelled) return;
+
+      // Check-ins are keyed by the patient's local day, the same calendar as the dose days.
+      const painByDate = new Map((pain.data ?? []).map(row => [row.check_in_date, row.pain_level as number | null]));
+      setHasMedications(medications.length > 0);
+      setDays(summarizeMedicationDays(medications, logs, dates).map(day => ({
+        ...day,
+        pain: painByDate.get(day.date) ?? null,
+      })));
+    };
+
+    load().catch(error => console.error('Error loading pain and medication history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (!hasMedications) return null;
+
+  const scheduled = days.reduce((sum, day) => sum + day.scheduled, 0);
+  const taken = days.reduce((sum, day) => sum + day.taken, 0);
+  const prnDoses = days.reduce((sum, day) => sum + day.prnDoses, 0);
+  const opioidPrnDoses = days.reduce((sum, day) => sum + day.opioidPrnDoses, 0);
+  const painDays = days.filter(day => day.pain !== null);
+  const averagePain = painDays.length > 0
+    ? painDays.reduce((sum, day) => sum + (day.pain ?? 0), 0) / painDays.length
+    : null;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-[#1F2937]">Pain & Medication</h2>
+        <button
+          onClick={() => navigate(paths.medications)}
+          className="flex items-center text-sm text-qivr-blue font-medium hover:text-qivr-blue-dark"
+        >
+          <Pill className="w-4 h-4 mr-1" />
+          Medications
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-[#1F2937]">
+            {scheduled > 0 ? `${Math.round((taken / scheduled) * 100)}%` : '—'}
+          </div>
+          <div className="text-xs text-gray-600">Doses taken</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-[#1F2937]">{prnDoses}</div>
+          <div className="text-xs text-gray-600">
+            As-needed doses{opioidPrnDoses > 0 && ` (${opioidPrnDoses} opioid)`}
+          </div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-[#1F2937]">
+            {averagePain !== null ? averagePain.toFixed(1) : '—'}
+          </div>
+          <div className="text-xs text-gray-600">Average pain</div>
+        </div>
+      </div>
+
+      <div className="h-32 flex items-end justify-between space-x-1 mb-2">
+        {days.map(day => (
+          <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full">
+            {day.prnDoses > 0 && (
+              <span className="text-[10px] font-semibold text-orange-600 mb-0.5">{day.prnDoses}</span>
+            )}
+            <div
+              className="w-full bg-qivr-blue rounded-t"
+              style={{ height: `${(day.pain ?? 0) * 10}%` }}
+              title={`${new Date(`${day.date}T00:00:00`).toLocaleDateString()}: pain ${day.pain ?? 'not recorded'}, ${day.taken}/${day.scheduled} doses, ${day.prnDoses} as needed`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between space-x-1 mb-4">
+        {days.map(day => (
+          <div key={day.date} className={`flex-1 h-1.5 rounded-full ${adherenceColor(day)}`} />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-qivr-blue rounded"></div>
+          <span>Pain (0-10), last {DAYS} days</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="font-semibold text-orange-600">2</span>
+          <span>As-needed doses that day</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-1.5 bg-green-500 rounded-full"></div>
+          <span>Most doses taken</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-1.5 bg-red-500 rounded-full"></div>
+          <span>Doses missed</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, ArrowRight, Check, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { queueSubmission } from '../lib/offlineQueue';
+import { localDateString } from '../lib/dates';
+import {
+  PromInstrument,
+  flattenItems,
+  getItemOptions,
+  isDisabilityIndex,
+  loadInstrument,
+  scorePromResponses,
+} from '../lib/proms';
+
+interface PromAssessmentProps {
+  instrumentId: string;
+  referralId?: string;
+  onComplete: (score: number | null) => void;
+  onCancel: () => void;
+}
+
+export function PromAssessment({ instrumentId, referralId, onComplete, onCancel }: PromAssessmentProps) {
+  const { user } = useAuth();
+  const [instrument, setInstrument] = useState<PromInstrument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [currentQuestion, setCurrentQuestion] = useState(0);
+  const [responses, setResponses] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+
+    loadInstrument(instrumentId)
+      .then(loaded => {
+        if (active) setInstrument(loaded);
+      })
+      .catch(error => console.error('Error loading questionnaire:', error))
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [instrumentId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center pb-24">
+        <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!instrument) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center p-6 pb-24">
+        <div className="text-center">
+          <h3 className="text-lg font-semibold text-gray-600 mb-2">Questionnaire Not Available</h3>
+          <p className="text-gray-500 mb-6">This questionnaire could not be loaded. Please try again later.</p>
+          <button
+            onClick={onCancel}
+            className="bg-qivr-blue text-white px-6 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors"
+          >
+            Go Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const definition = instrument.definition;
+  const questions = flattenItems(definition);
+  const totalQuestions = questions.length;
+  const progress = ((currentQuestion + (responses[questions[currentQuestion]?.item.id] !== undefined ? 1 : 0)) / totalQuestions) * 100;
+
+  const handleResponse = (score: number) => {
+    const itemId = questions[currentQuestion].item.id;
+    setResponses({ ...responses, [itemId]: score });
+  };
+
+  const handleNext = () => {
+    if (currentQuestion < totalQuestions - 1) {
+      setCurrentQuestion(currentQuestion + 1);
+    } else {
+      handleSubmit();
+    }
+  };
+
+  const handleBack = () => {
+    if (currentQuestion > 0) {
+      setCurrentQuestion(currentQuestion - 1);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    const allAnswered = questions.every(({ item }) => responses[item.id] !== undefined);
+    if (!allAnswered) {
+      alert('Please answer every question before submitting');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { score, subscaleScores } = scorePromResponses(definition, responses);
+      const date = localDateString();
+      // A reassessment after a completed referral is linked to it so the change is attributed to that episode.
+      const referral = referralId ? { referral_id: referralId } : {};
+
+      // ODI and NDI answers are columns of their own tables, which score them in generated columns.
+      if (isDisabilityIndex(instrument.id)) {
+        await queueSubmission(instrument.id, user.id, date, { ...responses, ...referral });
+      } else {
+        await queueSubmission('prom', user.id, date, {
+          instrument_id: instrument.id,
+          responses,
+          score,
+          subscale_scores: subscaleScores,
+          ...referral,
+        });
+      }
+
+      onComplete(score);
+    } catch (error) {
+      console.error(`Error saving ${instrument.short_name} assessment:`, error);
+      alert('Failed to save assessment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const { section: currentSection, item: currentItem } = questions[currentQuestion];
+  const currentResponse = responses[currentItem.id];
+  const currentPrompt = currentItem.prompt ?? currentSection.prompt;
+  const canProceed = currentResponse !== undefined;
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB] pb-24">
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="px-6 py-4">
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={onCancel}
+              className="flex items-center text-qivr-blue hover:text-qivr-blue-light transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Cancel
+            </button>
+            <div className="text-sm text-gray-600">
+              Question {currentQuestion + 1} of {totalQuestions}
+            </div>
+          </div>
+
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-qivr-blue rounded-full h-2 transition-all duration-300"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-blue-800">
+            <p className="font-semibold mb-1">{instrument.name} ({instrument.short_name})</p>
+            <p>{definition.instructions}</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 border border-gray-200 mb-6">
+          {currentSection.items.length > 1 && (
+            <p className="text-xs font-semibold uppercase tracking-wide text-qivr-blue mb-2">
+              {currentSection.title}
+            </p>
+          )}
+          <h2 className="text-xl font-bold text-[#1F2937] mb-2">
+            {currentItem.text}
+          </h2>
+          <p className="text-sm text-gray-600 mb-6">
+            {currentPrompt}
+          </p>
+
+          <div className="space-y-3">
+            {getItemOptions(definition, currentItem).map(({ label, value }) => (
+              <button
+                key={value}
+                onClick={() => handleResponse(value)}
+                className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
+                  currentResponse === value
+                    ? 'border-qivr-blue bg-qivr-blue/5'
+                    : 'border-gray-200 hover:border-qivr-blue/50 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-start space-x-3">
+                  <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0 mt-0.5 ${
+                    currentResponse === value
+                      ? 'border-qivr-blue bg-qivr-blue'
+                      : 'border-gray-300'
+                  }`}>
+                    {currentResponse === value && (
+                      <Check className="w-3 h-3 text-white" />
+                    )}
+                  </div>
+                  <span className="text-gray-700">{label}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex space-x-3">
+          {currentQuestion > 0 && (
+            <button
+              onClick={handleBack}
+              className="flex-1 bg-gray-100 text-gray-700 py-4 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors flex items-center justify-center space-x-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </button>
+          )}
+
+          <button
+            onClick={handleNext}
+            disabled={!canProceed || saving}
+            className="flex-1 bg-qivr-blue text-white py-4 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+          >
+            <span>
+              {saving
+                ? 'Saving...'
+                : currentQuestion === totalQuestions - 1
+                ? 'Complete Assessment'
+                : 'Next'}
+            </span>
+            {currentQuestion < totalQuestions - 1 && <ArrowRight className="w-5 h-5" />}
+            {currentQuestion === totalQuestions - 1 && <Check className="w-5 h-5" />}
+          </button>
+        </div>
+
+        <div className="mt-6 flex justify-center space-x-2">
+          {questions.map((_, index) => (
+            <div
+              key={index}
+              className={`h-2 rounded-full transition-all ${
+                index < currentQuestion
+                  ? 'w-8 bg-green-500'
+                  : index === currentQuestion
+                  ? 'w-8 bg-qivr-blue'
+                  : 'w-2 bg-gray-300'
+              }`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { ClipboardList, Plus, TrendingDown, TrendingUp } from 'lucide-react';
+import { PromInstrument, PromResponse, promImprovement } from '../lib/proms';
+
+interface PromHistoryCardProps {
+  instrument: PromInstrument;
+  responses: PromResponse[];
+  // Left out in the clinician portal, where the card is read-only.
+  onTakeAssessment?: () => void;
+}
+
+export function PromHistoryCard({ instrument, responses, onTakeAssessment }: PromHistoryCardProps) {
+
+  const { definition } = instrument;
+  const [minScore, maxScore] = definition.scoreRange;
+  const toPercent = (score: number) => ((score - minScore) / (maxScore - minScore)) * 100;
+
+  const scored = responses.filter((response): response is PromResponse & { score: number } => response.score !== null);
+  const latest = scored[scored.length - 1];
+  const baseline = scored.find(response => response.is_baseline) ?? scored[0];
+  const improvement = latest && baseline && latest !== baseline
+    ? promImprovement(definition, baseline.score, latest.score)
+    : null;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-[#1F2937]">{instrument.short_name}</h2>
+          <p className="text-sm text-gray-600">{instrument.name}</p>
+        </div>
+        <ClipboardList className="w-5 h-5 text-qivr-blue flex-shrink-0" />
+      </div>
+
+      {!latest ? (
+        <p className="text-sm text-gray-600 mb-4">
+          {onTakeAssessment ? `${instrument.description} Take it now to set your baseline.` : `No ${instrument.short_name} responses recorded yet.`}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-baseline space-x-2 mb-1">
+            <span className="text-4xl font-bold text-[#1F2937]">{latest.score}</span>
+            <span className="text-sm text-gray-500">of {maxScore}</span>
+            {improvement !== null && improvement !== 0 && (
+              <span className={`flex items-center space-x-1 text-sm font-medium ${improvement > 0 ? 'text-green-600' : 'text-orange-600'}`}>
+                {latest.score < baseline.score ? <TrendingDown className="w-4 h-4" /> : <TrendingUp className="w-4 h-4" />}
+                <span>{Math.abs(latest.score - baseline.score).toFixed(1)} since baseline</span>
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            {definition.higherIsBetter ? 'Higher' : 'Lower'} is better • Last taken{' '}
+            {new Date(latest.assessment_date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' })}
+          </p>
+
+          {improvement !== null && improvement >= definition.mcid && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4">
+              <p className="text-sm text-green-800">
+                <strong>Meaningful improvement:</strong> the score has changed by more than {definition.mcid} points since baseline.
+              </p>
+            </div>
+          )}
+
+          {scored.length > 1 && (
+            <div className="h-32 flex items-end justify-between space-x-2 mb-4">
+              {scored.map(response => (
+                <div key={response.id} className="flex-1 flex flex-col items-center">
+                  <div
+                    className="w-full bg-qivr-blue rounded-t"
+                    style={{ height: `${Math.max(toPercent(response.score), 4)}px` }}
+                    title={`${response.score} - ${new Date(response.assessment_date).toLocaleDateString()}`}
+                  />
+                  <span className="text-xs text-gray-500 mt-2">
+                    {new Date(response.assessment_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {definition.subscales.length > 0 && (
+            <div className="space-y-3 mb-4">
+              {definition.subscales.map(subscale => {
+                const value = latest.subscale_scores[subscale.id];
+                return (
+                  <div key={subscale.id} className="flex items-center">
+                    <span className="text-sm text-gray-700 w-32">{subscale.label}</span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-2 mx-3">
+                      <div
+                        className="h-2 rounded-full bg-qivr-blue"
+                        style={{ width: `${value === null || value === undefined ? 0 : toPercent(value)}%` }}
+                      />
+                    </div>
+                    <span className="text-sm font-semibold text-gray-900 w-10 text-right">{value ?? '—'}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {onTakeAssessment && (
+        <button
+          onClick={onTakeAssessment}
+          className="w-full bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Take {instrument.short_name}</span>
+        </button>
+      )}
+    </div>
+  );
+}
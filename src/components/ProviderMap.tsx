@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MapPin, Plus, Minus } from 'lucide-react';
+import { Provider } from '../lib/providers';
+import {
+  LatLng,
+  SearchOrigin,
+  fitBounds,
+  hasLocation,
+  mapAttribution,
+  mapTileUrl,
+  metersPerPixel,
+  pixelToLatLng,
+  projectToPixel,
+  visibleTiles,
+} from '../lib/geo';
+
+interface ProviderMapProps {
+  providers: Provider[];
+  origin?: SearchOrigin | null;
+  radiusKm?: number | null;
+  selectedProviderId?: string | null;
+  onSelectProvider: (provider: Provider) => void;
+  tileUrl?: string;
+}
+
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 18;
+const MAP_HEIGHT = 384;
+
+export function ProviderMap({
+  providers,
+  origin,
+  radiusKm,
+  selectedProviderId,
+  onSelectProvider,
+  tileUrl = mapTileUrl,
+}: ProviderMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; center: LatLng } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<{ center: LatLng; zoom: number } | null>(null);
+
+  const located = useMemo(() => providers.filter(hasLocation), [providers]);
+  const unmapped = providers.length - located.length;
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    setWidth(element.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Refits only when the providers or origin change, so panning and zooming aren't undone on every render.
+  useEffect(() => {
+    if (width === 0) return;
+    const points: LatLng[] = [...located, ...(origin ? [origin] : [])];
+    setView(fitBounds(points, { width, height: MAP_HEIGHT }, { minZoom: MIN_ZOOM }));
+  }, [located, origin, width]);
+
+  const viewport = { width, height: MAP_HEIGHT };
+  const centerPixel = view ? projectToPixel(view.center, view.zoom) : { x: 0, y: 0 };
+
+  const toScreen = (point: LatLng) => {
+    const pixel = projectToPixel(point, view!.zoom);
+    return { left: pixel.x - centerPixel.x + width / 2, top: pixel.y - centerPixel.y + MAP_HEIGHT / 2 };
+  };
+
+  const zoomBy = (delta: number) => {
+    setView(current => current && {
+      ...current,
+      zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom + delta)),
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!view || (e.target as HTMLElement).closest('button')) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, center: view.center };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !view) return;
+    const start = projectToPixel(drag.center, view.zoom);
+    setView({
+      zoom: view.zoom,
+      center: pixelToLatLng({ x: start.x - (e.clientX - drag.x), y: start.y - (e.clientY - drag.y) }, view.zoom),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden bg-gray-100 touch-none select-none cursor-grab active:cursor-grabbing"
+        style={{ height: MAP_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {view && visibleTiles(view.center, view.zoom, viewport, tileUrl).map(tile => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            className="absolute w-64 h-64 max-w-none pointer-events-none"
+            style={{ left: tile.left, top: tile.top }}
+          />
+        ))}
+
+        {view && origin && radiusKm && (() => {
+          const radius = (radiusKm * 1000) / metersPerPixel(origin.latitude, view.zoom);
+          const { left, top } = toScreen(origin);
+          return (
+            <div
+              className="absolute rounded-full border-2 border-qivr-blue/60 bg-qivr-blue/10 pointer-events-none"
+              style={{ left: left - radius, top: top - radius, width: radius * 2, height: radius * 2 }}
+            />
+          );
+        })()}
+
+        {view && origin && (
+          <div
+            className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-qivr-blue border-2 border-white shadow pointer-events-none"
+            style={toScreen(origin)}
+            title={`Searching near ${origin.label}`}
+          />
+        )}
+
+        {view && located.map(provider => {
+          const selected = provider.id === selectedProviderId;
+          return (
+            <button
+              key={provider.id}
+              onClick={() => onSelectProvider(provider)}
+              className={`absolute -translate-x-1/2 -translate-y-full ${selected ? 'z-10' : ''}`}
+              style={toScreen(provider)}
+              aria-label={`${provider.provider_name}, ${provider.practice_name}`}
+              title={provider.provider_name}
+            >
+              <MapPin
+                className={`w-8 h-8 drop-shadow ${selected ? 'text-red-600 fill-red-100' : 'text-qivr-blue fill-white'}`}
+              />
+            </button>
+          );
+        })}
+
+        <div className="absolute top-3 right-3 flex flex-col bg-white rounded-lg shadow border border-gray-200">
+          <button
+            onClick={() => zoomBy(1)}
+            className="p-2 text-gray-700 hover:bg-gray-50 border-b border-gray-200"
+            aria-label="Zoom in"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => zoomBy(-1)}
+            className="p-2 text-gray-700 hover:bg-gray-50"
+            aria-label="Zoom out"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="absolute bottom-0 right-0 bg-white/80 px-1.5 py-0.5 text-[10px] text-gray-600">
+          {mapAttribution}
+        </div>
+      </div>
+
+      {unmapped > 0 && (
+        <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-200">
+          {unmapped} {unmapped === 1 ? 'provider has' : 'providers have'} no mapped address and only
+          {unmapped === 1 ? ' appears' : ' appear'} in the list.
+        </p>
+      )}
+    </div>
+  );
+}
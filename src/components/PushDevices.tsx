@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Smartphone, Monitor, Send, Trash2, Plus, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  PushDevice,
+  TestPushResult,
+  getCurrentPushSubscription,
+  getPushPermission,
+  isPushSupported,
+  listPushDevices,
+  registerPushDevice,
+  revokePushDevice,
+  sendTestPush,
+} from '../lib/pushNotifications';
+
+interface PushDevicesProps {
+  patientId: string;
+  // Bumped by the parent after it registers this device itself.
+  reloadKey?: number;
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function summarizeResults(results: TestPushResult[]): { ok: boolean; text: string } {
+  const sent = results.filter(r => r.status === 'sent').length;
+  const removed = results.filter(r => r.status === 'removed').length;
+  const failed = results.filter(r => r.status === 'failed').length;
+
+  if (results.length === 0) return { ok: false, text: 'No devices to send to' };
+
+  const parts = [`Test sent to ${sent} device${sent === 1 ? '' : 's'}`];
+  if (removed) parts.push(`${removed} expired device${removed === 1 ? '' : 's'} removed`);
+  if (failed) parts.push(`${failed} failed`);
+  return { ok: sent > 0 && failed === 0, text: parts.join(', ') };
+}
+
+export function PushDevices({ patientId, reloadKey = 0 }: PushDevicesProps) {
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const supported = isPushSupported();
+
+  const loadDevices = useCallback(async () => {
+    try {
+      const [list, subscription] = await Promise.all([
+        listPushDevices(patientId),
+        getCurrentPushSubscription(),
+      ]);
+      setDevices(list);
+      setCurrentEndpoint(subscription?.endpoint ?? null);
+    } catch (error) {
+      console.error('Error loading push devices:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices, reloadKey]);
+
+  const addThisDevice = async () => {
+    try {
+      setBusyId('this-device');
+      setStatus(null);
+      await registerPushDevice(patientId);
+      await loadDevices();
+    } catch (error) {
+      console.error('Error registering push device:', error);
+      setStatus({ ok: false, text: error instanceof Error ? error.message : 'Could not turn on push for this device' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revoke = async (device: PushDevice) => {
+    if (!confirm(`Stop sending notifications to ${device.device_label || 'this device'}?`)) return;
+
+    try {
+      setBusyId(device.id);
+      setStatus(null);
+      await revokePushDevice(device);
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+      if (device.endpoint === currentEndpoint) setCurrentEndpoint(null);
+    } catch (error) {
+      console.error('Error revoking push device:', error);
+      setStatus({ ok: false, text: 'Could not remove the device. Please try again.' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const sendTest = async (deviceId?: string) => {
+    try {
+      setBusyId(deviceId ?? 'all');
+      setStatus(null);
+      const results = await sendTestPush(deviceId);
+      setStatus(summarizeResults(results));
+      await loadDevices();
+    } catch (error) {
+      console.error('Error sending test push:', error);
+      setStatus({ ok: false, text: 'Could not send a test notification. Please try again.' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const thisDeviceRegistered = devices.some(d => d.endpoint === currentEndpoint);
+  const permission = getPushPermission();
+  const canAddThisDevice = supported && !thisDeviceRegistered && permission !== 'denied';
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <Smartphone className="w-5 h-5 text-qivr-blue" />
+          <h2 className="text-lg font-semibold text-[#1F2937]">Your Devices</h2>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">Devices that receive push notifications</p>
+      </div>
+
+      {!supported && (
+        <div className="mx-6 mt-4 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-600">
+          This browser can't receive push notifications. On iPhone and iPad, add Qivr to your Home Screen first.
+        </div>
+      )}
+
+      {supported && permission === 'denied' && (
+        <div className="mx-6 mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+          Notifications are blocked for this site. Allow them in your browser settings to receive push notifications here.
+        </div>
+      )}
+
+      {loading ? (
+        <div className="px-6 py-8 flex justify-center">
+          <div className="w-8 h-8 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {devices.length === 0 && (
+            <p className="px-6 py-4 text-sm text-gray-500">No devices registered yet</p>
+          )}
+
+          {devices.map(device => {
+            const isThisDevice = device.endpoint === currentEndpoint;
+            const DeviceIcon = /Android|iOS/.test(device.device_label ?? '') ? Smartphone : Monitor;
+
+            return (
+              <div key={device.id} className="flex items-center px-6 py-4 space-x-3">
+                <div className="w-10 h-10 bg-qivr-blue/10 rounded-full flex items-center justify-center flex-shrink-0">
+                  <DeviceIcon className="w-5 h-5 text-qivr-blue" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900 truncate">{device.device_label || 'Unknown device'}</span>
+                    {isThisDevice && (
+                      <span className="px-2 py-0.5 bg-qivr-blue/10 text-qivr-blue text-xs font-medium rounded-full flex-shrink-0">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    Added {formatDate(device.created_at)}
+                    {device.last_used_at && ` · Last notified ${formatDate(device.last_used_at)}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => sendTest(device.id)}
+                  disabled={busyId !== null}
+                  className="p-2 text-gray-500 hover:text-qivr-blue hover:bg-qivr-blue/10 rounded-lg transition-colors disabled:opacity-50"
+                  title="Send test notification"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => revoke(device)}
+                  disabled={busyId !== null}
+                  className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  title="Remove device"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(status || canAddThisDevice || devices.length > 0) && (
+        <div className="px-6 py-4 border-t border-gray-200 space-y-3">
+          {status && (
+            <div className={`flex items-start space-x-2 text-sm ${status.ok ? 'text-green-700' : 'text-red-600'}`}>
+              {status.ok ? <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+              <span>{status.text}</span>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            {canAddThisDevice && (
+              <button
+                onClick={addThisDevice}
+                disabled={busyId !== null}
+                className="flex-1 flex items-center justify-center space-x-2 bg-qivr-blue text-white py-2.5 px-4 rounded-lg font-medium hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>{busyId === 'this-device' ? 'Adding...' : 'Add this device'}</span>
+              </button>
+            )}
+            {devices.length > 0 && (
+              <button
+                onClick={() => sendTest()}
+                disabled={busyId !== null}
+                className="flex-1 flex items-center justify-center space-x-2 bg-gray-100 text-gray-700 py-2.5 px-4 rounded-lg font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <Send className="w-4 h-4" />
+                <span>{busyId === 'all' ? 'Sending...' : 'Send test to all'}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { AlertTriangle, Phone } from 'lucide-react';
+import { TriageHit, EMERGENCY_NUMBER, highestSeverity } from '../lib/triage';
+
+interface RedFlagAlertProps {
+  hits: TriageHit[];
+  onAcknowledge: () => void;
+}
+
+export function RedFlagAlert({ hits, onAcknowledge }: RedFlagAlertProps) {
+  const isEmergency = highestSeverity(hits) === 'emergency';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto" role="alertdialog" aria-modal="true">
+        <div className={`px-6 py-5 rounded-t-2xl ${isEmergency ? 'bg-red-600' : 'bg-amber-500'}`}>
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 bg-white/20 rounded-full flex items-center justify-center flex-shrink-0">
+              <AlertTriangle className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">
+                {isEmergency ? 'Seek emergency care now' : 'Contact your care team today'}
+              </h2>
+              <p className="text-sm text-white/90">
+                What you described can be a warning sign after surgery.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {hits.map(hit => (
+            <div
+              key={hit.rule.id}
+              className={`p-4 rounded-lg border ${
+                hit.rule.severity === 'emergency' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+              }`}
+            >
+              <div className="flex items-start justify-between mb-1">
+                <h3 className="font-semibold text-gray-900">{hit.rule.title}</h3>
+                <span className="text-xs text-gray-500 ml-3 flex-shrink-0">{hit.evidence}</span>
+              </div>
+              <p className="text-sm text-gray-700">{hit.rule.guidance}</p>
+            </div>
+          ))}
+
+          {isEmergency && (
+            <a
+              href={`tel:${EMERGENCY_NUMBER}`}
+              className="w-full flex items-center justify-center space-x-2 bg-red-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-red-700 transition-colors"
+            >
+              <Phone className="w-5 h-5" />
+              <span>Call {EMERGENCY_NUMBER}</span>
+            </a>
+          )}
+
+          <p className="text-xs text-gray-500">
+            This report has been saved for your care team to review, but Qivr is not monitored in real time. Please act on this guidance rather than waiting for a reply.
+          </p>
+
+          <button
+            onClick={onAcknowledge}
+            className="w-full py-3 px-6 border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            I understand
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
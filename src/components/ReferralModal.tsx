@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Provider, getSpecialtyLabel } from '../lib/providers';
+import { createReferral } from '../lib/referrals';
+import { describeCareTeam, loadCareTeam } from '../lib/careTeam';
+
+interface ReferralModalProps {
+  provider: Provider;
+  initialReason?: string;
+  previousReferralId?: string;
+  onClose: () => void;
+  onSuccess: (referralId: string) => void;
+}
+
+export function ReferralModal({ provider, initialReason = '', previousReferralId, onClose, onSuccess }: ReferralModalProps) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    referral_reason: initialReason,
+    notes: '',
+  });
+
+  // Lists the rest of the care team in the notes unless the patient has already typed some.
+  useEffect(() => {
+    if (!user) return;
+
+    loadCareTeam(user.id)
+      .then(team => {
+        const summary = describeCareTeam(team, provider.id);
+        if (summary) setFormData(current => (current.notes ? current : { ...current, notes: summary }));
+      })
+      .catch(error => console.error('Error loading care team:', error));
+  }, [user, provider.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    try {
+      setSaving(true);
+      const referralId = await createReferral(user.id, {
+        provider_id: provider.id,
+        referral_reason: formData.referral_reason,
+        notes: formData.notes,
+        previous_referral_id: previousReferralId,
+      });
+      onSuccess(referralId);
+    } catch (error) {
+      console.error('Error creating referral:', error);
+      alert('Failed to create referral');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">
+            {previousReferralId ? 'Re-refer' : 'Book Appointment'}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+            <h3 className="font-semibold text-gray-900 mb-1">{provider.provider_name}</h3>
+            <p className="text-sm text-gray-600">{provider.practice_name}</p>
+            <p className="text-sm text-gray-600 mt-2">
+              {getSpecialtyLabel(provider.specialty)}
+              {provider.subspecialty && ` - ${provider.subspecialty.replace('_', ' ')}`}
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reason for Appointment
+              </label>
+              <textarea
+                required
+                value={formData.referral_reason}
+                onChange={(e) => setFormData({ ...formData, referral_reason: e.target.value })}
+                rows={3}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
+                placeholder="e.g., Persistent lower back pain requiring surgical evaluation"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Additional Notes (Optional)
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={formData.notes.includes('\n') ? 4 : 2}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
+                placeholder="Any additional information..."
+              />
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+              <p className="text-sm text-blue-800">
+                This appointment request will be saved to your records. The provider's office will contact you to confirm your appointment date and time.
+              </p>
+            </div>
+
+            <div className="flex space-x-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Booking...' : 'Book Appointment'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { X, Mail, Copy, Check, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { paths } from '../lib/routes';
+import { CareTeamMember, getCareTeamRoleLabel, loadCareTeam } from '../lib/careTeam';
+import { ProgressReport, reportMailtoUrl, reportRecipients } from '../lib/progressReport';
+
+interface ShareProgressReportModalProps {
+  report: ProgressReport;
+  onClose: () => void;
+}
+
+export function ShareProgressReportModal({ report, onClose }: ShareProgressReportModalProps) {
+  const { user } = useAuth();
+  const { navigate } = useRouter();
+  const [members, setMembers] = useState<CareTeamMember[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadCareTeam(user.id)
+      .then(team => {
+        setMembers(team);
+        setSelectedIds(team.filter(member => member.receives_reports && member.provider.email).map(member => member.id));
+      })
+      .catch(error => console.error('Error loading care team:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const recipients = reportRecipients(members, selectedIds);
+
+  const toggleMember = (memberId: string) => {
+    setSelectedIds(selectedIds.includes(memberId)
+      ? selectedIds.filter(id => id !== memberId)
+      : [...selectedIds, memberId]);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(`${report.subject}\n\n${report.body}`);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying report:', error);
+      alert('Failed to copy report');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">Share Progress Report</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Send to</h3>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <div className="w-8 h-8 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : members.length === 0 ? (
+              <div className="bg-gray-50 rounded-lg p-4 text-center">
+                <Users className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                <p className="text-sm text-gray-600 mb-3">
+                  Add the clinicians you see to your care team to send them your progress.
+                </p>
+                <button
+                  onClick={() => navigate(paths.careTeam)}
+                  className="text-sm font-medium text-qivr-blue hover:text-qivr-blue-dark"
+                >
+                  Set up my care team
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {members.map(member => (
+                  <label
+                    key={member.id}
+                    className={`flex items-center space-x-3 p-3 rounded-lg border border-gray-200 ${
+                      member.provider.email ? 'cursor-pointer hover:bg-gray-50' : 'opacity-60'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(member.id)}
+                      disabled={!member.provider.email}
+                      onChange={() => toggleMember(member.id)}
+                      className="w-5 h-5 rounded text-qivr-blue focus:ring-qivr-blue"
+                    />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{member.provider.provider_name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {getCareTeamRoleLabel(member.role)}
+                        {' • '}
+                        {member.provider.email || 'No email on file'}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Report</h3>
+            <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-700 whitespace-pre-wrap font-sans max-h-60 overflow-y-auto">
+              {report.body}
+            </pre>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleCopy}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors flex items-center justify-center space-x-2"
+            >
+              {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+              <span>{copied ? 'Copied' : 'Copy'}</span>
+            </button>
+            <a
+              href={recipients.length > 0 ? reportMailtoUrl(recipients, report) : undefined}
+              aria-disabled={recipients.length === 0}
+              className={`flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold transition-colors flex items-center justify-center space-x-2 ${
+                recipients.length > 0 ? 'hover:bg-qivr-blue-dark' : 'opacity-50 cursor-not-allowed'
+              }`}
+            >
+              <Mail className="w-5 h-5" />
+              <span>Email</span>
+            </a>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The report opens in your email app so you can review it before it's sent. Choose who's selected by default from your care team.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
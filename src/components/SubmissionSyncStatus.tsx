@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, CheckCircle, AlertCircle, WifiOff } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  listSubmissions,
+  retrySubmission,
+  subscribeToSubmissions,
+  submissionLabels,
+  QueuedSubmission,
+  SubmissionStatus,
+} from '../lib/offlineQueue';
+
+const RECENTLY_SYNCED_MS = 24 * 60 * 60 * 1000;
+
+const statusDisplay: Record<SubmissionStatus, { icon: typeof CloudOff; label: string; className: string }> = {
+  pending: { icon: CloudOff, label: 'Saved on this device', className: 'text-amber-600' },
+  syncing: { icon: RefreshCw, label: 'Sending...', className: 'text-qivr-blue' },
+  synced: { icon: CheckCircle, label: 'Synced', className: 'text-green-600' },
+  failed: { icon: AlertCircle, label: 'Could not be saved', className: 'text-red-600' },
+};
+
+export function SubmissionSyncStatus() {
+  const { user } = useAuth();
+  const [submissions, setSubmissions] = useState<QueuedSubmission[]>([]);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const refresh = () => {
+      listSubmissions(user.id)
+        .then(all => {
+          if (!cancelled) setSubmissions(all);
+        })
+        .catch(error => console.error('Error loading queued submissions:', error));
+    };
+
+    refresh();
+    const unsubscribe = subscribeToSubmissions(refresh);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const visible = submissions.filter(submission =>
+    submission.status !== 'synced' ||
+    Date.now() - new Date(submission.syncedAt ?? submission.savedAt).getTime() < RECENTLY_SYNCED_MS
+  );
+
+  if (online && visible.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+      {!online && (
+        <div className="flex items-start space-x-3 px-4 py-3 bg-amber-50 border-b border-amber-100">
+          <WifiOff className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-800">
+            You're offline. Check-ins and assessments are saved on this device and sent automatically when you reconnect.
+          </p>
+        </div>
+      )}
+
+      {visible.length > 0 && (
+        <div className="divide-y divide-gray-100">
+          {visible.map(submission => {
+            const display = statusDisplay[submission.status];
+            const Icon = display.icon;
+
+            return (
+              <div key={submission.key} className="flex items-center justify-between px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{submissionLabels[submission.kind]}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(`${submission.date}T00:00:00`).toLocaleDateString('en-US', {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                    })}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <span className={`inline-flex items-center space-x-1 text-xs font-medium ${display.className}`}>
+                    <Icon className={`w-4 h-4 ${submission.status === 'syncing' ? 'animate-spin' : ''}`} />
+                    <span>{display.label}</span>
+                  </span>
+                  {submission.status === 'failed' && (
+                    <button
+                      onClick={() => retrySubmission(submission)}
+                      className="text-xs font-semibold text-qivr-blue hover:text-qivr-blue-dark"
+                    >
+                      Retry
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { Pill, ChevronRight, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { ScheduledDose, dosesForDate, formatDoseTime, loadDoseLogs, loadMedications } from '../lib/medications';
+import { localDateString } from '../lib/dates';
+import { paths } from '../lib/routes';
+
+export function TodaysMedications() {
+  const { user } = useAuth();
+  const { navigate } = useRouter();
+  const [doses, setDoses] = useState<ScheduledDose[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    const today = localDateString();
+
+    Promise.all([loadMedications(user.id), loadDoseLogs(user.id, today)])
+      .then(([medications, logs]) => {
+        if (!cancelled) setDoses(dosesForDate(medications, logs, today));
+      })
+      .catch(error => console.error("Error loading today's medications:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (doses.length === 0) return null;
+
+  const taken = doses.filter(d => d.log?.status === 'taken').length;
+  const next = doses.find(d => !d.log);
+
+  return (
+    <button
+      onClick={() => navigate(paths.medications)}
+      className="w-full bg-white rounded-2xl p-4 border border-gray-200 flex items-center space-x-3 text-left hover:border-qivr-blue transition-colors"
+    >
+      <div className="w-10 h-10 bg-qivr-blue/10 rounded-full flex items-center justify-center flex-shrink-0">
+        {next ? <Pill className="w-5 h-5 text-qivr-blue" /> : <CheckCircle className="w-5 h-5 text-green-600" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <h3 className="font-semibold text-gray-900">Today's Medications</h3>
+        <p className="text-sm text-gray-600 truncate">
+          {next
+            ? `Next: ${next.medication.name} ${next.dose} at ${formatDoseTime(next.time)}`
+            : 'All doses logged for today'}
+        </p>
+      </div>
+      <span className="text-sm font-medium text-qivr-blue">{taken}/{doses.length}</span>
+      <ChevronRight className="w-5 h-5 text-gray-400" />
+    </button>
+  );
+}
@@ -1,12 +1,18 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase, PatientProfile } from '../lib/supabase';
+import { ClinicianAccount, loadClinicianAccount } from '../lib/clinician';
+import { detectTimeZone } from '../lib/reminders';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   profile: PatientProfile | null;
+  clinician: ClinicianAccount | null;
   loading: boolean;
+  // True when the profile could not be loaded and there is no saved copy, so it is unknown rather than empty.
+  profileError: boolean;
+  reloadProfile: () => Promise<void>;
   signUp: (email: string, password: string, fullName: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
@@ -15,11 +21,61 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const ACCOUNT_STORAGE_KEY = 'qivr.auth.account';
+
+type CachedAccount = {
+  userId: string;
+  profile: PatientProfile | null;
+  clinician: ClinicianAccount | null;
+};
+
+function readCachedAccount(userId: string): CachedAccount | null {
+  try {
+    const cached: CachedAccount | null = JSON.parse(localStorage.getItem(ACCOUNT_STORAGE_KEY) ?? 'null');
+    return cached?.userId === userId ? cached : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCachedAccount(account: CachedAccount | null) {
+  try {
+    if (account) {
+      localStorage.setItem(ACCOUNT_STORAGE_KEY, JSON.stringify(account));
+    } else {
+      localStorage.removeItem(ACCOUNT_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving account to this device:', error);
+  }
+}
+
+// Check-ins are dated by the device's calendar and reminders by the profile's time zone, so the two must agree.
+async function syncTimeZone(profile: PatientProfile): Promise<string | null> {
+  const timeZone = detectTimeZone();
+  if (profile.time_zone === timeZone) return null;
+
+  const { error } = await supabase
+    .from('patient_profiles')
+    .update({ time_zone: timeZone, updated_at: new Date().toISOString() })
+    .eq('id', profile.id);
+
+  if (error) {
+    console.error('Error updating time zone:', error);
+    return null;
+  }
+  return timeZone;
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<PatientProfile | null>(null);
+  const [clinician, setClinician] = useState<ClinicianAccount | null>(null);
   const [loading, setLoading] = useState(true);
+  const [profileError, setProfileError] = useState(false);
+  // The user the current profile belongs to, so a token refresh doesn't count as a new sign-in.
+  const loadedUserId = useRef<string | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -37,9 +93,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         if (session?.user) {
+          // Until a new user's profile is in, App can't tell whether they still need onboarding.
+          if (session.user.id !== loadedUserId.current) setLoading(true);
           loadProfile(session.user.id);
         } else {
+          loadedUserId.current = null;
           setProfile(null);
+          setClinician(null);
+          setProfileError(false);
+          writeCachedAccount(null);
           setLoading(false);
         }
       })();
@@ -49,22 +111,52 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   async function loadProfile(userId: string) {
+    const cached = readCachedAccount(userId);
+
     try {
-      const { data, error } = await supabase
-        .from('patient_profiles')
-        .select('*')
-        .eq('id', userId)
-        .maybeSingle();
+      const [{ data, error }, account] = await Promise.all([
+        supabase
+          .from('patient_profiles')
+          .select('*')
+          .eq('id', userId)
+          .maybeSingle(),
+        // A missing clinician account is the normal case, so a failure here shouldn't stop patients signing in.
+        loadClinicianAccount(userId).catch(error => {
+          console.error('Error loading clinician account:', error);
+          return cached?.clinician ?? null;
+        }),
+      ]);
 
       if (error) throw error;
       setProfile(data);
+      setClinician(account);
+      setProfileError(false);
+      writeCachedAccount({ userId, profile: data, clinician: account });
+      if (data) {
+        syncTimeZone(data).then(timeZone => {
+          if (timeZone) setProfile(current => (current && current.id === data.id ? { ...current, time_zone: timeZone } : current));
+        });
+      }
     } catch (error) {
       console.error('Error loading profile:', error);
+      // Offline on a cold start, the last profile seen beats sending the patient back through onboarding.
+      if (cached) {
+        setProfile(cached.profile);
+        setClinician(cached.clinician);
+      }
+      setProfileError(!cached);
     } finally {
+      loadedUserId.current = userId;
       setLoading(false);
     }
   }
 
+  async function reloadProfile() {
+    if (!user) return;
+    setLoading(true);
+    await loadProfile(user.id);
+  }
+
   async function signUp(email: string, password: string, fullName: string) {
     const { data, error } = await supabase.auth.signUp({
       email,
@@ -116,7 +208,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     user,
     session,
     profile,
+    clinician,
     loading,
+    profileError,
+    reloadProfile,
     signUp,
     signIn,
     signOut,
@@ -0,0 +1,71 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+interface RouterContextType {
+  pathname: string;
+  searchParams: URLSearchParams;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+function readLocation() {
+  return {
+    pathname: window.location.pathname,
+    search: window.location.search,
+  };
+}
+
+export function RouterProvider({ children }: { children: ReactNode }) {
+  const [location, setLocation] = useState(readLocation);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readLocation());
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    const current = window.location.pathname + window.location.search;
+    if (to === current) return;
+
+    if (options.replace) {
+      window.history.replaceState(null, '', to);
+    } else {
+      window.history.pushState(null, '', to);
+      window.scrollTo(0, 0);
+    }
+
+    setLocation(readLocation());
+  }, []);
+
+  const value = {
+    pathname: location.pathname,
+    searchParams: new URLSearchParams(location.search),
+    navigate,
+  };
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+}
+
+export function useRouter() {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+}
+
+export function Redirect({ to }: { to: string }) {
+  const { navigate } = useRouter();
+
+  useEffect(() => {
+    navigate(to, { replace: true });
+  }, [to, navigate]);
+
+  return null;
+}
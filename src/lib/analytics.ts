@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { DisabilityIndex, disabilityIndexes } from './disabilityIndex';
+import { localDateString } from './dates';
 
 interface ODIAssessment {
   id: string;
@@ -20,15 +22,14 @@ interface AnalyticsResult {
   plateauDetected: boolean;
 }
 
-const ODI_MCID_THRESHOLD = 10;
-
-export async function calculateAnalytics(patientId: string): Promise<AnalyticsResult> {
+// Analytics follow whichever disability index the patient is tracked with.
+export async function calculateAnalytics(patientId: string, instrument: DisabilityIndex = 'odi'): Promise<AnalyticsResult> {
   const [odiData, vasData] = await Promise.all([
-    fetchODIAssessments(patientId),
+    fetchDisabilityAssessments(patientId, instrument),
     fetchVASScores(patientId),
   ]);
 
-  const timeToMCID = calculateTimeToMCID(odiData);
+  const timeToMCID = calculateTimeToMCID(odiData, disabilityIndexes[instrument].mcidThreshold);
   const trajectorySlope = calculateTrajectorySlope(odiData);
   const painFunctionCorrelation = calculatePainFunctionCorrelation(odiData, vasData);
   const weeksSinceBaseline = calculateWeeksSinceBaseline(odiData);
@@ -47,9 +48,9 @@ export async function calculateAnalytics(patientId: string): Promise<AnalyticsRe
   return result;
 }
 
-async function fetchODIAssessments(patientId: string): Promise<ODIAssessment[]> {
+async function fetchDisabilityAssessments(patientId: string, instrument: DisabilityIndex): Promise<ODIAssessment[]> {
   const { data, error } = await supabase
-    .from('odi_assessments')
+    .from(disabilityIndexes[instrument].table)
     .select('id, assessment_date, percentage_score, is_baseline')
     .eq('patient_id', patientId)
     .order('assessment_date', { ascending: true });
@@ -72,7 +73,10 @@ async function fetchVASScores(patientId: string): Promise<VASScore[]> {
   return data || [];
 }
 
-function calculateTimeToMCID(assessments: ODIAssessment[]): number | null {
+export function calculateTimeToMCID(
+  assessments: ODIAssessment[],
+  mcidThreshold = disabilityIndexes.odi.mcidThreshold
+): number | null {
   if (assessments.length < 2) return null;
 
   const baseline = assessments.find(a => a.is_baseline) || assessments[0];
@@ -81,7 +85,7 @@ function calculateTimeToMCID(assessments: ODIAssessment[]): number | null {
   for (const assessment of assessments) {
     const improvement = baselineScore - assessment.percentage_score;
 
-    if (improvement >= ODI_MCID_THRESHOLD) {
+    if (improvement >= mcidThreshold) {
       const baselineDate = new Date(baseline.assessment_date);
       const achievementDate = new Date(assessment.assessment_date);
       const diffTime = achievementDate.getTime() - baselineDate.getTime();
@@ -93,7 +97,7 @@ function calculateTimeToMCID(assessments: ODIAssessment[]): number | null {
   return null;
 }
 
-function calculateTrajectorySlope(assessments: ODIAssessment[]): number | null {
+export function calculateTrajectorySlope(assessments: ODIAssessment[]): number | null {
   if (assessments.length < 2) return null;
 
   const recentAssessments = assessments.slice(-4);
@@ -190,7 +194,7 @@ function calculateWeeksSinceBaseline(assessments: ODIAssessment[]): number {
   return diffWeeks;
 }
 
-function detectPlateau(assessments: ODIAssessment[]): boolean {
+export function detectPlateau(assessments: ODIAssessment[]): boolean {
   if (assessments.length < 4) return false;
 
   const recentAssessments = assessments.slice(-4);
@@ -212,7 +216,7 @@ async function saveAnalytics(patientId: string, analytics: AnalyticsResult): Pro
   try {
     await supabase.from('analytics_metrics').upsert({
       patient_id: patientId,
-      metric_date: new Date().toISOString().split('T')[0],
+      metric_date: localDateString(),
       time_to_mcid_days: analytics.timeToMCID,
       current_trajectory_slope: analytics.trajectorySlope,
       pain_function_correlation: analytics.painFunctionCorrelation,
@@ -0,0 +1,189 @@
+import { supabase } from './supabase';
+import { Provider } from './providers';
+
+export type AppointmentStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export type AppointmentProvider = Pick<
+  Provider,
+  'id' | 'provider_name' | 'practice_name' | 'specialty' | 'phone_number' | 'address' | 'city' | 'state' | 'zip_code'
+>;
+
+export type Appointment = {
+  id: string;
+  patient_id: string;
+  provider_id: string | null;
+  referral_id: string | null;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  location: string;
+  notes: string;
+  status: AppointmentStatus;
+  created_at: string;
+  updated_at: string;
+  provider: AppointmentProvider | null;
+};
+
+export type AppointmentInput = Pick<
+  Appointment,
+  'provider_id' | 'referral_id' | 'title' | 'starts_at' | 'ends_at' | 'location' | 'notes'
+>;
+
+const APPOINTMENT_COLUMNS = `
+  *,
+  provider:healthcare_providers(id, provider_name, practice_name, specialty, phone_number, address, city, state, zip_code)
+`;
+
+const CALENDAR_FEED_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+export function appointmentLocation(appointment: Pick<Appointment, 'location' | 'provider'>): string {
+  if (appointment.location) return appointment.location;
+  const provider = appointment.provider;
+  if (!provider) return '';
+  return `${provider.practice_name}, ${provider.address}, ${provider.city} ${provider.state} ${provider.zip_code}`;
+}
+
+export function mapsUrl(location: string): string {
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(location)}`;
+}
+
+export function formatTimeRange(appointment: Pick<Appointment, 'starts_at' | 'ends_at'>): string {
+  const format = (value: string) =>
+    new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${format(appointment.starts_at)} – ${format(appointment.ends_at)}`;
+}
+
+export function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Six Monday-first weeks, so every month fits without the grid changing height.
+export function monthGrid(year: number, month: number): Date[] {
+  const first = new Date(year, month, 1);
+  const start = new Date(year, month, 1 - ((first.getDay() + 6) % 7));
+  return Array.from({ length: 42 }, (_, index) =>
+    new Date(start.getFullYear(), start.getMonth(), start.getDate() + index)
+  );
+}
+
+export async function loadAppointments(patientId: string): Promise<Appointment[]> {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_COLUMNS)
+    .eq('patient_id', patientId)
+    .order('starts_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function loadUpcomingAppointments(patientId: string, limit: number): Promise<Appointment[]> {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_COLUMNS)
+    .eq('patient_id', patientId)
+    .eq('status', 'scheduled')
+    .gte('ends_at', new Date().toISOString())
+    .order('starts_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// The `sync_appointment_referral` trigger schedules the linked referral on the appointment's date.
+export async function saveAppointment(
+  patientId: string,
+  input: AppointmentInput,
+  appointmentId?: string
+): Promise<Appointment> {
+  const row = { ...input, updated_at: new Date().toISOString() };
+
+  const { data, error } = appointmentId
+    ? await supabase.from('appointments').update(row).eq('id', appointmentId).select(APPOINTMENT_COLUMNS).single()
+    : await supabase.from('appointments').insert({ ...row, patient_id: patientId }).select(APPOINTMENT_COLUMNS).single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setAppointmentStatus(appointmentId: string, status: AppointmentStatus): Promise<void> {
+  const { error } = await supabase
+    .from('appointments')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', appointmentId);
+
+  if (error) throw error;
+}
+
+export async function deleteAppointment(appointmentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('appointments')
+    .delete()
+    .eq('id', appointmentId);
+
+  if (error) throw error;
+}
+
+export async function downloadAppointmentIcs(appointment: Appointment): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${CALENDAR_FEED_URL}?appointment=${encodeURIComponent(appointment.id)}`, {
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Calendar download failed with ${response.status}`);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${appointment.title.replace(/[^\w\s-]/g, '').trim() || 'appointment'}.ics`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function calendarFeedUrls(token: string): { https: string; webcal: string } {
+  const https = `${CALENDAR_FEED_URL}?token=${encodeURIComponent(token)}`;
+  return { https, webcal: https.replace(/^https?:/, 'webcal:') };
+}
+
+export async function getCalendarFeedToken(patientId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('patient_id', patientId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.token ?? null;
+}
+
+// Also used to reset the link: the old token stops working as soon as its row is gone.
+export async function createCalendarFeedToken(patientId: string): Promise<string> {
+  await deleteCalendarFeed(patientId);
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ patient_id: patientId })
+    .select('token')
+    .single();
+
+  if (error) throw error;
+  return data.token;
+}
+
+export async function deleteCalendarFeed(patientId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .delete()
+    .eq('patient_id', patientId);
+
+  if (error) throw error;
+}
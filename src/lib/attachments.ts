@@ -0,0 +1,100 @@
+import { supabase } from './supabase';
+import { copyFile, patientObjectPath, removeFile, safeFileName, uploadFile } from './storage';
+import { createMedicalRecord, newRecordPath, DocumentType, MEDICAL_RECORDS_BUCKET } from './medicalRecords';
+
+export const CHAT_ATTACHMENTS_BUCKET = 'chat-attachments';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+export const ACCEPTED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+// Stored in `chat_messages.metadata.attachments`; the object itself stays private in storage.
+export type ChatAttachment = {
+  bucket: string;
+  path: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  medical_record_id?: string;
+};
+
+export function isImageAttachment(attachment: Pick<ChatAttachment, 'mime_type'>): boolean {
+  return attachment.mime_type.startsWith('image/');
+}
+
+export function validateAttachment(file: File): string | null {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file. Attach a photo (JPG, PNG, WebP, HEIC) or a PDF.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`;
+  }
+  return null;
+}
+
+export async function uploadChatAttachment(
+  patientId: string,
+  chatSessionId: string,
+  file: File
+): Promise<ChatAttachment> {
+  const path = patientObjectPath(patientId, chatSessionId, `${Date.now()}-${safeFileName(file.name)}`);
+  await uploadFile(CHAT_ATTACHMENTS_BUCKET, path, file);
+
+  return {
+    bucket: CHAT_ATTACHMENTS_BUCKET,
+    path,
+    name: file.name,
+    mime_type: file.type,
+    size: file.size,
+  };
+}
+
+// Used as the model-facing text for a message, since providers only see plain text.
+export function describeAttachments(attachments: ChatAttachment[]): string {
+  if (attachments.length === 0) return '';
+  return `[Attached: ${attachments.map(attachment => attachment.name).join(', ')}]`;
+}
+
+export async function fileAttachmentToMedicalRecords(
+  patientId: string,
+  messageId: string,
+  attachment: ChatAttachment,
+  details: { documentName: string; documentType: DocumentType; notes: string }
+): Promise<ChatAttachment> {
+  // The record gets its own copy so deleting it never breaks the chat thumbnail, and vice versa.
+  const recordPath = newRecordPath(patientId, attachment.name);
+  await copyFile(attachment.bucket, attachment.path, MEDICAL_RECORDS_BUCKET, recordPath);
+
+  let recordId: string;
+  try {
+    recordId = await createMedicalRecord(patientId, {
+      ...details,
+      bucket: MEDICAL_RECORDS_BUCKET,
+      path: recordPath,
+      fileSize: attachment.size,
+      mimeType: attachment.mime_type,
+    });
+  } catch (error) {
+    await removeFile(MEDICAL_RECORDS_BUCKET, recordPath).catch(cleanupError => {
+      console.error('Error removing orphaned record copy:', cleanupError);
+    });
+    throw error;
+  }
+
+  const { error: updateError } = await supabase.rpc('mark_chat_attachment_filed', {
+    message_id: messageId,
+    attachment_path: attachment.path,
+    record_id: recordId,
+  });
+
+  if (updateError) throw updateError;
+  return { ...attachment, medical_record_id: recordId };
+}
+
+// Best effort: a leftover object is only wasted space, so failures are logged rather than surfaced.
+export async function removeChatAttachments(attachments: ChatAttachment[]): Promise<void> {
+  if (attachments.length === 0) return;
+  const { error } = await supabase.storage.from(CHAT_ATTACHMENTS_BUCKET).remove(attachments.map(attachment => attachment.path));
+  if (error) {
+    console.error('Error removing unsent chat attachments:', error);
+  }
+}
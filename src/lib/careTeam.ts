@@ -0,0 +1,130 @@
+import { supabase } from './supabase';
+import { Provider } from './providers';
+
+export type CareTeamRole = 'surgeon' | 'physio' | 'gp' | 'specialist' | 'other';
+
+export type CareTeamMember = {
+  id: string;
+  patient_id: string;
+  provider_id: string;
+  role: CareTeamRole;
+  notes: string;
+  is_primary: boolean;
+  receives_reports: boolean;
+  created_at: string;
+  updated_at: string;
+  provider: Provider;
+};
+
+export const careTeamRoleOptions: { value: CareTeamRole; label: string }[] = [
+  { value: 'surgeon', label: 'Surgeon' },
+  { value: 'physio', label: 'Physio' },
+  { value: 'gp', label: 'GP' },
+  { value: 'specialist', label: 'Specialist' },
+  { value: 'other', label: 'Other' },
+];
+
+export function getCareTeamRoleLabel(role: CareTeamRole) {
+  return careTeamRoleOptions.find(option => option.value === role)?.label ?? role;
+}
+
+// A starting point when a provider is favourited; the patient can change it afterwards.
+export function suggestCareTeamRole(specialty: string): CareTeamRole {
+  switch (specialty) {
+    case 'orthopedic_surgeon':
+    case 'neurosurgeon':
+      return 'surgeon';
+    case 'physical_therapist':
+      return 'physio';
+    case 'pain_specialist':
+    case 'sports_medicine':
+      return 'specialist';
+    default:
+      return 'other';
+  }
+}
+
+// The primary contact comes first, then everyone else in the order they were added.
+export function sortCareTeam(members: CareTeamMember[]): CareTeamMember[] {
+  return [...members].sort((a, b) =>
+    Number(b.is_primary) - Number(a.is_primary) || a.created_at.localeCompare(b.created_at)
+  );
+}
+
+// One line per member for a referral's notes, so the new provider knows who else is involved.
+export function describeCareTeam(members: CareTeamMember[], excludeProviderId?: string): string {
+  const lines = sortCareTeam(members)
+    .filter(member => member.provider_id !== excludeProviderId)
+    .map(member =>
+      `${getCareTeamRoleLabel(member.role)}${member.is_primary ? ' (primary contact)' : ''}: ` +
+      `${member.provider.provider_name}, ${member.provider.practice_name}, ${member.provider.phone_number}`
+    );
+  return lines.length > 0 ? `My care team:\n${lines.join('\n')}` : '';
+}
+
+export async function loadCareTeam(patientId: string): Promise<CareTeamMember[]> {
+  const { data, error } = await supabase
+    .from('care_team_members')
+    .select('*, provider:healthcare_providers(*)')
+    .eq('patient_id', patientId);
+
+  if (error) throw error;
+  return sortCareTeam(data ?? []);
+}
+
+export async function addToCareTeam(patientId: string, provider: Provider): Promise<CareTeamMember> {
+  const { data, error } = await supabase
+    .from('care_team_members')
+    .insert({
+      patient_id: patientId,
+      provider_id: provider.id,
+      role: suggestCareTeamRole(provider.specialty),
+    })
+    .select('*, provider:healthcare_providers(*)')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateCareTeamMember(
+  memberId: string,
+  changes: Partial<Pick<CareTeamMember, 'role' | 'notes' | 'receives_reports'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('care_team_members')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', memberId);
+
+  if (error) throw error;
+}
+
+// The current primary is cleared first because only one primary is allowed per patient.
+export async function setPrimaryContact(patientId: string, memberId: string | null): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error: clearError } = await supabase
+    .from('care_team_members')
+    .update({ is_primary: false, updated_at: now })
+    .eq('patient_id', patientId)
+    .eq('is_primary', true);
+
+  if (clearError) throw clearError;
+  if (!memberId) return;
+
+  const { error } = await supabase
+    .from('care_team_members')
+    .update({ is_primary: true, updated_at: now })
+    .eq('id', memberId);
+
+  if (error) throw error;
+}
+
+export async function removeFromCareTeam(memberId: string): Promise<void> {
+  const { error } = await supabase
+    .from('care_team_members')
+    .delete()
+    .eq('id', memberId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,280 @@
+import { supabase, PatientProfile, PromsData } from './supabase';
+import { Medication, describeSchedule, formatDoseTime, scheduleForDate } from './medications';
+import { localDateString } from './dates';
+
+export type ChatTurn = {
+  role: 'user' | 'assistant';
+  content: string;
+};
+
+export type ODIScore = {
+  assessment_date: string;
+  percentage_score: number;
+  disability_level: string;
+};
+
+export type PatientContext = {
+  profile: PatientProfile | null;
+  latestProms: PromsData | null;
+  odiScores: ODIScore[];
+  medications: Medication[];
+};
+
+export type ChatRequest = {
+  patientSummary: string;
+  history: ChatTurn[];
+  message: string;
+  context: PatientContext;
+};
+
+export interface ChatProvider {
+  name: string;
+  streamReply(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+const MAX_HISTORY_TURNS = 20;
+const MAX_ODI_SCORES = 5;
+
+export async function loadPatientContext(patientId: string, profile: PatientProfile | null): Promise<PatientContext> {
+  const [promsResult, odiResult, medicationsResult] = await Promise.all([
+    supabase
+      .from('proms_data')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('check_in_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('odi_assessments')
+      .select('assessment_date, percentage_score, disability_level')
+      .eq('patient_id', patientId)
+      .order('assessment_date', { ascending: false })
+      .limit(MAX_ODI_SCORES),
+    supabase
+      .from('medications')
+      .select('*')
+      .eq('patient_id', patientId)
+      .eq('active', true)
+      .order('name', { ascending: true }),
+  ]);
+
+  if (promsResult.error) console.error('Error loading PROMs for chat:', promsResult.error);
+  if (odiResult.error) console.error('Error loading ODI scores for chat:', odiResult.error);
+  if (medicationsResult.error) console.error('Error loading medications for chat:', medicationsResult.error);
+
+  return {
+    profile,
+    latestProms: promsResult.data ?? null,
+    odiScores: (odiResult.data ?? []).reverse(),
+    medications: medicationsResult.data ?? [],
+  };
+}
+
+function describeMedication(medication: Medication, today: string): string {
+  const label = medication.is_opioid ? `${medication.name} (opioid)` : medication.name;
+  if (medication.is_prn) {
+    const limit = medication.max_daily_doses ? `, up to ${medication.max_daily_doses} a day` : '';
+    return `${label}: ${medication.dose ? `${medication.dose} ` : ''}as needed${limit}`;
+  }
+
+  const schedule = scheduleForDate(medication, today);
+  if (!schedule) return `${label}: not due today`;
+  const times = schedule.times.map(formatDoseTime).join(', ');
+  const taper = medication.taper_steps.length > 0 ? ', on a taper plan' : '';
+  return `${label}: ${describeSchedule(schedule.dose, schedule.times)}${times ? ` (${times})` : ''}${taper}`;
+}
+
+// The assistant's instructions live in the `orthoai-chat` edge function; the app only describes the patient.
+export function buildPatientSummary(context: PatientContext): string {
+  const { profile, latestProms, odiScores, medications } = context;
+  const lines = ['Patient profile:'];
+
+  if (profile) {
+    lines.push(`- Name: ${profile.full_name}`);
+    lines.push(`- Condition: ${profile.condition || 'not specified'}`);
+    lines.push(`- Treatment: ${profile.treatment_type?.replace('_', ' ') || 'not specified'}`);
+    if (profile.surgery_date) lines.push(`- Surgery date: ${profile.surgery_date}`);
+    if (profile.days_post_op !== undefined && profile.days_post_op !== null) {
+      lines.push(`- Days post-op: ${profile.days_post_op}`);
+    }
+    if (profile.activity_level_goal) lines.push(`- Activity goal: ${profile.activity_level_goal}`);
+  } else {
+    lines.push('- No profile on file');
+  }
+
+  lines.push('', 'Latest daily check-in:');
+  if (latestProms) {
+    lines.push(`- Date: ${latestProms.check_in_date}`);
+    lines.push(`- Pain: ${latestProms.pain_level}/10${latestProms.pain_character?.length ? ` (${latestProms.pain_character.join(', ')})` : ''}`);
+    lines.push(`- Mobility: ${latestProms.mobility_score}/100`);
+    lines.push(`- Mood: ${latestProms.mood_rating}/5, sleep quality: ${latestProms.sleep_quality}/5`);
+    if (latestProms.notes) lines.push(`- Notes: ${latestProms.notes}`);
+  } else {
+    lines.push('- No check-ins yet');
+  }
+
+  lines.push('', 'Oswestry Disability Index history (lower is better, 10 points is a meaningful change):');
+  if (odiScores.length > 0) {
+    odiScores.forEach(score => {
+      lines.push(`- ${score.assessment_date}: ${Number(score.percentage_score).toFixed(0)}% (${score.disability_level})`);
+    });
+  } else {
+    lines.push('- No assessments yet');
+  }
+
+  // Shared so the assistant can refer to the patient's own schedule; dose changes stay with the prescriber.
+  lines.push('', 'Current medications (as entered by the patient):');
+  if (medications.length > 0) {
+    const today = localDateString();
+    medications.forEach(medication => lines.push(`- ${describeMedication(medication, today)}`));
+  } else {
+    lines.push('- None recorded');
+  }
+
+  return lines.join('\n');
+}
+
+export function buildChatRequest(
+  context: PatientContext,
+  history: ChatTurn[],
+  message: string
+): ChatRequest {
+  return {
+    patientSummary: buildPatientSummary(context),
+    history: history.slice(-MAX_HISTORY_TURNS),
+    message,
+    context,
+  };
+}
+
+export const keywordChatProvider: ChatProvider = {
+  name: 'keyword',
+  async *streamReply({ message, context }) {
+    yield generateKeywordReply(message, context.profile, context.medications);
+  },
+};
+
+function medicationTip(medications: Medication[]): string {
+  const today = localDateString();
+  const scheduled = medications.filter(m => !m.is_prn && scheduleForDate(m, today)?.times.length);
+  const asNeeded = medications.filter(m => m.is_prn);
+
+  if (scheduled.length === 0 && asNeeded.length === 0) {
+    return '• Take your prescribed medication as directed';
+  }
+
+  const tips = scheduled.map(m => {
+    const schedule = scheduleForDate(m, today);
+    return `• Take ${m.name}${schedule?.dose ? ` ${schedule.dose}` : ''} at ${schedule?.times.map(formatDoseTime).join(', ')} as scheduled`;
+  });
+  if (asNeeded.length > 0) {
+    tips.push(`• If you need ${asNeeded.map(m => m.name).join(' or ')}, stay within your prescribed limits and log each dose in Medications`);
+  }
+  return tips.join('\n');
+}
+
+function generateKeywordReply(question: string, profile: PatientProfile | null, medications: Medication[]): string {
+  const lowerQuestion = question.toLowerCase();
+
+  if (lowerQuestion.includes('pain') || lowerQuestion.includes('swelling')) {
+    return `Pain and swelling are common after orthopaedic surgery. Here are some tips:\n\n• Elevate your leg above heart level for 20 minutes every hour\n• Apply ice for 15-20 minutes, 3-4 times daily\n${medicationTip(medications)}\n• If pain suddenly worsens or you notice warmth and redness, contact your doctor immediately\n\nWould you like me to log your current pain level or show you some gentle exercises?`;
+  }
+
+  if (lowerQuestion.includes('exercise') || lowerQuestion.includes('physical therapy')) {
+    return `Exercise is crucial for recovery! Based on your current stage (${profile?.days_post_op || 0} days post-op), here's what I recommend:\n\n• Start with gentle range-of-motion exercises\n• Gradually increase intensity as tolerated\n• Listen to your body - some discomfort is normal, but stop if you feel sharp pain\n\nWould you like to see today's recommended exercises?`;
+  }
+
+  if (lowerQuestion.includes('drive') || lowerQuestion.includes('driving')) {
+    return `When you can return to driving depends on several factors:\n\n• Type of surgery you had\n• Which leg was operated on (if applicable)\n• Whether you can safely brake and control the vehicle\n• Your pain medication use\n\nTypically, patients can drive 4-6 weeks after major surgery, but always check with your surgeon first. Are you taking pain medications that might impair driving?`;
+  }
+
+  return `Thank you for your question. Based on your recovery profile (${profile?.condition || 'your condition'}, Day ${profile?.days_post_op || 0}), I'm here to help.\n\nI can share general guidance on pain, swelling, exercises and returning to activities like driving. Could you provide more details about what you'd like to know?`;
+}
+
+// Deterministic replies for tests and offline development; no network, no timers.
+export const stubChatProvider: ChatProvider = {
+  name: 'stub',
+  async *streamReply({ message, history, context }) {
+    const latestODI = context.odiScores[context.odiScores.length - 1];
+    const reply = [
+      `OrthoAI (offline stub) received: "${message.trim()}".`,
+      `Condition: ${context.profile?.condition || 'unknown'}.`,
+      `Latest pain: ${context.latestProms ? `${context.latestProms.pain_level}/10` : 'not recorded'}.`,
+      `Latest ODI: ${latestODI ? `${Number(latestODI.percentage_score).toFixed(0)}%` : 'not recorded'}.`,
+      `Earlier turns: ${history.length}.`,
+    ].join(' ');
+
+    for (const word of reply.split(/(?<= )/)) {
+      yield word;
+    }
+  },
+};
+
+// Streams from the `orthoai-chat` edge function, which keeps the LLM API key server-side.
+export const llmChatProvider: ChatProvider = {
+  name: 'llm',
+  async *streamReply({ patientSummary, history, message }, signal) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Sign in to chat with OrthoAI');
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/orthoai-chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        patientSummary,
+        messages: [...history, { role: 'user', content: message }],
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Chat provider responded with ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      if (chunk) yield chunk;
+    }
+  },
+};
+
+// Falls back only when the primary fails before producing any text, so a reply is never mixed.
+export function withFallback(primary: ChatProvider, fallback: ChatProvider): ChatProvider {
+  return {
+    name: primary.name,
+    async *streamReply(request, signal) {
+      let yielded = false;
+
+      try {
+        for await (const chunk of primary.streamReply(request, signal)) {
+          yielded = true;
+          yield chunk;
+        }
+      } catch (error) {
+        if (yielded || signal?.aborted) throw error;
+        console.error(`Chat provider "${primary.name}" failed, using "${fallback.name}":`, error);
+        yield* fallback.streamReply(request, signal);
+      }
+    },
+  };
+}
+
+export function getChatProvider(): ChatProvider {
+  switch (import.meta.env.VITE_CHAT_PROVIDER) {
+    case 'stub':
+      return stubChatProvider;
+    case 'keyword':
+      return keywordChatProvider;
+    default:
+      return withFallback(llmChatProvider, keywordChatProvider);
+  }
+}
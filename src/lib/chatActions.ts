@@ -0,0 +1,142 @@
+import { supabase } from './supabase';
+import { getSpecialtyLabel } from './providers';
+import { localDateString } from './dates';
+
+export type ChatActionType = 'log_pain' | 'start_exercises' | 'start_odi' | 'book_referral';
+
+// Stored in `chat_messages.metadata.actions` on the assistant reply that offered them.
+export type ChatAction = {
+  id: string;
+  type: ChatActionType;
+  label: string;
+  specialty?: string;
+  reason?: string;
+};
+
+// Stored in `chat_messages.metadata.action_result` on the transcript entry written after the patient confirms.
+export type ChatActionResult = {
+  action_id: string;
+  type: ChatActionType;
+  pain_score?: number;
+  odi_score?: number;
+  referral_id?: string;
+  provider_name?: string;
+};
+
+const MAX_ACTIONS_PER_REPLY = 3;
+
+type ActionRule = {
+  pattern: RegExp;
+  build: (question: string) => ChatAction;
+};
+
+const referralSpecialties: { specialty: string; pattern: RegExp }[] = [
+  { specialty: 'physical_therapist', pattern: /\b(physio|physiotherap\w*|physical therap\w*)\b/i },
+  { specialty: 'pain_specialist', pattern: /\b(pain (specialist|clinic|management specialist))\b/i },
+  { specialty: 'imaging_radiology', pattern: /\b(mri|x-?ray|ct scan|ultrasound|imaging)\b/i },
+  { specialty: 'orthopedic_surgeon', pattern: /\b(surgeon|orthopaedic|orthopedic|surgical review)\b/i },
+];
+
+const actionRules: ActionRule[] = [
+  {
+    pattern: /\b(pain|painful|sore|aching|hurts?|log your (current )?pain)\b/i,
+    build: () => ({ id: 'log_pain', type: 'log_pain', label: 'Log my pain level' }),
+  },
+  {
+    pattern: /\b(exercises?|stretch(es|ing)?|range[- ]of[- ]motion)\b/i,
+    build: () => ({ id: 'start_exercises', type: 'start_exercises', label: "Start today's exercises" }),
+  },
+  {
+    pattern: /\b(odi|oswestry|disability (index|score)|how am i (doing|progressing)|my progress)\b/i,
+    build: () => ({ id: 'start_odi', type: 'start_odi', label: 'Take the ODI assessment' }),
+  },
+  // Referral offers need a booking verb nearby so a passing mention of "your surgeon" doesn't trigger one.
+  ...referralSpecialties.map(({ specialty, pattern }): ActionRule => ({
+    pattern: new RegExp(`\\b(see|book|booking|appointment|referral|refer|find)\\b.{0,40}${pattern.source}|${pattern.source}.{0,40}\\b(appointment|referral|booking)\\b`, 'i'),
+    build: (question) => ({
+      id: `book_referral:${specialty}`,
+      type: 'book_referral',
+      label: `Book a ${getSpecialtyLabel(specialty)}`,
+      specialty,
+      reason: question.trim().slice(0, 300),
+    }),
+  })),
+];
+
+// Offers follow-up actions based on what the patient asked and what the assistant said, whichever provider answered.
+export function suggestChatActions(question: string, reply: string): ChatAction[] {
+  const actions: ChatAction[] = [];
+
+  for (const rule of actionRules) {
+    if (!rule.pattern.test(`${question}\n${reply}`)) continue;
+
+    const action = rule.build(question);
+    if (actions.some(existing => existing.id === action.id)) continue;
+    actions.push(action);
+
+    if (actions.length === MAX_ACTIONS_PER_REPLY) break;
+  }
+
+  return actions;
+}
+
+export function describeActionResult(result: ChatActionResult): string {
+  switch (result.type) {
+    case 'log_pain':
+      return `Logged pain level: ${result.pain_score}/10`;
+    case 'start_exercises':
+      return "Completed today's exercises";
+    case 'start_odi':
+      return `Completed ODI assessment: ${Math.round(result.odi_score ?? 0)}%`;
+    case 'book_referral':
+      return `Requested an appointment with ${result.provider_name}`;
+  }
+}
+
+export async function logPainScore(
+  patientId: string,
+  painScore: number,
+  painLocation: string,
+  painDescription: string
+): Promise<void> {
+  const { error } = await supabase.from('vas_pain_scores').insert({
+    patient_id: patientId,
+    recorded_date: localDateString(),
+    pain_score: painScore,
+    pain_location: painLocation,
+    pain_description: painDescription,
+  });
+
+  if (error) throw error;
+}
+
+// Writes the confirmation into the transcript and marks the offer as done so the button can't be used twice.
+export async function recordActionResult(
+  chatSessionId: string,
+  sourceMessageId: string | undefined,
+  result: ChatActionResult
+): Promise<string> {
+  const { data: entry, error: insertError } = await supabase
+    .from('chat_messages')
+    .insert({
+      session_id: chatSessionId,
+      sender: 'patient',
+      message: describeActionResult(result),
+      metadata: { action_result: result },
+    })
+    .select('id')
+    .single();
+
+  if (insertError) throw insertError;
+
+  if (sourceMessageId) {
+    const { error: updateError } = await supabase.rpc('mark_chat_action_completed', {
+      message_id: sourceMessageId,
+      action_id: result.action_id,
+    });
+
+    if (updateError) throw updateError;
+  }
+
+  return entry.id;
+}
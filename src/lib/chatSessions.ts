@@ -0,0 +1,136 @@
+import { supabase, ChatMessage, ChatSession } from './supabase';
+
+export const CHAT_PAGE_SIZE = 30;
+const MAX_TITLE_LENGTH = 60;
+const MAX_SEARCH_RESULTS = 50;
+
+export type ChatMessagePage = {
+  messages: ChatMessage[];
+  hasOlder: boolean;
+};
+
+export type ChatSearchResult = {
+  id: string;
+  session_id: string;
+  sender: 'patient' | 'ai';
+  message: string;
+  created_at: string;
+  session_title: string;
+  session_archived: boolean;
+};
+
+export function titleFromMessage(message: string): string {
+  const firstSentence = message.trim().replace(/\s+/g, ' ').split(/(?<=[.?!])\s/)[0];
+  if (firstSentence.length <= MAX_TITLE_LENGTH) return firstSentence;
+  return `${firstSentence.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+}
+
+export async function listChatSessions(patientId: string, archived: boolean): Promise<ChatSession[]> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('patient_id', patientId)
+    .eq('archived', archived)
+    .order('last_activity', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function getChatSession(chatSessionId: string): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', chatSessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getLatestChatSession(patientId: string): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('patient_id', patientId)
+    .eq('archived', false)
+    .order('last_activity', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createChatSession(patientId: string): Promise<ChatSession> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({
+      patient_id: patientId,
+      session_id: `session_${Date.now()}`,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateChatSession(
+  chatSessionId: string,
+  updates: Partial<Pick<ChatSession, 'title' | 'archived' | 'last_activity'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update(updates)
+    .eq('id', chatSessionId);
+
+  if (error) throw error;
+}
+
+// Fetches newest-first so the page boundary is stable, then returns the page in reading order.
+export async function loadChatMessagePage(chatSessionId: string, before?: string): Promise<ChatMessagePage> {
+  let query = supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', chatSessionId)
+    .order('created_at', { ascending: false })
+    .limit(CHAT_PAGE_SIZE + 1);
+
+  if (before) {
+    query = query.lt('created_at', before);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = data ?? [];
+  return {
+    messages: rows.slice(0, CHAT_PAGE_SIZE).reverse(),
+    hasOlder: rows.length > CHAT_PAGE_SIZE,
+  };
+}
+
+export async function searchChatMessages(query: string): Promise<ChatSearchResult[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('id, session_id, sender, message, created_at, chat_sessions!inner(title, archived)')
+    .textSearch('search_vector', query, { type: 'websearch', config: 'english' })
+    .order('created_at', { ascending: false })
+    .limit(MAX_SEARCH_RESULTS);
+
+  if (error) throw error;
+
+  return (data ?? []).map(row => {
+    const session = Array.isArray(row.chat_sessions) ? row.chat_sessions[0] : row.chat_sessions;
+    return {
+      id: row.id,
+      session_id: row.session_id,
+      sender: row.sender,
+      message: row.message,
+      created_at: row.created_at,
+      session_title: session?.title ?? '',
+      session_archived: session?.archived ?? false,
+    };
+  });
+}
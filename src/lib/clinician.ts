@@ -0,0 +1,237 @@
+import { supabase } from './supabase';
+import { Provider } from './providers';
+import { calculateTimeToMCID, calculateTrajectorySlope, detectPlateau } from './analytics';
+import { DisabilityIndex, disabilityIndexes, disabilityIndexForCondition } from './disabilityIndex';
+import { PromInstrument, PromResponse, isDisabilityIndex, loadDefaultInstrumentId, loadInstrument, loadPromResponses } from './proms';
+
+export type ClinicianAccount = {
+  user_id: string;
+  provider_id: string;
+  created_at: string;
+  provider: Provider;
+};
+
+export type AccessGrant = {
+  id: string;
+  patient_id: string;
+  provider_id: string;
+  granted_at: string;
+  revoked_at: string | null;
+  provider?: Provider;
+};
+
+// An ODI or NDI assessment; which one depends on the patient's condition.
+export type ClinicianDisabilityAssessment = {
+  id: string;
+  patient_id: string;
+  assessment_date: string;
+  percentage_score: number;
+  disability_level: string;
+  is_baseline?: boolean;
+};
+
+export type ClinicianPatientSummary = {
+  patientId: string;
+  fullName: string;
+  condition: string | null;
+  treatmentType: string | null;
+  grantedAt: string;
+  instrument: DisabilityIndex;
+  latestAssessment: ClinicianDisabilityAssessment | null;
+  assessmentCount: number;
+  trajectorySlope: number | null;
+  plateauDetected: boolean;
+};
+
+export type ClinicianCheckIn = {
+  id: string;
+  check_in_date: string;
+  pain_level: number | null;
+  mobility_score: number | null;
+  mood_rating: number | null;
+  sleep_quality: number | null;
+  notes: string;
+};
+
+export type ClinicianPatientRecord = {
+  profile: {
+    id: string;
+    full_name: string;
+    condition: string | null;
+    treatment_type: string | null;
+    surgery_date: string | null;
+  };
+  instrument: DisabilityIndex;
+  assessments: ClinicianDisabilityAssessment[];
+  // The condition's own questionnaire, when it has one besides the ODI or NDI.
+  prom: { instrument: PromInstrument; responses: PromResponse[] } | null;
+  checkIns: ClinicianCheckIn[];
+  timeToMCID: number | null;
+  trajectorySlope: number | null;
+  plateauDetected: boolean;
+};
+
+const ASSESSMENT_COLUMNS = 'id, patient_id, assessment_date, percentage_score, disability_level, is_baseline';
+
+function groupByPatient(assessments: ClinicianDisabilityAssessment[]): Map<string, ClinicianDisabilityAssessment[]> {
+  const byPatient = new Map<string, ClinicianDisabilityAssessment[]>();
+  for (const assessment of assessments) {
+    byPatient.set(assessment.patient_id, [...(byPatient.get(assessment.patient_id) ?? []), assessment]);
+  }
+  return byPatient;
+}
+
+export async function loadClinicianAccount(userId: string): Promise<ClinicianAccount | null> {
+  const { data, error } = await supabase
+    .from('clinician_accounts')
+    .select('*, provider:healthcare_providers(*)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Everything here is read through the clinician's RLS policies, so only patients with an active grant come back.
+export async function loadConsentingPatients(providerId: string): Promise<ClinicianPatientSummary[]> {
+  const { data: grants, error } = await supabase
+    .from('clinician_access_grants')
+    .select('patient_id, granted_at')
+    .eq('provider_id', providerId)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+  if (!grants || grants.length === 0) return [];
+
+  const patientIds = grants.map(grant => grant.patient_id);
+  const [profileResult, odiResult, ndiResult] = await Promise.all([
+    supabase
+      .from('patient_profiles')
+      .select('id, full_name, condition, treatment_type')
+      .in('id', patientIds),
+    supabase
+      .from('odi_assessments')
+      .select(ASSESSMENT_COLUMNS)
+      .in('patient_id', patientIds)
+      .order('assessment_date', { ascending: true }),
+    supabase
+      .from('ndi_assessments')
+      .select(ASSESSMENT_COLUMNS)
+      .in('patient_id', patientIds)
+      .order('assessment_date', { ascending: true }),
+  ]);
+
+  if (profileResult.error) throw profileResult.error;
+  if (odiResult.error) throw odiResult.error;
+  if (ndiResult.error) throw ndiResult.error;
+
+  const histories: Record<DisabilityIndex, Map<string, ClinicianDisabilityAssessment[]>> = {
+    odi: groupByPatient(odiResult.data ?? []),
+    ndi: groupByPatient(ndiResult.data ?? []),
+  };
+
+  return grants
+    .map(grant => {
+      const patient = profileResult.data?.find(p => p.id === grant.patient_id);
+      // The same instrument the patient sees on Progress.
+      const instrument = disabilityIndexForCondition(patient?.condition);
+      const history = histories[instrument].get(grant.patient_id) ?? [];
+      return {
+        patientId: grant.patient_id,
+        fullName: patient?.full_name ?? 'Unknown patient',
+        condition: patient?.condition ?? null,
+        treatmentType: patient?.treatment_type ?? null,
+        grantedAt: grant.granted_at,
+        instrument,
+        latestAssessment: history[history.length - 1] ?? null,
+        assessmentCount: history.length,
+        trajectorySlope: calculateTrajectorySlope(history),
+        plateauDetected: detectPlateau(history),
+      };
+    })
+    .sort((a, b) => a.fullName.localeCompare(b.fullName));
+}
+
+export async function loadPatientRecord(patientId: string): Promise<ClinicianPatientRecord | null> {
+  const [profileResult, odiResult, ndiResult, checkInResult] = await Promise.all([
+    supabase
+      .from('patient_profiles')
+      .select('id, full_name, condition, treatment_type, surgery_date')
+      .eq('id', patientId)
+      .maybeSingle(),
+    supabase
+      .from('odi_assessments')
+      .select(ASSESSMENT_COLUMNS)
+      .eq('patient_id', patientId)
+      .order('assessment_date', { ascending: true }),
+    supabase
+      .from('ndi_assessments')
+      .select(ASSESSMENT_COLUMNS)
+      .eq('patient_id', patientId)
+      .order('assessment_date', { ascending: true }),
+    supabase
+      .from('proms_data')
+      .select('id, check_in_date, pain_level, mobility_score, mood_rating, sleep_quality, notes')
+      .eq('patient_id', patientId)
+      .order('check_in_date', { ascending: false })
+      .limit(14),
+  ]);
+
+  if (profileResult.error) throw profileResult.error;
+  if (odiResult.error) throw odiResult.error;
+  if (ndiResult.error) throw ndiResult.error;
+  if (checkInResult.error) throw checkInResult.error;
+  // No profile means the patient hasn't shared with this clinician, or has since revoked it.
+  if (!profileResult.data) return null;
+
+  const instrument = disabilityIndexForCondition(profileResult.data.condition);
+  const assessments = (instrument === 'ndi' ? ndiResult.data : odiResult.data) ?? [];
+
+  const promInstrumentId = await loadDefaultInstrumentId(profileResult.data.condition);
+  const promInstrument = isDisabilityIndex(promInstrumentId) ? null : await loadInstrument(promInstrumentId);
+  const prom = promInstrument
+    ? { instrument: promInstrument, responses: await loadPromResponses(patientId, promInstrument.id) }
+    : null;
+
+  return {
+    profile: profileResult.data,
+    instrument,
+    assessments,
+    prom,
+    checkIns: checkInResult.data ?? [],
+    timeToMCID: calculateTimeToMCID(assessments, disabilityIndexes[instrument].mcidThreshold),
+    trajectorySlope: calculateTrajectorySlope(assessments),
+    plateauDetected: detectPlateau(assessments),
+  };
+}
+
+export async function loadAccessGrants(patientId: string): Promise<AccessGrant[]> {
+  const { data, error } = await supabase
+    .from('clinician_access_grants')
+    .select('*, provider:healthcare_providers(*)')
+    .eq('patient_id', patientId)
+    .order('granted_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function grantAccess(patientId: string, providerId: string): Promise<AccessGrant> {
+  const { data, error } = await supabase
+    .from('clinician_access_grants')
+    .insert({ patient_id: patientId, provider_id: providerId })
+    .select('*, provider:healthcare_providers(*)')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function revokeAccess(grantId: string): Promise<void> {
+  const { error } = await supabase
+    .from('clinician_access_grants')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', grantId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,163 @@
+import { supabase } from './supabase';
+import { DisabilityIndex } from './disabilityIndex';
+
+export type CohortDimension = 'all' | 'condition' | 'treatment_type' | 'provider';
+
+export const cohortDimensionOptions: { value: CohortDimension; label: string }[] = [
+  { value: 'all', label: 'All patients' },
+  { value: 'condition', label: 'Condition' },
+  { value: 'treatment_type', label: 'Treatment' },
+  { value: 'provider', label: 'Provider' },
+];
+
+export type CohortOutcome = {
+  cohort: string;
+  patient_count: number;
+  followed_up_count: number;
+  mcid_count: number;
+  mcid_rate: number | null;
+  median_days_to_mcid: number | null;
+  plateau_eligible_count: number;
+  plateau_count: number;
+  plateau_rate: number | null;
+  mean_baseline_score: number | null;
+  mean_latest_score: number | null;
+};
+
+export type CohortWeek = {
+  cohort: string;
+  week: number;
+  patient_count: number;
+  mean_score: number;
+};
+
+export type CohortEQ5DOutcome = {
+  cohort: string;
+  patient_count: number;
+  followed_up_count: number;
+  mean_baseline_index: number | null;
+  mean_latest_index: number | null;
+  mean_baseline_vas: number | null;
+  mean_latest_vas: number | null;
+};
+
+// Both run in Postgres (see the cohort_outcomes migrations) under the caller's RLS, for one instrument at a time.
+export async function loadCohortOutcomes(dimension: CohortDimension, instrument: DisabilityIndex): Promise<CohortOutcome[]> {
+  const { data, error } = await supabase.rpc('cohort_outcomes', { dimension, instrument });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function loadCohortScoresByWeek(
+  dimension: CohortDimension,
+  instrument: DisabilityIndex,
+  maxWeeks = 52
+): Promise<CohortWeek[]> {
+  const { data, error } = await supabase.rpc('cohort_scores_by_week', { dimension, instrument, max_weeks: maxWeeks });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Indexes are computed in Postgres with the chosen value set (see the eq5d migration).
+export async function loadCohortEQ5DOutcomes(dimension: CohortDimension, valueSetId: string): Promise<CohortEQ5DOutcome[]> {
+  const { data, error } = await supabase.rpc('cohort_eq5d_outcomes', { dimension, value_set_id: valueSetId });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+export function formatCohortLabel(dimension: CohortDimension, cohort: string): string {
+  return dimension === 'treatment_type' ? cohort.replace('_', ' ') : cohort;
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  // Text such as a patient-entered condition could otherwise run as a spreadsheet formula.
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+}
+
+export function cohortOutcomesCsv(dimension: CohortDimension, instrument: DisabilityIndex, outcomes: CohortOutcome[]): string {
+  return toCsv(
+    [
+      dimension === 'all' ? 'cohort' : dimension,
+      'patients',
+      'patients_with_follow_up',
+      'reached_mcid',
+      'mcid_rate',
+      'median_days_to_mcid',
+      `patients_with_4_plus_${instrument}s`,
+      'plateaued',
+      'plateau_rate',
+      `mean_baseline_${instrument}`,
+      `mean_latest_${instrument}`,
+    ],
+    outcomes.map(o => [
+      o.cohort,
+      o.patient_count,
+      o.followed_up_count,
+      o.mcid_count,
+      o.mcid_rate,
+      o.median_days_to_mcid,
+      o.plateau_eligible_count,
+      o.plateau_count,
+      o.plateau_rate,
+      o.mean_baseline_score,
+      o.mean_latest_score,
+    ])
+  );
+}
+
+export function cohortWeeksCsv(dimension: CohortDimension, instrument: DisabilityIndex, weeks: CohortWeek[]): string {
+  return toCsv(
+    [dimension === 'all' ? 'cohort' : dimension, 'weeks_since_baseline', 'patients', `mean_${instrument}`],
+    weeks.map(w => [w.cohort, w.week, w.patient_count, w.mean_score])
+  );
+}
+
+export function cohortEQ5DCsv(dimension: CohortDimension, valueSetId: string, outcomes: CohortEQ5DOutcome[]): string {
+  return toCsv(
+    [
+      dimension === 'all' ? 'cohort' : dimension,
+      'value_set',
+      'patients',
+      'patients_with_follow_up',
+      'mean_baseline_eq5d_index',
+      'mean_latest_eq5d_index',
+      'mean_baseline_vas',
+      'mean_latest_vas',
+    ],
+    outcomes.map(o => [
+      o.cohort,
+      valueSetId,
+      o.patient_count,
+      o.followed_up_count,
+      o.mean_baseline_index,
+      o.mean_latest_index,
+      o.mean_baseline_vas,
+      o.mean_latest_vas,
+    ])
+  );
+}
+
+export function downloadCsv(filename: string, csv: string): void {
+  // The BOM makes Excel read the file as UTF-8 rather than the system code page.
+  const url = URL.createObjectURL(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
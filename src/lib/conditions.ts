@@ -0,0 +1,16 @@
+export const conditions = [
+  'Knee',
+  'Hip',
+  'Shoulder',
+  'Neck',
+  'Lower Back',
+  'Ankle',
+  'Elbow',
+  'Wrist',
+  'Other',
+];
+
+// Profiles saved before 'Spine' was split into Neck and Lower Back still say 'Spine', so those patients are asked again.
+export function isCurrentCondition(condition: string | null | undefined): condition is string {
+  return !!condition && conditions.includes(condition);
+}
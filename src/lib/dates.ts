@@ -0,0 +1,6 @@
+// Day keys (check-in, assessment and dose dates) follow the patient's own calendar, not UTC.
+export function localDateString(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,324 @@
+export type DisabilityIndex = 'odi' | 'ndi';
+
+export type DisabilityIndexSection = {
+  name: string;
+  title: string;
+  options: string[];
+};
+
+// `max` is the highest percentage score in the band; bands are listed from least to most disabled.
+export type DisabilityBand = {
+  level: string;
+  label: string;
+  max: number;
+  barColor: string;
+  badgeColor: string;
+};
+
+export type DisabilityIndexDefinition = {
+  id: DisabilityIndex;
+  shortName: string;
+  name: string;
+  region: string;
+  table: string;
+  mcidThreshold: number;
+  sections: DisabilityIndexSection[];
+  bands: DisabilityBand[];
+};
+
+const ODI_SECTIONS: DisabilityIndexSection[] = [
+  {
+    name: 'pain_intensity',
+    title: 'Pain Intensity',
+    options: [
+      'I have no pain at the moment',
+      'The pain is very mild at the moment',
+      'The pain is moderate at the moment',
+      'The pain is fairly severe at the moment',
+      'The pain is very severe at the moment',
+      'The pain is the worst imaginable at the moment',
+    ],
+  },
+  {
+    name: 'personal_care',
+    title: 'Personal Care (Washing, Dressing, etc.)',
+    options: [
+      'I can look after myself normally without causing extra pain',
+      'I can look after myself normally but it causes extra pain',
+      'It is painful to look after myself and I am slow and careful',
+      'I need some help but manage most of my personal care',
+      'I need help every day in most aspects of self care',
+      'I do not get dressed, wash with difficulty, and stay in bed',
+    ],
+  },
+  {
+    name: 'lifting',
+    title: 'Lifting',
+    options: [
+      'I can lift heavy weights without extra pain',
+      'I can lift heavy weights but it gives extra pain',
+      'Pain prevents me from lifting heavy weights off the floor, but I can manage if they are conveniently placed (e.g., on a table)',
+      'Pain prevents me from lifting heavy weights, but I can manage light to medium weights if they are conveniently positioned',
+      'I can lift very light weights',
+      'I cannot lift or carry anything',
+    ],
+  },
+  {
+    name: 'walking',
+    title: 'Walking',
+    options: [
+      'Pain does not prevent me walking any distance',
+      'Pain prevents me from walking more than 1 mile',
+      'Pain prevents me from walking more than 1/2 mile',
+      'Pain prevents me from walking more than 100 yards',
+      'I can only walk using a stick or crutches',
+      'I am in bed most of the time',
+    ],
+  },
+  {
+    name: 'sitting',
+    title: 'Sitting',
+    options: [
+      'I can sit in any chair as long as I like',
+      'I can only sit in my favorite chair as long as I like',
+      'Pain prevents me sitting more than one hour',
+      'Pain prevents me from sitting more than 30 minutes',
+      'Pain prevents me from sitting more than 10 minutes',
+      'Pain prevents me from sitting at all',
+    ],
+  },
+  {
+    name: 'standing',
+    title: 'Standing',
+    options: [
+      'I can stand as long as I want without extra pain',
+      'I can stand as long as I want but it gives me extra pain',
+      'Pain prevents me from standing for more than 1 hour',
+      'Pain prevents me from standing for more than 30 minutes',
+      'Pain prevents me from standing for more than 10 minutes',
+      'Pain prevents me from standing at all',
+    ],
+  },
+  {
+    name: 'sleeping',
+    title: 'Sleeping',
+    options: [
+      'My sleep is never disturbed by pain',
+      'My sleep is occasionally disturbed by pain',
+      'Because of pain I have less than 6 hours sleep',
+      'Because of pain I have less than 4 hours sleep',
+      'Because of pain I have less than 2 hours sleep',
+      'Pain prevents me from sleeping at all',
+    ],
+  },
+  {
+    name: 'sex_life',
+    title: 'Sex Life (if applicable)',
+    options: [
+      'My sex life is normal and causes no extra pain',
+      'My sex life is normal but causes some extra pain',
+      'My sex life is nearly normal but is very painful',
+      'My sex life is severely restricted by pain',
+      'My sex life is nearly absent because of pain',
+      'Pain prevents any sex life at all',
+    ],
+  },
+  {
+    name: 'social_life',
+    title: 'Social Life',
+    options: [
+      'My social life is normal and gives me no extra pain',
+      'My social life is normal but increases the degree of pain',
+      'Pain has no significant effect on my social life apart from limiting my more energetic interests (e.g., sport)',
+      'Pain has restricted my social life and I do not go out as often',
+      'Pain has restricted my social life to my home',
+      'I have no social life because of pain',
+    ],
+  },
+  {
+    name: 'traveling',
+    title: 'Traveling',
+    options: [
+      'I can travel anywhere without pain',
+      'I can travel anywhere but it gives me extra pain',
+      'Pain is bad but I manage journeys over two hours',
+      'Pain restricts me to journeys of less than one hour',
+      'Pain restricts me to short necessary journeys under 30 minutes',
+      'Pain prevents me from traveling except to receive treatment',
+    ],
+  },
+];
+
+const NDI_SECTIONS: DisabilityIndexSection[] = [
+  {
+    name: 'pain_intensity',
+    title: 'Pain Intensity',
+    options: [
+      'I have no pain at the moment',
+      'The pain is very mild at the moment',
+      'The pain is moderate at the moment',
+      'The pain is fairly severe at the moment',
+      'The pain is very severe at the moment',
+      'The pain is the worst imaginable at the moment',
+    ],
+  },
+  {
+    name: 'personal_care',
+    title: 'Personal Care (Washing, Dressing, etc.)',
+    options: [
+      'I can look after myself normally without causing extra pain',
+      'I can look after myself normally but it causes extra pain',
+      'It is painful to look after myself and I am slow and careful',
+      'I need some help but manage most of my personal care',
+      'I need help every day in most aspects of self care',
+      'I do not get dressed, wash with difficulty, and stay in bed',
+    ],
+  },
+  {
+    name: 'lifting',
+    title: 'Lifting',
+    options: [
+      'I can lift heavy weights without extra pain',
+      'I can lift heavy weights but it gives extra pain',
+      'Pain prevents me from lifting heavy weights off the floor, but I can manage if they are conveniently placed (e.g., on a table)',
+      'Pain prevents me from lifting heavy weights, but I can manage light to medium weights if they are conveniently positioned',
+      'I can lift very light weights',
+      'I cannot lift or carry anything',
+    ],
+  },
+  {
+    name: 'reading',
+    title: 'Reading',
+    options: [
+      'I can read as much as I want with no pain in my neck',
+      'I can read as much as I want with slight pain in my neck',
+      'I can read as much as I want with moderate pain in my neck',
+      'I cannot read as much as I want because of moderate pain in my neck',
+      'I can hardly read at all because of severe pain in my neck',
+      'I cannot read at all',
+    ],
+  },
+  {
+    name: 'headaches',
+    title: 'Headaches',
+    options: [
+      'I have no headaches at all',
+      'I have slight headaches that come infrequently',
+      'I have moderate headaches that come infrequently',
+      'I have moderate headaches that come frequently',
+      'I have severe headaches that come frequently',
+      'I have headaches almost all the time',
+    ],
+  },
+  {
+    name: 'concentration',
+    title: 'Concentration',
+    options: [
+      'I can concentrate fully when I want to with no difficulty',
+      'I can concentrate fully when I want to with slight difficulty',
+      'I have a fair degree of difficulty concentrating when I want to',
+      'I have a lot of difficulty concentrating when I want to',
+      'I have a great deal of difficulty concentrating when I want to',
+      'I cannot concentrate at all',
+    ],
+  },
+  {
+    name: 'work',
+    title: 'Work',
+    options: [
+      'I can do as much work as I want to',
+      'I can only do my usual work, but no more',
+      'I can do most of my usual work, but no more',
+      'I cannot do my usual work',
+      'I can hardly do any work at all',
+      'I cannot do any work at all',
+    ],
+  },
+  {
+    name: 'driving',
+    title: 'Driving',
+    options: [
+      'I can drive my car without any neck pain',
+      'I can drive my car as long as I want with slight pain in my neck',
+      'I can drive my car as long as I want with moderate pain in my neck',
+      'I cannot drive my car as long as I want because of moderate pain in my neck',
+      'I can hardly drive at all because of severe pain in my neck',
+      'I cannot drive my car at all',
+    ],
+  },
+  {
+    name: 'sleeping',
+    title: 'Sleeping',
+    options: [
+      'I have no trouble sleeping',
+      'My sleep is slightly disturbed (less than 1 hour sleepless)',
+      'My sleep is mildly disturbed (1-2 hours sleepless)',
+      'My sleep is moderately disturbed (2-3 hours sleepless)',
+      'My sleep is greatly disturbed (3-5 hours sleepless)',
+      'My sleep is completely disturbed (5-7 hours sleepless)',
+    ],
+  },
+  {
+    name: 'recreation',
+    title: 'Recreation',
+    options: [
+      'I can do all my recreation activities with no neck pain at all',
+      'I can do all my recreation activities with some pain in my neck',
+      'I can do most, but not all, of my usual recreation activities because of pain in my neck',
+      'I can only do a few of my usual recreation activities because of pain in my neck',
+      'I can hardly do any recreation activities because of pain in my neck',
+      'I cannot do any recreation activities at all',
+    ],
+  },
+];
+
+export const disabilityIndexes: Record<DisabilityIndex, DisabilityIndexDefinition> = {
+  odi: {
+    id: 'odi',
+    shortName: 'ODI',
+    name: 'Oswestry Disability Index',
+    region: 'lower back',
+    table: 'odi_assessments',
+    mcidThreshold: 10,
+    sections: ODI_SECTIONS,
+    bands: [
+      { level: 'minimal', label: 'Minimal Disability', max: 20, barColor: 'bg-green-500', badgeColor: 'text-green-700 bg-green-100' },
+      { level: 'moderate', label: 'Moderate Disability', max: 40, barColor: 'bg-yellow-500', badgeColor: 'text-yellow-700 bg-yellow-100' },
+      { level: 'severe', label: 'Severe Disability', max: 60, barColor: 'bg-orange-500', badgeColor: 'text-orange-700 bg-orange-100' },
+      { level: 'crippled', label: 'Crippled', max: 80, barColor: 'bg-red-500', badgeColor: 'text-red-700 bg-red-100' },
+      { level: 'bed_bound', label: 'Bed-Bound', max: 100, barColor: 'bg-red-700', badgeColor: 'text-red-900 bg-red-200' },
+    ],
+  },
+  // Vernon and Mior's bands are on the 0-50 raw score (0-4, 5-14, 15-24, 25-34, 35+); MCID is 7.5 raw points.
+  ndi: {
+    id: 'ndi',
+    shortName: 'NDI',
+    name: 'Neck Disability Index',
+    region: 'neck',
+    table: 'ndi_assessments',
+    mcidThreshold: 15,
+    sections: NDI_SECTIONS,
+    bands: [
+      { level: 'none', label: 'No Disability', max: 8, barColor: 'bg-green-500', badgeColor: 'text-green-700 bg-green-100' },
+      { level: 'mild', label: 'Mild Disability', max: 28, barColor: 'bg-yellow-500', badgeColor: 'text-yellow-700 bg-yellow-100' },
+      { level: 'moderate', label: 'Moderate Disability', max: 48, barColor: 'bg-orange-500', badgeColor: 'text-orange-700 bg-orange-100' },
+      { level: 'severe', label: 'Severe Disability', max: 68, barColor: 'bg-red-500', badgeColor: 'text-red-700 bg-red-100' },
+      { level: 'complete', label: 'Complete Disability', max: 100, barColor: 'bg-red-700', badgeColor: 'text-red-900 bg-red-200' },
+    ],
+  },
+};
+
+// Neck patients get the NDI; everyone else keeps the ODI.
+export function disabilityIndexForCondition(condition: string | null | undefined): DisabilityIndex {
+  return condition === 'Neck' ? 'ndi' : 'odi';
+}
+
+export function getDisabilityBand(index: DisabilityIndex, percentage: number): DisabilityBand {
+  const bands = disabilityIndexes[index].bands;
+  return bands.find(band => percentage <= band.max) ?? bands[bands.length - 1];
+}
+
+export function getDisabilityBandByLevel(index: DisabilityIndex, level: string): DisabilityBand {
+  const bands = disabilityIndexes[index].bands;
+  return bands.find(band => band.level === level) ?? bands[0];
+}
@@ -0,0 +1,142 @@
+import { supabase } from './supabase';
+
+export type EQ5DDimension = 'mobility' | 'self_care' | 'usual_activities' | 'pain_discomfort' | 'anxiety_depression';
+
+export type EQ5DDimensionDefinition = {
+  id: EQ5DDimension;
+  title: string;
+  // Levels 1 (no problems) to 5, in order.
+  options: string[];
+};
+
+export type EQ5DValueSet = {
+  id: string;
+  country: string;
+  source: string;
+  intercept: number;
+  // Decrements for levels 1 to 5 of each dimension; level 1 is always 0.
+  coefficients: Record<EQ5DDimension, number[]>;
+};
+
+export type EQ5DAssessment = {
+  id: string;
+  assessment_date: string;
+  mobility: number;
+  self_care: number;
+  usual_activities: number;
+  pain_discomfort: number;
+  anxiety_depression: number;
+  health_state: string;
+  vas: number | null;
+  is_baseline?: boolean;
+  created_at: string;
+};
+
+export type EQ5DLevels = Pick<EQ5DAssessment, EQ5DDimension>;
+
+// Funders report against the Australian value set, so no other country's is used unless someone picks it.
+export const DEFAULT_EQ5D_VALUE_SET = 'AU';
+
+export const eq5dDimensions: EQ5DDimensionDefinition[] = [
+  {
+    id: 'mobility',
+    title: 'Mobility',
+    options: [
+      'I have no problems in walking about',
+      'I have slight problems in walking about',
+      'I have moderate problems in walking about',
+      'I have severe problems in walking about',
+      'I am unable to walk about',
+    ],
+  },
+  {
+    id: 'self_care',
+    title: 'Self-Care',
+    options: [
+      'I have no problems washing or dressing myself',
+      'I have slight problems washing or dressing myself',
+      'I have moderate problems washing or dressing myself',
+      'I have severe problems washing or dressing myself',
+      'I am unable to wash or dress myself',
+    ],
+  },
+  {
+    id: 'usual_activities',
+    title: 'Usual Activities (e.g. work, study, housework, family or leisure activities)',
+    options: [
+      'I have no problems doing my usual activities',
+      'I have slight problems doing my usual activities',
+      'I have moderate problems doing my usual activities',
+      'I have severe problems doing my usual activities',
+      'I am unable to do my usual activities',
+    ],
+  },
+  {
+    id: 'pain_discomfort',
+    title: 'Pain / Discomfort',
+    options: [
+      'I have no pain or discomfort',
+      'I have slight pain or discomfort',
+      'I have moderate pain or discomfort',
+      'I have severe pain or discomfort',
+      'I have extreme pain or discomfort',
+    ],
+  },
+  {
+    id: 'anxiety_depression',
+    title: 'Anxiety / Depression',
+    options: [
+      'I am not anxious or depressed',
+      'I am slightly anxious or depressed',
+      'I am moderately anxious or depressed',
+      'I am severely anxious or depressed',
+      'I am extremely anxious or depressed',
+    ],
+  },
+];
+
+export async function loadValueSets(): Promise<EQ5DValueSet[]> {
+  const { data, error } = await supabase
+    .from('eq5d_value_sets')
+    .select('id, country, source, intercept, coefficients')
+    .order('country');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export function defaultValueSet(valueSets: EQ5DValueSet[]): EQ5DValueSet | null {
+  return valueSets.find(valueSet => valueSet.id === DEFAULT_EQ5D_VALUE_SET) ?? null;
+}
+
+// Says when an index is not on the Australian value set, or null when it is.
+export function valueSetNotice(valueSet: EQ5DValueSet | null, valueSets: EQ5DValueSet[]): string | null {
+  if (valueSet?.id === DEFAULT_EQ5D_VALUE_SET) return null;
+  if (!valueSet) {
+    return "The Australian value set hasn't been loaded, so no index is shown. Choose another country's value set to calculate one with its weights.";
+  }
+  return defaultValueSet(valueSets)
+    ? `Index calculated with the ${valueSet.country} value set, not the Australian one.`
+    : `Index calculated with the ${valueSet.country} value set because the Australian one hasn't been loaded.`;
+}
+
+export async function loadEQ5DAssessments(patientId: string): Promise<EQ5DAssessment[]> {
+  const { data, error } = await supabase
+    .from('eq5d_assessments')
+    .select('id, assessment_date, mobility, self_care, usual_activities, pain_discomfort, anxiety_depression, health_state, vas, is_baseline, created_at')
+    .eq('patient_id', patientId)
+    .order('assessment_date', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Same calculation as the `eq5d_index` Postgres function, so cohort exports agree with the app.
+export function eq5dIndex(valueSet: EQ5DValueSet, levels: EQ5DLevels): number {
+  const isFullHealth = eq5dDimensions.every(({ id }) => levels[id] === 1);
+  const decrement = eq5dDimensions.reduce(
+    (total, { id }) => total + (valueSet.coefficients[id]?.[levels[id] - 1] ?? 0),
+    isFullHealth ? 0 : valueSet.intercept
+  );
+  return Math.round((1 - decrement) * 1000) / 1000;
+}
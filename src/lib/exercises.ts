@@ -0,0 +1,479 @@
+// Exercise programmes shown in the guided exercise player, chosen by the patient's condition.
+export type Exercise = {
+  name: string;
+  description: string;
+  sets: number;
+  reps: string;
+  duration?: string;
+  instructions: string[];
+  tips: string[];
+  warnings?: string[];
+};
+
+const ANKLE_PUMPS: Exercise = {
+  name: 'Ankle Pumps',
+  description: 'Gentle movement to improve circulation and prevent blood clots',
+  sets: 3,
+  reps: '10-15',
+  instructions: [
+    'Lie on your back with legs extended',
+    'Point your toes away from you as far as comfortable',
+    'Pull your toes back toward you',
+    'Repeat in a smooth, controlled motion',
+  ],
+  tips: [
+    'Can be done while sitting or lying down',
+    'Perform throughout the day, especially after periods of rest',
+    'Should not cause pain',
+  ],
+  warnings: [
+    'Stop if you experience sharp pain',
+    'Avoid forcing the movement',
+  ],
+};
+
+const kneeExercises: Exercise[] = [
+  ANKLE_PUMPS,
+  {
+    name: 'Quadriceps Sets',
+    description: 'Strengthens the front thigh muscles without moving the knee',
+    sets: 3,
+    reps: '10',
+    duration: '5 seconds hold',
+    instructions: [
+      'Sit with your leg straight out in front of you',
+      'Tighten the muscle on top of your thigh',
+      'Push the back of your knee down toward the surface',
+      'Hold for 5 seconds, then relax',
+    ],
+    tips: [
+      'You should see your kneecap move up slightly',
+      'Place a small towel under your knee if needed',
+      'Breathe normally during the hold',
+    ],
+  },
+  {
+    name: 'Heel Slides',
+    description: 'Improves knee bending range of motion',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Lie on your back with legs extended',
+      'Slowly slide your heel toward your buttocks',
+      'Bend your knee as far as comfortable',
+      'Hold for 2-3 seconds, then slide back to starting position',
+    ],
+    tips: [
+      'Use a towel or strap around your ankle to assist if needed',
+      'Progress gradually - don\'t force the bend',
+      'Some discomfort is normal, but stop if you feel sharp pain',
+    ],
+    warnings: [
+      'Do not bounce or jerk the leg',
+      'Maintain control throughout the movement',
+    ],
+  },
+  {
+    name: 'Straight Leg Raises',
+    description: 'Strengthens hip flexors and quadriceps',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Lie on your back with one knee bent, foot flat',
+      'Keep the other leg straight',
+      'Tighten the thigh muscle of your straight leg',
+      'Lift the straight leg 6-12 inches off the ground',
+      'Hold for 2-3 seconds, then lower slowly',
+    ],
+    tips: [
+      'Keep your back flat against the surface',
+      'Lift only as high as the bent knee',
+      'Control the lowering phase',
+    ],
+    warnings: [
+      'Stop if you feel back pain',
+      'Do not arch your lower back',
+    ],
+  },
+  {
+    name: 'Seated Knee Extension',
+    description: 'Strengthens quadriceps in a seated position',
+    sets: 3,
+    reps: '10',
+    duration: '3 seconds hold',
+    instructions: [
+      'Sit in a firm chair with feet flat on the floor',
+      'Slowly straighten one knee, lifting your foot',
+      'Hold your leg straight for 3 seconds',
+      'Lower slowly back to starting position',
+    ],
+    tips: [
+      'Keep your back against the chair',
+      'Tighten your thigh muscle at the top',
+      'Can add ankle weights as you progress',
+    ],
+  },
+];
+
+const hipExercises: Exercise[] = [
+  ANKLE_PUMPS,
+  {
+    name: 'Gluteal Sets',
+    description: 'Activates the buttock muscles that support the hip',
+    sets: 3,
+    reps: '10',
+    duration: '5 seconds hold',
+    instructions: [
+      'Lie on your back with legs extended',
+      'Squeeze your buttock muscles together',
+      'Hold for 5 seconds, then relax',
+    ],
+    tips: [
+      'Keep breathing normally during the hold',
+      'Can also be done sitting or standing',
+    ],
+  },
+  {
+    name: 'Heel Slides',
+    description: 'Gently bends the hip and knee to restore movement',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Lie on your back with legs extended',
+      'Slowly slide your heel toward your buttocks',
+      'Keep your kneecap pointing at the ceiling',
+      'Slide back to the starting position',
+    ],
+    tips: [
+      'Only bend as far as your hip precautions allow',
+      'A plastic bag under your heel helps it slide',
+    ],
+    warnings: [
+      'Do not bend your hip past 90 degrees unless your surgeon has cleared it',
+      'Do not cross your legs',
+    ],
+  },
+  {
+    name: 'Hip Abduction Slides',
+    description: 'Strengthens the muscles on the outside of the hip',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Lie on your back with legs straight and toes pointing up',
+      'Slide your operated leg out to the side',
+      'Slide it back to the middle, stopping before it crosses the midline',
+    ],
+    tips: [
+      'Keep your toes pointing at the ceiling throughout',
+      'Move slowly and with control',
+    ],
+    warnings: [
+      'Do not let the leg cross the middle of your body',
+    ],
+  },
+];
+
+const shoulderExercises: Exercise[] = [
+  {
+    name: 'Pendulum Swings',
+    description: 'Lets the shoulder move gently without using its own muscles',
+    sets: 3,
+    reps: '10 circles each way',
+    instructions: [
+      'Lean forward with your good hand on a table for support',
+      'Let your operated arm hang straight down, relaxed',
+      'Gently sway your body so the arm swings in small circles',
+      'Reverse the direction',
+    ],
+    tips: [
+      'The movement should come from your body, not your shoulder muscles',
+      'Keep the circles small at first',
+    ],
+    warnings: [
+      'Stop if the pain becomes sharp',
+    ],
+  },
+  {
+    name: 'Elbow, Wrist and Hand Movement',
+    description: 'Keeps the rest of the arm moving while the shoulder heals',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Sit with your arm supported on a pillow',
+      'Bend and straighten your elbow slowly',
+      'Bend your wrist up and down',
+      'Make a fist, then spread your fingers wide',
+    ],
+    tips: [
+      'Can be done with your sling on if your surgeon prefers',
+      'Repeat several times a day',
+    ],
+  },
+  {
+    name: 'Shoulder Blade Squeezes',
+    description: 'Improves posture and activates the muscles around the shoulder blade',
+    sets: 3,
+    reps: '10',
+    duration: '5 seconds hold',
+    instructions: [
+      'Sit or stand tall with your arms by your sides',
+      'Gently draw your shoulder blades back and together',
+      'Hold for 5 seconds, then relax',
+    ],
+    tips: [
+      'Keep your shoulders down, away from your ears',
+    ],
+    warnings: [
+      'Do not lift or move the operated arm unless your surgeon has cleared it',
+    ],
+  },
+];
+
+const neckExercises: Exercise[] = [
+  {
+    name: 'Chin Tucks',
+    description: 'Strengthens the deep neck muscles and improves posture',
+    sets: 3,
+    reps: '10',
+    duration: '5 seconds hold',
+    instructions: [
+      'Sit tall and look straight ahead',
+      'Gently draw your chin straight back, making a double chin',
+      'Hold for 5 seconds, then relax',
+    ],
+    tips: [
+      'Keep your eyes level; do not tip your head down',
+    ],
+    warnings: [
+      'Stop if you feel pins and needles or pain spreading down your arm',
+    ],
+  },
+  {
+    name: 'Neck Rotation',
+    description: 'Keeps the neck moving through a comfortable range',
+    sets: 2,
+    reps: '5 each side',
+    instructions: [
+      'Sit tall with your shoulders relaxed',
+      'Slowly turn your head to look over one shoulder',
+      'Return to the middle, then turn to the other side',
+    ],
+    tips: [
+      'Only turn as far as is comfortable',
+    ],
+    warnings: [
+      'Follow your surgeon\'s advice if you have had neck surgery or wear a collar',
+    ],
+  },
+  {
+    name: 'Shoulder Rolls',
+    description: 'Eases tension in the neck and upper back',
+    sets: 2,
+    reps: '10',
+    instructions: [
+      'Sit or stand tall with your arms relaxed',
+      'Roll your shoulders up, back and down in a slow circle',
+    ],
+    tips: [
+      'Breathe out as your shoulders roll down',
+    ],
+  },
+];
+
+const lowerBackExercises: Exercise[] = [
+  {
+    name: 'Pelvic Tilts',
+    description: 'Gently moves the lower back and activates the core muscles',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Lie on your back with knees bent and feet flat',
+      'Tighten your stomach and flatten your lower back into the surface',
+      'Hold for 3 seconds, then relax',
+    ],
+    tips: [
+      'Keep your buttocks on the surface',
+      'Breathe normally',
+    ],
+  },
+  {
+    name: 'Knee Rolls',
+    description: 'Eases stiffness in the lower back',
+    sets: 2,
+    reps: '5 each side',
+    instructions: [
+      'Lie on your back with knees bent and feet flat',
+      'Keeping your knees together, let them roll slowly to one side',
+      'Return to the middle, then roll to the other side',
+    ],
+    tips: [
+      'Keep your shoulders flat on the surface',
+      'Only go as far as is comfortable',
+    ],
+    warnings: [
+      'Avoid twisting if your surgeon has advised against it',
+    ],
+  },
+  {
+    name: 'Walking',
+    description: 'The safest way to build up general activity after a back injury or surgery',
+    sets: 1,
+    reps: '1',
+    duration: '5-10 minutes',
+    instructions: [
+      'Walk at a comfortable pace on a flat surface',
+      'Stand tall and let your arms swing naturally',
+      'Add a minute or two each day as you feel able',
+    ],
+    tips: [
+      'Several short walks are better than one long one',
+    ],
+    warnings: [
+      'Contact your care team if you develop numbness, weakness or changes in bladder or bowel control',
+    ],
+  },
+];
+
+const ankleExercises: Exercise[] = [
+  {
+    name: 'Toe Curls',
+    description: 'Keeps the small muscles of the foot working',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Sit with your foot supported',
+      'Curl your toes down, then spread them wide',
+    ],
+    tips: [
+      'Can be done in a cast or boot',
+    ],
+  },
+  {
+    name: 'Ankle Alphabet',
+    description: 'Restores movement in every direction at the ankle',
+    sets: 1,
+    reps: '1 alphabet',
+    instructions: [
+      'Sit with your leg supported and your foot over the edge',
+      'Trace the letters of the alphabet in the air with your big toe',
+      'Move from the ankle, not the knee',
+    ],
+    tips: [
+      'Keep the letters small at first',
+    ],
+    warnings: [
+      'Only start once your surgeon or physiotherapist says the ankle can move',
+    ],
+  },
+  {
+    name: 'Straight Leg Raises',
+    description: 'Keeps the thigh strong while the ankle is protected',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Lie on your back with your other knee bent, foot flat',
+      'Tighten the thigh of your straight leg',
+      'Lift it to the height of the bent knee, then lower slowly',
+    ],
+    tips: [
+      'Can be done in a cast or boot',
+    ],
+    warnings: [
+      'Stop if you feel back pain',
+    ],
+  },
+];
+
+const armExercises: Exercise[] = [
+  {
+    name: 'Finger Bends',
+    description: 'Prevents stiffness in the hand',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Rest your forearm on a table',
+      'Make a gentle fist, then straighten your fingers fully',
+    ],
+    tips: [
+      'Keep your hand raised between sets to reduce swelling',
+    ],
+  },
+  {
+    name: 'Wrist Bends',
+    description: 'Restores the wrist\'s forward and backward movement',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Rest your forearm on a table with your hand over the edge',
+      'Slowly bend your wrist up, then down',
+    ],
+    tips: [
+      'Let your fingers relax as you move',
+    ],
+    warnings: [
+      'Only start once your splint or cast is off and your care team has cleared it',
+    ],
+  },
+  {
+    name: 'Forearm Turns',
+    description: 'Restores turning the palm up and down',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Sit with your elbow bent at your side',
+      'Slowly turn your palm up to the ceiling, then down to the floor',
+    ],
+    tips: [
+      'Keep your elbow tucked in against your side',
+    ],
+  },
+  {
+    name: 'Elbow Bends',
+    description: 'Keeps the elbow moving through its full range',
+    sets: 3,
+    reps: '10',
+    instructions: [
+      'Sit or stand with your arm by your side',
+      'Slowly bend your elbow as far as comfortable, then straighten it',
+    ],
+    tips: [
+      'Support the arm with your other hand if needed',
+    ],
+  },
+];
+
+const generalExercises: Exercise[] = [
+  ANKLE_PUMPS,
+  {
+    name: 'Deep Breathing',
+    description: 'Keeps the lungs clear while you are less active',
+    sets: 1,
+    reps: '10 breaths',
+    instructions: [
+      'Sit upright or lie with your head raised',
+      'Breathe in slowly through your nose as deeply as you can',
+      'Hold for 2-3 seconds, then breathe out slowly through your mouth',
+    ],
+    tips: [
+      'Repeat every hour while you are awake in the first days after surgery',
+    ],
+  },
+];
+
+// Keyed by the condition options on the profile.
+const exercisePrograms: Record<string, Exercise[]> = {
+  Knee: kneeExercises,
+  Hip: hipExercises,
+  Shoulder: shoulderExercises,
+  Neck: neckExercises,
+  'Lower Back': lowerBackExercises,
+  Ankle: ankleExercises,
+  Elbow: armExercises,
+  Wrist: armExercises,
+};
+
+export const DEFAULT_EXERCISES = kneeExercises;
+
+export function exercisesForCondition(condition?: string): Exercise[] {
+  return (condition && exercisePrograms[condition]) || generalExercises;
+}
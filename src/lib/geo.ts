@@ -0,0 +1,184 @@
+import { supabase } from './supabase';
+
+export type LatLng = {
+  latitude: number;
+  longitude: number;
+};
+
+export type SearchOrigin = LatLng & {
+  label: string;
+};
+
+export const TILE_SIZE = 256;
+const EARTH_RADIUS_KM = 6371;
+
+// Swap in a local tile server (e.g. `http://localhost:8080/{z}/{x}/{y}.png`) for tests and offline development.
+export const mapTileUrl = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const mapAttribution = import.meta.env.VITE_MAP_ATTRIBUTION || '© OpenStreetMap contributors';
+
+export const radiusOptions = [5, 10, 25, 50];
+
+export function distanceKm(from: LatLng, to: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
+
+export function hasLocation<T extends { latitude: number | null; longitude: number | null }>(
+  item: T
+): item is T & LatLng {
+  return item.latitude !== null && item.longitude !== null;
+}
+
+// Web Mercator, in pixels of the whole world at this zoom level.
+export function projectToPixel(point: LatLng, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((point.latitude * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+export function pixelToLatLng(pixel: { x: number; y: number }, zoom: number): LatLng {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * pixel.y) / scale;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (pixel.x / scale) * 360 - 180,
+  };
+}
+
+export function metersPerPixel(latitude: number, zoom: number): number {
+  return (156543.03392 * Math.cos((latitude * Math.PI) / 180)) / 2 ** zoom;
+}
+
+// The highest zoom at which every point fits inside the viewport with some padding.
+export function fitBounds(
+  points: LatLng[],
+  viewport: { width: number; height: number },
+  options: { padding?: number; minZoom?: number; maxZoom?: number } = {}
+): { center: LatLng; zoom: number } {
+  const { padding = 40, minZoom = 3, maxZoom = 15 } = options;
+  if (points.length === 0) {
+    return { center: { latitude: -37.8136, longitude: 144.9631 }, zoom: 10 };
+  }
+
+  for (let zoom = maxZoom; zoom >= minZoom; zoom--) {
+    const pixels = points.map(point => projectToPixel(point, zoom));
+    const xs = pixels.map(p => p.x);
+    const ys = pixels.map(p => p.y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    if (width <= viewport.width - padding * 2 && height <= viewport.height - padding * 2) {
+      return {
+        center: pixelToLatLng({ x: (Math.max(...xs) + Math.min(...xs)) / 2, y: (Math.max(...ys) + Math.min(...ys)) / 2 }, zoom),
+        zoom,
+      };
+    }
+  }
+
+  const pixels = points.map(point => projectToPixel(point, minZoom));
+  const x = pixels.reduce((sum, p) => sum + p.x, 0) / pixels.length;
+  const y = pixels.reduce((sum, p) => sum + p.y, 0) / pixels.length;
+  return { center: pixelToLatLng({ x, y }, minZoom), zoom: minZoom };
+}
+
+export type MapTile = {
+  key: string;
+  url: string;
+  left: number;
+  top: number;
+};
+
+// Tiles covering a viewport centred on `center`, positioned relative to its top-left corner.
+export function visibleTiles(
+  center: LatLng,
+  zoom: number,
+  viewport: { width: number; height: number },
+  template: string = mapTileUrl
+): MapTile[] {
+  const centerPixel = projectToPixel(center, zoom);
+  const originX = centerPixel.x - viewport.width / 2;
+  const originY = centerPixel.y - viewport.height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: MapTile[] = [];
+  for (let tileX = Math.floor(originX / TILE_SIZE); tileX <= Math.floor((originX + viewport.width) / TILE_SIZE); tileX++) {
+    for (let tileY = Math.floor(originY / TILE_SIZE); tileY <= Math.floor((originY + viewport.height) / TILE_SIZE); tileY++) {
+      if (tileY < 0 || tileY >= tileCount) continue;
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${zoom}/${tileX}/${tileY}`,
+        url: template
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(wrappedX))
+          .replace('{y}', String(tileY)),
+        left: tileX * TILE_SIZE - originX,
+        top: tileY * TILE_SIZE - originY,
+      });
+    }
+  }
+  return tiles;
+}
+
+export function getBrowserLocation(): Promise<SearchOrigin> {
+  return new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('Location is not available in this browser'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        label: 'your location',
+      }),
+      error => reject(new Error(error.code === error.PERMISSION_DENIED
+        ? 'Location permission was denied'
+        : 'Could not find your location')),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+}
+
+const geocodeCache = new Map<string, SearchOrigin>();
+
+export async function geocodePostcode(postcode: string): Promise<SearchOrigin | null> {
+  const query = postcode.trim();
+  const cached = geocodeCache.get(query);
+  if (cached) return cached;
+
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/geocode`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    // Bare postcodes match streets and house numbers elsewhere, so they're searched as Australian postcodes.
+    body: JSON.stringify({ query: /^\d{4}$/.test(query) ? `${query}, Australia` : query }),
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Geocoding failed with ${response.status}: ${await response.text()}`);
+  }
+
+  const { latitude, longitude } = await response.json();
+  const origin = { latitude, longitude, label: query };
+  geocodeCache.set(query, origin);
+  return origin;
+}
@@ -0,0 +1,130 @@
+import { supabase } from './supabase';
+import { getSignedUrl, patientObjectPath, removeFile, safeFileName, uploadFileWithProgress } from './storage';
+
+export const MEDICAL_RECORDS_BUCKET = 'medical-records';
+export const MAX_RECORD_BYTES = 20 * 1024 * 1024;
+export const ACCEPTED_RECORD_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+export type DocumentType = 'lab_result' | 'imaging' | 'prescription' | 'report' | 'discharge_summary' | 'other';
+
+export const documentTypeOptions: { value: DocumentType; label: string }[] = [
+  { value: 'lab_result', label: 'Lab Result' },
+  { value: 'imaging', label: 'Imaging (X-ray, MRI, CT)' },
+  { value: 'prescription', label: 'Prescription' },
+  { value: 'report', label: 'Medical Report' },
+  { value: 'discharge_summary', label: 'Discharge Summary' },
+  { value: 'other', label: 'Other' },
+];
+
+export type StoredDocument = {
+  document_name?: string;
+  document_url: string;
+  storage_bucket?: string | null;
+  storage_path?: string | null;
+};
+
+export type NewMedicalRecord = {
+  documentName: string;
+  documentType: DocumentType;
+  notes?: string;
+  bucket: string;
+  path: string;
+  fileSize: number;
+  mimeType: string;
+};
+
+// Guesses from the file name so the picker starts on the most likely type.
+export function suggestDocumentType(fileName: string, mimeType: string): DocumentType {
+  const name = fileName.toLowerCase();
+
+  if (/discharge/.test(name)) return 'discharge_summary';
+  if (/x-?ray|mri|\bct\b|scan|ultrasound|imaging/.test(name)) return 'imaging';
+  if (/blood|lab|pathology|result/.test(name)) return 'lab_result';
+  if (/prescription|script|medication/.test(name)) return 'prescription';
+  if (/report|letter|summary/.test(name) || mimeType === 'application/pdf') return 'report';
+  return 'other';
+}
+
+export function validateRecordFile(file: File): string | null {
+  if (!ACCEPTED_RECORD_TYPES.includes(file.type)) {
+    return 'Upload a PDF or an image (JPG, PNG, WebP, HEIC).';
+  }
+  if (file.size > MAX_RECORD_BYTES) {
+    return `Files must be ${MAX_RECORD_BYTES / (1024 * 1024)} MB or smaller.`;
+  }
+  return null;
+}
+
+export function newRecordPath(patientId: string, fileName: string): string {
+  return patientObjectPath(patientId, `${Date.now()}-${safeFileName(fileName)}`);
+}
+
+// Records created before storage uploads only have a `document_url`, so those are returned as-is.
+export async function getDocumentUrl(record: StoredDocument, options: { download?: boolean } = {}): Promise<string> {
+  if (record.storage_bucket && record.storage_path) {
+    const downloadName = options.download ? safeFileName(record.document_name || 'document') : undefined;
+    return getSignedUrl(record.storage_bucket, record.storage_path, undefined, downloadName);
+  }
+  return record.document_url;
+}
+
+export async function uploadMedicalRecord(
+  patientId: string,
+  file: File,
+  details: { documentName: string; documentType: DocumentType; notes: string },
+  onProgress: (fraction: number) => void
+): Promise<string> {
+  const path = newRecordPath(patientId, file.name);
+  await uploadFileWithProgress(MEDICAL_RECORDS_BUCKET, path, file, onProgress);
+
+  try {
+    return await createMedicalRecord(patientId, {
+      ...details,
+      bucket: MEDICAL_RECORDS_BUCKET,
+      path,
+      fileSize: file.size,
+      mimeType: file.type,
+    });
+  } catch (error) {
+    await removeFile(MEDICAL_RECORDS_BUCKET, path).catch(cleanupError => {
+      console.error('Error removing orphaned upload:', cleanupError);
+    });
+    throw error;
+  }
+}
+
+// The file goes first: if that fails the row stays and the patient can retry, rather than leaving an object nothing points at.
+export async function deleteMedicalRecord(record: { id: string } & StoredDocument): Promise<void> {
+  // Only objects this feature owns are removed; anything else may still be referenced elsewhere.
+  if (record.storage_bucket === MEDICAL_RECORDS_BUCKET && record.storage_path) {
+    await removeFile(record.storage_bucket, record.storage_path);
+  }
+
+  const { error } = await supabase
+    .from('medical_records')
+    .delete()
+    .eq('id', record.id);
+
+  if (error) throw error;
+}
+
+export async function createMedicalRecord(patientId: string, record: NewMedicalRecord): Promise<string> {
+  const { data, error } = await supabase
+    .from('medical_records')
+    .insert({
+      patient_id: patientId,
+      document_name: record.documentName,
+      document_type: record.documentType,
+      document_url: `${record.bucket}/${record.path}`,
+      storage_bucket: record.bucket,
+      storage_path: record.path,
+      file_size: record.fileSize,
+      mime_type: record.mimeType,
+      notes: record.notes ?? '',
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
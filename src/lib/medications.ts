@@ -0,0 +1,341 @@
+import { supabase } from './supabase';
+import { localDateString } from './dates';
+
+export type TaperStep = {
+  start_date: string;
+  dose: string;
+  schedule_times: string[];
+};
+
+export type Medication = {
+  id: string;
+  patient_id: string;
+  name: string;
+  dose: string;
+  instructions: string;
+  schedule_times: string[];
+  is_prn: boolean;
+  max_daily_doses: number | null;
+  min_hours_between: number | null;
+  is_opioid: boolean;
+  taper_steps: TaperStep[];
+  start_date: string;
+  end_date: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type MedicationInput = Pick<
+  Medication,
+  | 'name'
+  | 'dose'
+  | 'instructions'
+  | 'schedule_times'
+  | 'is_prn'
+  | 'max_daily_doses'
+  | 'min_hours_between'
+  | 'is_opioid'
+  | 'taper_steps'
+  | 'start_date'
+  | 'end_date'
+>;
+
+export type MedicationDose = {
+  id: string;
+  medication_id: string;
+  patient_id: string;
+  status: 'taken' | 'skipped';
+  scheduled_date: string | null;
+  scheduled_time: string | null;
+  taken_at: string;
+  dose: string;
+  reason: string;
+  pain_level: number | null;
+};
+
+export type ScheduledDose = {
+  medication: Medication;
+  date: string;
+  time: string;
+  dose: string;
+  log: MedicationDose | null;
+};
+
+export type DailyMedicationSummary = {
+  date: string;
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  prnDoses: number;
+  opioidPrnDoses: number;
+};
+
+export const frequencyPresets: { id: string; label: string; times: string[] }[] = [
+  { id: 'once', label: 'Once a day', times: ['08:00'] },
+  { id: 'twice', label: 'Twice a day', times: ['08:00', '20:00'] },
+  { id: 'three', label: 'Three times a day', times: ['08:00', '14:00', '20:00'] },
+  { id: 'four', label: 'Four times a day', times: ['08:00', '12:00', '16:00', '20:00'] },
+];
+
+// Postgres returns `time` values as HH:MM:SS.
+function toHourMinute(time: string): string {
+  return time.slice(0, 5);
+}
+
+export function formatDoseTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+export function describeSchedule(dose: string, times: string[]): string {
+  if (times.length === 0) return 'Stopped';
+  const preset = frequencyPresets.find(p => p.times.length === times.length);
+  const frequency = preset ? preset.label.toLowerCase() : `${times.length} times a day`;
+  return dose ? `${dose}, ${frequency}` : frequency;
+}
+
+// Taper steps are only ordered when saved here, so rows written elsewhere are sorted on the way in, as the scheduler does.
+function byStartDate(steps: TaperStep[]): TaperStep[] {
+  return [...steps].sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+// Mirrors medicationScheduleFor in supabase/functions/reminder-scheduler/scheduler.ts.
+export function scheduleForDate(
+  medication: Medication,
+  date: string
+): { dose: string; times: string[]; stepIndex: number | null } | null {
+  // Stopped medications keep their end date, so past adherence still counts them.
+  if (medication.is_prn || (!medication.active && !medication.end_date)) return null;
+  if (date < medication.start_date) return null;
+  if (medication.end_date && date > medication.end_date) return null;
+
+  let schedule = { dose: medication.dose, times: medication.schedule_times, stepIndex: null as number | null };
+  byStartDate(medication.taper_steps).forEach((step, index) => {
+    if (step.start_date <= date) schedule = { dose: step.dose, times: step.schedule_times, stepIndex: index };
+  });
+
+  return { ...schedule, times: schedule.times.map(toHourMinute).sort() };
+}
+
+export function dosesForDate(medications: Medication[], logs: MedicationDose[], date: string): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+
+  for (const medication of medications) {
+    const schedule = scheduleForDate(medication, date);
+    if (!schedule) continue;
+
+    for (const time of schedule.times) {
+      const log = logs.find(l =>
+        l.medication_id === medication.id
+        && l.scheduled_date === date
+        && l.scheduled_time !== null
+        && toHourMinute(l.scheduled_time) === time
+      ) ?? null;
+      doses.push({ medication, date, time, dose: schedule.dose, log });
+    }
+  }
+
+  return doses.sort((a, b) => a.time.localeCompare(b.time) || a.medication.name.localeCompare(b.medication.name));
+}
+
+export function taperProgress(medication: Medication, today: string): {
+  currentStep: number;
+  totalSteps: number;
+  currentDose: string;
+  currentTimes: string[];
+  nextStep: TaperStep | null;
+  percentComplete: number;
+} | null {
+  const steps = medication.taper_steps;
+  if (steps.length === 0) return null;
+
+  const schedule = scheduleForDate(medication, today);
+  const currentIndex = steps.reduce((found, step, index) => (step.start_date <= today ? index : found), -1);
+  const first = new Date(medication.start_date).getTime();
+  const last = new Date(steps[steps.length - 1].start_date).getTime();
+  const now = new Date(today).getTime();
+
+  return {
+    // Step 0 is the starting dose, before the first reduction.
+    currentStep: currentIndex + 1,
+    totalSteps: steps.length,
+    currentDose: schedule?.dose ?? steps[steps.length - 1].dose,
+    currentTimes: schedule?.times ?? [],
+    nextStep: steps[currentIndex + 1] ?? null,
+    percentComplete: last > first ? Math.min(100, Math.max(0, ((now - first) / (last - first)) * 100)) : 100,
+  };
+}
+
+export function prnStatus(medication: Medication, logs: MedicationDose[], now: Date = new Date()): {
+  takenToday: number;
+  lastTakenAt: Date | null;
+  nextAllowedAt: Date | null;
+  atDailyLimit: boolean;
+} {
+  const today = localDateString(now);
+  const taken = logs
+    .filter(l => l.medication_id === medication.id && l.status === 'taken')
+    .map(l => new Date(l.taken_at))
+    .sort((a, b) => b.getTime() - a.getTime());
+
+  const takenToday = taken.filter(t => localDateString(t) === today).length;
+  const lastTakenAt = taken[0] ?? null;
+  const nextAllowedAt = lastTakenAt && medication.min_hours_between
+    ? new Date(lastTakenAt.getTime() + medication.min_hours_between * 60 * 60 * 1000)
+    : null;
+
+  return {
+    takenToday,
+    lastTakenAt,
+    nextAllowedAt: nextAllowedAt && nextAllowedAt > now ? nextAllowedAt : null,
+    atDailyLimit: !!medication.max_daily_doses && takenToday >= medication.max_daily_doses,
+  };
+}
+
+// Today only counts doses that are already due, so adherence isn't dragged down by this evening's dose.
+export function summarizeMedicationDays(
+  medications: Medication[],
+  logs: MedicationDose[],
+  dates: string[],
+  now: Date = new Date()
+): DailyMedicationSummary[] {
+  const today = localDateString(now);
+  const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+  const prnIds = new Set(medications.filter(m => m.is_prn).map(m => m.id));
+  const opioidIds = new Set(medications.filter(m => m.is_opioid).map(m => m.id));
+
+  return dates.map(date => {
+    const due = dosesForDate(medications, logs, date).filter(d => date < today || (date === today && d.time <= currentTime));
+    const prnLogs = logs.filter(l =>
+      prnIds.has(l.medication_id) && l.status === 'taken' && localDateString(new Date(l.taken_at)) === date
+    );
+
+    return {
+      date,
+      scheduled: due.length,
+      taken: due.filter(d => d.log?.status === 'taken').length,
+      skipped: due.filter(d => d.log?.status === 'skipped').length,
+      prnDoses: prnLogs.length,
+      opioidPrnDoses: prnLogs.filter(l => opioidIds.has(l.medication_id)).length,
+    };
+  });
+}
+
+export async function loadMedications(patientId: string, options: { includeStopped?: boolean } = {}): Promise<Medication[]> {
+  let query = supabase
+    .from('medications')
+    .select('*')
+    .eq('patient_id', patientId)
+    .order('name', { ascending: true });
+
+  if (!options.includeStopped) query = query.eq('active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).map(medication => ({ ...medication, taper_steps: byStartDate(medication.taper_steps ?? []) }));
+}
+
+export async function saveMedication(patientId: string, input: MedicationInput, medicationId?: string): Promise<Medication> {
+  const row = {
+    ...input,
+    taper_steps: byStartDate(input.taper_steps),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = medicationId
+    ? await supabase.from('medications').update(row).eq('id', medicationId).select().single()
+    : await supabase.from('medications').insert({ ...row, patient_id: patientId }).select().single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function stopMedication(medicationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('medications')
+    .update({ active: false, end_date: localDateString(), updated_at: new Date().toISOString() })
+    .eq('id', medicationId);
+
+  if (error) throw error;
+}
+
+export async function deleteMedication(medicationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('medications')
+    .delete()
+    .eq('id', medicationId);
+
+  if (error) throw error;
+}
+
+export async function loadDoseLogs(patientId: string, fromDate: string): Promise<MedicationDose[]> {
+  const { data, error } = await supabase
+    .from('medication_doses')
+    .select('*')
+    .eq('patient_id', patientId)
+    .or(`scheduled_date.gte.${fromDate},taken_at.gte.${new Date(`${fromDate}T00:00:00`).toISOString()}`)
+    .order('taken_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function logScheduledDose(
+  patientId: string,
+  dose: ScheduledDose,
+  status: MedicationDose['status'],
+  reason = ''
+): Promise<MedicationDose> {
+  const { data, error } = await supabase
+    .from('medication_doses')
+    .upsert({
+      medication_id: dose.medication.id,
+      patient_id: patientId,
+      status,
+      scheduled_date: dose.date,
+      scheduled_time: dose.time,
+      taken_at: new Date().toISOString(),
+      dose: dose.dose,
+      reason,
+    }, {
+      onConflict: 'medication_id,scheduled_date,scheduled_time'
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function logPrnDose(
+  patientId: string,
+  medication: Medication,
+  details: { takenAt: Date; reason: string; painLevel: number | null }
+): Promise<MedicationDose> {
+  const { data, error } = await supabase
+    .from('medication_doses')
+    .insert({
+      medication_id: medication.id,
+      patient_id: patientId,
+      status: 'taken',
+      taken_at: details.takenAt.toISOString(),
+      dose: medication.dose,
+      reason: details.reason,
+      pain_level: details.painLevel,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteDoseLog(doseId: string): Promise<void> {
+  const { error } = await supabase
+    .from('medication_doses')
+    .delete()
+    .eq('id', doseId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,54 @@
+// Mirrors the delivery categories in supabase/functions/reminder-scheduler/routing.ts.
+
+export type DeliveryChannel = 'push' | 'email' | 'sms';
+
+export type DeliveryCategory =
+  | 'daily_checkin'
+  | 'exercises'
+  | 'medications'
+  | 'appointments'
+  | 'care_updates'
+  | 'educational';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export type ChannelRouting = Partial<Record<DeliveryCategory, DeliveryChannel[]>>;
+
+export const deliveryChannels: { id: DeliveryChannel; label: string }[] = [
+  { id: 'push', label: 'Push' },
+  { id: 'email', label: 'Email' },
+  { id: 'sms', label: 'SMS' },
+];
+
+export const deliveryCategories: {
+  id: DeliveryCategory;
+  label: string;
+  // Low-priority categories are bundled into the digest when one is turned on.
+  lowPriority: boolean;
+}[] = [
+  { id: 'daily_checkin', label: 'Daily check-in', lowPriority: false },
+  { id: 'medications', label: 'Medications', lowPriority: false },
+  { id: 'appointments', label: 'Appointments', lowPriority: false },
+  { id: 'care_updates', label: 'Care team updates', lowPriority: false },
+  { id: 'exercises', label: 'Exercises', lowPriority: true },
+  { id: 'educational', label: 'Educational content', lowPriority: true },
+];
+
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// A category without an explicit route uses every channel, matching the server.
+export function routedChannels(routing: ChannelRouting, category: DeliveryCategory): DeliveryChannel[] {
+  return routing[category] ?? deliveryChannels.map(channel => channel.id);
+}
+
+export function toggleRoute(
+  routing: ChannelRouting,
+  category: DeliveryCategory,
+  channel: DeliveryChannel
+): ChannelRouting {
+  const current = routedChannels(routing, category);
+  const next = current.includes(channel)
+    ? current.filter(c => c !== channel)
+    : deliveryChannels.map(c => c.id).filter(c => c === channel || current.includes(c));
+  return { ...routing, [category]: next };
+}
@@ -0,0 +1,125 @@
+import { supabase } from './supabase';
+
+export type AppNotification = {
+  id: string;
+  patient_id: string;
+  notification_type: string;
+  title: string;
+  message: string;
+  read: boolean;
+  action_url: string | null;
+  created_at: string;
+};
+
+export type NotificationCategory = 'red_flag' | 'reminder' | 'care' | 'general';
+
+export const notificationCategoryLabels: Record<NotificationCategory, string> = {
+  red_flag: 'Urgent',
+  reminder: 'Reminders',
+  care: 'Your care',
+  general: 'Updates',
+};
+
+const INBOX_PAGE_SIZE = 100;
+
+// Reminder types are written as `reminder_<kind>` by the reminder scheduler.
+export function getNotificationCategory(notificationType: string): NotificationCategory {
+  if (notificationType === 'red_flag') return 'red_flag';
+  if (notificationType.startsWith('reminder')) return 'reminder';
+  if (/referral|appointment|medication/.test(notificationType)) return 'care';
+  return 'general';
+}
+
+export async function loadNotifications(patientId: string): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('patient_id', patientId)
+    .order('created_at', { ascending: false })
+    .limit(INBOX_PAGE_SIZE);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function countUnreadNotifications(patientId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('patient_id', patientId)
+    .eq('read', false);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .eq('id', notificationId);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(patientId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .eq('patient_id', patientId)
+    .eq('read', false);
+
+  if (error) throw error;
+}
+
+export async function deleteNotification(notificationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .delete()
+    .eq('id', notificationId);
+
+  if (error) throw error;
+}
+
+type NotificationChangeHandlers = {
+  onInsert?: (notification: AppNotification) => void;
+  onUpdate?: (notification: AppNotification) => void;
+  onDelete?: (notificationId: string) => void;
+};
+
+let channelCount = 0;
+
+// Each caller gets its own channel so the bell and the inbox can be mounted independently.
+export function subscribeToNotifications(patientId: string, handlers: NotificationChangeHandlers): () => void {
+  const channel = supabase
+    .channel(`notifications:${patientId}:${++channelCount}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `patient_id=eq.${patientId}` },
+      (payload) => {
+        if (payload.eventType === 'INSERT') handlers.onInsert?.(payload.new as AppNotification);
+        if (payload.eventType === 'UPDATE') handlers.onUpdate?.(payload.new as AppNotification);
+        if (payload.eventType === 'DELETE') handlers.onDelete?.((payload.old as { id: string }).id);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Only in-app paths are followed; anything else is ignored rather than opened blindly.
+export function getNotificationPath(notification: AppNotification): string | null {
+  const url = notification.action_url;
+  if (!url) return null;
+  if (url.startsWith('/') && !url.startsWith('//')) return url;
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.origin === window.location.origin) return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return null;
+  }
+  return null;
+}
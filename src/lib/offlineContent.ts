@@ -0,0 +1,164 @@
+import { EducationalContent } from './supabase';
+
+// public/sw.js serves media out of this cache, so the name must stay in step with it.
+const OFFLINE_CONTENT_CACHE = 'qivr-offline-content-v1';
+const METADATA_PREFIX = '/offline-content/';
+
+export type SavedContent = {
+  content: EducationalContent;
+  mediaUrls: string[];
+  bytes: number;
+  savedAt: string;
+};
+
+export type StorageUsage = {
+  usage: number;
+  quota: number;
+};
+
+export function isOfflineContentSupported(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window;
+}
+
+function metadataUrl(contentId: string): string {
+  return `${window.location.origin}${METADATA_PREFIX}${encodeURIComponent(contentId)}.json`;
+}
+
+async function downloadToCache(
+  cache: Cache,
+  url: string,
+  onBytes: (loaded: number, total: number) => void
+): Promise<number> {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) throw new Error(`Download failed with ${response.status}`);
+
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  const reader = response.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  if (reader) {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.length;
+      onBytes(loaded, total);
+    }
+  }
+
+  const blob = reader
+    ? new Blob(chunks, { type: response.headers.get('Content-Type') ?? '' })
+    : await response.blob();
+
+  await cache.put(url, new Response(blob, {
+    headers: {
+      'Content-Type': blob.type,
+      'Content-Length': String(blob.size),
+    },
+  }));
+
+  return blob.size;
+}
+
+// Articles and exercise lists only need their row, since their layouts ship with the app shell.
+// Videos and thumbnails are downloaded whole so the service worker can play them back offline.
+export async function saveContentForOffline(
+  content: EducationalContent,
+  onProgress?: (fraction: number) => void
+): Promise<SavedContent> {
+  const cache = await caches.open(OFFLINE_CONTENT_CACHE);
+  const mediaUrls: string[] = [];
+  let bytes = 0;
+
+  navigator.storage?.persist?.().catch(error => console.error('Error requesting persistent storage:', error));
+
+  if (content.content_type === 'video' && content.content_url) {
+    bytes += await downloadToCache(cache, content.content_url, (loaded, total) => {
+      if (total > 0) onProgress?.(loaded / total);
+    });
+    mediaUrls.push(content.content_url);
+  }
+
+  if (content.thumbnail_url) {
+    try {
+      bytes += await downloadToCache(cache, content.thumbnail_url, () => {});
+      mediaUrls.push(content.thumbnail_url);
+    } catch (error) {
+      // Thumbnails are decorative; plenty of image hosts don't allow CORS downloads.
+      console.error('Error saving thumbnail for offline use:', error);
+    }
+  }
+
+  const saved: SavedContent = {
+    content,
+    mediaUrls,
+    bytes: bytes + JSON.stringify(content).length,
+    savedAt: new Date().toISOString(),
+  };
+
+  await cache.put(metadataUrl(content.id), new Response(JSON.stringify(saved), {
+    headers: { 'Content-Type': 'application/json' },
+  }));
+  onProgress?.(1);
+
+  return saved;
+}
+
+export async function removeOfflineContent(contentId: string): Promise<void> {
+  const cache = await caches.open(OFFLINE_CONTENT_CACHE);
+  const saved = await getOfflineContent(contentId);
+
+  // Another saved item may share a thumbnail, so only remove URLs nothing else references.
+  const others = (await listOfflineContent()).filter(item => item.content.id !== contentId);
+  const stillUsed = new Set(others.flatMap(item => item.mediaUrls));
+
+  await Promise.all(
+    (saved?.mediaUrls ?? [])
+      .filter(url => !stillUsed.has(url))
+      .map(url => cache.delete(url))
+  );
+  await cache.delete(metadataUrl(contentId));
+}
+
+export async function getOfflineContent(contentId: string): Promise<SavedContent | null> {
+  if (!isOfflineContentSupported()) return null;
+
+  const cache = await caches.open(OFFLINE_CONTENT_CACHE);
+  const response = await cache.match(metadataUrl(contentId));
+  return response ? response.json() : null;
+}
+
+export async function listOfflineContent(): Promise<SavedContent[]> {
+  if (!isOfflineContentSupported()) return [];
+
+  const cache = await caches.open(OFFLINE_CONTENT_CACHE);
+  const keys = await cache.keys();
+  const saved = await Promise.all(
+    keys
+      .filter(request => new URL(request.url).pathname.startsWith(METADATA_PREFIX))
+      .map(async request => {
+        const response = await cache.match(request);
+        return response ? (await response.json() as SavedContent) : null;
+      })
+  );
+
+  return saved
+    .filter((item): item is SavedContent => !!item)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+// Covers everything the app stores on the device, not just saved content.
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
+}
@@ -0,0 +1,275 @@
+import { supabase } from './supabase';
+
+export type SubmissionKind = 'check_in' | 'odi' | 'ndi' | 'prom' | 'eq5d' | 'triage_event';
+export type SubmissionStatus = 'pending' | 'syncing' | 'synced' | 'failed';
+
+// One row per kind, patient and day (and instrument, for PROMs), so re-submitting on the same day replaces the queued copy.
+export type QueuedSubmission = {
+  key: string;
+  kind: SubmissionKind;
+  patientId: string;
+  date: string;
+  table: string;
+  onConflict: string;
+  // Insert-only rows are never overwritten by a replay; the first copy to arrive wins.
+  ignoreDuplicates?: boolean;
+  payload: Record<string, unknown>;
+  status: SubmissionStatus;
+  attempts: number;
+  lastError: string | null;
+  savedAt: string;
+  syncedAt: string | null;
+};
+
+// `keyColumns` are payload columns that, with the patient and date, make a submission unique.
+// Targets without a `dateColumn` are unique on their `keyColumns` alone.
+const submissionTargets: Record<
+  SubmissionKind,
+  { table: string; dateColumn?: string; keyColumns?: string[]; ignoreDuplicates?: boolean }
+> = {
+  check_in: { table: 'proms_data', dateColumn: 'check_in_date' },
+  odi: { table: 'odi_assessments', dateColumn: 'assessment_date' },
+  ndi: { table: 'ndi_assessments', dateColumn: 'assessment_date' },
+  prom: { table: 'prom_responses', dateColumn: 'assessment_date', keyColumns: ['instrument_id'] },
+  eq5d: { table: 'eq5d_assessments', dateColumn: 'assessment_date' },
+  triage_event: { table: 'triage_events', keyColumns: ['id'], ignoreDuplicates: true },
+};
+
+export const submissionLabels: Record<SubmissionKind, string> = {
+  check_in: 'Daily check-in',
+  odi: 'ODI assessment',
+  ndi: 'NDI assessment',
+  prom: 'Questionnaire',
+  eq5d: 'EQ-5D-5L',
+  triage_event: 'Symptom alert',
+};
+
+// public/sw.js opens the same database, so these names must stay in step with it.
+const DB_NAME = 'qivr-offline';
+const DB_VERSION = 1;
+const SUBMISSIONS_STORE = 'submissions';
+const META_STORE = 'meta';
+const SYNC_TAG = 'qivr-submissions';
+const CHANNEL_NAME = 'qivr-submissions';
+
+const SYNCED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openQueueDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) {
+          db.createObjectStore(SUBMISSIONS_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueueDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const listeners = new Set<() => void>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+channel?.addEventListener('message', () => listeners.forEach(listener => listener()));
+
+function notifyChanged() {
+  listeners.forEach(listener => listener());
+  channel?.postMessage('changed');
+}
+
+// Fires for changes made by this tab, other tabs and the service worker.
+export function subscribeToSubmissions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function putSubmission(submission: QueuedSubmission): Promise<void> {
+  await runInStore(SUBMISSIONS_STORE, 'readwrite', store => store.put(submission));
+  notifyChanged();
+}
+
+export async function listSubmissions(patientId: string): Promise<QueuedSubmission[]> {
+  const all = await runInStore<QueuedSubmission[]>(SUBMISSIONS_STORE, 'readonly', store => store.getAll());
+  return all
+    .filter(submission => submission.patientId === patientId)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+async function requestBackgroundSync() {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    // Background Sync is Chromium-only; elsewhere the `online` listener in startSubmissionSync covers it.
+    const syncManager = (registration as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    }).sync;
+    await syncManager?.register(SYNC_TAG);
+  } catch (error) {
+    console.error('Error registering background sync:', error);
+  }
+}
+
+// Saves to the device first and then tries to send; the caller never waits on the network.
+export async function queueSubmission(
+  kind: SubmissionKind,
+  patientId: string,
+  date: string,
+  payload: Record<string, unknown>
+): Promise<QueuedSubmission> {
+  const { table, dateColumn, keyColumns = [], ignoreDuplicates } = submissionTargets[kind];
+  const submission: QueuedSubmission = {
+    key: [kind, ...keyColumns.map(column => String(payload[column])), patientId, date].join(':'),
+    kind,
+    patientId,
+    date,
+    table,
+    onConflict: dateColumn ? ['patient_id', ...keyColumns, dateColumn].join(',') : keyColumns.join(','),
+    ignoreDuplicates,
+    payload: { ...payload, patient_id: patientId, ...(dateColumn ? { [dateColumn]: date } : {}) },
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    savedAt: new Date().toISOString(),
+    syncedAt: null,
+  };
+
+  await putSubmission(submission);
+  requestBackgroundSync();
+  if (navigator.onLine) flushSubmissions();
+
+  return submission;
+}
+
+// PostgREST reports auth problems as PGRST3xx; those and plain network failures are worth retrying.
+function isRetryable(error: { code?: string; message: string }): boolean {
+  return !navigator.onLine || !error.code || error.code.startsWith('PGRST3');
+}
+
+async function syncSubmission(submission: QueuedSubmission): Promise<void> {
+  await putSubmission({ ...submission, status: 'syncing' });
+
+  const { error } = await supabase
+    .from(submission.table)
+    .upsert(submission.payload, { onConflict: submission.onConflict, ignoreDuplicates: submission.ignoreDuplicates });
+
+  // A newer entry for the same day may have been saved while this one was in flight; leave it queued.
+  const current = await runInStore<QueuedSubmission | undefined>(SUBMISSIONS_STORE, 'readonly', store => store.get(submission.key));
+  if (current && current.savedAt !== submission.savedAt) return;
+
+  if (!error) {
+    await putSubmission({ ...submission, status: 'synced', lastError: null, syncedAt: new Date().toISOString() });
+    return;
+  }
+
+  console.error('Error syncing queued submission:', error);
+  await putSubmission({
+    ...submission,
+    status: isRetryable(error) ? 'pending' : 'failed',
+    attempts: submission.attempts + 1,
+    lastError: error.message,
+  });
+}
+
+let flushing: Promise<void> | null = null;
+
+// Safe to run alongside the service worker: every upsert has a unique key, so a double send is a no-op.
+export function flushSubmissions(): Promise<void> {
+  if (!flushing) {
+    flushing = (async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const all = await listSubmissions(session.user.id);
+      for (const submission of all) {
+        if (submission.status === 'synced') {
+          if (Date.now() - new Date(submission.syncedAt ?? submission.savedAt).getTime() > SYNCED_RETENTION_MS) {
+            await runInStore(SUBMISSIONS_STORE, 'readwrite', store => store.delete(submission.key));
+          }
+          continue;
+        }
+        if (submission.status === 'failed') continue;
+        if (!navigator.onLine) break;
+
+        await syncSubmission(submission);
+      }
+    })()
+      .catch(error => console.error('Error flushing submission queue:', error))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+export async function retrySubmission(submission: QueuedSubmission): Promise<void> {
+  await putSubmission({ ...submission, status: 'pending', lastError: null });
+  await flushSubmissions();
+}
+
+// The service worker replays the queue itself when no tab is open, so it needs the current credentials.
+async function storeSyncCredentials(accessToken: string | null) {
+  try {
+    if (accessToken) {
+      await runInStore(META_STORE, 'readwrite', store => store.put({
+        supabaseUrl: import.meta.env.VITE_SUPABASE_URL,
+        anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+        accessToken,
+      }, 'auth'));
+    } else {
+      await runInStore(META_STORE, 'readwrite', store => store.delete('auth'));
+    }
+  } catch (error) {
+    console.error('Error storing sync credentials:', error);
+  }
+}
+
+export function startSubmissionSync(): void {
+  if (typeof indexedDB === 'undefined') return;
+
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(error => console.error('Error registering service worker:', error));
+
+    navigator.serviceWorker.addEventListener('message', (event) => {
+      if (event.data?.type === 'flush-submissions') flushSubmissions();
+    });
+  }
+
+  supabase.auth.onAuthStateChange((_event, session) => {
+    storeSyncCredentials(session?.access_token ?? null);
+    // Deferred so the flush's own auth calls don't run inside the auth callback.
+    if (session) setTimeout(flushSubmissions, 0);
+  });
+
+  window.addEventListener('online', () => {
+    flushSubmissions();
+  });
+}
@@ -0,0 +1,161 @@
+import { CareTeamMember } from './careTeam';
+import { DisabilityIndex, disabilityIndexes } from './disabilityIndex';
+import { EQ5DAssessment, EQ5DValueSet, eq5dIndex } from './eq5d';
+import { PromInstrument, PromResponse, promImprovement } from './proms';
+
+export type ReportAssessment = {
+  assessment_date: string;
+  percentage_score: number;
+  disability_level: string;
+  is_baseline?: boolean;
+};
+
+export type ReportAnalytics = {
+  timeToMCID: number | null;
+  trajectorySlope: number | null;
+  weeksSinceBaseline: number;
+  plateauDetected: boolean;
+};
+
+export type ReportEQ5D = {
+  assessments: EQ5DAssessment[];
+  valueSet: EQ5DValueSet | null;
+  // From `valueSetNotice`, so the report says when the index isn't on the Australian value set.
+  notice: string | null;
+};
+
+// The condition's own questionnaire, when it has one besides the ODI or NDI.
+export type ReportProm = {
+  instrument: PromInstrument;
+  responses: PromResponse[];
+};
+
+export type ProgressReport = {
+  subject: string;
+  body: string;
+};
+
+const formatReportDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Plain text so it reads the same pasted into an email, a portal message or a printed letter.
+export function buildProgressReport(
+  patientName: string,
+  assessments: ReportAssessment[],
+  analytics: ReportAnalytics | null,
+  instrument: DisabilityIndex = 'odi',
+  eq5d?: ReportEQ5D,
+  prom?: ReportProm
+): ProgressReport {
+  const definition = disabilityIndexes[instrument];
+  const sorted = [...assessments].sort((a, b) => a.assessment_date.localeCompare(b.assessment_date));
+  const baseline = sorted.find(a => a.is_baseline) ?? sorted[0];
+  const latest = sorted[sorted.length - 1];
+
+  const lines = [
+    `Progress report for ${patientName}`,
+    `Prepared ${formatReportDate(new Date().toISOString())}`,
+  ];
+
+  if (prom) {
+    const { instrument: promInstrument } = prom;
+    const promDefinition = promInstrument.definition;
+    const scored = prom.responses
+      .filter((response): response is PromResponse & { score: number } => response.score !== null)
+      .sort((a, b) => a.assessment_date.localeCompare(b.assessment_date));
+    const promBaseline = scored.find(response => response.is_baseline) ?? scored[0];
+    const promLatest = scored[scored.length - 1];
+
+    lines.push('', `${promInstrument.name} (${promInstrument.short_name}, ${promDefinition.higherIsBetter ? 'higher' : 'lower'} is better)`);
+    if (!promLatest) {
+      lines.push(`No ${promInstrument.short_name} responses recorded yet.`);
+    } else {
+      lines.push(`Latest: ${promLatest.score} of ${promDefinition.scoreRange[1]} on ${formatReportDate(promLatest.assessment_date)}`);
+      if (promBaseline !== promLatest) {
+        const change = promImprovement(promDefinition, promBaseline.score, promLatest.score);
+        lines.push(`Baseline: ${promBaseline.score} on ${formatReportDate(promBaseline.assessment_date)}`);
+        lines.push(`Change since baseline: ${change > 0 ? 'improved' : change < 0 ? 'worsened' : 'unchanged'}${change !== 0 ? ` by ${Math.abs(change).toFixed(1)} points` : ''}`);
+        if (change >= promDefinition.mcid) {
+          lines.push(`Reached a meaningful improvement (${promDefinition.mcid}+ points)`);
+        }
+      }
+      promDefinition.subscales.forEach(subscale => {
+        const latestScore = promLatest.subscale_scores[subscale.id];
+        if (latestScore === null || latestScore === undefined) return;
+        const baselineScore = promBaseline !== promLatest ? promBaseline.subscale_scores[subscale.id] : null;
+        lines.push(`${subscale.label}: ${latestScore}${baselineScore !== null && baselineScore !== undefined ? ` (baseline ${baselineScore})` : ''}`);
+      });
+      lines.push(`Responses recorded: ${scored.length}`);
+    }
+  }
+
+  lines.push('', `${definition.name} (${definition.shortName}, lower is better)`);
+
+  if (!latest) {
+    lines.push(`No ${definition.shortName} assessments recorded yet.`);
+  } else {
+    lines.push(`Latest: ${latest.percentage_score}% (${latest.disability_level.replace('_', ' ')}) on ${formatReportDate(latest.assessment_date)}`);
+    if (baseline && baseline !== latest) {
+      const change = baseline.percentage_score - latest.percentage_score;
+      lines.push(`Baseline: ${baseline.percentage_score}% on ${formatReportDate(baseline.assessment_date)}`);
+      lines.push(`Change since baseline: ${change > 0 ? 'improved' : change < 0 ? 'worsened' : 'unchanged'}${change !== 0 ? ` by ${Math.abs(change)} points` : ''}`);
+    }
+    lines.push(`Assessments recorded: ${sorted.length}`);
+  }
+
+  if (analytics) {
+    lines.push('', 'Trends');
+    lines.push(`Weeks since baseline: ${analytics.weeksSinceBaseline}`);
+    if (analytics.timeToMCID !== null) {
+      lines.push(`Reached a meaningful improvement (${definition.mcidThreshold}+ points) after ${analytics.timeToMCID} days`);
+    }
+    if (analytics.trajectorySlope !== null) {
+      lines.push(`Average weekly change: ${analytics.trajectorySlope > 0 ? '+' : ''}${analytics.trajectorySlope.toFixed(1)} points`);
+    }
+    if (analytics.plateauDetected) {
+      lines.push('Scores have levelled off over recent assessments.');
+    }
+  }
+
+  if (sorted.length > 1) {
+    lines.push('', 'Recent assessments');
+    sorted.slice(-5).reverse().forEach(a => {
+      lines.push(`${formatReportDate(a.assessment_date)}: ${a.percentage_score}%`);
+    });
+  }
+
+  if (eq5d && eq5d.assessments.length > 0) {
+    const eq5dSorted = [...eq5d.assessments].sort((a, b) => a.assessment_date.localeCompare(b.assessment_date));
+    const eq5dBaseline = eq5dSorted.find(a => a.is_baseline) ?? eq5dSorted[0];
+    const eq5dLatest = eq5dSorted[eq5dSorted.length - 1];
+    const { valueSet } = eq5d;
+    const describe = (a: EQ5DAssessment) =>
+      `${valueSet ? `index ${eq5dIndex(valueSet, a).toFixed(3)}, ` : ''}VAS ${a.vas ?? '—'} (state ${a.health_state})`;
+
+    lines.push('', `EQ-5D-5L quality of life (${valueSet ? `${valueSet.country} value set, ` : ''}higher is better)`);
+    if (eq5d.notice) lines.push(eq5d.notice);
+    lines.push(`Latest: ${describe(eq5dLatest)} on ${formatReportDate(eq5dLatest.assessment_date)}`);
+    if (eq5dBaseline !== eq5dLatest) {
+      lines.push(`Baseline: ${describe(eq5dBaseline)} on ${formatReportDate(eq5dBaseline.assessment_date)}`);
+    }
+    lines.push(`Assessments recorded: ${eq5dSorted.length}`);
+  }
+
+  return {
+    subject: `Progress report for ${patientName}`,
+    body: lines.join('\n'),
+  };
+}
+
+// Members without an email address can't be sent the report, so they're left off.
+export function reportRecipients(members: CareTeamMember[], selectedIds: string[]): string[] {
+  return members
+    .filter(member => selectedIds.includes(member.id) && member.provider.email)
+    .map(member => member.provider.email);
+}
+
+export function reportMailtoUrl(recipients: string[], report: ProgressReport): string {
+  const params = new URLSearchParams({ subject: report.subject, body: report.body });
+  // URLSearchParams encodes spaces as "+", which mail clients show literally.
+  return `mailto:${recipients.map(encodeURIComponent).join(',')}?${params.toString().replace(/\+/g, '%20')}`;
+}
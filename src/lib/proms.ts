@@ -0,0 +1,205 @@
+import { supabase } from './supabase';
+import { DisabilityIndex, disabilityIndexes, disabilityIndexForCondition } from './disabilityIndex';
+
+export type PromOption = {
+  label: string;
+  value: number;
+};
+
+export type PromItem = {
+  id: string;
+  text: string;
+  // Overrides the section prompt; an empty string hides it.
+  prompt?: string;
+  // The name of one of the definition's option sets, or the item's own options.
+  options: string | PromOption[];
+};
+
+export type PromSection = {
+  title: string;
+  prompt?: string;
+  items: PromItem[];
+};
+
+// `offset + multiplier * aggregate`, where the aggregate is the sum or mean of the answered values.
+export type PromFormula = {
+  method: 'sum' | 'mean';
+  items?: string[];
+  subscales?: string[];
+  minAnswered?: number;
+  offset?: number;
+  multiplier?: number;
+};
+
+export type PromSubscale = {
+  id: string;
+  label: string;
+  formula: PromFormula;
+  mcid?: number;
+};
+
+export type PromDefinition = {
+  instructions: string;
+  optionSets: Record<string, PromOption[]>;
+  sections: PromSection[];
+  subscales: PromSubscale[];
+  score: PromFormula;
+  scoreRange: [number, number];
+  higherIsBetter: boolean;
+  mcid: number;
+};
+
+export type PromInstrument = {
+  id: string;
+  short_name: string;
+  name: string;
+  description: string;
+  default_for_conditions: string[];
+  definition: PromDefinition;
+};
+
+export type PromResponse = {
+  id: string;
+  instrument_id: string;
+  assessment_date: string;
+  responses: Record<string, number>;
+  score: number | null;
+  subscale_scores: Record<string, number | null>;
+  is_baseline?: boolean;
+  created_at: string;
+};
+
+export type PromScores = {
+  score: number | null;
+  subscaleScores: Record<string, number | null>;
+};
+
+// ODI and NDI keep their own tables, so their definitions live in code rather than `prom_instruments`.
+function disabilityIndexInstrument(index: DisabilityIndex): PromInstrument {
+  const definition = disabilityIndexes[index];
+  return {
+    id: definition.id,
+    short_name: definition.shortName,
+    name: definition.name,
+    description: '',
+    default_for_conditions: [],
+    definition: {
+      instructions: 'Please select the ONE statement in each section that best describes your current situation. Answer every section.',
+      optionSets: {},
+      sections: definition.sections.map(section => ({
+        title: section.title,
+        prompt: 'Choose the statement that best describes your condition today',
+        items: [{
+          id: section.name,
+          text: section.title,
+          options: section.options.map((label, value) => ({ label, value })),
+        }],
+      })),
+      subscales: [],
+      score: { method: 'sum', multiplier: 2 },
+      scoreRange: [0, 100],
+      higherIsBetter: false,
+      mcid: definition.mcidThreshold,
+    },
+  };
+}
+
+export function isDisabilityIndex(instrumentId: string): instrumentId is DisabilityIndex {
+  return instrumentId in disabilityIndexes;
+}
+
+export async function loadInstrument(instrumentId: string): Promise<PromInstrument | null> {
+  if (isDisabilityIndex(instrumentId)) return disabilityIndexInstrument(instrumentId);
+
+  const { data, error } = await supabase
+    .from('prom_instruments')
+    .select('id, short_name, name, description, default_for_conditions, definition')
+    .eq('id', instrumentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function loadInstruments(): Promise<PromInstrument[]> {
+  const { data, error } = await supabase
+    .from('prom_instruments')
+    .select('id, short_name, name, description, default_for_conditions, definition')
+    .order('name');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Conditions no instrument claims keep the ODI or NDI.
+export async function loadDefaultInstrumentId(condition: string | null | undefined): Promise<string> {
+  if (condition) {
+    const { data, error } = await supabase
+      .from('prom_instruments')
+      .select('id')
+      .contains('default_for_conditions', [condition])
+      .order('id')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) console.error('Error loading default instrument:', error);
+    if (data) return data.id;
+  }
+  return disabilityIndexForCondition(condition);
+}
+
+export async function loadPromResponses(patientId: string, instrumentId: string): Promise<PromResponse[]> {
+  const { data, error } = await supabase
+    .from('prom_responses')
+    .select('id, instrument_id, assessment_date, responses, score, subscale_scores, is_baseline, created_at')
+    .eq('patient_id', patientId)
+    .eq('instrument_id', instrumentId)
+    .order('assessment_date', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export function getItemOptions(definition: PromDefinition, item: PromItem): PromOption[] {
+  return typeof item.options === 'string' ? definition.optionSets[item.options] ?? [] : item.options;
+}
+
+export function flattenItems(definition: PromDefinition): { section: PromSection; item: PromItem }[] {
+  return definition.sections.flatMap(section => section.items.map(item => ({ section, item })));
+}
+
+function applyFormula(
+  formula: PromFormula,
+  definition: PromDefinition,
+  responses: Record<string, number>,
+  subscaleScores: Record<string, number | null>
+): number | null {
+  const values = formula.subscales
+    ? formula.subscales.map(id => subscaleScores[id])
+    : (formula.items ?? flattenItems(definition).map(({ item }) => item.id)).map(id => responses[id]);
+
+  const answered = values.filter((value): value is number => typeof value === 'number');
+  if (answered.length === 0 || answered.length < (formula.minAnswered ?? values.length)) return null;
+
+  const sum = answered.reduce((total, value) => total + value, 0);
+  const aggregate = formula.method === 'mean' ? sum / answered.length : sum;
+  const score = (formula.offset ?? 0) + (formula.multiplier ?? 1) * aggregate;
+  return Math.round(score * 10) / 10;
+}
+
+export function scorePromResponses(definition: PromDefinition, responses: Record<string, number>): PromScores {
+  const subscaleScores: Record<string, number | null> = {};
+  for (const subscale of definition.subscales) {
+    subscaleScores[subscale.id] = applyFormula(subscale.formula, definition, responses, subscaleScores);
+  }
+
+  return {
+    score: applyFormula(definition.score, definition, responses, subscaleScores),
+    subscaleScores,
+  };
+}
+
+// Positive when the patient has got better, whichever direction the instrument scores in.
+export function promImprovement(definition: PromDefinition, from: number, to: number): number {
+  return definition.higherIsBetter ? to - from : from - to;
+}
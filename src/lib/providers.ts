@@ -0,0 +1,171 @@
+import { supabase } from './supabase';
+
+export type Provider = {
+  id: string;
+  provider_name: string;
+  specialty: string;
+  practice_name: string;
+  phone_number: string;
+  email: string;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  website_url: string;
+  accepts_new_patients: boolean;
+  insurance_accepted: string[];
+  languages_spoken: string[];
+  subspecialty: string;
+  notes: string;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export const specialtyOptions = [
+  { value: 'orthopedic_surgeon', label: 'Orthopedic Surgeon' },
+  { value: 'physical_therapist', label: 'Physical Therapist' },
+  { value: 'pain_specialist', label: 'Pain Specialist' },
+  { value: 'neurosurgeon', label: 'Neurosurgeon' },
+  { value: 'sports_medicine', label: 'Sports Medicine' },
+  { value: 'chiropractor', label: 'Chiropractor' },
+  { value: 'imaging_radiology', label: 'Imaging & Radiology' },
+];
+
+export function getSpecialtyLabel(specialty: string) {
+  const found = specialtyOptions.find(s => s.value === specialty);
+  return found?.label || specialty.replace('_', ' ');
+}
+
+// Providers taking new patients come first so the top suggestion can actually see the patient.
+export async function loadProvidersBySpecialty(specialty: string): Promise<Provider[]> {
+  const { data, error } = await supabase
+    .from('healthcare_providers')
+    .select('*')
+    .eq('specialty', specialty)
+    .order('accepts_new_patients', { ascending: false })
+    .order('provider_name', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export type ProviderFilters = {
+  query: string;
+  specialties: string[];
+  subspecialties: string[];
+  insurance: string[];
+  languages: string[];
+  acceptingNewPatients: boolean;
+};
+
+export type ProviderFilterOptions = {
+  subspecialty: { value: string; count: number }[];
+  insurance: { value: string; count: number }[];
+  language: { value: string; count: number }[];
+};
+
+export type ProviderFilterPreset = {
+  id: string;
+  name: string;
+  filters: ProviderFilters;
+  created_at: string;
+};
+
+export const emptyProviderFilters: ProviderFilters = {
+  query: '',
+  specialties: [],
+  subspecialties: [],
+  insurance: [],
+  languages: [],
+  acceptingNewPatients: false,
+};
+
+// The text search isn't counted; it has its own box rather than living in the filter panel.
+export function countActiveFilters(filters: ProviderFilters): number {
+  return (
+    filters.specialties.length +
+    filters.subspecialties.length +
+    filters.insurance.length +
+    filters.languages.length +
+    (filters.acceptingNewPatients ? 1 : 0)
+  );
+}
+
+// Runs in Postgres (see the search_providers function) and returns one page plus the total match count.
+export async function searchProviders(
+  filters: ProviderFilters,
+  options: {
+    near?: { latitude: number; longitude: number } | null;
+    radiusKm?: number | null;
+    offset?: number;
+    limit: number;
+  }
+): Promise<{ providers: Provider[]; total: number }> {
+  const { near, radiusKm, offset = 0, limit } = options;
+
+  const { data, error, count } = await supabase
+    .rpc('search_providers', {
+      search: filters.query.trim() || null,
+      specialties: filters.specialties,
+      subspecialties: filters.subspecialties,
+      insurance: filters.insurance,
+      languages: filters.languages,
+      accepting_only: filters.acceptingNewPatients,
+      near_latitude: near?.latitude ?? null,
+      near_longitude: near?.longitude ?? null,
+      radius_km: near ? radiusKm ?? null : null,
+    }, { count: 'exact' })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+  return { providers: data ?? [], total: count ?? 0 };
+}
+
+export async function loadProviderFilterOptions(): Promise<ProviderFilterOptions> {
+  const { data, error } = await supabase.rpc('provider_filter_options');
+
+  if (error) throw error;
+
+  const options: ProviderFilterOptions = { subspecialty: [], insurance: [], language: [] };
+  for (const row of (data ?? []) as { facet: keyof ProviderFilterOptions; value: string; provider_count: number }[]) {
+    options[row.facet]?.push({ value: row.value, count: Number(row.provider_count) });
+  }
+  return options;
+}
+
+export async function loadFilterPresets(patientId: string): Promise<ProviderFilterPreset[]> {
+  const { data, error } = await supabase
+    .from('provider_filter_presets')
+    .select('id, name, filters, created_at')
+    .eq('patient_id', patientId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  // Presets saved before a filter existed pick up its default.
+  return (data ?? []).map(preset => ({ ...preset, filters: { ...emptyProviderFilters, ...preset.filters } }));
+}
+
+// Saving under an existing name replaces that preset.
+export async function saveFilterPreset(
+  patientId: string,
+  name: string,
+  filters: ProviderFilters
+): Promise<ProviderFilterPreset> {
+  const { data, error } = await supabase
+    .from('provider_filter_presets')
+    .upsert({ patient_id: patientId, name, filters }, { onConflict: 'patient_id,name' })
+    .select('id, name, filters, created_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteFilterPreset(presetId: string): Promise<void> {
+  const { error } = await supabase
+    .from('provider_filter_presets')
+    .delete()
+    .eq('id', presetId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,163 @@
+import { isPushServiceEndpoint, pushServiceHosts } from '../../supabase/functions/_shared/pushServices.ts';
+import { supabase } from './supabase';
+
+export type PushDevice = {
+  id: string;
+  patient_id: string;
+  endpoint: string;
+  device_label: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+export type TestPushResult = {
+  deviceId: string;
+  status: 'sent' | 'failed' | 'removed';
+  error?: string;
+};
+
+export class PushPermissionError extends Error {
+  constructor() {
+    super('Notifications are blocked for this site. Allow them in your browser settings and try again.');
+    this.name = 'PushPermissionError';
+  }
+}
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+// The same list the Edge Functions send to, so a subscription saved here can be delivered.
+const supportedPushHosts = pushServiceHosts(import.meta.env.VITE_PUSH_SERVICE_HOSTS);
+
+export function isPushSupported(): boolean {
+  return !!vapidPublicKey
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+export function getPushPermission(): NotificationPermission | 'unsupported' {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export function describeDevice(userAgent: string): string {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /SamsungBrowser/.test(userAgent) ? 'Samsung Internet'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+
+  const platform =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return platform ? `${browser} on ${platform}` : browser;
+}
+
+export async function getCurrentPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+// Must be called from a user gesture, since it may show the browser's permission prompt.
+export async function registerPushDevice(patientId: string): Promise<PushDevice> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new PushPermissionError();
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(vapidPublicKey!),
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) {
+    throw new Error('The browser returned an incomplete push subscription');
+  }
+  if (!isPushServiceEndpoint(endpoint, supportedPushHosts)) {
+    throw new Error('This browser uses a push service Qivr does not support');
+  }
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .upsert({
+      patient_id: patientId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      device_label: describeDevice(navigator.userAgent),
+      user_agent: navigator.userAgent,
+    }, {
+      onConflict: 'patient_id,endpoint'
+    })
+    .select('id, patient_id, endpoint, device_label, user_agent, created_at, last_used_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listPushDevices(patientId: string): Promise<PushDevice[]> {
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, patient_id, endpoint, device_label, user_agent, created_at, last_used_at')
+    .eq('patient_id', patientId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function revokePushDevice(device: PushDevice): Promise<void> {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('id', device.id);
+
+  if (error) throw error;
+
+  // Revoking this browser also drops the subscription locally so the push service forgets it.
+  const current = await getCurrentPushSubscription();
+  if (current?.endpoint === device.endpoint) {
+    await current.unsubscribe();
+  }
+}
+
+export async function sendTestPush(deviceId?: string): Promise<TestPushResult[]> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/push-test`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(deviceId ? { deviceId } : {}),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Test push failed with ${response.status}: ${await response.text()}`);
+  }
+
+  const { results } = await response.json();
+  return results;
+}
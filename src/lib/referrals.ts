@@ -0,0 +1,186 @@
+import { supabase } from './supabase';
+import { Provider } from './providers';
+import { disabilityIndexes } from './disabilityIndex';
+import { PromInstrument, isDisabilityIndex } from './proms';
+
+export type ReferralStatus = 'pending' | 'scheduled' | 'completed' | 'cancelled';
+
+export type Referral = {
+  id: string;
+  patient_id: string;
+  provider_id: string;
+  referral_date: string;
+  referral_reason: string;
+  status: ReferralStatus;
+  appointment_date: string | null;
+  notes: string;
+  cancellation_reason: string | null;
+  previous_referral_id: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  provider?: Provider;
+};
+
+export type ReferralEvent = {
+  id: string;
+  referral_id: string;
+  event: 'created' | 'status_changed' | 'updated';
+  from_status: ReferralStatus | null;
+  to_status: ReferralStatus;
+  appointment_date: string | null;
+  notes: string;
+  reason: string | null;
+  created_at: string;
+};
+
+// Score on the patient's default instrument before the referral and after it was completed, for the episode with that provider.
+export type ReferralOutcome = {
+  baseline: number | null;
+  followUp: number | null;
+};
+
+// Mirrors the check_referral_transition trigger; completed and cancelled referrals are re-referred instead.
+export const referralTransitions: Record<ReferralStatus, ReferralStatus[]> = {
+  pending: ['scheduled', 'cancelled'],
+  scheduled: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const referralStatusLabels: Record<ReferralStatus, string> = {
+  pending: 'Pending',
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export function canTransition(from: ReferralStatus, to: ReferralStatus): boolean {
+  return referralTransitions[from].includes(to);
+}
+
+export function isClosed(referral: Pick<Referral, 'status'>): boolean {
+  return referralTransitions[referral.status].length === 0;
+}
+
+export function describeReferralEvent(event: ReferralEvent): string {
+  switch (event.event) {
+    case 'created':
+      return `Referral ${event.to_status === 'pending' ? 'requested' : referralStatusLabels[event.to_status].toLowerCase()}`;
+    case 'status_changed':
+      return `${event.from_status ? referralStatusLabels[event.from_status] : 'New'} → ${referralStatusLabels[event.to_status]}`;
+    case 'updated':
+      return 'Details updated';
+  }
+}
+
+export async function loadReferrals(patientId: string): Promise<Referral[]> {
+  const { data, error } = await supabase
+    .from('patient_referrals')
+    .select(`
+      *,
+      provider:healthcare_providers(*)
+    `)
+    .eq('patient_id', patientId)
+    .order('referral_date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function loadReferralEvents(referralId: string): Promise<ReferralEvent[]> {
+  const { data, error } = await supabase
+    .from('referral_events')
+    .select('*')
+    .eq('referral_id', referralId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// The `sync_referral_appointment` trigger creates, moves, completes or cancels the linked appointment to match.
+export async function updateReferral(
+  referralId: string,
+  changes: Partial<Pick<Referral, 'status' | 'appointment_date' | 'notes'>>
+): Promise<void> {
+  if (changes.status === 'scheduled' && !changes.appointment_date) {
+    throw new Error('A scheduled referral needs an appointment date');
+  }
+
+  const { error } = await supabase
+    .from('patient_referrals')
+    .update(changes)
+    .eq('id', referralId);
+
+  if (error) throw error;
+}
+
+export async function cancelReferral(referralId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('patient_referrals')
+    .update({ status: 'cancelled', cancellation_reason: reason })
+    .eq('id', referralId);
+
+  if (error) throw error;
+}
+
+export async function createReferral(
+  patientId: string,
+  input: Pick<Referral, 'provider_id' | 'referral_reason' | 'notes'> & { previous_referral_id?: string | null }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('patient_referrals')
+    .insert({
+      patient_id: patientId,
+      provider_id: input.provider_id,
+      referral_reason: input.referral_reason,
+      notes: input.notes,
+      previous_referral_id: input.previous_referral_id ?? null,
+      status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Baseline is the latest score on or before the referral date; follow-up is the latest one taken for the referral.
+export async function loadReferralOutcomes(
+  patientId: string,
+  referrals: Referral[],
+  instrument: PromInstrument
+): Promise<Record<string, ReferralOutcome>> {
+  const completed = referrals.filter(referral => referral.status === 'completed');
+  if (completed.length === 0) return {};
+
+  const { data, error } = isDisabilityIndex(instrument.id)
+    ? await supabase
+        .from(disabilityIndexes[instrument.id].table)
+        .select('assessment_date, score:percentage_score, referral_id')
+        .eq('patient_id', patientId)
+        .order('assessment_date', { ascending: true })
+    : await supabase
+        .from('prom_responses')
+        .select('assessment_date, score, referral_id')
+        .eq('patient_id', patientId)
+        .eq('instrument_id', instrument.id)
+        .not('score', 'is', null)
+        .order('assessment_date', { ascending: true });
+
+  if (error) throw error;
+  const assessments: { assessment_date: string; score: number; referral_id: string | null }[] = data ?? [];
+
+  const outcomes: Record<string, ReferralOutcome> = {};
+  for (const referral of completed) {
+    const before = assessments.filter(a => a.assessment_date <= referral.referral_date && a.referral_id !== referral.id);
+    const after = assessments.filter(a => a.referral_id === referral.id);
+    outcomes[referral.id] = {
+      baseline: before.length > 0 ? Number(before[before.length - 1].score) : null,
+      followUp: after.length > 0 ? Number(after[after.length - 1].score) : null,
+    };
+  }
+  return outcomes;
+}
@@ -0,0 +1,32 @@
+import { supabase } from './supabase';
+
+const FALLBACK_TIME_ZONE = 'Australia/Melbourne';
+
+// The reminder scheduler uses this to work out when `reminder_time` falls for the patient.
+export function detectTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+  } catch {
+    return FALLBACK_TIME_ZONE;
+  }
+}
+
+export async function saveReminderPreferences(
+  patientId: string,
+  preferences: { reminderTime: string; push: boolean; email: boolean; sms: boolean }
+): Promise<void> {
+  const { error } = await supabase
+    .from('notification_settings')
+    .upsert({
+      patient_id: patientId,
+      push_enabled: preferences.push,
+      email_enabled: preferences.email,
+      sms_enabled: preferences.sms,
+      reminder_time: preferences.reminderTime,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'patient_id'
+    });
+
+  if (error) throw error;
+}
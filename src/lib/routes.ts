@@ -0,0 +1,86 @@
+export type RouteParams = Record<string, string>;
+
+export const paths = {
+  welcome: '/welcome',
+  signIn: '/signin',
+  register: '/register',
+  onboardingCondition: '/onboarding/condition',
+  onboardingPersonalization: '/onboarding/personalization',
+  home: '/',
+  notifications: '/notifications',
+  appointments: '/appointments',
+  learn: '/learn',
+  learnContent: (contentId: string) => `/learn/${encodeURIComponent(contentId)}`,
+  chat: '/chat',
+  chatSession: (chatSessionId: string) => `/chat/${encodeURIComponent(chatSessionId)}`,
+  checkIn: '/check-in',
+  progress: '/progress',
+  newODIAssessment: '/progress/odi/new',
+  newNDIAssessment: '/progress/ndi/new',
+  newEQ5DAssessment: '/progress/eq5d/new',
+  newPromAssessment: (instrumentId: string) => `/progress/proms/${encodeURIComponent(instrumentId)}/new`,
+  referralAssessment: (instrumentId: string, referralId: string) =>
+    `/progress/proms/${encodeURIComponent(instrumentId)}/new?referral=${encodeURIComponent(referralId)}`,
+  providers: '/providers',
+  careTeam: '/providers/care-team',
+  referrals: '/providers/referrals',
+  referral: (referralId: string) => `/providers/referrals/${encodeURIComponent(referralId)}`,
+  profile: '/profile',
+  editProfile: '/profile/edit',
+  notificationSettings: '/profile/notifications',
+  medicalRecords: '/profile/medical-records',
+  medications: '/medications',
+  dataSharing: '/profile/data-sharing',
+  clinician: '/clinician',
+  clinicianCohorts: '/clinician/cohorts',
+  clinicianPatient: (patientId: string) => `/clinician/patients/${encodeURIComponent(patientId)}`,
+};
+
+export const publicPaths = [paths.welcome, paths.signIn, paths.register];
+
+// Remembers where a signed-out visitor was heading so sign-in can take them there.
+export function withNextPath(path: string, next: string) {
+  return next === paths.home ? path : `${path}?next=${encodeURIComponent(next)}`;
+}
+
+// Only paths inside the app are followed, so a crafted link can't send someone off-site after signing in.
+export function nextPathFrom(searchParams: URLSearchParams) {
+  const next = searchParams.get('next');
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.includes('\\')) return paths.home;
+  return publicPaths.includes(next.split('?')[0]) ? paths.home : next;
+}
+
+function splitPath(path: string) {
+  return path.split('/').filter(Boolean);
+}
+
+export function matchPath(pattern: string, pathname: string): RouteParams | null {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(pathname);
+
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: RouteParams = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const patternSegment = patternSegments[i];
+    const pathSegment = pathSegments[i];
+
+    if (patternSegment.startsWith(':')) {
+      try {
+        params[patternSegment.slice(1)] = decodeURIComponent(pathSegment);
+      } catch {
+        // A malformed escape such as %E0 can't be a valid id, so the path simply doesn't match.
+        return null;
+      }
+    } else if (patternSegment !== pathSegment) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+export function absoluteUrl(path: string) {
+  return `${window.location.origin}${path}`;
+}
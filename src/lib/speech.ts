@@ -0,0 +1,353 @@
+import { supabase } from './supabase';
+
+export type TranscriptionHandlers = {
+  onPartial: (text: string) => void;
+  onFinal: (text: string) => void;
+  onError: (message: string) => void;
+  onEnd: () => void;
+};
+
+export type TranscriptionOptions = {
+  // Finish on the first pause instead of listening until stopped, for hands-free turns.
+  endOnSilence?: boolean;
+};
+
+export type TranscriptionSession = {
+  // Stops listening and delivers whatever was heard.
+  stop: () => void;
+  // Stops listening and discards the result.
+  abort: () => void;
+};
+
+export interface TranscriptionBackend {
+  name: string;
+  isSupported(): boolean;
+  start(handlers: TranscriptionHandlers, lang: string, options?: TranscriptionOptions): TranscriptionSession;
+}
+
+const SPEECH_LANG = 'en-AU';
+
+// The Web Speech API is not in TypeScript's DOM lib yet, so only the parts we use are declared.
+type SpeechRecognitionResultLike = { isFinal: boolean; 0: { transcript: string } };
+
+type SpeechRecognitionLike = {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<SpeechRecognitionResultLike> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+};
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | undefined {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+const recognitionErrors: Record<string, string> = {
+  'not-allowed': 'Microphone access was blocked. Allow it in your browser settings to use voice input.',
+  'no-speech': "I didn't catch that. Try again and speak after the tone.",
+  'audio-capture': 'No microphone was found.',
+  network: 'Voice recognition needs an internet connection.',
+};
+
+export const webSpeechBackend: TranscriptionBackend = {
+  name: 'web-speech',
+  isSupported: () => getSpeechRecognition() !== undefined,
+  start(handlers, lang, options = {}) {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) throw new Error('Speech recognition is not supported in this browser');
+
+    const recognition = new Recognition();
+    let finalText = '';
+    let aborted = false;
+
+    recognition.lang = lang;
+    recognition.continuous = !options.endOnSilence;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finalText += result[0].transcript;
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+      handlers.onPartial((finalText + interim).trim());
+    };
+
+    recognition.onerror = (event) => {
+      if (event.error === 'aborted') return;
+      handlers.onError(recognitionErrors[event.error] ?? 'Voice input stopped unexpectedly.');
+    };
+
+    recognition.onend = () => {
+      if (!aborted) handlers.onFinal(finalText.trim());
+      handlers.onEnd();
+    };
+
+    recognition.start();
+
+    return {
+      stop: () => recognition.stop(),
+      abort: () => {
+        aborted = true;
+        recognition.abort();
+      },
+    };
+  },
+};
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/aac': 'aac',
+};
+
+// Transcription APIs pick the decoder from the extension, and Safari records mp4 rather than webm.
+function recordingFileName(mimeType: string): string {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return `dictation.${AUDIO_EXTENSIONS[base] ?? 'webm'}`;
+}
+
+async function transcribeRecording(audio: Blob, lang: string): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Sign in to use voice input');
+
+  const form = new FormData();
+  form.append('file', audio, recordingFileName(audio.type));
+  form.append('language', lang.split('-')[0]);
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/transcribe`, {
+    method: 'POST',
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: form,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Transcription responded with ${response.status}`);
+  }
+
+  const { text } = await response.json();
+  return typeof text === 'string' ? text.trim() : '';
+}
+
+const SPEECH_LEVEL = 0.01;
+const SILENCE_AFTER_SPEECH_MS = 1500;
+const NO_SPEECH_TIMEOUT_MS = 8000;
+const MAX_RECORDING_MS = 60000;
+
+// A simple level-based voice activity check, since MediaRecorder has no notion of the speaker pausing.
+function watchForSilence(stream: MediaStream, onSilence: (heardSpeech: boolean) => void): () => void {
+  const startedAt = Date.now();
+  const AudioContextClass = window.AudioContext
+    ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+
+  if (!AudioContextClass) {
+    const timer = window.setTimeout(() => onSilence(true), MAX_RECORDING_MS);
+    return () => window.clearTimeout(timer);
+  }
+
+  const context = new AudioContextClass();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let heardSpeech = false;
+  let quietSince = startedAt;
+
+  const interval = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const level = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+    const now = Date.now();
+    if (level > SPEECH_LEVEL) {
+      heardSpeech = true;
+      quietSince = now;
+    }
+
+    const quietFor = now - quietSince;
+    if (
+      (heardSpeech && quietFor > SILENCE_AFTER_SPEECH_MS)
+      || (!heardSpeech && quietFor > NO_SPEECH_TIMEOUT_MS)
+      || now - startedAt > MAX_RECORDING_MS
+    ) {
+      onSilence(heardSpeech);
+    }
+  }, 100);
+
+  return () => {
+    window.clearInterval(interval);
+    context.close().catch(() => {});
+  };
+}
+
+// Records locally and sends the clip to the `transcribe` edge function once the patient stops talking.
+export const serverTranscriptionBackend: TranscriptionBackend = {
+  name: 'server',
+  isSupported: () => typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+  start(handlers, lang, options = {}) {
+    let recorder: MediaRecorder | null = null;
+    let stream: MediaStream | null = null;
+    let stopWatching = () => {};
+    let aborted = false;
+    let stopRequested = false;
+    let silentClip = false;
+    const chunks: Blob[] = [];
+
+    const release = () => {
+      stopWatching();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: true })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (aborted || stopRequested) {
+          release();
+          handlers.onEnd();
+          return;
+        }
+
+        recorder = new MediaRecorder(mediaStream);
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = async () => {
+          release();
+          if (aborted) {
+            handlers.onEnd();
+            return;
+          }
+
+          // Nothing to send, and transcription models tend to invent words for silence.
+          if (silentClip) {
+            handlers.onFinal('');
+            handlers.onEnd();
+            return;
+          }
+
+          handlers.onPartial('Transcribing...');
+          try {
+            const text = await transcribeRecording(new Blob(chunks, { type: recorder?.mimeType }), lang);
+            handlers.onFinal(text);
+          } catch (error) {
+            console.error('Error transcribing audio:', error);
+            handlers.onError('Your recording could not be transcribed. Please try again or type your message.');
+          } finally {
+            handlers.onEnd();
+          }
+        };
+        recorder.start();
+
+        if (options.endOnSilence) {
+          stopWatching = watchForSilence(mediaStream, heardSpeech => {
+            silentClip = !heardSpeech;
+            stopWatching();
+            if (recorder?.state === 'recording') recorder.stop();
+          });
+        }
+      })
+      .catch(error => {
+        console.error('Error accessing microphone:', error);
+        handlers.onError(recognitionErrors['not-allowed']);
+        handlers.onEnd();
+      });
+
+    return {
+      stop: () => {
+        stopRequested = true;
+        if (recorder?.state === 'recording') recorder.stop();
+      },
+      abort: () => {
+        aborted = true;
+        if (recorder?.state === 'recording') {
+          recorder.stop();
+        } else {
+          release();
+        }
+      },
+    };
+  },
+};
+
+export function getTranscriptionBackend(): TranscriptionBackend | null {
+  const preferred = import.meta.env.VITE_TRANSCRIPTION_BACKEND;
+  const backends = preferred === 'server'
+    ? [serverTranscriptionBackend, webSpeechBackend]
+    : [webSpeechBackend, serverTranscriptionBackend];
+
+  return backends.find(backend => backend.isSupported()) ?? null;
+}
+
+export function startTranscription(
+  backend: TranscriptionBackend,
+  handlers: TranscriptionHandlers,
+  options?: TranscriptionOptions
+): TranscriptionSession {
+  return backend.start(handlers, SPEECH_LANG, options);
+}
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+// Bullet glyphs and markdown markers read badly aloud.
+function toSpokenText(text: string): string {
+  return text
+    .replace(/[•*#_`>]/g, ' ')
+    .replace(/\s*\n+\s*/g, '. ')
+    .replace(/\.\s*\./g, '.')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+export function speak(text: string, onEnd?: () => void): () => void {
+  if (!isSpeechSynthesisSupported()) {
+    onEnd?.();
+    return () => {};
+  }
+
+  window.speechSynthesis.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(toSpokenText(text));
+  utterance.lang = SPEECH_LANG;
+  utterance.rate = 0.95;
+
+  const voice = window.speechSynthesis.getVoices().find(v => v.lang === SPEECH_LANG)
+    ?? window.speechSynthesis.getVoices().find(v => v.lang.startsWith('en'));
+  if (voice) utterance.voice = voice;
+
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    onEnd?.();
+  };
+  utterance.onend = finish;
+  utterance.onerror = finish;
+
+  window.speechSynthesis.speak(utterance);
+
+  return () => {
+    finished = true;
+    window.speechSynthesis.cancel();
+  };
+}
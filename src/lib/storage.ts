@@ -0,0 +1,112 @@
+import { supabase } from './supabase';
+
+const DEFAULT_SIGNED_URL_SECONDS = 60 * 60;
+
+export function safeFileName(name: string): string {
+  const cleaned = name
+    .normalize('NFKD')
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/_+/g, '_');
+  return cleaned.slice(-100) || 'file';
+}
+
+// Objects live under `<patient id>/...` so storage policies can scope access by folder.
+export function patientObjectPath(patientId: string, ...segments: string[]): string {
+  return [patientId, ...segments].join('/');
+}
+
+export async function uploadFile(bucket: string, path: string, file: File): Promise<void> {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) throw error;
+}
+
+// supabase-js has no upload progress events, so this talks to the Storage REST endpoint over XHR.
+export async function uploadFileWithProgress(
+  bucket: string,
+  path: string,
+  file: File,
+  onProgress: (fraction: number) => void
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${bucket}/${path
+    .split('/')
+    .map(encodeURIComponent)
+    .join('/')}`;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY);
+    xhr.setRequestHeader('Authorization', `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with ${xhr.status}: ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed: network error'));
+
+    xhr.send(file);
+  });
+}
+
+export async function removeFile(bucket: string, path: string): Promise<void> {
+  const { error } = await supabase.storage.from(bucket).remove([path]);
+  if (error) throw error;
+}
+
+export async function copyFile(
+  fromBucket: string,
+  fromPath: string,
+  toBucket: string,
+  toPath: string
+): Promise<void> {
+  const { error } = await supabase.storage
+    .from(fromBucket)
+    .copy(fromPath, toPath, { destinationBucket: toBucket });
+
+  if (error) throw error;
+}
+
+// Pass `download` to have the browser save the file under that name instead of displaying it.
+export async function getSignedUrl(
+  bucket: string,
+  path: string,
+  expiresIn: number = DEFAULT_SIGNED_URL_SECONDS,
+  download?: string
+): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(path, expiresIn, download ? { download } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// Opens the tab synchronously so the click is not treated as a pop-up once the URL resolves.
+export async function openInNewTab(resolveUrl: () => Promise<string>): Promise<void> {
+  const tab = window.open('', '_blank');
+
+  try {
+    const url = await resolveUrl();
+    if (tab) {
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
@@ -25,6 +25,7 @@ export type PatientProfile = {
     email: boolean;
     sms: boolean;
   };
+  time_zone?: string;
   created_at?: string;
   updated_at?: string;
 };
@@ -75,3 +76,13 @@ export type Milestone = {
   achieved_date?: string;
   created_at?: string;
 };
+
+export type ChatSession = {
+  id: string;
+  patient_id: string;
+  session_id: string;
+  title: string;
+  archived: boolean;
+  started_at: string;
+  last_activity: string;
+};
@@ -0,0 +1,283 @@
+import { supabase } from './supabase';
+import { queueSubmission } from './offlineQueue';
+import { localDateString } from './dates';
+
+export type TriageSource = 'chat' | 'check_in';
+
+export type TriageSeverity = 'emergency' | 'urgent';
+
+/*
+  Conditions are plain data so clinicians can audit the rule list without reading code.
+  - text: any of the case-insensitive regular expressions matches the free text
+  - temperature_above: a temperature in the text (°C, or °F converted) exceeds the threshold
+  - pain_increase: pain rose by at least `points` since the previous check-in
+  - pain_level_at_least: the reported pain score is at or above `level`
+  - pain_character: any of the selected pain descriptors was ticked
+*/
+export type TriageCondition =
+  | { type: 'text'; patterns: string[] }
+  | { type: 'temperature_above'; celsius: number }
+  | { type: 'pain_increase'; points: number }
+  | { type: 'pain_level_at_least'; level: number }
+  | { type: 'pain_character'; values: string[] };
+
+export type TriageRule = {
+  id: string;
+  title: string;
+  severity: TriageSeverity;
+  sources: TriageSource[];
+  conditions: TriageCondition[];
+  guidance: string;
+};
+
+export type TriageInput = {
+  text?: string;
+  painLevel?: number;
+  previousPainLevel?: number | null;
+  painCharacter?: string[];
+};
+
+export type TriageHit = {
+  rule: TriageRule;
+  evidence: string;
+};
+
+export const EMERGENCY_NUMBER = '000';
+
+export const TRIAGE_RULES: TriageRule[] = [
+  {
+    id: 'chest_pain_breathing',
+    title: 'Chest pain or difficulty breathing',
+    severity: 'emergency',
+    sources: ['chat', 'check_in'],
+    conditions: [
+      {
+        type: 'text',
+        patterns: [
+          'chest (pain|tight|pressure)',
+          'pain in (my )?chest',
+          'short(ness)? of breath',
+          "(can'?t|cannot|struggling to|hard to|difficulty) breath",
+          'coughing (up )?blood',
+        ],
+      },
+    ],
+    guidance: `This can be a sign of a blood clot in the lungs. Call ${EMERGENCY_NUMBER} now or go to the nearest emergency department.`,
+  },
+  {
+    id: 'cauda_equina',
+    title: 'Loss of bladder or bowel control, or saddle numbness',
+    severity: 'emergency',
+    sources: ['chat', 'check_in'],
+    conditions: [
+      {
+        type: 'text',
+        patterns: [
+          "(lost|losing|loss of|no|can'?t) control (of|over) (my )?(bladder|bowel)",
+          'incontinen',
+          'numb(ness)?.{0,30}(groin|saddle|genital|inner thigh|bottom)',
+          "(can'?t|unable to|cannot) (pee|urinate|pass urine)",
+        ],
+      },
+    ],
+    guidance: `These symptoms can mean pressure on the spinal nerves and need same-day assessment. Call ${EMERGENCY_NUMBER} or go to the nearest emergency department.`,
+  },
+  {
+    id: 'calf_swelling',
+    title: 'Calf pain or swelling',
+    severity: 'urgent',
+    sources: ['chat', 'check_in'],
+    conditions: [
+      {
+        type: 'text',
+        patterns: [
+          'calf.{0,20}(pain|swell|swollen|tender|hot|red|hard)\\w*',
+          '(pain|swell|swollen|tender|hot|red|hard).{0,20}calf',
+          '\\bdvt\\b',
+          'blood clot',
+        ],
+      },
+    ],
+    guidance: 'Calf pain or swelling after surgery can indicate a blood clot (DVT). Contact your surgeon or GP today, and call ' + EMERGENCY_NUMBER + ' if you also become short of breath.',
+  },
+  {
+    id: 'fever',
+    title: 'Fever over 38.3°C',
+    severity: 'urgent',
+    sources: ['chat', 'check_in'],
+    conditions: [
+      { type: 'temperature_above', celsius: 38.3 },
+      { type: 'text', patterns: ['\\bhigh (fever|temperature)', '\\b(fever|feverish)\\b.{0,20}(chills|shivers|rigors)'] },
+    ],
+    guidance: 'A fever after surgery can be a sign of infection. Contact your surgeon today and keep monitoring your temperature.',
+  },
+  {
+    id: 'wound_drainage',
+    title: 'Wound drainage, redness or warmth',
+    severity: 'urgent',
+    sources: ['chat', 'check_in'],
+    conditions: [
+      {
+        type: 'text',
+        patterns: [
+          '(wound|incision|scar|stitches|dressing).{0,40}(drain|ooz|pus|leak|discharg|weep|bleed|red|hot|warm|open|smell)\\w*',
+          '(drain|ooz|pus|leak|discharg|weep|bleed|red|hot|warm|open|smell).{0,40}(wound|incision|scar|stitches|dressing)',
+          '\\bpus\\b',
+        ],
+      },
+    ],
+    guidance: 'Drainage, spreading redness or warmth around the incision can mean infection. Contact your surgeon today and do not apply creams unless instructed.',
+  },
+  {
+    id: 'sudden_pain_increase',
+    title: 'Sudden or severe increase in pain',
+    severity: 'urgent',
+    sources: ['check_in'],
+    conditions: [
+      { type: 'pain_increase', points: 3 },
+      { type: 'pain_level_at_least', level: 9 },
+    ],
+    guidance: 'A sharp rise in pain that your medication does not settle should be reviewed. Contact your surgeon or care team today.',
+  },
+  {
+    id: 'burning_pain',
+    title: 'Burning pain',
+    severity: 'urgent',
+    sources: ['check_in'],
+    conditions: [
+      { type: 'pain_character', values: ['Burning'] },
+    ],
+    guidance: 'Burning pain can point to nerve irritation. Let your care team know, especially if you also notice numbness, tingling or weakness.',
+  },
+];
+
+const TEMPERATURE_PATTERN = /(\d{2,3}(?:\.\d+)?)\s*(?:°|º|degrees?)?\s*(celsius|fahrenheit|c|f)?\b/gi;
+// "Degrees" alone is just as often a joint angle, so a bare number only counts with a fever word right beside it.
+const TEMPERATURE_WORD_BEFORE = /\b(?:temp|temperature|fever|febrile)\b(?:\W+\w+){0,3}\W*$/i;
+const TEMPERATURE_WORD_AFTER = /^\W*(?:temp|temperature|fever)\b/i;
+const CLAUSE_BREAK = /[,.;!?\n]|\b(?:but|and|though)\b/i;
+
+function nearTemperatureWord(text: string, start: number, end: number): boolean {
+  const clauses = text.slice(0, start).split(CLAUSE_BREAK);
+  return TEMPERATURE_WORD_BEFORE.test(clauses[clauses.length - 1] ?? '') || TEMPERATURE_WORD_AFTER.test(text.slice(end));
+}
+
+function extractTemperaturesCelsius(text: string): number[] {
+  const temperatures: number[] = [];
+
+  for (const match of text.matchAll(TEMPERATURE_PATTERN)) {
+    const value = parseFloat(match[1]);
+    const unit = match[2]?.toLowerCase();
+    const start = match.index ?? 0;
+    if (!unit && !nearTemperatureWord(text, start, start + match[0].length)) continue;
+
+    const fahrenheit = unit ? unit.startsWith('f') : value >= 95;
+    if (fahrenheit && value >= 95 && value <= 110) {
+      temperatures.push(((value - 32) * 5) / 9);
+    } else if (!fahrenheit && value >= 34 && value <= 43) {
+      temperatures.push(value);
+    }
+  }
+
+  return temperatures;
+}
+
+function evaluateCondition(condition: TriageCondition, input: TriageInput): string | null {
+  switch (condition.type) {
+    case 'text': {
+      if (!input.text) return null;
+      for (const pattern of condition.patterns) {
+        const match = input.text.match(new RegExp(pattern, 'i'));
+        if (match) return `"${match[0]}"`;
+      }
+      return null;
+    }
+    case 'temperature_above': {
+      if (!input.text) return null;
+      const highest = Math.max(...extractTemperaturesCelsius(input.text));
+      return highest > condition.celsius ? `Temperature ${highest.toFixed(1)}°C` : null;
+    }
+    case 'pain_increase': {
+      if (input.painLevel === undefined || input.previousPainLevel === undefined || input.previousPainLevel === null) {
+        return null;
+      }
+      const increase = input.painLevel - input.previousPainLevel;
+      return increase >= condition.points
+        ? `Pain rose from ${input.previousPainLevel}/10 to ${input.painLevel}/10`
+        : null;
+    }
+    case 'pain_level_at_least':
+      return input.painLevel !== undefined && input.painLevel >= condition.level
+        ? `Pain ${input.painLevel}/10`
+        : null;
+    case 'pain_character': {
+      const selected = input.painCharacter?.find(value => condition.values.includes(value));
+      return selected ? `${selected} pain` : null;
+    }
+  }
+}
+
+// A rule fires when any one of its conditions matches.
+export function evaluateTriage(
+  source: TriageSource,
+  input: TriageInput,
+  rules: TriageRule[] = TRIAGE_RULES
+): TriageHit[] {
+  const hits: TriageHit[] = [];
+
+  for (const rule of rules) {
+    if (!rule.sources.includes(source)) continue;
+
+    for (const condition of rule.conditions) {
+      const evidence = evaluateCondition(condition, input);
+      if (evidence) {
+        hits.push({ rule, evidence });
+        break;
+      }
+    }
+  }
+
+  return hits.sort((a, b) => (a.rule.severity === b.rule.severity ? 0 : a.rule.severity === 'emergency' ? -1 : 1));
+}
+
+export function highestSeverity(hits: TriageHit[]): TriageSeverity {
+  return hits.some(hit => hit.rule.severity === 'emergency') ? 'emergency' : 'urgent';
+}
+
+// Records the hit for clinician review; the database adds the matching notification to the patient's inbox.
+export async function recordTriageEvent(
+  patientId: string,
+  source: TriageSource,
+  hits: TriageHit[],
+  excerpt: string
+): Promise<string | null> {
+  if (hits.length === 0) return null;
+
+  const severity = highestSeverity(hits);
+  const eventId = crypto.randomUUID();
+
+  // Queued like a check-in, so a red flag raised offline still reaches the care team once the device reconnects.
+  try {
+    await queueSubmission('triage_event', patientId, localDateString(), {
+      id: eventId,
+      source,
+      severity,
+      rule_ids: hits.map(hit => hit.rule.id),
+      evidence: hits.map(hit => ({ rule_id: hit.rule.id, evidence: hit.evidence })),
+      excerpt: excerpt.slice(0, 1000),
+    });
+    return eventId;
+  } catch (error) {
+    console.error('Error recording triage event:', error);
+    return null;
+  }
+}
+
+export async function acknowledgeTriageEvent(eventId: string): Promise<void> {
+  const { error } = await supabase
+    .from('triage_events')
+    .update({ acknowledged_at: new Date().toISOString() })
+    .eq('id', eventId);
+
+  if (error) console.error('Error acknowledging triage event:', error);
+}
@@ -1,8 +1,11 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { startSubmissionSync } from './lib/offlineQueue';
 import './index.css';
 
+startSubmissionSync();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
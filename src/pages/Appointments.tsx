@@ -0,0 +1,783 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ArrowLeft,
+  Plus,
+  X,
+  Calendar,
+  CalendarDays,
+  CalendarPlus,
+  ChevronLeft,
+  ChevronRight,
+  List,
+  MapPin,
+  Phone,
+  Pencil,
+  XCircle,
+  Trash2,
+  Rss,
+  Copy,
+  RefreshCw,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import {
+  Appointment,
+  AppointmentInput,
+  appointmentLocation,
+  calendarFeedUrls,
+  createCalendarFeedToken,
+  dayKey,
+  deleteAppointment,
+  deleteCalendarFeed,
+  downloadAppointmentIcs,
+  formatTimeRange,
+  getCalendarFeedToken,
+  loadAppointments,
+  mapsUrl,
+  monthGrid,
+  saveAppointment,
+  setAppointmentStatus,
+} from '../lib/appointments';
+import { Provider } from '../lib/providers';
+
+interface AppointmentsProps {
+  onBack: () => void;
+}
+
+type View = 'agenda' | 'month';
+
+const weekdayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatDayHeading = (date: Date) =>
+  date.toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'short' });
+
+const getStatusColor = (status: Appointment['status']) => {
+  switch (status) {
+    case 'scheduled': return 'bg-blue-100 text-blue-800';
+    case 'completed': return 'bg-green-100 text-green-800';
+    case 'cancelled': return 'bg-gray-100 text-gray-600';
+  }
+};
+
+export function Appointments({ onBack }: AppointmentsProps) {
+  const { user } = useAuth();
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<View>('agenda');
+  const [editing, setEditing] = useState<Appointment | 'new' | null>(null);
+  const [showPast, setShowPast] = useState(false);
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return { year: today.getFullYear(), month: today.getMonth() };
+  });
+  const [selectedDay, setSelectedDay] = useState(() => dayKey(new Date()));
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setAppointments(await loadAppointments(user.id));
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const replaceAppointment = (updated: Appointment) => {
+    setAppointments(current => current.map(a => (a.id === updated.id ? updated : a)));
+  };
+
+  const handleCancel = async (appointment: Appointment) => {
+    if (!confirm('Cancel this appointment? Remember to let the practice know too.')) return;
+
+    try {
+      await setAppointmentStatus(appointment.id, 'cancelled');
+      replaceAppointment({ ...appointment, status: 'cancelled' });
+    } catch (error) {
+      console.error('Error cancelling appointment:', error);
+      alert('Failed to cancel appointment');
+    }
+  };
+
+  const handleDelete = async (appointment: Appointment) => {
+    if (!confirm('Delete this appointment from your records?')) return;
+
+    try {
+      await deleteAppointment(appointment.id);
+      setAppointments(appointments.filter(a => a.id !== appointment.id));
+    } catch (error) {
+      console.error('Error deleting appointment:', error);
+      alert('Failed to delete appointment');
+    }
+  };
+
+  const handleDownload = async (appointment: Appointment) => {
+    try {
+      await downloadAppointmentIcs(appointment);
+    } catch (error) {
+      console.error('Error downloading calendar file:', error);
+      alert('Could not download the calendar file');
+    }
+  };
+
+  const now = new Date();
+  const upcoming = appointments.filter(a => a.status === 'scheduled' && new Date(a.ends_at) >= now);
+  const past = appointments
+    .filter(a => !upcoming.includes(a))
+    .sort((a, b) => b.starts_at.localeCompare(a.starts_at));
+
+  const upcomingByDay = upcoming.reduce((acc, appointment) => {
+    const key = dayKey(new Date(appointment.starts_at));
+    if (!acc[key]) acc[key] = [];
+    acc[key].push(appointment);
+    return acc;
+  }, {} as Record<string, Appointment[]>);
+
+  const appointmentsOn = (key: string) =>
+    appointments.filter(a => dayKey(new Date(a.starts_at)) === key);
+
+  const renderCard = (appointment: Appointment) => (
+    <AppointmentCard
+      key={appointment.id}
+      appointment={appointment}
+      onEdit={() => setEditing(appointment)}
+      onCancel={() => handleCancel(appointment)}
+      onDelete={() => handleDelete(appointment)}
+      onDownload={() => handleDownload(appointment)}
+    />
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading appointments...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB] pb-24">
+      <div className="bg-white px-6 py-4 border-b border-gray-200 sticky top-0 z-10">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center text-qivr-blue hover:text-qivr-blue-light transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back
+          </button>
+          <h1 className="text-xl font-semibold text-[#1F2937]">Appointments</h1>
+          <button
+            onClick={() => setEditing('new')}
+            className="text-qivr-blue hover:text-qivr-blue-light"
+            aria-label="Add appointment"
+          >
+            <Plus className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-2 gap-2 bg-white rounded-lg p-1 border border-gray-200">
+          {[
+            { id: 'agenda' as View, label: 'Agenda', icon: List },
+            { id: 'month' as View, label: 'Month', icon: CalendarDays },
+          ].map(option => {
+            const Icon = option.icon;
+            return (
+              <button
+                key={option.id}
+                onClick={() => setView(option.id)}
+                className={`flex items-center justify-center space-x-2 py-2 rounded-md text-sm font-medium transition-colors ${
+                  view === option.id ? 'bg-qivr-blue text-white' : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                <span>{option.label}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {view === 'agenda' ? (
+          <>
+            {upcoming.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Calendar className="w-10 h-10 text-gray-400" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-600 mb-2">No Upcoming Appointments</h3>
+                <p className="text-gray-500 mb-6">Add appointments to get reminders and keep them in your calendar</p>
+                <button
+                  onClick={() => setEditing('new')}
+                  className="bg-qivr-blue text-white px-6 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors inline-flex items-center space-x-2"
+                >
+                  <Plus className="w-5 h-5" />
+                  <span>Add Appointment</span>
+                </button>
+              </div>
+            ) : (
+              Object.entries(upcomingByDay).map(([key, dayAppointments]) => (
+                <div key={key}>
+                  <h2 className="text-sm font-semibold text-gray-600 uppercase tracking-wide mb-3">
+                    {formatDayHeading(new Date(`${key}T00:00:00`))}
+                  </h2>
+                  <div className="space-y-3">{dayAppointments.map(renderCard)}</div>
+                </div>
+              ))
+            )}
+
+            {past.length > 0 && (
+              <div>
+                <button
+                  onClick={() => setShowPast(!showPast)}
+                  className="text-sm text-qivr-blue font-medium hover:text-qivr-blue-dark"
+                >
+                  {showPast ? 'Hide' : 'Show'} past and cancelled ({past.length})
+                </button>
+                {showPast && <div className="space-y-3 mt-3">{past.map(renderCard)}</div>}
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="bg-white rounded-2xl p-4 border border-gray-200">
+              <div className="flex items-center justify-between mb-4">
+                <button
+                  onClick={() => setMonth(m => (m.month === 0 ? { year: m.year - 1, month: 11 } : { ...m, month: m.month - 1 }))}
+                  className="p-2 text-gray-500 hover:text-qivr-blue rounded-lg"
+                  aria-label="Previous month"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <h2 className="font-semibold text-[#1F2937]">
+                  {new Date(month.year, month.month, 1).toLocaleDateString('en-AU', { month: 'long', year: 'numeric' })}
+                </h2>
+                <button
+                  onClick={() => setMonth(m => (m.month === 11 ? { year: m.year + 1, month: 0 } : { ...m, month: m.month + 1 }))}
+                  className="p-2 text-gray-500 hover:text-qivr-blue rounded-lg"
+                  aria-label="Next month"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+                {weekdayLabels.map(label => <div key={label}>{label}</div>)}
+              </div>
+              <div className="grid grid-cols-7 gap-1">
+                {monthGrid(month.year, month.month).map(date => {
+                  const key = dayKey(date);
+                  const count = appointmentsOn(key).filter(a => a.status !== 'cancelled').length;
+                  const inMonth = date.getMonth() === month.month;
+                  const isToday = key === dayKey(now);
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => setSelectedDay(key)}
+                      className={`aspect-square rounded-lg flex flex-col items-center justify-center text-sm transition-colors ${
+                        key === selectedDay
+                          ? 'bg-qivr-blue text-white'
+                          : isToday
+                            ? 'bg-qivr-blue/10 text-qivr-blue font-semibold'
+                            : inMonth
+                              ? 'text-gray-900 hover:bg-gray-50'
+                              : 'text-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      <span>{date.getDate()}</span>
+                      {count > 0 && (
+                        <span className={`w-1.5 h-1.5 rounded-full mt-0.5 ${key === selectedDay ? 'bg-white' : 'bg-qivr-blue'}`} />
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-sm font-semibold text-gray-600 uppercase tracking-wide mb-3">
+                {formatDayHeading(new Date(`${selectedDay}T00:00:00`))}
+              </h2>
+              {appointmentsOn(selectedDay).length > 0 ? (
+                <div className="space-y-3">{appointmentsOn(selectedDay).map(renderCard)}</div>
+              ) : (
+                <p className="text-sm text-gray-500">No appointments on this day</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <CalendarSubscriptionCard />
+      </div>
+
+      {editing && (
+        <AppointmentFormModal
+          appointment={editing === 'new' ? null : editing}
+          defaultDate={view === 'month' ? selectedDay : undefined}
+          onClose={() => setEditing(null)}
+          onSaved={saved => {
+            setEditing(null);
+            setAppointments(current =>
+              [...current.filter(a => a.id !== saved.id), saved].sort((a, b) => a.starts_at.localeCompare(b.starts_at))
+            );
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function AppointmentCard({
+  appointment,
+  onEdit,
+  onCancel,
+  onDelete,
+  onDownload,
+}: {
+  appointment: Appointment;
+  onEdit: () => void;
+  onCancel: () => void;
+  onDelete: () => void;
+  onDownload: () => void;
+}) {
+  const location = appointmentLocation(appointment);
+  const isUpcoming = appointment.status === 'scheduled' && new Date(appointment.ends_at) >= new Date();
+
+  return (
+    <div className="bg-white rounded-2xl p-4 border border-gray-200">
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex-1 min-w-0">
+          <h3 className={`font-semibold ${appointment.status === 'cancelled' ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+            {appointment.title}
+          </h3>
+          <p className="text-sm text-qivr-blue font-medium">
+            {!isUpcoming && `${new Date(appointment.starts_at).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' })} • `}
+            {formatTimeRange(appointment)}
+          </p>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded font-medium ${getStatusColor(appointment.status)}`}>
+          {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
+        </span>
+      </div>
+
+      <div className="space-y-1 text-sm text-gray-600 mb-3">
+        {appointment.provider && (
+          <p>{appointment.provider.provider_name} • {appointment.provider.practice_name}</p>
+        )}
+        {location && (
+          <a
+            href={mapsUrl(location)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-start space-x-2 hover:text-qivr-blue"
+          >
+            <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{location}</span>
+          </a>
+        )}
+        {appointment.provider?.phone_number && (
+          <a href={`tel:${appointment.provider.phone_number}`} className="flex items-center space-x-2 hover:text-qivr-blue">
+            <Phone className="w-4 h-4" />
+            <span>{appointment.provider.phone_number}</span>
+          </a>
+        )}
+        {appointment.notes && <p className="text-xs text-gray-500 pt-1">{appointment.notes}</p>}
+      </div>
+
+      <div className="flex items-center justify-between">
+        {isUpcoming ? (
+          <button
+            onClick={onDownload}
+            className="flex items-center space-x-1 text-sm text-qivr-blue font-medium hover:text-qivr-blue-dark"
+          >
+            <CalendarPlus className="w-4 h-4" />
+            <span>Add to calendar</span>
+          </button>
+        ) : <span />}
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onEdit}
+            className="p-2 text-gray-500 hover:text-qivr-blue hover:bg-qivr-blue/10 rounded-lg transition-colors"
+            title="Edit"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          {isUpcoming ? (
+            <button
+              onClick={onCancel}
+              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Cancel appointment"
+            >
+              <XCircle className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={onDelete}
+              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CalendarSubscriptionCard() {
+  const { user } = useAuth();
+  const [token, setToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    getCalendarFeedToken(user.id)
+      .then(setToken)
+      .catch(error => console.error('Error loading calendar feed:', error));
+  }, [user]);
+
+  const run = async (action: () => Promise<string | null>) => {
+    try {
+      setBusy(true);
+      setToken(await action());
+    } catch (error) {
+      console.error('Error updating calendar feed:', error);
+      alert('Could not update your calendar link');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrls(token).https);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying calendar link:', error);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center space-x-3 mb-2">
+        <Rss className="w-5 h-5 text-qivr-blue" />
+        <h2 className="text-lg font-semibold text-[#1F2937]">Subscribe in Your Calendar</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Keep every appointment in Apple, Google or Outlook Calendar. Changes here show up there automatically.
+      </p>
+
+      {token ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <a
+              href={calendarFeedUrls(token).webcal}
+              className="bg-qivr-blue text-white px-4 py-2 rounded-lg text-sm font-medium text-center hover:bg-qivr-blue-dark transition-colors"
+            >
+              Subscribe
+            </a>
+            <button
+              onClick={copyLink}
+              className="flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              <span>{copied ? 'Copied' : 'Copy link'}</span>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Anyone with this link can see your appointments. Reset it if you shared it by mistake.
+          </p>
+          <div className="flex items-center space-x-4 text-sm">
+            <button
+              onClick={() => run(() => createCalendarFeedToken(user.id))}
+              disabled={busy}
+              className="flex items-center space-x-1 text-qivr-blue font-medium hover:text-qivr-blue-dark disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Reset link</span>
+            </button>
+            <button
+              onClick={() => run(async () => {
+                await deleteCalendarFeed(user.id);
+                return null;
+              })}
+              disabled={busy}
+              className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => run(() => createCalendarFeedToken(user.id))}
+          disabled={busy}
+          className="w-full bg-qivr-blue text-white px-4 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+        >
+          {busy ? 'Creating...' : 'Create Calendar Link'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface ReferralOption {
+  id: string;
+  referral_reason: string;
+  provider: Provider | null;
+}
+
+const toTimeValue = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+function AppointmentFormModal({
+  appointment,
+  defaultDate,
+  onClose,
+  onSaved,
+}: {
+  appointment: Appointment | null;
+  defaultDate?: string;
+  onClose: () => void;
+  onSaved: (appointment: Appointment) => void;
+}) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [referrals, setReferrals] = useState<ReferralOption[]>([]);
+  const starts = appointment ? new Date(appointment.starts_at) : null;
+  const ends = appointment ? new Date(appointment.ends_at) : null;
+  const [formData, setFormData] = useState({
+    title: appointment?.title ?? '',
+    provider_id: appointment?.provider_id ?? '',
+    referral_id: appointment?.referral_id ?? '',
+    date: starts ? dayKey(starts) : defaultDate ?? dayKey(new Date()),
+    start_time: starts ? toTimeValue(starts) : '09:00',
+    end_time: ends ? toTimeValue(ends) : '10:00',
+    location: appointment?.location ?? '',
+    notes: appointment?.notes ?? '',
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    Promise.all([
+      supabase.from('healthcare_providers').select('*').order('provider_name', { ascending: true }),
+      supabase
+        .from('patient_referrals')
+        .select('id, referral_reason, provider:healthcare_providers(*)')
+        .eq('patient_id', user.id)
+        .in('status', ['pending', 'scheduled'])
+        .order('referral_date', { ascending: false }),
+    ])
+      .then(([providerResult, referralResult]) => {
+        if (providerResult.error) throw providerResult.error;
+        if (referralResult.error) throw referralResult.error;
+        setProviders(providerResult.data ?? []);
+        setReferrals((referralResult.data ?? []) as unknown as ReferralOption[]);
+      })
+      .catch(error => console.error('Error loading providers for appointment:', error));
+  }, [user]);
+
+  const selectedProvider = providers.find(p => p.id === formData.provider_id);
+
+  const selectReferral = (referralId: string) => {
+    const referral = referrals.find(r => r.id === referralId);
+    setFormData(current => ({
+      ...current,
+      referral_id: referralId,
+      provider_id: referral?.provider?.id ?? current.provider_id,
+      title: current.title || referral?.provider?.provider_name || '',
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !formData.title.trim()) return;
+
+    const startsAt = new Date(`${formData.date}T${formData.start_time}`);
+    const endsAt = new Date(`${formData.date}T${formData.end_time}`);
+    if (endsAt <= startsAt) {
+      alert('The end time must be after the start time');
+      return;
+    }
+
+    const input: AppointmentInput = {
+      title: formData.title.trim(),
+      provider_id: formData.provider_id || null,
+      referral_id: formData.referral_id || null,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      location: formData.location.trim(),
+      notes: formData.notes,
+    };
+
+    try {
+      setSaving(true);
+      onSaved(await saveAppointment(user.id, input, appointment?.id));
+    } catch (error) {
+      console.error('Error saving appointment:', error);
+      alert('Failed to save appointment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">{appointment ? 'Edit Appointment' : 'Add Appointment'}</h2>
+          <button onClick={onClose} disabled={saving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {referrals.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">For referral (Optional)</label>
+              <select
+                value={formData.referral_id}
+                onChange={(e) => selectReferral(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Not linked to a referral</option>
+                {referrals.map(referral => (
+                  <option key={referral.id} value={referral.id}>
+                    {referral.provider?.provider_name ?? 'Provider'} – {referral.referral_reason}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+            <input
+              type="text"
+              required
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., Post-op review with Dr. Chen"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Provider (Optional)</label>
+            <select
+              value={formData.provider_id}
+              onChange={(e) => setFormData({ ...formData, provider_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">No provider</option>
+              {providers.map(provider => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.provider_name} – {provider.practice_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+            <input
+              type="date"
+              required
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Starts</label>
+              <input
+                type="time"
+                required
+                value={formData.start_time}
+                onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+              <input
+                type="time"
+                required
+                value={formData.end_time}
+                onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Location (Optional)</label>
+            <input
+              type="text"
+              value={formData.location}
+              onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+              className={inputClass}
+              placeholder={selectedProvider
+                ? appointmentLocation({ location: '', provider: selectedProvider })
+                : 'Address or "Telehealth"'}
+            />
+            {selectedProvider && (
+              <p className="text-xs text-gray-500 mt-1">Leave blank to use the provider's address.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes (Optional)</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className={inputClass}
+              placeholder="e.g., Bring your latest X-rays"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !formData.title.trim()}
+              className="flex-1 bg-qivr-blue text-white px-4 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
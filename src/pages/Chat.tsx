@@ -1,147 +1,554 @@
-import { useState, useEffect, useRef } from 'react';
-import { Send, Mic, Paperclip, Info } from 'lucide-react';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { Send, Mic, Paperclip, History, MessageSquarePlus, Search, X, Pencil, Archive, ArchiveRestore, Check, Bot, Volume2, VolumeX, Headphones, Square } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useRouter } from '../contexts/RouterContext';
+import { supabase, ChatMessage, ChatSession } from '../lib/supabase';
+import { paths } from '../lib/routes';
+import { buildChatRequest, getChatProvider, loadPatientContext, ChatTurn, PatientContext } from '../lib/chat';
+import {
+  createChatSession,
+  getChatSession,
+  getLatestChatSession,
+  listChatSessions,
+  loadChatMessagePage,
+  searchChatMessages,
+  titleFromMessage,
+  updateChatSession,
+  ChatSearchResult,
+} from '../lib/chatSessions';
+import { evaluateTriage, recordTriageEvent, acknowledgeTriageEvent, highestSeverity, TriageHit } from '../lib/triage';
+import { RedFlagAlert } from '../components/RedFlagAlert';
+import { AttachmentPreview, PendingAttachment, FileToRecordsModal } from '../components/ChatAttachments';
+import {
+  uploadChatAttachment,
+  removeChatAttachments,
+  validateAttachment,
+  describeAttachments,
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  ChatAttachment,
+} from '../lib/attachments';
+import { suggestChatActions, recordActionResult, describeActionResult, logPainScore, ChatAction, ChatActionResult } from '../lib/chatActions';
+import { Provider } from '../lib/providers';
+import { ChatActionButtons, ActionOverlay, LogPainModal, ProviderPickerModal } from '../components/ChatActions';
+import { ExerciseGuide } from '../components/ExerciseGuide';
+import { exercisesForCondition } from '../lib/exercises';
+import { PromAssessment } from '../components/PromAssessment';
+import { ReferralModal } from '../components/ReferralModal';
+import { getTranscriptionBackend, startTranscription, speak, isSpeechSynthesisSupported, TranscriptionOptions, TranscriptionSession } from '../lib/speech';
 
-export function Chat() {
+const chatProvider = getChatProvider();
+const transcriptionBackend = getTranscriptionBackend();
+const canSpeak = isSpeechSynthesisSupported();
+
+const READ_ALOUD_STORAGE_KEY = 'qivr.chat.readAloud';
+// Holding the mic longer than this is press-to-talk; a shorter tap toggles listening on and off.
+const HOLD_TO_TALK_MS = 400;
+
+interface ChatProps {
+  chatSessionId?: string;
+}
+
+type DisplayMessage = {
+  id: string;
+  recordId?: string;
+  sender: 'patient' | 'ai';
+  message: string;
+  attachments?: ChatAttachment[];
+  actions?: ChatAction[];
+  completedActionIds?: string[];
+  actionResult?: ChatActionResult;
+  timestamp: Date;
+};
+
+function toDisplayMessage(msg: ChatMessage): DisplayMessage {
+  return {
+    id: msg.id ?? `msg_${msg.created_at}`,
+    recordId: msg.id,
+    sender: msg.sender,
+    message: msg.message,
+    attachments: msg.metadata?.attachments ?? [],
+    actions: msg.metadata?.actions ?? [],
+    completedActionIds: msg.metadata?.completed_action_ids ?? [],
+    actionResult: msg.metadata?.action_result,
+    timestamp: new Date(msg.created_at ?? Date.now()),
+  };
+}
+
+function toChatTurnContent(msg: DisplayMessage): string {
+  return [msg.message, describeAttachments(msg.attachments ?? [])].filter(Boolean).join('\n');
+}
+
+export function Chat({ chatSessionId }: ChatProps) {
   const { user, profile } = useAuth();
-  const [messages, setMessages] = useState<Array<{ id: string; sender: 'patient' | 'ai'; message: string; timestamp: Date }>>([]);
+  const { navigate } = useRouter();
+  const [session, setSession] = useState<ChatSession | null>(null);
+  const [messages, setMessages] = useState<DisplayMessage[]>([]);
+  const [oldestCursor, setOldestCursor] = useState<string | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [inputMessage, setInputMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
-  const [sessionId, setSessionId] = useState<string>('');
+  const [patientContext, setPatientContext] = useState<PatientContext | null>(null);
+  const [redFlag, setRedFlag] = useState<{ hits: TriageHit[]; eventId: string | null } | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [attachmentError, setAttachmentError] = useState('');
+  const [uploadingAttachments, setUploadingAttachments] = useState(false);
+  const [filing, setFiling] = useState<{ messageId: string; recordId: string; attachment: ChatAttachment } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [listening, setListening] = useState(false);
+  const [voiceError, setVoiceError] = useState('');
+  const [readAloud, setReadAloud] = useState(() => canSpeak && localStorage.getItem(READ_ALOUD_STORAGE_KEY) === 'true');
+  const [handsFree, setHandsFree] = useState(false);
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const transcriptionRef = useRef<TranscriptionSession | null>(null);
+  const stopSpeakingRef = useRef<(() => void) | null>(null);
+  const handsFreeRef = useRef(false);
+  const micPressedAtRef = useRef<number | null>(null);
+  const [activeAction, setActiveAction] = useState<{ message: DisplayMessage; action: ChatAction } | null>(null);
+  const [referralProvider, setReferralProvider] = useState<Provider | null>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollAnchorRef = useRef<number | null>(null);
+
+  const firstName = profile?.full_name?.split(' ')[0];
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const openSession = async () => {
+      try {
+        let target = chatSessionId
+          ? await getChatSession(chatSessionId)
+          : await getLatestChatSession(user.id);
+
+        if (chatSessionId && !target) {
+          navigate(paths.chat, { replace: true });
+          return;
+        }
+
+        if (!target) {
+          target = await createChatSession(user.id);
+        }
+
+        const page = await loadChatMessagePage(target.id);
+        if (cancelled) return;
+
+        setSession(target);
+        setHasOlder(page.hasOlder);
+        setOldestCursor(page.messages[0]?.created_at ?? null);
+        setMessages(
+          page.messages.length > 0
+            ? page.messages.map(toDisplayMessage)
+            : [{
+                id: `msg_${Date.now()}`,
+                sender: 'ai',
+                message: `Hello ${firstName || 'there'}! I'm OrthoAI, your personal orthopaedic recovery assistant. I'm here to answer your questions about your recovery, provide guidance, and help you stay on track. How can I help you today?`,
+                timestamp: new Date(),
+              }]
+        );
+      } catch (error) {
+        console.error('Error opening chat session:', error);
+      }
+    };
+
+    openSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, chatSessionId, firstName, navigate]);
 
   useEffect(() => {
-    initializeSession();
-  }, [user]);
+    if (!user) return;
+    loadPatientContext(user.id, profile).then(setPatientContext);
+  }, [user, profile]);
 
   useEffect(() => {
+    return () => {
+      handsFreeRef.current = false;
+      transcriptionRef.current?.abort();
+      stopSpeakingRef.current?.();
+    };
+  }, []);
+
+  // Keep the reader's place when older messages are prepended; otherwise follow the newest message.
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (container && scrollAnchorRef.current !== null) {
+      container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const initializeSession = async () => {
-    if (!user) return;
+  const loadOlderMessages = async () => {
+    if (!session || !oldestCursor || loadingOlder) return;
 
-    const { data: existingSession } = await supabase
-      .from('chat_sessions')
-      .select('*')
-      .eq('patient_id', user.id)
-      .order('last_activity', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (existingSession) {
-      setSessionId(existingSession.session_id);
-      loadMessages(existingSession.id);
-    } else {
-      const newSessionId = `session_${Date.now()}`;
-      const { data: newSession } = await supabase
-        .from('chat_sessions')
-        .insert({
-          patient_id: user.id,
-          session_id: newSessionId,
-        })
-        .select()
-        .single();
+    try {
+      setLoadingOlder(true);
+      const page = await loadChatMessagePage(session.id, oldestCursor);
+      const container = messagesContainerRef.current;
+      if (container) {
+        scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      }
+      setHasOlder(page.hasOlder);
+      setOldestCursor(page.messages[0]?.created_at ?? oldestCursor);
+      setMessages(prev => [...page.messages.map(toDisplayMessage), ...prev]);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
 
-      if (newSession) {
-        setSessionId(newSession.session_id);
+  const handleNewConversation = async () => {
+    if (!user) return;
+    setShowHistory(false);
 
-        const welcomeMessage = {
-          id: `msg_${Date.now()}`,
-          sender: 'ai' as const,
-          message: `Hello ${profile?.full_name?.split(' ')[0] || 'there'}! I'm OrthoAI, your personal orthopaedic recovery assistant. I'm here to answer your questions about your recovery, provide guidance, and help you stay on track. How can I help you today?`,
-          timestamp: new Date(),
-        };
-        setMessages([welcomeMessage]);
-      }
+    // An untouched conversation is reused rather than leaving empty sessions behind.
+    if (session && !session.title && !messages.some(msg => msg.sender === 'patient')) return;
+
+    try {
+      const newSession = await createChatSession(user.id);
+      navigate(paths.chatSession(newSession.id));
+    } catch (error) {
+      console.error('Error starting conversation:', error);
     }
   };
 
-  const loadMessages = async (chatSessionId: string) => {
-    const { data } = await supabase
-      .from('chat_messages')
-      .select('*')
-      .eq('session_id', chatSessionId)
-      .order('created_at', { ascending: true });
+  const handleSelectFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    const errors = selected.map(validateAttachment).filter((error): error is string => error !== null);
+    const valid = selected.filter(file => validateAttachment(file) === null);
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingFiles.length;
 
-    if (data) {
-      setMessages(
-        data.map(msg => ({
-          id: msg.id,
-          sender: msg.sender,
-          message: msg.message,
-          timestamp: new Date(msg.created_at),
-        }))
-      );
+    if (valid.length > room) {
+      errors.push(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`);
     }
+
+    setAttachmentError(errors.join(' '));
+    setPendingFiles(prev => [...prev, ...valid.slice(0, Math.max(room, 0))]);
   };
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || !user || !sessionId) return;
+  // Resolves with the reply that was shown so voice modes can read it aloud.
+  const handleSendMessage = async (text?: string): Promise<{ id: string; text: string; urgent?: boolean } | null> => {
+    const question = (text ?? inputMessage).trim();
+    if ((!question && pendingFiles.length === 0) || !user || !session || uploadingAttachments) return null;
+
+    let attachments: ChatAttachment[] = [];
+
+    if (pendingFiles.length > 0) {
+      setUploadingAttachments(true);
+      const uploads = await Promise.allSettled(pendingFiles.map(file => uploadChatAttachment(user.id, session.id, file)));
+      setUploadingAttachments(false);
+
+      const uploaded = uploads.flatMap(upload => (upload.status === 'fulfilled' ? [upload.value] : []));
+      const failed = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+      if (failed) {
+        console.error('Error uploading attachments:', failed.reason);
+        // The files that did upload would never be referenced, so they are removed before the patient retries.
+        await removeChatAttachments(uploaded);
+        setAttachmentError('Your files could not be uploaded. Check your connection and try again.');
+        return null;
+      }
+      attachments = uploaded;
+    }
+
+    const history: ChatTurn[] = messages.map(msg => ({
+      role: msg.sender === 'patient' ? 'user' : 'assistant',
+      content: toChatTurnContent(msg),
+    }));
 
-    const userMessage = {
+    const userMessage: DisplayMessage = {
       id: `msg_${Date.now()}`,
-      sender: 'patient' as const,
-      message: inputMessage,
+      sender: 'patient',
+      message: question,
+      attachments,
       timestamp: new Date(),
     };
 
     setMessages(prev => [...prev, userMessage]);
     setInputMessage('');
+    setPendingFiles([]);
+    setAttachmentError('');
     setIsTyping(true);
 
-    const { data: session } = await supabase
-      .from('chat_sessions')
+    const { data: savedMessage, error: saveError } = await supabase
+      .from('chat_messages')
+      .insert({
+        session_id: session.id,
+        sender: 'patient',
+        message: question,
+        metadata: attachments.length > 0 ? { attachments } : {},
+      })
       .select('id')
-      .eq('session_id', sessionId)
       .single();
 
-    if (session) {
+    if (saveError && attachments.length > 0) {
+      // Without the message row nothing points at the uploads, so they are removed and the draft restored.
+      console.error('Error saving chat message:', saveError);
+      await removeChatAttachments(attachments);
+      setMessages(prev => prev.filter(msg => msg.id !== userMessage.id));
+      setInputMessage(question);
+      setPendingFiles(pendingFiles);
+      setIsTyping(false);
+      setAttachmentError('Your message could not be sent. Check your connection and try again.');
+      return null;
+    }
+
+    if (savedMessage) {
+      setMessages(prev => prev.map(msg => (msg.id === userMessage.id ? { ...msg, recordId: savedMessage.id } : msg)));
+    }
+
+    const sessionUpdates = {
+      last_activity: new Date().toISOString(),
+      ...(session.title ? {} : { title: titleFromMessage(question || attachments[0].name) }),
+    };
+    setSession({ ...session, ...sessionUpdates });
+    updateChatSession(session.id, sessionUpdates).catch(error => {
+      console.error('Error updating chat session:', error);
+    });
+
+    const aiMessageId = `msg_${Date.now() + 1}`;
+
+    // Red flags bypass the assistant entirely so urgent guidance is never diluted by a generated reply.
+    const triageHits = evaluateTriage('chat', { text: question });
+    if (triageHits.length > 0) {
+      const eventId = await recordTriageEvent(user.id, 'chat', triageHits, question);
+      const guidance = [
+        highestSeverity(triageHits) === 'emergency'
+          ? 'What you have described may need emergency care.'
+          : 'What you have described should be checked by your care team today.',
+        ...triageHits.map(hit => `• ${hit.rule.guidance}`),
+      ].join('\n\n');
+
+      setIsTyping(false);
+      setMessages(prev => [...prev, { id: aiMessageId, sender: 'ai', message: guidance, timestamp: new Date() }]);
+      setRedFlag({ hits: triageHits, eventId });
+
       await supabase.from('chat_messages').insert({
         session_id: session.id,
-        sender: 'patient',
-        message: inputMessage,
+        sender: 'ai',
+        message: guidance,
+        metadata: {
+          triage: {
+            event_id: eventId,
+            severity: highestSeverity(triageHits),
+            rule_ids: triageHits.map(hit => hit.rule.id),
+          },
+        },
       });
+      return { id: aiMessageId, text: guidance, urgent: true };
     }
 
-    setTimeout(() => {
-      const aiResponse = {
-        id: `msg_${Date.now() + 1}`,
-        sender: 'ai' as const,
-        message: generateAIResponse(inputMessage),
-        timestamp: new Date(),
-      };
+    const request = buildChatRequest(
+      patientContext ?? { profile, latestProms: null, odiScores: [], medications: [] },
+      history,
+      toChatTurnContent(userMessage)
+    );
+    let reply = '';
 
-      setMessages(prev => [...prev, aiResponse]);
+    try {
+      for await (const chunk of chatProvider.streamReply(request)) {
+        if (!reply) {
+          setIsTyping(false);
+          setMessages(prev => [...prev, { id: aiMessageId, sender: 'ai', message: '', timestamp: new Date() }]);
+        }
+        reply += chunk;
+        const partial = reply;
+        setMessages(prev => prev.map(msg => (msg.id === aiMessageId ? { ...msg, message: partial } : msg)));
+      }
+    } catch (error) {
+      console.error('Error generating chat reply:', error);
+      if (!reply) {
+        reply = 'Sorry, I could not reach OrthoAI just now. Please try again in a moment. If your symptoms are urgent, contact your care team.';
+        setMessages(prev => [...prev, { id: aiMessageId, sender: 'ai', message: reply, timestamp: new Date() }]);
+      }
+    } finally {
       setIsTyping(false);
+    }
 
-      if (session) {
-        supabase.from('chat_messages').insert({
+    if (reply) {
+      const actions = suggestChatActions(question, reply);
+      const { data: savedReply } = await supabase
+        .from('chat_messages')
+        .insert({
           session_id: session.id,
           sender: 'ai',
-          message: aiResponse.message,
-        });
-      }
-    }, 2000);
+          message: reply,
+          metadata: actions.length > 0 ? { actions } : {},
+        })
+        .select('id')
+        .single();
+
+      setMessages(prev => prev.map(msg => (
+        msg.id === aiMessageId ? { ...msg, recordId: savedReply?.id, actions, completedActionIds: [] } : msg
+      )));
+    }
+
+    return reply ? { id: aiMessageId, text: reply } : null;
+  };
+
+  const closeAction = () => {
+    setActiveAction(null);
+    setReferralProvider(null);
+  };
+
+  // Runs once the patient has confirmed inside the action's own flow.
+  const completeAction = async (result: Omit<ChatActionResult, 'action_id' | 'type'>) => {
+    if (!activeAction || !session) return;
+
+    const { message, action } = activeAction;
+    const actionResult: ChatActionResult = { action_id: action.id, type: action.type, ...result };
+    closeAction();
+
+    setMessages(prev => [
+      ...prev.map(msg => (
+        msg.id === message.id
+          ? { ...msg, completedActionIds: [...(msg.completedActionIds ?? []), action.id] }
+          : msg
+      )),
+      {
+        id: `msg_${Date.now()}`,
+        sender: 'patient',
+        message: describeActionResult(actionResult),
+        actionResult,
+        timestamp: new Date(),
+      },
+    ]);
+
+    try {
+      await recordActionResult(session.id, message.recordId, actionResult);
+    } catch (error) {
+      console.error('Error recording chat action:', error);
+    }
+  };
+
+  // Hands-free callbacks fire long after the render that scheduled them, so they go through a ref.
+  const sendMessageRef = useRef(handleSendMessage);
+  sendMessageRef.current = handleSendMessage;
+
+  const sendTypedMessage = async () => {
+    const reply = await handleSendMessage();
+    if (reply && readAloud) speakMessage(reply.id, reply.text);
+  };
+
+  const stopSpeaking = () => {
+    stopSpeakingRef.current?.();
+    stopSpeakingRef.current = null;
+    setSpeakingId(null);
+  };
+
+  const speakMessage = (id: string, text: string, onEnd?: () => void) => {
+    stopSpeaking();
+    setSpeakingId(id);
+    stopSpeakingRef.current = speak(text, () => {
+      stopSpeakingRef.current = null;
+      setSpeakingId(null);
+      onEnd?.();
+    });
+  };
+
+  const startListening = (
+    onPartial: (text: string) => void,
+    onFinal: (text: string) => void,
+    options?: TranscriptionOptions
+  ) => {
+    if (!transcriptionBackend || transcriptionRef.current) return;
+
+    stopSpeaking();
+    setVoiceError('');
+    setListening(true);
+    transcriptionRef.current = startTranscription(transcriptionBackend, {
+      onPartial,
+      onFinal,
+      onError: (message) => {
+        setVoiceError(message);
+        handsFreeRef.current = false;
+        setHandsFree(false);
+      },
+      onEnd: () => {
+        transcriptionRef.current = null;
+        setListening(false);
+      },
+    }, options);
   };
 
-  const generateAIResponse = (question: string): string => {
-    const lowerQuestion = question.toLowerCase();
+  const startDictation = () => {
+    const prefix = inputMessage.trim() ? `${inputMessage.trim()} ` : '';
+    const update = (text: string) => setInputMessage(prefix + text);
+    startListening(update, update);
+  };
 
-    if (lowerQuestion.includes('pain') || lowerQuestion.includes('swelling')) {
-      return `Pain and swelling are common after orthopaedic surgery. Here are some tips:\n\n• Elevate your leg above heart level for 20 minutes every hour\n• Apply ice for 15-20 minutes, 3-4 times daily\n• Take your prescribed medication as directed\n• If pain suddenly worsens or you notice warmth and redness, contact your doctor immediately\n\nWould you like me to log your current pain level or show you some gentle exercises?`;
+  const handleMicPointerDown = () => {
+    if (listening) {
+      transcriptionRef.current?.stop();
+      return;
     }
+    micPressedAtRef.current = Date.now();
+    startDictation();
+  };
 
-    if (lowerQuestion.includes('exercise') || lowerQuestion.includes('physical therapy')) {
-      return `Exercise is crucial for recovery! Based on your current stage (${profile?.days_post_op || 0} days post-op), here's what I recommend:\n\n• Start with gentle range-of-motion exercises\n• Gradually increase intensity as tolerated\n• Listen to your body - some discomfort is normal, but stop if you feel sharp pain\n\nWould you like to see today's recommended exercises?`;
+  const handleMicPointerUp = () => {
+    if (micPressedAtRef.current !== null && Date.now() - micPressedAtRef.current > HOLD_TO_TALK_MS) {
+      transcriptionRef.current?.stop();
     }
+    micPressedAtRef.current = null;
+  };
+
+  // Hands-free alternates: listen, send what was heard, read the reply aloud, then listen again.
+  const listenHandsFree = () => {
+    startListening(setInputMessage, async (heard) => {
+      if (!handsFreeRef.current) return;
+
+      if (!heard) {
+        handsFreeRef.current = false;
+        setHandsFree(false);
+        setVoiceError("Hands-free paused because I didn't hear anything. Tap the headphones to resume.");
+        return;
+      }
+
+      const reply = await sendMessageRef.current(heard);
+      if (!reply) return;
+
+      // Red-flag guidance is always read out, but the loop stops so the patient can act on it.
+      if (reply.urgent) {
+        handsFreeRef.current = false;
+        setHandsFree(false);
+      } else if (!handsFreeRef.current) {
+        return;
+      }
+
+      speakMessage(reply.id, reply.text, () => {
+        if (handsFreeRef.current) listenHandsFree();
+      });
+    }, { endOnSilence: true });
+  };
 
-    if (lowerQuestion.includes('drive') || lowerQuestion.includes('driving')) {
-      return `When you can return to driving depends on several factors:\n\n• Type of surgery you had\n• Which leg was operated on (if applicable)\n• Whether you can safely brake and control the vehicle\n• Your pain medication use\n\nTypically, patients can drive 4-6 weeks after major surgery, but always check with your surgeon first. Are you taking pain medications that might impair driving?`;
+  const toggleHandsFree = () => {
+    if (handsFree) {
+      handsFreeRef.current = false;
+      setHandsFree(false);
+      transcriptionRef.current?.abort();
+      stopSpeaking();
+      return;
     }
 
-    return `Thank you for your question. Based on your recovery profile (${profile?.condition || 'your condition'}, Day ${profile?.days_post_op || 0}), I'm here to help.\n\nNote: This is a demo response. In the full version, this would connect to the Genspark AI agent (ID: 92dacb25-f2da-4a96-a4c5-a2b1be8aac66) for personalized, evidence-based guidance.\n\nCould you provide more details about what you'd like to know?`;
+    handsFreeRef.current = true;
+    setHandsFree(true);
+    listenHandsFree();
+  };
+
+  const toggleReadAloud = () => {
+    const next = !readAloud;
+    setReadAloud(next);
+    localStorage.setItem(READ_ALOUD_STORAGE_KEY, String(next));
+    if (!next) stopSpeaking();
   };
 
   const quickReplies = [
@@ -154,37 +561,125 @@ export function Chat() {
   return (
     <div className="h-screen bg-[#F8FAFB] flex flex-col pb-16">
       <div className="bg-white px-6 py-4 border-b border-gray-200 flex items-center justify-between">
-        <div className="flex items-center space-x-3">
-          <div className="w-10 h-10 bg-qivr-blue rounded-full flex items-center justify-center">
-            <Mic className="w-5 h-5 text-white" />
+        <div className="flex items-center space-x-3 min-w-0">
+          <div className="w-10 h-10 bg-qivr-blue rounded-full flex items-center justify-center flex-shrink-0">
+            <Bot className="w-5 h-5 text-white" />
           </div>
-          <div>
+          <div className="min-w-0">
             <h1 className="text-lg font-semibold text-[#1F2937]">OrthoAI Assistant</h1>
             <div className="flex items-center space-x-2">
-              <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span className="text-xs text-gray-500">Online</span>
+              <div className="w-2 h-2 bg-green-500 rounded-full flex-shrink-0"></div>
+              <span className="text-xs text-gray-500 truncate">
+                {session?.title || 'Online'}
+                {session?.archived && ' · Archived'}
+              </span>
             </div>
           </div>
         </div>
-        <button className="text-gray-500 hover:text-gray-700">
-          <Info className="w-5 h-5" />
-        </button>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          {canSpeak && (
+            <button
+              onClick={toggleReadAloud}
+              className={`p-2 rounded-full transition-colors ${readAloud ? 'text-qivr-blue bg-qivr-blue/10' : 'text-gray-500 hover:text-gray-700'}`}
+              aria-label={readAloud ? 'Turn off read-aloud' : 'Read replies aloud'}
+              aria-pressed={readAloud}
+            >
+              {readAloud ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+            </button>
+          )}
+          {canSpeak && transcriptionBackend && (
+            <button
+              onClick={toggleHandsFree}
+              className={`p-2 rounded-full transition-colors ${handsFree ? 'text-white bg-qivr-blue' : 'text-gray-500 hover:text-gray-700'}`}
+              aria-label={handsFree ? 'Stop hands-free mode' : 'Start hands-free mode'}
+              aria-pressed={handsFree}
+            >
+              <Headphones className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={handleNewConversation}
+            className="text-gray-500 hover:text-gray-700 p-2"
+            aria-label="New conversation"
+          >
+            <MessageSquarePlus className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="text-gray-500 hover:text-gray-700 p-2"
+            aria-label="Conversation history"
+          >
+            <History className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {messages.map((msg) => (
+      <div ref={messagesContainerRef} className="flex-1 overflow-y-auto p-6 space-y-4">
+        {hasOlder && (
+          <div className="flex justify-center">
+            <button
+              onClick={loadOlderMessages}
+              disabled={loadingOlder}
+              className="px-4 py-2 text-sm text-qivr-blue font-medium hover:bg-white rounded-full transition-colors disabled:opacity-50"
+            >
+              {loadingOlder ? 'Loading...' : 'Load earlier messages'}
+            </button>
+          </div>
+        )}
+
+        {messages.map((msg) => msg.actionResult ? (
+          <div key={msg.id} className="flex justify-center">
+            <button
+              onClick={() => msg.actionResult?.referral_id && navigate(paths.referral(msg.actionResult.referral_id))}
+              disabled={!msg.actionResult.referral_id}
+              className="inline-flex items-center space-x-2 px-3 py-1.5 bg-green-50 text-green-800 border border-green-200 rounded-full text-xs disabled:cursor-default"
+            >
+              <Check className="w-3.5 h-3.5" />
+              <span>{msg.message}</span>
+              <span className="text-green-600">
+                {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </button>
+          </div>
+        ) : (
           <div key={msg.id} className={`flex ${msg.sender === 'patient' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-[80%] rounded-2xl px-4 py-3 ${
               msg.sender === 'patient'
                 ? 'bg-qivr-blue text-white'
                 : 'bg-white text-gray-800 border border-gray-200'
             }`}>
-              <p className="text-sm whitespace-pre-line">{msg.message}</p>
-              <span className={`text-xs mt-1 block ${
-                msg.sender === 'patient' ? 'text-white/70' : 'text-gray-500'
-              }`}>
-                {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </span>
+              {msg.attachments?.map(attachment => (
+                <AttachmentPreview
+                  key={attachment.path}
+                  attachment={attachment}
+                  fromPatient={msg.sender === 'patient'}
+                  onFile={msg.recordId ? () => setFiling({ messageId: msg.id, recordId: msg.recordId ?? '', attachment }) : undefined}
+                />
+              ))}
+              {msg.message && <p className="text-sm whitespace-pre-line">{msg.message}</p>}
+              {msg.sender === 'ai' && msg.actions && msg.actions.length > 0 && (
+                <ChatActionButtons
+                  actions={msg.actions}
+                  completedActionIds={msg.completedActionIds ?? []}
+                  onSelect={(action) => setActiveAction({ message: msg, action })}
+                />
+              )}
+              <div className="flex items-center justify-between mt-1">
+                <span className={`text-xs block ${
+                  msg.sender === 'patient' ? 'text-white/70' : 'text-gray-500'
+                }`}>
+                  {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                {msg.sender === 'ai' && msg.message && canSpeak && (
+                  <button
+                    onClick={() => (speakingId === msg.id ? stopSpeaking() : speakMessage(msg.id, msg.message))}
+                    className="text-gray-400 hover:text-qivr-blue ml-3"
+                    aria-label={speakingId === msg.id ? 'Stop reading' : 'Read aloud'}
+                  >
+                    {speakingId === msg.id ? <Square className="w-3.5 h-3.5" /> : <Volume2 className="w-3.5 h-3.5" />}
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         ))}
@@ -204,6 +699,100 @@ export function Chat() {
         <div ref={messagesEndRef} />
       </div>
 
+      {redFlag && (
+        <RedFlagAlert
+          hits={redFlag.hits}
+          onAcknowledge={() => {
+            if (redFlag.eventId) acknowledgeTriageEvent(redFlag.eventId);
+            setRedFlag(null);
+          }}
+        />
+      )}
+
+      {filing && (
+        <FileToRecordsModal
+          messageId={filing.recordId}
+          attachment={filing.attachment}
+          onClose={() => setFiling(null)}
+          onFiled={(filed) => {
+            setMessages(prev => prev.map(msg => (
+              msg.id === filing.messageId
+                ? { ...msg, attachments: msg.attachments?.map(a => (a.path === filed.path ? filed : a)) }
+                : msg
+            )));
+            setFiling(null);
+          }}
+        />
+      )}
+
+      {activeAction?.action.type === 'log_pain' && user && (
+        <LogPainModal
+          onClose={closeAction}
+          onConfirm={async (painScore, painLocation, painDescription) => {
+            try {
+              await logPainScore(user.id, painScore, painLocation, painDescription);
+              await completeAction({ pain_score: painScore });
+            } catch (error) {
+              console.error('Error logging pain score:', error);
+              alert('Failed to log pain level');
+            }
+          }}
+        />
+      )}
+
+      {activeAction?.action.type === 'start_exercises' && (
+        <ActionOverlay title="Today's Exercises" onClose={closeAction}>
+          <ExerciseGuide
+            title="Today's Exercises"
+            exercises={exercisesForCondition(profile?.condition)}
+            onComplete={() => completeAction({})}
+          />
+        </ActionOverlay>
+      )}
+
+      {activeAction?.action.type === 'start_odi' && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <PromAssessment
+            instrumentId="odi"
+            onComplete={(score) => completeAction({ odi_score: score ?? undefined })}
+            onCancel={closeAction}
+          />
+        </div>
+      )}
+
+      {activeAction?.action.type === 'book_referral' && activeAction.action.specialty && !referralProvider && (
+        <ProviderPickerModal
+          specialty={activeAction.action.specialty}
+          onClose={closeAction}
+          onSelect={setReferralProvider}
+        />
+      )}
+
+      {activeAction?.action.type === 'book_referral' && referralProvider && (
+        <ReferralModal
+          provider={referralProvider}
+          initialReason={activeAction.action.reason}
+          onClose={closeAction}
+          onSuccess={(referralId) => completeAction({ referral_id: referralId, provider_name: referralProvider.provider_name })}
+        />
+      )}
+
+      {showHistory && user && (
+        <ConversationHistory
+          patientId={user.id}
+          activeSessionId={session?.id}
+          onSelect={(id) => {
+            setShowHistory(false);
+            navigate(paths.chatSession(id));
+          }}
+          onSessionUpdated={(updated) => {
+            if (updated.id === session?.id) setSession(updated);
+          }}
+          onNewConversation={handleNewConversation}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {messages.length === 1 && (
         <div className="px-6 pb-4">
           <div className="flex flex-wrap gap-2">
@@ -221,24 +810,86 @@ export function Chat() {
       )}
 
       <div className="bg-white border-t border-gray-200 p-4">
+        {pendingFiles.length > 0 && (
+          <div className="flex space-x-3 overflow-x-auto pt-2 pb-3 px-1">
+            {pendingFiles.map((file, index) => (
+              <PendingAttachment
+                key={`${file.name}-${index}`}
+                file={file}
+                onRemove={() => setPendingFiles(prev => prev.filter((_, i) => i !== index))}
+              />
+            ))}
+          </div>
+        )}
+        {handsFree && (
+          <div className="flex items-center justify-between bg-qivr-blue/10 text-qivr-blue rounded-lg px-3 py-2 mb-3">
+            <span className="text-sm font-medium">
+              {listening ? 'Listening...' : speakingId ? 'Speaking...' : 'Thinking...'}
+            </span>
+            <button onClick={toggleHandsFree} className="text-sm font-semibold hover:text-qivr-blue-dark">
+              Stop
+            </button>
+          </div>
+        )}
+        {voiceError && (
+          <p className="text-xs text-red-600 mb-2 px-1">{voiceError}</p>
+        )}
+        {uploadingAttachments && (
+          <p className="text-xs text-gray-500 mb-2 px-1">Uploading attachments...</p>
+        )}
+        {attachmentError && (
+          <p className="text-xs text-red-600 mb-2 px-1">{attachmentError}</p>
+        )}
         <div className="flex items-center space-x-2">
-          <button className="text-gray-500 hover:text-gray-700 p-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+            multiple
+            onChange={handleSelectFiles}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={pendingFiles.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+            className="text-gray-500 hover:text-gray-700 p-2 disabled:opacity-50"
+            aria-label="Attach photo or PDF"
+          >
             <Paperclip className="w-5 h-5" />
           </button>
-          <button className="text-gray-500 hover:text-gray-700 p-2">
+          <button
+            onPointerDown={handleMicPointerDown}
+            onPointerUp={handleMicPointerUp}
+            onPointerLeave={handleMicPointerUp}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter' && e.key !== ' ') return;
+              e.preventDefault();
+              if (listening) {
+                transcriptionRef.current?.stop();
+              } else {
+                startDictation();
+              }
+            }}
+            disabled={!transcriptionBackend || handsFree}
+            className={`p-2 rounded-full transition-colors disabled:opacity-50 select-none touch-none ${
+              listening && !handsFree ? 'bg-red-500 text-white animate-pulse' : 'text-gray-500 hover:text-gray-700'
+            }`}
+            aria-label={listening ? 'Stop dictation' : 'Dictate a message'}
+            title={transcriptionBackend ? 'Tap to dictate, or hold to talk' : "Voice input isn't available in this browser"}
+          >
             <Mic className="w-5 h-5" />
           </button>
           <input
             type="text"
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-            placeholder="Ask me anything..."
+            onKeyPress={(e) => e.key === 'Enter' && sendTypedMessage()}
+            placeholder={pendingFiles.length > 0 ? 'Add a message (optional)...' : 'Ask me anything...'}
             className="flex-1 px-4 py-2 border border-gray-300 rounded-full focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
           />
           <button
-            onClick={handleSendMessage}
-            disabled={!inputMessage.trim()}
+            onClick={sendTypedMessage}
+            disabled={(!inputMessage.trim() && pendingFiles.length === 0) || uploadingAttachments}
             className="bg-qivr-blue text-white p-2 rounded-full hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send className="w-5 h-5" />
@@ -248,3 +899,270 @@ export function Chat() {
     </div>
   );
 }
+
+function HighlightedSnippet({ text, query }: { text: string; query: string }) {
+  const terms = query.trim().split(/\s+/).filter(term => term.length > 1).map(term => term.replace(/[.*+?^${}()|[\]\\"]/g, ''));
+  const firstMatch = terms.length > 0 ? text.search(new RegExp(terms.join('|'), 'i')) : -1;
+  const start = Math.max(0, firstMatch - 40);
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, start + 160)}${text.length > start + 160 ? '…' : ''}`;
+
+  if (terms.length === 0) return <>{snippet}</>;
+
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi');
+  return (
+    <>
+      {snippet.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-qivr-blue-light text-gray-900 rounded px-0.5">{part}</mark>
+          : <span key={index}>{part}</span>
+      )}
+    </>
+  );
+}
+
+function ConversationHistory({
+  patientId,
+  activeSessionId,
+  onSelect,
+  onSessionUpdated,
+  onNewConversation,
+  onClose,
+}: {
+  patientId: string;
+  activeSessionId?: string;
+  onSelect: (chatSessionId: string) => void;
+  onSessionUpdated: (session: ChatSession) => void;
+  onNewConversation: () => void;
+  onClose: () => void;
+}) {
+  const [view, setView] = useState<'active' | 'archived'>('active');
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    listChatSessions(patientId, view === 'archived')
+      .then(loaded => {
+        if (active) setSessions(loaded);
+      })
+      .catch(error => console.error('Error loading conversations:', error))
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [patientId, view]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    // Responses to an older query can arrive after a newer one, so only the latest query may set results.
+    let active = true;
+    setSearching(true);
+    const timeout = setTimeout(() => {
+      searchChatMessages(trimmed)
+        .then(found => {
+          if (active) setResults(found);
+        })
+        .catch(error => console.error('Error searching messages:', error))
+        .finally(() => {
+          if (active) setSearching(false);
+        });
+    }, 300);
+
+    return () => {
+      active = false;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const saveTitle = async (session: ChatSession) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title || title === session.title) return;
+
+    try {
+      await updateChatSession(session.id, { title });
+      const updated = { ...session, title };
+      setSessions(prev => prev.map(s => (s.id === session.id ? updated : s)));
+      onSessionUpdated(updated);
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+    }
+  };
+
+  const toggleArchived = async (session: ChatSession) => {
+    try {
+      await updateChatSession(session.id, { archived: !session.archived });
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      onSessionUpdated({ ...session, archived: !session.archived });
+    } catch (error) {
+      console.error('Error archiving conversation:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 sm:p-4">
+      <div className="bg-white rounded-t-2xl sm:rounded-2xl max-w-md w-full h-[85vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">Conversations</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 space-y-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search all messages..."
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-full focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+            />
+          </div>
+
+          {!query.trim() && (
+            <div className="flex space-x-2">
+              {(['active', 'archived'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    view === option ? 'bg-qivr-blue text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {option === 'active' ? 'Active' : 'Archived'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {query.trim() ? (
+            searching ? (
+              <p className="text-sm text-gray-500 text-center py-8">Searching...</p>
+            ) : results.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No messages match "{query.trim()}"</p>
+            ) : (
+              results.map(result => (
+                <button
+                  key={result.id}
+                  onClick={() => onSelect(result.session_id)}
+                  className="w-full text-left p-3 rounded-lg border border-gray-200 hover:border-qivr-blue transition-colors"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-qivr-blue truncate">
+                      {result.session_title || 'New conversation'}
+                      {result.session_archived && ' · Archived'}
+                    </span>
+                    <span className="text-xs text-gray-500 ml-2 flex-shrink-0">
+                      {new Date(result.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    <span className="font-medium">{result.sender === 'patient' ? 'You: ' : 'OrthoAI: '}</span>
+                    <HighlightedSnippet text={result.message} query={query} />
+                  </p>
+                </button>
+              ))
+            )
+          ) : loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {view === 'active' ? 'No conversations yet' : 'No archived conversations'}
+            </p>
+          ) : (
+            sessions.map(session => (
+              <div
+                key={session.id}
+                className={`flex items-center p-3 rounded-lg border transition-colors ${
+                  session.id === activeSessionId ? 'border-qivr-blue bg-qivr-blue-light/30' : 'border-gray-200'
+                }`}
+              >
+                {editingId === session.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      saveTitle(session);
+                    }}
+                    className="flex-1 flex items-center space-x-2"
+                  >
+                    <input
+                      type="text"
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      autoFocus
+                      maxLength={80}
+                      className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                    />
+                    <button type="submit" className="text-qivr-blue p-1" aria-label="Save title">
+                      <Check className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button onClick={() => onSelect(session.id)} className="flex-1 text-left min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {session.title || 'New conversation'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(session.last_activity).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(session.id);
+                        setEditingTitle(session.title ?? '');
+                      }}
+                      className="text-gray-400 hover:text-gray-700 p-2"
+                      aria-label="Rename conversation"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => toggleArchived(session)}
+                      className="text-gray-400 hover:text-gray-700 p-2"
+                      aria-label={session.archived ? 'Restore conversation' : 'Archive conversation'}
+                    >
+                      {session.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200">
+          <button
+            onClick={onNewConversation}
+            className="w-full flex items-center justify-center space-x-2 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors"
+          >
+            <MessageSquarePlus className="w-5 h-5" />
+            <span>New conversation</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,32 @@ import { useState } from 'react';
 import { ArrowLeft, Check } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { listSubmissions, queueSubmission } from '../lib/offlineQueue';
+import { localDateString } from '../lib/dates';
+import { SubmissionSyncStatus } from '../components/SubmissionSyncStatus';
+import { evaluateTriage, recordTriageEvent, acknowledgeTriageEvent, TriageHit } from '../lib/triage';
+import { RedFlagAlert } from '../components/RedFlagAlert';
+
+// Prefers check-ins still waiting on this device, since they are newer than anything the server has.
+async function loadPreviousPainLevel(patientId: string, checkInDate: string): Promise<number | null> {
+  const queued = (await listSubmissions(patientId))
+    .filter(submission => submission.kind === 'check_in' && submission.date < checkInDate && submission.status !== 'synced')
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+
+  const { data: previousCheckIn } = await supabase
+    .from('proms_data')
+    .select('pain_level, check_in_date')
+    .eq('patient_id', patientId)
+    .lt('check_in_date', checkInDate)
+    .order('check_in_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (queued && (!previousCheckIn || queued.date > previousCheckIn.check_in_date)) {
+    return (queued.payload.pain_level as number | undefined) ?? null;
+  }
+  return previousCheckIn?.pain_level ?? null;
+}
 
 interface CheckInProps {
   onComplete: () => void;
@@ -11,6 +37,7 @@ export function CheckIn({ onComplete }: CheckInProps) {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState(1);
+  const [redFlag, setRedFlag] = useState<{ hits: TriageHit[]; eventId: string | null } | null>(null);
   const [formData, setFormData] = useState({
     painLevel: 5,
     painLocation: { knee: false, hip: false, back: false },
@@ -50,9 +77,9 @@ export function CheckIn({ onComplete }: CheckInProps) {
 
     try {
       setLoading(true);
-      await supabase.from('proms_data').insert({
-        patient_id: user.id,
-        check_in_date: new Date().toISOString().split('T')[0],
+      const checkInDate = localDateString();
+
+      await queueSubmission('check_in', user.id, checkInDate, {
         pain_level: formData.painLevel,
         pain_location: formData.painLocation,
         pain_character: formData.painCharacter,
@@ -64,9 +91,24 @@ export function CheckIn({ onComplete }: CheckInProps) {
         notes: formData.notes,
       });
 
+      // The check-in is saved first so a red flag never costs the patient their entry.
+      const triageHits = evaluateTriage('check_in', {
+        text: formData.notes,
+        painLevel: formData.painLevel,
+        previousPainLevel: await loadPreviousPainLevel(user.id, checkInDate),
+        painCharacter: formData.painCharacter,
+      });
+
+      if (triageHits.length > 0) {
+        const eventId = await recordTriageEvent(user.id, 'check_in', triageHits, formData.notes);
+        setRedFlag({ hits: triageHits, eventId });
+        return;
+      }
+
       onComplete();
     } catch (error) {
       console.error('Error saving check-in:', error);
+      alert('Failed to save your check-in on this device. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -91,6 +133,8 @@ export function CheckIn({ onComplete }: CheckInProps) {
       </div>
 
       <div className="p-6 space-y-6">
+        <SubmissionSyncStatus />
+
         <div className="bg-white rounded-2xl p-6 border border-gray-200">
           <h2 className="text-lg font-semibold text-[#1F2937] mb-4">Pain Assessment</h2>
 
@@ -268,6 +312,17 @@ export function CheckIn({ onComplete }: CheckInProps) {
           {loading ? 'Saving...' : 'Save Today\'s Check-In'}
         </button>
       </div>
+
+      {redFlag && (
+        <RedFlagAlert
+          hits={redFlag.hits}
+          onAcknowledge={() => {
+            if (redFlag.eventId) acknowledgeTriageEvent(redFlag.eventId);
+            setRedFlag(null);
+            onComplete();
+          }}
+        />
+      )}
     </div>
   );
 }
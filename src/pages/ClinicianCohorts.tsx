@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { Download, BarChart3 } from 'lucide-react';
+import { ClinicianHeader } from '../components/ClinicianHeader';
+import {
+  CohortDimension,
+  CohortEQ5DOutcome,
+  CohortOutcome,
+  CohortWeek,
+  cohortDimensionOptions,
+  cohortEQ5DCsv,
+  cohortOutcomesCsv,
+  cohortWeeksCsv,
+  downloadCsv,
+  formatCohortLabel,
+  formatRate,
+  loadCohortEQ5DOutcomes,
+  loadCohortOutcomes,
+  loadCohortScoresByWeek,
+} from '../lib/cohorts';
+import { DisabilityIndex, disabilityIndexes } from '../lib/disabilityIndex';
+import { EQ5DValueSet, defaultValueSet, loadValueSets, valueSetNotice } from '../lib/eq5d';
+import { localDateString } from '../lib/dates';
+
+const CHART_COLORS = ['#1E9BFF', '#F97316', '#10B981', '#8B5CF6', '#EF4444', '#6B7280'];
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 32 };
+
+export function ClinicianCohorts() {
+  const [dimension, setDimension] = useState<CohortDimension>('all');
+  const [instrument, setInstrument] = useState<DisabilityIndex>('odi');
+  const [outcomes, setOutcomes] = useState<CohortOutcome[]>([]);
+  const [weeks, setWeeks] = useState<CohortWeek[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [valueSets, setValueSets] = useState<EQ5DValueSet[]>([]);
+  const [valueSetId, setValueSetId] = useState<string | null>(null);
+  const [eq5dOutcomes, setEQ5DOutcomes] = useState<CohortEQ5DOutcome[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+
+    Promise.all([loadCohortOutcomes(dimension, instrument), loadCohortScoresByWeek(dimension, instrument)])
+      .then(([cohortOutcomes, cohortWeeks]) => {
+        if (!active) return;
+        setOutcomes(cohortOutcomes);
+        setWeeks(cohortWeeks);
+      })
+      .catch(error => console.error('Error loading cohort outcomes:', error))
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [dimension, instrument]);
+
+  useEffect(() => {
+    loadValueSets()
+      .then(loaded => {
+        setValueSets(loaded);
+        setValueSetId(current => current ?? defaultValueSet(loaded)?.id ?? null);
+      })
+      .catch(error => console.error('Error loading EQ-5D value sets:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!valueSetId) return;
+    let active = true;
+
+    loadCohortEQ5DOutcomes(dimension, valueSetId)
+      .then(outcomes => {
+        if (active) setEQ5DOutcomes(outcomes);
+      })
+      .catch(error => console.error('Error loading cohort EQ-5D outcomes:', error));
+
+    return () => {
+      active = false;
+    };
+  }, [dimension, valueSetId]);
+
+  const exportOutcomes = () => {
+    downloadCsv(
+      `cohort-outcomes-${instrument}-${dimension}-${localDateString()}.csv`,
+      cohortOutcomesCsv(dimension, instrument, outcomes)
+    );
+  };
+
+  const exportWeeks = () => {
+    downloadCsv(
+      `cohort-${instrument}-by-week-${dimension}-${localDateString()}.csv`,
+      cohortWeeksCsv(dimension, instrument, weeks)
+    );
+  };
+
+  const { shortName, mcidThreshold } = disabilityIndexes[instrument];
+
+  const exportEQ5D = () => {
+    if (!valueSetId) return;
+    downloadCsv(
+      `cohort-eq5d-${valueSetId.toLowerCase()}-${dimension}-${localDateString()}.csv`,
+      cohortEQ5DCsv(dimension, valueSetId, eq5dOutcomes)
+    );
+  };
+
+  const eq5dNotice = valueSetNotice(valueSets.find(option => option.id === valueSetId) ?? null, valueSets);
+
+  // The largest cohorts get a line each; the table and CSV still cover every cohort.
+  const chartCohorts = outcomes.slice(0, CHART_COLORS.length).map(outcome => outcome.cohort);
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB]">
+      <ClinicianHeader active="cohorts" />
+
+      <div className="p-6 space-y-6 max-w-3xl mx-auto">
+        <div className="flex space-x-2 overflow-x-auto pb-1">
+          {cohortDimensionOptions.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setDimension(option.value)}
+              className={`px-4 py-2 rounded-lg font-medium whitespace-nowrap transition-colors ${
+                dimension === option.value
+                  ? 'bg-qivr-blue text-white'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex space-x-2" role="group" aria-label="Instrument">
+          {(Object.keys(disabilityIndexes) as DisabilityIndex[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setInstrument(option)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                instrument === option ? 'bg-[#1F2937] text-white' : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+            >
+              {disabilityIndexes[option].shortName}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : outcomes.length === 0 ? (
+          <div className="text-center py-12">
+            <BarChart3 className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">No Outcomes Yet</h3>
+            <p className="text-gray-500">Cohorts appear once patients sharing with you have completed an {shortName} assessment.</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+                <h3 className="font-semibold text-[#1F2937]">Outcomes</h3>
+                <button
+                  onClick={exportOutcomes}
+                  className="flex items-center space-x-1 text-sm font-medium text-qivr-blue hover:text-qivr-blue-dark"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>CSV</span>
+                </button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 bg-gray-50">
+                      <th className="px-5 py-2 font-medium">Cohort</th>
+                      <th className="px-3 py-2 font-medium text-right">Patients</th>
+                      <th className="px-3 py-2 font-medium text-right">Reached MCID</th>
+                      <th className="px-3 py-2 font-medium text-right">Median days</th>
+                      <th className="px-3 py-2 font-medium text-right">Plateau rate</th>
+                      <th className="px-5 py-2 font-medium text-right">Mean {shortName}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {outcomes.map(outcome => (
+                      <tr key={outcome.cohort} className="text-gray-900">
+                        <td className="px-5 py-3 font-medium capitalize">{formatCohortLabel(dimension, outcome.cohort)}</td>
+                        <td className="px-3 py-3 text-right">{outcome.patient_count}</td>
+                        <td className="px-3 py-3 text-right" title={`${outcome.mcid_count} of ${outcome.followed_up_count} with a follow-up ${shortName}`}>
+                          {formatRate(outcome.mcid_rate)}
+                        </td>
+                        <td className="px-3 py-3 text-right">
+                          {outcome.median_days_to_mcid !== null ? Math.round(outcome.median_days_to_mcid) : '—'}
+                        </td>
+                        <td className="px-3 py-3 text-right" title={`${outcome.plateau_count} of ${outcome.plateau_eligible_count} with 4+ ${shortName}s`}>
+                          {formatRate(outcome.plateau_rate)}
+                        </td>
+                        <td className="px-5 py-3 text-right whitespace-nowrap">
+                          {outcome.mean_baseline_score ?? '—'}% → {outcome.mean_latest_score ?? '—'}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="px-5 py-3 text-xs text-gray-500 border-t border-gray-200">
+                MCID is a {mcidThreshold} point {shortName} improvement on baseline, as a share of patients with a
+                follow-up {shortName}. Plateau rate is out of patients with at least four {shortName}s.
+              </p>
+            </div>
+
+            <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+                <h3 className="font-semibold text-[#1F2937]">Mean {shortName} by Week Since Baseline</h3>
+                <button
+                  onClick={exportWeeks}
+                  className="flex items-center space-x-1 text-sm font-medium text-qivr-blue hover:text-qivr-blue-dark"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>CSV</span>
+                </button>
+              </div>
+              <div className="p-5">
+                <WeeklyScoreChart cohorts={chartCohorts} weeks={weeks} label={shortName} />
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3">
+                  {chartCohorts.map((cohort, index) => (
+                    <span key={cohort} className="flex items-center text-xs text-gray-700 capitalize">
+                      <span className="w-3 h-3 rounded-full mr-1.5" style={{ backgroundColor: CHART_COLORS[index] }} />
+                      {formatCohortLabel(dimension, cohort)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        {!loading && valueSets.length > 0 && (!valueSetId || eq5dOutcomes.length > 0) && (
+          <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+            <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+              <h3 className="font-semibold text-[#1F2937]">Quality of Life (EQ-5D-5L)</h3>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={valueSetId ?? ''}
+                  onChange={(e) => setValueSetId(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                  aria-label="Value set"
+                >
+                  {!valueSetId && <option value="" disabled>Choose a value set</option>}
+                  {valueSets.map(option => (
+                    <option key={option.id} value={option.id}>{option.country}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={exportEQ5D}
+                  disabled={!valueSetId}
+                  className="flex items-center space-x-1 text-sm font-medium text-qivr-blue hover:text-qivr-blue-dark disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>CSV</span>
+                </button>
+              </div>
+            </div>
+            {eq5dNotice && <p className="px-5 py-3 text-sm text-orange-700 bg-orange-50 border-b border-gray-200">{eq5dNotice}</p>}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 bg-gray-50">
+                    <th className="px-5 py-2 font-medium">Cohort</th>
+                    <th className="px-3 py-2 font-medium text-right">Patients</th>
+                    <th className="px-3 py-2 font-medium text-right">Mean index</th>
+                    <th className="px-5 py-2 font-medium text-right">Mean VAS</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {eq5dOutcomes.map(outcome => (
+                    <tr key={outcome.cohort} className="text-gray-900">
+                      <td className="px-5 py-3 font-medium capitalize">{formatCohortLabel(dimension, outcome.cohort)}</td>
+                      <td className="px-3 py-3 text-right" title={`${outcome.followed_up_count} with a follow-up EQ-5D-5L`}>
+                        {outcome.patient_count}
+                      </td>
+                      <td className="px-3 py-3 text-right whitespace-nowrap">
+                        {outcome.mean_baseline_index ?? '—'} → {outcome.mean_latest_index ?? '—'}
+                      </td>
+                      <td className="px-5 py-3 text-right whitespace-nowrap">
+                        {outcome.mean_baseline_vas ?? '—'} → {outcome.mean_latest_vas ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="px-5 py-3 text-xs text-gray-500 border-t border-gray-200">
+              Baseline to latest, for patients with at least one EQ-5D-5L. The index is 1 for full health and below 0 for
+              states valued as worse than dead.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function WeeklyScoreChart({ cohorts, weeks, label }: { cohorts: string[]; weeks: CohortWeek[]; label: string }) {
+  const maxWeek = Math.max(1, ...weeks.map(w => w.week));
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (week: number) => CHART_PADDING.left + (week / maxWeek) * plotWidth;
+  const y = (score: number) => CHART_PADDING.top + (1 - score / 100) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Mean ${label} by week since baseline`}>
+      {[0, 20, 40, 60, 80, 100].map(tick => (
+        <g key={tick}>
+          <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#E5E7EB" />
+          <text x={CHART_PADDING.left - 6} y={y(tick) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">{tick}</text>
+        </g>
+      ))}
+      {[0, Math.round(maxWeek / 2), maxWeek].map(tick => (
+        <text key={tick} x={x(tick)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+          wk {tick}
+        </text>
+      ))}
+      {cohorts.map((cohort, index) => {
+        const points = weeks.filter(w => w.cohort === cohort);
+        return (
+          <g key={cohort}>
+            <polyline
+              points={points.map(p => `${x(p.week)},${y(p.mean_score)}`).join(' ')}
+              fill="none"
+              stroke={CHART_COLORS[index]}
+              strokeWidth={2}
+            />
+            {points.map(p => (
+              <circle key={p.week} cx={x(p.week)} cy={y(p.mean_score)} r={3} fill={CHART_COLORS[index]}>
+                <title>{`Week ${p.week}: ${p.mean_score}% (${p.patient_count} patient${p.patient_count === 1 ? '' : 's'})`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, AlertTriangle, Lock } from 'lucide-react';
+import { ClinicianPatientRecord, loadPatientRecord } from '../lib/clinician';
+import { TrajectoryBadge } from './ClinicianPatients';
+import { disabilityIndexes } from '../lib/disabilityIndex';
+import { PromHistoryCard } from '../components/PromHistoryCard';
+
+interface ClinicianPatientProps {
+  patientId: string;
+  onBack: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function ClinicianPatient({ patientId, onBack }: ClinicianPatientProps) {
+  const [record, setRecord] = useState<ClinicianPatientRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    loadPatientRecord(patientId)
+      .then(setRecord)
+      .catch(error => console.error('Error loading patient record:', error))
+      .finally(() => setLoading(false));
+  }, [patientId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading patient...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const baseline = record?.assessments.find(a => a.is_baseline) ?? record?.assessments[0];
+  const latest = record?.assessments[record.assessments.length - 1];
+  const shortName = record ? disabilityIndexes[record.instrument].shortName : 'ODI';
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB]">
+      <div className="bg-white px-6 py-4 border-b border-gray-200 sticky top-0 z-10">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center text-qivr-blue hover:text-qivr-blue-light transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back
+          </button>
+          <h1 className="text-xl font-semibold text-[#1F2937] truncate ml-4">
+            {record?.profile.full_name ?? 'Patient'}
+          </h1>
+          <div className="w-16" />
+        </div>
+      </div>
+
+      {!record ? (
+        <div className="p-6 text-center py-12">
+          <Lock className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-600 mb-2">Not Shared With You</h3>
+          <p className="text-gray-500">This patient isn't sharing their progress with you, or has stopped sharing it.</p>
+        </div>
+      ) : (
+        <div className="p-6 space-y-6 max-w-3xl mx-auto">
+          <div className="bg-white rounded-2xl p-6 border border-gray-200">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="text-gray-600">Condition</span>
+                <p className="font-medium text-gray-900">{record.profile.condition || 'Not specified'}</p>
+              </div>
+              <div>
+                <span className="text-gray-600">Treatment</span>
+                <p className="font-medium text-gray-900">
+                  {record.profile.treatment_type?.replace('_', ' ') || 'Not specified'}
+                </p>
+              </div>
+              {record.profile.surgery_date && (
+                <div>
+                  <span className="text-gray-600">Surgery date</span>
+                  <p className="font-medium text-gray-900">{formatDate(record.profile.surgery_date)}</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {record.plateauDetected && (
+            <div className="bg-orange-50 border border-orange-200 rounded-2xl p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-orange-800">
+                <strong>Plateau detected.</strong> The last four {shortName} scores are each within 5 points of the one before.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-white rounded-2xl p-4 border border-gray-200">
+              <p className="text-xs text-gray-600 mb-1">Latest {shortName}</p>
+              <p className="text-2xl font-bold text-qivr-blue">{latest ? `${latest.percentage_score}%` : '—'}</p>
+              <p className="text-xs text-gray-600">{baseline && latest && baseline !== latest ? `baseline ${baseline.percentage_score}%` : 'no baseline change'}</p>
+            </div>
+            <div className="bg-white rounded-2xl p-4 border border-gray-200">
+              <p className="text-xs text-gray-600 mb-1">Trajectory</p>
+              <div className="h-8 flex items-center">
+                <TrajectoryBadge slope={record.trajectorySlope} />
+              </div>
+              <p className="text-xs text-gray-600">last 4 {shortName}s</p>
+            </div>
+            <div className="bg-white rounded-2xl p-4 border border-gray-200">
+              <p className="text-xs text-gray-600 mb-1">Time to MCID</p>
+              <p className="text-2xl font-bold text-qivr-blue">{record.timeToMCID ?? '—'}</p>
+              <p className="text-xs text-gray-600">{record.timeToMCID !== null ? 'days' : 'not yet reached'}</p>
+            </div>
+          </div>
+
+          {record.prom && <PromHistoryCard instrument={record.prom.instrument} responses={record.prom.responses} />}
+
+          <div className="bg-white rounded-2xl p-6 border border-gray-200">
+            <h3 className="font-semibold text-[#1F2937] mb-4">{shortName} History</h3>
+            {record.assessments.length === 0 ? (
+              <p className="text-sm text-gray-500">No {shortName} assessments recorded yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {[...record.assessments].reverse().map(assessment => (
+                  <div key={assessment.id} className="flex items-center space-x-3">
+                    <span className="text-sm text-gray-600 w-28 flex-shrink-0">{formatDate(assessment.assessment_date)}</span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full bg-qivr-blue"
+                        style={{ width: `${assessment.percentage_score}%` }}
+                      />
+                    </div>
+                    <span className="text-sm font-semibold text-gray-900 w-12 text-right">{assessment.percentage_score}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-2xl p-6 border border-gray-200">
+            <h3 className="font-semibold text-[#1F2937] mb-4">Recent Check-ins</h3>
+            {record.checkIns.length === 0 ? (
+              <p className="text-sm text-gray-500">No check-ins recorded yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600">
+                      <th className="pb-2 font-medium">Date</th>
+                      <th className="pb-2 font-medium">Pain</th>
+                      <th className="pb-2 font-medium">Mobility</th>
+                      <th className="pb-2 font-medium">Mood</th>
+                      <th className="pb-2 font-medium">Sleep</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {record.checkIns.map(checkIn => (
+                      <tr key={checkIn.id} className="text-gray-900">
+                        <td className="py-2">{formatDate(checkIn.check_in_date)}</td>
+                        <td className="py-2">{checkIn.pain_level ?? '—'}/10</td>
+                        <td className="py-2">{checkIn.mobility_score ?? '—'}</td>
+                        <td className="py-2">{checkIn.mood_rating ?? '—'}/5</td>
+                        <td className="py-2">{checkIn.sleep_quality ?? '—'}/5</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 text-center">
+            Read-only view shared by the patient. Contact the patient to discuss changes to their plan.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Search, TrendingDown, TrendingUp, AlertTriangle, ChevronRight, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { paths } from '../lib/routes';
+import { ClinicianPatientSummary, loadConsentingPatients } from '../lib/clinician';
+import { ClinicianHeader } from '../components/ClinicianHeader';
+import { disabilityIndexes } from '../lib/disabilityIndex';
+
+type PatientSort = 'name' | 'attention' | 'score';
+
+export function ClinicianPatients() {
+  const { clinician } = useAuth();
+  const { navigate } = useRouter();
+  const [patients, setPatients] = useState<ClinicianPatientSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<PatientSort>('attention');
+
+  useEffect(() => {
+    if (!clinician) return;
+
+    loadConsentingPatients(clinician.provider_id)
+      .then(setPatients)
+      .catch(error => console.error('Error loading patients:', error))
+      .finally(() => setLoading(false));
+  }, [clinician]);
+
+  const visiblePatients = patients
+    .filter(patient => patient.fullName.toLowerCase().includes(query.trim().toLowerCase()))
+    .sort((a, b) => {
+      if (sort === 'score') {
+        return (b.latestAssessment?.percentage_score ?? -1) - (a.latestAssessment?.percentage_score ?? -1);
+      }
+      if (sort === 'attention') return attentionRank(b) - attentionRank(a) || a.fullName.localeCompare(b.fullName);
+      return a.fullName.localeCompare(b.fullName);
+    });
+
+  const plateauCount = patients.filter(patient => patient.plateauDetected).length;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading patients...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB]">
+      <ClinicianHeader active="patients" />
+
+      <div className="p-6 space-y-4 max-w-3xl mx-auto">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-white rounded-2xl p-4 border border-gray-200">
+            <p className="text-xs text-gray-600 mb-1">Sharing with you</p>
+            <p className="text-2xl font-bold text-qivr-blue">{patients.length}</p>
+            <p className="text-xs text-gray-600">patients</p>
+          </div>
+          <div className="bg-white rounded-2xl p-4 border border-gray-200">
+            <p className="text-xs text-gray-600 mb-1">Plateaued</p>
+            <p className={`text-2xl font-bold ${plateauCount > 0 ? 'text-orange-600' : 'text-qivr-blue'}`}>{plateauCount}</p>
+            <p className="text-xs text-gray-600">last 4 ODI/NDI scores within 5 points</p>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search patients..."
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as PatientSort)}
+            className="px-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+            aria-label="Sort patients"
+          >
+            <option value="attention">Needs attention</option>
+            <option value="score">Highest ODI/NDI</option>
+            <option value="name">Name</option>
+          </select>
+        </div>
+
+        {patients.length === 0 ? (
+          <div className="text-center py-12">
+            <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">No Patients Yet</h3>
+            <p className="text-gray-500">
+              Patients appear here once they choose to share their progress with you from the Qivr app.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-gray-200 divide-y divide-gray-100">
+            {visiblePatients.map(patient => (
+              <button
+                key={patient.patientId}
+                onClick={() => navigate(paths.clinicianPatient(patient.patientId))}
+                className="w-full text-left p-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-semibold text-gray-900 truncate">{patient.fullName}</h3>
+                    {patient.plateauDetected && (
+                      <span className="flex items-center text-xs bg-orange-100 text-orange-800 px-2 py-0.5 rounded whitespace-nowrap">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Plateau
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 truncate">
+                    {patient.condition || 'Condition not specified'}
+                    {patient.treatmentType && ` • ${patient.treatmentType.replace('_', ' ')}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-4 flex-shrink-0 ml-3">
+                  <div className="text-right">
+                    <p className="text-lg font-bold text-[#1F2937]">
+                      {patient.latestAssessment ? `${patient.latestAssessment.percentage_score}%` : '—'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {patient.latestAssessment
+                        ? `${disabilityIndexes[patient.instrument].shortName}, ${new Date(patient.latestAssessment.assessment_date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}`
+                        : `No ${disabilityIndexes[patient.instrument].shortName} yet`}
+                    </p>
+                  </div>
+                  <TrajectoryBadge slope={patient.trajectorySlope} />
+                  <ChevronRight className="w-5 h-5 text-gray-400" />
+                </div>
+              </button>
+            ))}
+            {visiblePatients.length === 0 && (
+              <p className="p-4 text-sm text-gray-500 text-center">No patients match "{query.trim()}"</p>
+            )}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 text-center">
+          Read-only. Patients can stop sharing at any time, and their data disappears from this list straight away.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Plateaued patients first, then anyone whose ODI or NDI is rising (getting worse).
+const attentionRank = (patient: ClinicianPatientSummary) =>
+  (patient.plateauDetected ? 2 : 0) + (patient.trajectorySlope !== null && patient.trajectorySlope > 0 ? 1 : 0);
+
+export function TrajectoryBadge({ slope }: { slope: number | null }) {
+  if (slope === null || !Number.isFinite(slope)) {
+    return <span className="w-16 text-xs text-gray-400 text-center">No trend</span>;
+  }
+
+  // Lower ODI and NDI are better, so a falling score is improvement.
+  const improving = slope < 0;
+  const Icon = improving ? TrendingDown : TrendingUp;
+  return (
+    <span
+      className={`w-16 flex items-center justify-center space-x-1 text-xs font-medium ${improving ? 'text-green-600' : 'text-orange-600'}`}
+      title="Score change per week over the last 4 assessments"
+    >
+      <Icon className="w-4 h-4" />
+      <span>{Math.abs(slope).toFixed(1)}/wk</span>
+    </span>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { ArrowLeft, Calendar } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { conditions } from '../lib/conditions';
 
 interface ConditionAssessmentProps {
   onBack: () => void;
@@ -8,25 +9,16 @@ interface ConditionAssessmentProps {
 }
 
 export function ConditionAssessment({ onBack, onComplete }: ConditionAssessmentProps) {
-  const { updateProfile } = useAuth();
+  const { profile, updateProfile } = useAuth();
   const [loading, setLoading] = useState(false);
+  // Patients asked again because their condition is no longer offered keep the rest of their answers.
+  const isReprompt = !!profile?.condition;
   const [formData, setFormData] = useState({
     condition: '',
-    treatmentType: '',
-    surgeryDate: '',
+    treatmentType: profile?.treatment_type ?? '',
+    surgeryDate: profile?.surgery_date ?? '',
   });
 
-  const conditions = [
-    'Knee',
-    'Hip',
-    'Shoulder',
-    'Spine',
-    'Ankle',
-    'Elbow',
-    'Wrist',
-    'Other',
-  ];
-
   const treatmentTypes = [
     { value: 'surgery_planned', label: 'Surgery Planned' },
     { value: 'post_surgery', label: 'Post-Surgery' },
@@ -68,11 +60,19 @@ export function ConditionAssessment({ onBack, onComplete }: ConditionAssessmentP
         </button>
 
         <div className="mb-6">
-          <div className="flex items-center space-x-2 text-sm text-gray-500 mb-2">
-            <div className="w-8 h-8 rounded-full bg-qivr-blue text-white flex items-center justify-center">2</div>
-            <span>of 4</span>
-          </div>
+          {!isReprompt && (
+            <div className="flex items-center space-x-2 text-sm text-gray-500 mb-2">
+              <div className="w-8 h-8 rounded-full bg-qivr-blue text-white flex items-center justify-center">2</div>
+              <span>of 4</span>
+            </div>
+          )}
           <h1 className="text-3xl font-bold text-[#1F2937]">Tell Us About Your Condition</h1>
+          {isReprompt && (
+            <p className="text-gray-600 mt-2">
+              We now track neck and lower back separately so we can give you the right questionnaires and exercises.
+              Please choose the area you're being treated for.
+            </p>
+          )}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
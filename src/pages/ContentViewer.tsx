@@ -1,7 +1,14 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Bookmark, Share2, ThumbsUp, ThumbsDown, Check, Star } from 'lucide-react';
+import { ArrowLeft, Bookmark, Share2, ThumbsUp, ThumbsDown, Check, Star, DownloadCloud, CheckCircle2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase, EducationalContent } from '../lib/supabase';
+import { paths, absoluteUrl } from '../lib/routes';
+import {
+  getOfflineContent,
+  isOfflineContentSupported,
+  removeOfflineContent,
+  saveContentForOffline,
+} from '../lib/offlineContent';
 import { VideoPlayer } from '../components/VideoPlayer';
 import { ArticleReader } from '../components/ArticleReader';
 import { ExerciseGuide } from '../components/ExerciseGuide';
@@ -21,6 +28,8 @@ export function ContentViewer({ contentId, onBack }: ContentViewerProps) {
   const [showRatingPrompt, setShowRatingPrompt] = useState(false);
   const [feedback, setFeedback] = useState<'helpful' | 'not-helpful' | null>(null);
   const [loading, setLoading] = useState(true);
+  const [savedOffline, setSavedOffline] = useState(false);
+  const [offlineProgress, setOfflineProgress] = useState<number | null>(null);
 
   useEffect(() => {
     loadContent();
@@ -29,13 +38,20 @@ export function ContentViewer({ contentId, onBack }: ContentViewerProps) {
 
   const loadContent = async () => {
     try {
+      const saved = await getOfflineContent(contentId);
+      setSavedOffline(!!saved);
+
       const { data, error } = await supabase
         .from('educational_content')
         .select('*')
         .eq('id', contentId)
         .single();
 
-      if (error) throw error;
+      if (error) {
+        if (!saved) throw error;
+        setContent(saved.content);
+        return;
+      }
       setContent(data);
     } catch (error) {
       console.error('Error loading content:', error);
@@ -44,6 +60,26 @@ export function ContentViewer({ contentId, onBack }: ContentViewerProps) {
     }
   };
 
+  const toggleOffline = async () => {
+    if (!content || offlineProgress !== null) return;
+
+    try {
+      if (savedOffline) {
+        await removeOfflineContent(content.id);
+        setSavedOffline(false);
+      } else {
+        setOfflineProgress(0);
+        await saveContentForOffline(content, setOfflineProgress);
+        setSavedOffline(true);
+      }
+    } catch (error) {
+      console.error('Error updating offline copy:', error);
+      alert(savedOffline ? 'Could not remove the offline copy' : 'This content could not be downloaded for offline use');
+    } finally {
+      setOfflineProgress(null);
+    }
+  };
+
   const loadProgress = async () => {
     if (!user) return;
 
@@ -126,7 +162,7 @@ export function ContentViewer({ contentId, onBack }: ContentViewerProps) {
       navigator.share({
         title: content.title,
         text: content.description,
-        url: window.location.href,
+        url: absoluteUrl(paths.learnContent(content.id)),
       });
     }
   };
@@ -167,6 +203,26 @@ export function ContentViewer({ contentId, onBack }: ContentViewerProps) {
             Back
           </button>
           <div className="flex items-center space-x-2">
+            {isOfflineContentSupported() && (
+              <button
+                onClick={toggleOffline}
+                disabled={offlineProgress !== null}
+                title={savedOffline ? 'Available offline. Tap to remove.' : 'Save for offline'}
+                className={`p-2 rounded-full transition-colors flex items-center ${
+                  savedOffline ? 'text-green-600 bg-green-50' : 'text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                {offlineProgress !== null ? (
+                  <span className="text-xs font-semibold text-qivr-blue w-5 text-center">
+                    {Math.round(offlineProgress * 100)}%
+                  </span>
+                ) : savedOffline ? (
+                  <CheckCircle2 className="w-5 h-5" />
+                ) : (
+                  <DownloadCloud className="w-5 h-5" />
+                )}
+              </button>
+            )}
             <button
               onClick={handleToggleBookmark}
               className={`p-2 rounded-full transition-colors ${
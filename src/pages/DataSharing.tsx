@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, ShieldCheck, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { paths } from '../lib/routes';
+import { Provider } from '../lib/providers';
+import { CareTeamMember, getCareTeamRoleLabel, loadCareTeam } from '../lib/careTeam';
+import { AccessGrant, grantAccess, loadAccessGrants, revokeAccess } from '../lib/clinician';
+
+interface DataSharingProps {
+  onBack: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function DataSharing({ onBack }: DataSharingProps) {
+  const { user } = useAuth();
+  const { navigate } = useRouter();
+  const [careTeam, setCareTeam] = useState<CareTeamMember[]>([]);
+  const [grants, setGrants] = useState<AccessGrant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingProviderId, setSavingProviderId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    Promise.all([loadCareTeam(user.id), loadAccessGrants(user.id)])
+      .then(([team, existing]) => {
+        setCareTeam(team);
+        setGrants(existing);
+      })
+      .catch(error => console.error('Error loading data sharing:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const activeGrants = grants.filter(grant => !grant.revoked_at);
+  const pastGrants = grants.filter(grant => grant.revoked_at);
+  const activeGrantFor = (providerId: string) => activeGrants.find(grant => grant.provider_id === providerId);
+
+  // Providers shared with before they were on (or after they left) the care team still need a way to be revoked.
+  const otherActiveGrants = activeGrants.filter(grant => !careTeam.some(member => member.provider_id === grant.provider_id));
+
+  const toggleSharing = async (provider: Provider) => {
+    if (!user) return;
+
+    const existing = activeGrantFor(provider.id);
+    if (existing && !confirm(`Stop sharing your progress with ${provider.provider_name}? They will lose access straight away.`)) return;
+
+    try {
+      setSavingProviderId(provider.id);
+      if (existing) {
+        await revokeAccess(existing.id);
+        setGrants(grants.map(grant => (grant.id === existing.id ? { ...grant, revoked_at: new Date().toISOString() } : grant)));
+      } else {
+        const created = await grantAccess(user.id, provider.id);
+        setGrants([created, ...grants]);
+      }
+    } catch (error) {
+      console.error('Error updating data sharing:', error);
+      alert('Failed to update data sharing');
+    } finally {
+      setSavingProviderId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center pb-24">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading data sharing...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB] pb-24">
+      <div className="bg-white px-6 py-4 border-b border-gray-200 sticky top-0 z-10">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center text-qivr-blue hover:text-qivr-blue-light transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back
+          </button>
+          <h1 className="text-xl font-semibold text-[#1F2937]">Data Sharing</h1>
+          <div className="w-16" />
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start space-x-3">
+          <ShieldCheck className="w-5 h-5 text-blue-700 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-blue-800">
+            Clinicians you share with can see your profile, ODI assessments, check-ins, pain scores and progress
+            analytics in the Qivr clinician portal. They can't change anything, and you can stop sharing at any time.
+          </p>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-[#1F2937] mb-3">My Care Team</h2>
+          {careTeam.length === 0 ? (
+            <div className="bg-white rounded-2xl p-6 border border-gray-200 text-center">
+              <Users className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-sm text-gray-600 mb-3">Add the clinicians you see to your care team to share your progress with them.</p>
+              <button
+                onClick={() => navigate(paths.providers)}
+                className="text-sm font-medium text-qivr-blue hover:text-qivr-blue-dark"
+              >
+                Find providers
+              </button>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl border border-gray-200 divide-y divide-gray-100">
+              {careTeam.map(member => {
+                const grant = activeGrantFor(member.provider_id);
+                return (
+                  <label key={member.id} className="flex items-center justify-between p-4 cursor-pointer">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{member.provider.provider_name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {getCareTeamRoleLabel(member.role)}
+                        {' • '}
+                        {grant ? `Sharing since ${formatDate(grant.granted_at)}` : 'Not shared'}
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={!!grant}
+                      disabled={savingProviderId === member.provider_id}
+                      onChange={() => toggleSharing(member.provider)}
+                      className="w-5 h-5 rounded text-qivr-blue focus:ring-qivr-blue flex-shrink-0 ml-3"
+                    />
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {otherActiveGrants.length > 0 && (
+          <div>
+            <h2 className="text-lg font-semibold text-[#1F2937] mb-3">Also Sharing With</h2>
+            <div className="bg-white rounded-2xl border border-gray-200 divide-y divide-gray-100">
+              {otherActiveGrants.map(grant => grant.provider && (
+                <div key={grant.id} className="flex items-center justify-between p-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{grant.provider.provider_name}</p>
+                    <p className="text-xs text-gray-500">Sharing since {formatDate(grant.granted_at)}</p>
+                  </div>
+                  <button
+                    onClick={() => grant.provider && toggleSharing(grant.provider)}
+                    disabled={savingProviderId === grant.provider_id}
+                    className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Stop sharing
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {pastGrants.length > 0 && (
+          <div>
+            <h2 className="text-lg font-semibold text-[#1F2937] mb-3">Sharing History</h2>
+            <div className="bg-white rounded-2xl border border-gray-200 divide-y divide-gray-100">
+              {pastGrants.map(grant => (
+                <div key={grant.id} className="p-4">
+                  <p className="text-sm font-medium text-gray-900">{grant.provider?.provider_name ?? 'Provider'}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(grant.granted_at)} – {grant.revoked_at && formatDate(grant.revoked_at)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
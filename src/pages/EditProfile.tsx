@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { ArrowLeft, Save, Calendar, Phone, Mail, User as UserIcon } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { conditions, isCurrentCondition } from '../lib/conditions';
 
 interface EditProfileProps {
   onBack: () => void;
@@ -29,7 +30,7 @@ export function EditProfile({ onBack }: EditProfileProps) {
         full_name: profile.full_name || '',
         phone_number: profile.phone_number || '',
         date_of_birth: profile.date_of_birth || '',
-        condition: profile.condition || '',
+        condition: isCurrentCondition(profile.condition) ? profile.condition : '',
         treatment_type: profile.treatment_type || '',
         surgery_date: profile.surgery_date || '',
         activity_level_goal: profile.activity_level_goal || 'moderate',
@@ -38,17 +39,6 @@ export function EditProfile({ onBack }: EditProfileProps) {
     }
   }, [profile]);
 
-  const conditions = [
-    'Knee',
-    'Hip',
-    'Shoulder',
-    'Spine',
-    'Ankle',
-    'Elbow',
-    'Wrist',
-    'Other',
-  ];
-
   const treatmentTypes = [
     { value: 'surgery_planned', label: 'Surgery Planned' },
     { value: 'post_surgery', label: 'Post-Surgery' },
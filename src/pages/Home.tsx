@@ -1,8 +1,15 @@
 import { useState, useEffect } from 'react';
-import { TrendingUp, TrendingDown, Activity, AlertCircle, CheckCircle, Target, Calendar, Sparkles, ChevronRight } from 'lucide-react';
+import { TrendingUp, TrendingDown, Activity, AlertCircle, CheckCircle, Target, Calendar, Sparkles, ChevronRight, Phone, Mail, Users } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
 import { supabase } from '../lib/supabase';
 import { calculateAnalytics } from '../lib/analytics';
+import { paths } from '../lib/routes';
+import { Appointment, appointmentLocation, formatTimeRange, loadUpcomingAppointments } from '../lib/appointments';
+import { CareTeamMember, getCareTeamRoleLabel, loadCareTeam } from '../lib/careTeam';
+import { disabilityIndexes, disabilityIndexForCondition, getDisabilityBandByLevel } from '../lib/disabilityIndex';
+import { NotificationBell } from '../components/NotificationBell';
+import { TodaysMedications } from '../components/TodaysMedications';
 
 interface HomeProps {
   onOpenChat: () => void;
@@ -24,31 +31,26 @@ interface Insight {
   title: string;
   message: string;
   action?: string;
-}
-
-interface Appointment {
-  id: string;
-  appointment_date: string;
-  referral_reason: string;
-  status: string;
-  provider: {
-    provider_name: string;
-    practice_name: string;
-    specialty: string;
-  };
+  actionPath?: string;
 }
 
 export function Home({ onOpenChat }: HomeProps) {
   const { user, profile } = useAuth();
+  const { navigate } = useRouter();
   const [latestODI, setLatestODI] = useState<LatestODI | null>(null);
   const [previousODI, setPreviousODI] = useState<PreviousODI | null>(null);
   const [insights, setInsights] = useState<Insight[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [careTeam, setCareTeam] = useState<CareTeamMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [greeting, setGreeting] = useState('');
   const [daysPostTreatment, setDaysPostTreatment] = useState(0);
   const [analytics, setAnalytics] = useState<any>(null);
 
+  const instrument = disabilityIndexForCondition(profile?.condition);
+  const definition = disabilityIndexes[instrument];
+  const newAssessmentPath = instrument === 'ndi' ? paths.newNDIAssessment : paths.newODIAssessment;
+
   useEffect(() => {
     const hour = new Date().getHours();
     if (hour < 12) setGreeting('Good morning');
@@ -79,6 +81,7 @@ export function Home({ onOpenChat }: HomeProps) {
         loadODIData(),
         loadAnalytics(),
         loadAppointments(),
+        loadCareTeamMembers(),
       ]);
       generateInsights();
     } catch (error) {
@@ -92,14 +95,14 @@ export function Home({ onOpenChat }: HomeProps) {
     if (!user) return;
 
     const { data, error } = await supabase
-      .from('odi_assessments')
+      .from(definition.table)
       .select('percentage_score, assessment_date, disability_level')
       .eq('patient_id', user.id)
       .order('assessment_date', { ascending: false })
       .limit(2);
 
     if (error) {
-      console.error('Error loading ODI:', error);
+      console.error(`Error loading ${definition.shortName}:`, error);
       return;
     }
 
@@ -115,7 +118,7 @@ export function Home({ onOpenChat }: HomeProps) {
     if (!user) return;
 
     try {
-      const analyticsData = await calculateAnalytics(user.id);
+      const analyticsData = await calculateAnalytics(user.id, instrument);
       setAnalytics(analyticsData);
     } catch (error) {
       console.error('Error loading analytics:', error);
@@ -126,55 +129,45 @@ export function Home({ onOpenChat }: HomeProps) {
     if (!user) return;
 
     try {
-      const today = new Date().toISOString().split('T')[0];
-
-      const { data, error } = await supabase
-        .from('patient_referrals')
-        .select(`
-          id,
-          appointment_date,
-          referral_reason,
-          status,
-          provider:healthcare_providers(
-            provider_name,
-            practice_name,
-            specialty
-          )
-        `)
-        .eq('patient_id', user.id)
-        .gte('appointment_date', today)
-        .in('status', ['scheduled', 'pending'])
-        .order('appointment_date', { ascending: true })
-        .limit(3);
-
-      if (error) throw error;
-      if (data) setAppointments(data as any);
+      setAppointments(await loadUpcomingAppointments(user.id, 3));
     } catch (error) {
       console.error('Error loading appointments:', error);
     }
   };
 
+  const loadCareTeamMembers = async () => {
+    if (!user) return;
+
+    try {
+      setCareTeam(await loadCareTeam(user.id));
+    } catch (error) {
+      console.error('Error loading care team:', error);
+    }
+  };
+
   const generateInsights = async () => {
     const newInsights: Insight[] = [];
 
     if (latestODI && previousODI) {
       const improvement = previousODI.percentage_score - latestODI.percentage_score;
 
-      if (improvement >= 10) {
+      if (improvement >= definition.mcidThreshold) {
         newInsights.push({
           id: 'mcid',
           type: 'success',
           title: 'Meaningful Improvement Achieved',
-          message: `Your ODI score improved by ${improvement.toFixed(0)} points - that's a clinically meaningful change! This suggests your treatment is working well.`,
+          message: `Your ${definition.shortName} score improved by ${improvement.toFixed(0)} points - that's a clinically meaningful change! This suggests your treatment is working well.`,
           action: 'View Progress',
+          actionPath: paths.progress,
         });
       } else if (improvement < 0) {
         newInsights.push({
           id: 'setback',
           type: 'warning',
           title: 'Score Increased',
-          message: `Your latest ODI score is ${Math.abs(improvement).toFixed(0)} points higher. This might indicate increased symptoms. Consider discussing with your care team.`,
+          message: `Your latest ${definition.shortName} score is ${Math.abs(improvement).toFixed(0)} points higher. This might indicate increased symptoms. Consider discussing with your care team.`,
           action: 'Track Symptoms',
+          actionPath: paths.checkIn,
         });
       }
     }
@@ -186,6 +179,7 @@ export function Home({ onOpenChat }: HomeProps) {
         title: 'Progress Plateau Detected',
         message: 'Your recovery has slowed over recent assessments. This is normal, but discussing exercise modifications with your physiotherapist might help.',
         action: 'Find Providers',
+        actionPath: paths.providers,
       });
     }
 
@@ -203,8 +197,9 @@ export function Home({ onOpenChat }: HomeProps) {
         id: 'first_assessment',
         type: 'info',
         title: 'Time for Your First Assessment',
-        message: 'Complete your baseline ODI assessment to start tracking your recovery progress and get personalized insights.',
+        message: `Complete your baseline ${definition.shortName} assessment to start tracking your recovery progress and get personalized insights.`,
         action: 'Take Assessment',
+        actionPath: newAssessmentPath,
       });
     }
 
@@ -215,6 +210,7 @@ export function Home({ onOpenChat }: HomeProps) {
         title: 'Assessment Due',
         message: 'It has been over 2 weeks since your last assessment. Regular tracking helps optimize your recovery.',
         action: 'Take Assessment',
+        actionPath: newAssessmentPath,
       });
     }
 
@@ -279,8 +275,11 @@ export function Home({ onOpenChat }: HomeProps) {
             </h1>
             <p className="text-sm opacity-90 mt-1">Your Recovery Co-Pilot</p>
           </div>
-          <div className="w-12 h-12 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center text-white font-bold text-lg">
-            {profile?.full_name?.charAt(0) || 'U'}
+          <div className="flex items-center space-x-3">
+            <NotificationBell />
+            <div className="w-12 h-12 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center text-white font-bold text-lg">
+              {profile?.full_name?.charAt(0) || 'U'}
+            </div>
           </div>
         </div>
 
@@ -325,7 +324,7 @@ export function Home({ onOpenChat }: HomeProps) {
                   )}
                 </div>
                 <p className="text-sm text-gray-600 mb-1">
-                  ODI Score • {latestODI.disability_level}
+                  {definition.shortName} Score • {getDisabilityBandByLevel(instrument, latestODI.disability_level).label}
                 </p>
                 <p className="text-xs text-gray-500">
                   Last assessed: {new Date(latestODI.assessment_date).toLocaleDateString('en-AU', {
@@ -367,7 +366,7 @@ export function Home({ onOpenChat }: HomeProps) {
             {scoreChange && scoreChange.isImprovement && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-3">
                 <p className="text-sm text-green-800">
-                  <strong>Great progress!</strong> Your function is improving. Lower ODI scores indicate better daily function.
+                  <strong>Great progress!</strong> Your function is improving. Lower {definition.shortName} scores indicate better daily function.
                 </p>
               </div>
             )}
@@ -381,9 +380,12 @@ export function Home({ onOpenChat }: HomeProps) {
               <div className="flex-1">
                 <h3 className="text-lg font-semibold text-blue-900 mb-2">Start Tracking Your Progress</h3>
                 <p className="text-sm text-blue-800 mb-4">
-                  Complete your first ODI assessment to establish your baseline. Your co-pilot will use this to provide personalized guidance and track your recovery.
+                  Complete your first {definition.shortName} assessment to establish your baseline. Your co-pilot will use this to provide personalized guidance and track your recovery.
                 </p>
-                <button className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium text-sm hover:bg-blue-700 transition-colors">
+                <button
+                  onClick={() => navigate(newAssessmentPath)}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium text-sm hover:bg-blue-700 transition-colors"
+                >
                   Take Baseline Assessment
                 </button>
               </div>
@@ -391,50 +393,119 @@ export function Home({ onOpenChat }: HomeProps) {
           </div>
         )}
 
+        <TodaysMedications />
+
         {appointments.length > 0 && (
           <div>
-            <h2 className="text-lg font-semibold text-[#1F2937] mb-3">Upcoming Appointments</h2>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-[#1F2937]">Upcoming Appointments</h2>
+              <button
+                onClick={() => navigate(paths.appointments)}
+                className="flex items-center text-sm text-qivr-blue font-medium hover:text-qivr-blue-dark"
+              >
+                See all
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
             <div className="space-y-3">
               {appointments.map((appointment) => (
-                <div
+                <button
                   key={appointment.id}
-                  className="bg-white rounded-2xl p-4 border border-gray-200"
+                  onClick={() => navigate(paths.appointments)}
+                  className="w-full text-left bg-white rounded-2xl p-4 border border-gray-200 hover:border-qivr-blue transition-colors"
                 >
                   <div className="flex items-start space-x-3">
                     <div className="w-10 h-10 bg-qivr-blue/10 rounded-full flex items-center justify-center flex-shrink-0">
                       <Calendar className="w-5 h-5 text-qivr-blue" />
                     </div>
                     <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between mb-1">
-                        <h3 className="font-semibold text-gray-900">{appointment.provider.provider_name}</h3>
-                        <span className={`text-xs px-2 py-1 rounded font-medium ${
-                          appointment.status === 'scheduled'
-                            ? 'bg-blue-100 text-blue-800'
-                            : 'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-600 mb-1">{appointment.provider.practice_name}</p>
+                      <h3 className="font-semibold text-gray-900 mb-1">{appointment.title}</h3>
+                      {appointment.provider && (
+                        <p className="text-sm text-gray-600 mb-1">{appointment.provider.practice_name}</p>
+                      )}
                       <div className="flex items-center space-x-2 text-sm">
                         <span className="text-qivr-blue font-medium">
-                          {new Date(appointment.appointment_date).toLocaleDateString('en-AU', {
+                          {new Date(appointment.starts_at).toLocaleDateString('en-AU', {
                             weekday: 'short',
                             month: 'short',
                             day: 'numeric',
-                            year: 'numeric',
                           })}
+                          {' • '}
+                          {formatTimeRange(appointment)}
                         </span>
                       </div>
-                      <p className="text-xs text-gray-500 mt-2">{appointment.referral_reason}</p>
+                      {appointmentLocation(appointment) && (
+                        <p className="text-xs text-gray-500 mt-2 truncate">{appointmentLocation(appointment)}</p>
+                      )}
                     </div>
                   </div>
-                </div>
+                </button>
               ))}
             </div>
           </div>
         )}
 
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-[#1F2937]">My Care Team</h2>
+            <button
+              onClick={() => navigate(careTeam.length > 0 ? paths.careTeam : paths.providers)}
+              className="flex items-center text-sm text-qivr-blue font-medium hover:text-qivr-blue-dark"
+            >
+              {careTeam.length > 0 ? 'Manage' : 'Find providers'}
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          {careTeam.length > 0 ? (
+            <div className="bg-white rounded-2xl border border-gray-200 divide-y divide-gray-100">
+              {careTeam.map((member) => (
+                <div key={member.id} className="flex items-center justify-between p-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <h3 className="font-semibold text-gray-900 truncate">{member.provider.provider_name}</h3>
+                      {member.is_primary && (
+                        <span className="text-xs bg-qivr-blue/10 text-qivr-blue px-2 py-0.5 rounded font-medium whitespace-nowrap">
+                          Primary
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">
+                      {getCareTeamRoleLabel(member.role)} • {member.provider.practice_name}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0 ml-3">
+                    <a
+                      href={`tel:${member.provider.phone_number}`}
+                      className="w-10 h-10 bg-qivr-blue/10 text-qivr-blue rounded-full flex items-center justify-center hover:bg-qivr-blue/20 transition-colors"
+                      aria-label={`Call ${member.provider.provider_name}`}
+                    >
+                      <Phone className="w-5 h-5" />
+                    </a>
+                    {member.provider.email && (
+                      <a
+                        href={`mailto:${member.provider.email}`}
+                        className="w-10 h-10 bg-qivr-blue/10 text-qivr-blue rounded-full flex items-center justify-center hover:bg-qivr-blue/20 transition-colors"
+                        aria-label={`Email ${member.provider.provider_name}`}
+                      >
+                        <Mail className="w-5 h-5" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl p-4 border border-gray-200 flex items-center space-x-3">
+              <div className="w-10 h-10 bg-qivr-blue/10 rounded-full flex items-center justify-center flex-shrink-0">
+                <Users className="w-5 h-5 text-qivr-blue" />
+              </div>
+              <p className="text-sm text-gray-600">
+                Add the surgeon, physio and GP you see to your care team to call or email them from here.
+              </p>
+            </div>
+          )}
+        </div>
+
         {insights.length > 0 && (
           <div>
             <h2 className="text-lg font-semibold text-[#1F2937] mb-3">Personalized Insights</h2>
@@ -452,7 +523,10 @@ export function Home({ onOpenChat }: HomeProps) {
                       <h3 className="font-semibold text-gray-900 mb-1">{insight.title}</h3>
                       <p className="text-sm text-gray-700">{insight.message}</p>
                       {insight.action && (
-                        <button className="mt-3 text-sm font-medium text-qivr-blue flex items-center space-x-1 hover:text-qivr-blue-light transition-colors">
+                        <button
+                          onClick={() => insight.actionPath && navigate(insight.actionPath)}
+                          className="mt-3 text-sm font-medium text-qivr-blue flex items-center space-x-1 hover:text-qivr-blue-light transition-colors"
+                        >
                           <span>{insight.action}</span>
                           <ChevronRight className="w-4 h-4" />
                         </button>
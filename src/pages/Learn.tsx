@@ -1,32 +1,67 @@
 import { useState, useEffect } from 'react';
-import { Search, Play, FileText, Activity, Bookmark, Clock, BookmarkCheck } from 'lucide-react';
+import { Search, Play, FileText, Activity, Bookmark, Clock, BookmarkCheck, CheckCircle2, HardDrive, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
 import { supabase, EducationalContent } from '../lib/supabase';
-import { ContentViewer } from './ContentViewer';
+import { paths } from '../lib/routes';
+import {
+  formatBytes,
+  getStorageUsage,
+  isOfflineContentSupported,
+  listOfflineContent,
+  removeOfflineContent,
+  SavedContent,
+  StorageUsage,
+} from '../lib/offlineContent';
 
 export function Learn() {
   const { user } = useAuth();
+  const { navigate } = useRouter();
   const [content, setContent] = useState<EducationalContent[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [loading, setLoading] = useState(true);
-  const [selectedContentId, setSelectedContentId] = useState<string | null>(null);
   const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
+  const [offlineItems, setOfflineItems] = useState<SavedContent[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [showOfflineOnly, setShowOfflineOnly] = useState(false);
+  const [showOfflineManager, setShowOfflineManager] = useState(false);
 
   useEffect(() => {
     loadContent();
     loadBookmarks();
   }, [user]);
 
+  const loadOfflineItems = async () => {
+    try {
+      const [saved, usage] = await Promise.all([listOfflineContent(), getStorageUsage()]);
+      setOfflineItems(saved);
+      setStorageUsage(usage);
+      return saved;
+    } catch (error) {
+      console.error('Error loading offline content:', error);
+      return [];
+    }
+  };
+
   const loadContent = async () => {
     try {
       setLoading(true);
+      const saved = await loadOfflineItems();
       const { data, error } = await supabase
         .from('educational_content')
         .select('*')
         .order('created_at', { ascending: false });
 
-      if (error) throw error;
+      if (error) {
+        // Without a connection, whatever was saved for offline is still worth showing.
+        if (saved.length > 0) {
+          setContent(saved.map(item => item.content));
+          setShowOfflineOnly(true);
+          return;
+        }
+        throw error;
+      }
       if (data && data.length > 0) {
         setContent(data);
       } else {
@@ -40,6 +75,15 @@ export function Learn() {
     }
   };
 
+  const removeOfflineItem = async (contentId: string) => {
+    try {
+      await removeOfflineContent(contentId);
+      await loadOfflineItems();
+    } catch (error) {
+      console.error('Error removing offline content:', error);
+    }
+  };
+
   const loadBookmarks = async () => {
     if (!user) return;
 
@@ -187,7 +231,11 @@ export function Learn() {
     }
   };
 
+  const offlineIds = new Set(offlineItems.map(item => item.content.id));
+  const offlineBytes = offlineItems.reduce((sum, item) => sum + item.bytes, 0);
+
   const filteredContent = content.filter(item => {
+    if (showOfflineOnly && !offlineIds.has(item.id)) return false;
     const matchesSearch = item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          item.description.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesCategory = selectedCategory === 'all' ||
@@ -195,18 +243,6 @@ export function Learn() {
     return matchesSearch && matchesCategory;
   });
 
-  if (selectedContentId) {
-    return (
-      <ContentViewer
-        contentId={selectedContentId}
-        onBack={() => {
-          setSelectedContentId(null);
-          loadBookmarks();
-        }}
-      />
-    );
-  }
-
   return (
     <div className="min-h-screen bg-[#F8FAFB] pb-24">
       <div className="bg-white px-6 py-4 border-b border-gray-200">
@@ -224,6 +260,69 @@ export function Learn() {
       </div>
 
       <div className="p-6 space-y-6">
+        {isOfflineContentSupported() && offlineItems.length > 0 && (
+          <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+            <div className="p-4 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-green-50 rounded-lg flex items-center justify-center">
+                  <HardDrive className="w-5 h-5 text-green-600" />
+                </div>
+                <div>
+                  <p className="font-semibold text-[#1F2937]">
+                    {offlineItems.length} {offlineItems.length === 1 ? 'item' : 'items'} available offline
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatBytes(offlineBytes)} saved
+                    {storageUsage && storageUsage.quota > 0 && (
+                      <> · {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used on this device</>
+                    )}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowOfflineManager(!showOfflineManager)}
+                className="text-sm font-medium text-qivr-blue hover:text-qivr-blue-dark flex items-center space-x-1"
+              >
+                <span>Manage</span>
+                {showOfflineManager ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+            </div>
+
+            {storageUsage && storageUsage.quota > 0 && (
+              <div className="px-4 pb-4">
+                <div className="w-full bg-gray-200 rounded-full h-1.5">
+                  <div
+                    className="bg-green-500 rounded-full h-1.5"
+                    style={{ width: `${Math.min(100, Math.max(1, (storageUsage.usage / storageUsage.quota) * 100))}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {showOfflineManager && (
+              <div className="border-t border-gray-100 divide-y divide-gray-100">
+                {offlineItems.map(item => (
+                  <div key={item.content.id} className="px-4 py-3 flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{item.content.title}</p>
+                      <p className="text-xs text-gray-500 capitalize">
+                        {item.content.content_type} · {formatBytes(item.bytes)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => removeOfflineItem(item.content.id)}
+                      className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors flex-shrink-0"
+                      title="Remove offline copy"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="overflow-x-auto">
           <div className="flex space-x-2 pb-2">
             {categories.map(category => (
@@ -239,6 +338,19 @@ export function Learn() {
                 {category}
               </button>
             ))}
+            {offlineItems.length > 0 && (
+              <button
+                onClick={() => setShowOfflineOnly(!showOfflineOnly)}
+                className={`px-4 py-2 rounded-full font-medium whitespace-nowrap transition-colors flex items-center space-x-1 ${
+                  showOfflineOnly
+                    ? 'bg-green-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-300 hover:border-green-600'
+                }`}
+              >
+                <CheckCircle2 className="w-4 h-4" />
+                <span>Available offline</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -250,7 +362,7 @@ export function Learn() {
               return (
                 <button
                   key={item.id}
-                  onClick={() => setSelectedContentId(item.id)}
+                  onClick={() => navigate(paths.learnContent(item.id))}
                   className="w-full bg-white rounded-xl border border-gray-200 overflow-hidden hover:shadow-md transition-shadow text-left"
                 >
                   <div className="flex">
@@ -292,6 +404,12 @@ export function Learn() {
                         <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded">
                           {item.category}
                         </span>
+                        {offlineIds.has(item.id) && (
+                          <span className="flex items-center space-x-1 text-green-600">
+                            <CheckCircle2 className="w-4 h-4" />
+                            <span>Offline</span>
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
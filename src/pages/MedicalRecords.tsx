@@ -1,19 +1,46 @@
-import { useState, useEffect } from 'react';
-import { ArrowLeft, Upload, FileText, Download, Trash2, Eye, Plus, X } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Upload, FileText, Download, Trash2, Eye, Plus, X, AlertCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import {
+  ACCEPTED_RECORD_TYPES,
+  deleteMedicalRecord,
+  documentTypeOptions,
+  getDocumentUrl,
+  suggestDocumentType,
+  uploadMedicalRecord,
+  validateRecordFile,
+  DocumentType,
+  MAX_RECORD_BYTES,
+} from '../lib/medicalRecords';
+import { openInNewTab } from '../lib/storage';
 
 interface MedicalRecord {
   id: string;
   document_name: string;
   document_type: string;
   document_url: string;
+  storage_bucket: string | null;
+  storage_path: string | null;
   file_size: number;
   mime_type: string;
   uploaded_date: string;
   notes: string;
 }
 
+function downloadDocument(record: MedicalRecord) {
+  openInNewTab(() => getDocumentUrl(record, { download: true })).catch(error => {
+    console.error('Error downloading document:', error);
+    alert('Could not download this document');
+  });
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+
 interface MedicalRecordsProps {
   onBack: () => void;
 }
@@ -49,21 +76,18 @@ export function MedicalRecords({ onBack }: MedicalRecordsProps) {
     }
   };
 
-  const deleteRecord = async (id: string) => {
+  const deleteRecord = async (record: MedicalRecord) => {
     if (!confirm('Are you sure you want to delete this record? This action cannot be undone.')) {
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('medical_records')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-      setRecords(records.filter(r => r.id !== id));
+      await deleteMedicalRecord(record);
+      setRecords(records.filter(r => r.id !== record.id));
+      if (selectedRecord?.id === record.id) setSelectedRecord(null);
     } catch (error) {
       console.error('Error deleting record:', error);
+      alert('Failed to delete record');
     }
   };
 
@@ -83,12 +107,6 @@ export function MedicalRecords({ onBack }: MedicalRecordsProps) {
     return labels[type] || type;
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -207,14 +225,14 @@ export function MedicalRecords({ onBack }: MedicalRecordsProps) {
                             <Eye className="w-5 h-5" />
                           </button>
                           <button
-                            onClick={() => window.open(record.document_url, '_blank')}
+                            onClick={() => downloadDocument(record)}
                             className="p-2 text-gray-500 hover:text-qivr-blue hover:bg-qivr-blue/10 rounded-lg transition-colors"
                             title="Download"
                           >
                             <Download className="w-5 h-5" />
                           </button>
                           <button
-                            onClick={() => deleteRecord(record.id)}
+                            onClick={() => deleteRecord(record)}
                             className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
                             title="Delete"
                           >
@@ -253,6 +271,7 @@ export function MedicalRecords({ onBack }: MedicalRecordsProps) {
         <RecordDetailsModal
           record={selectedRecord}
           onClose={() => setSelectedRecord(null)}
+          onDelete={() => deleteRecord(selectedRecord)}
         />
       )}
     </div>
@@ -261,42 +280,50 @@ export function MedicalRecords({ onBack }: MedicalRecordsProps) {
 
 function UploadModal({ onClose, onUploadComplete }: { onClose: () => void; onUploadComplete: () => void }) {
   const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [formData, setFormData] = useState({
     document_name: '',
-    document_type: 'other',
+    document_type: 'other' as DocumentType,
     notes: '',
   });
 
-  const documentTypes = [
-    { value: 'lab_result', label: 'Lab Result' },
-    { value: 'imaging', label: 'Imaging (X-ray, MRI, CT)' },
-    { value: 'prescription', label: 'Prescription' },
-    { value: 'report', label: 'Medical Report' },
-    { value: 'discharge_summary', label: 'Discharge Summary' },
-    { value: 'other', label: 'Other' },
-  ];
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+
+    const error = validateRecordFile(selected);
+    setFileError(error);
+    if (error) {
+      setFile(null);
+      return;
+    }
+
+    setFile(selected);
+    setFormData(current => ({
+      ...current,
+      document_name: current.document_name || selected.name.replace(/\.[^.]+$/, ''),
+      document_type: suggestDocumentType(selected.name, selected.type),
+    }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !formData.document_name) return;
+    if (!user || !file || !formData.document_name) return;
 
     try {
       setUploading(true);
+      setProgress(0);
 
-      const { error } = await supabase
-        .from('medical_records')
-        .insert({
-          patient_id: user.id,
-          document_name: formData.document_name,
-          document_type: formData.document_type,
-          document_url: `https://example.com/records/${Date.now()}`,
-          file_size: 0,
-          mime_type: 'application/pdf',
-          notes: formData.notes,
-        });
+      await uploadMedicalRecord(user.id, file, {
+        documentName: formData.document_name,
+        documentType: formData.document_type,
+        notes: formData.notes,
+      }, setProgress);
 
-      if (error) throw error;
       onUploadComplete();
     } catch (error) {
       console.error('Error uploading record:', error);
@@ -311,12 +338,74 @@ function UploadModal({ onClose, onUploadComplete }: { onClose: () => void; onUpl
       <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
           <h2 className="text-xl font-semibold text-[#1F2937]">Upload Document</h2>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <button onClick={onClose} disabled={uploading} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
             <X className="w-6 h-6" />
           </button>
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_RECORD_TYPES.join(',')}
+            onChange={(e) => {
+              selectFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+
+          {file ? (
+            <div className="flex items-center space-x-3 p-4 rounded-lg border border-gray-200 bg-gray-50">
+              <FileText className="w-8 h-8 text-qivr-blue flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{file.name}</p>
+                <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
+              </div>
+              {!uploading && (
+                <button
+                  type="button"
+                  onClick={() => setFile(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label="Remove file"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragging(false);
+                selectFile(e.dataTransfer.files[0]);
+              }}
+              className={`w-full border-2 border-dashed rounded-lg p-6 flex flex-col items-center transition-colors ${
+                dragging ? 'border-qivr-blue bg-qivr-blue/5' : 'border-gray-300 hover:border-qivr-blue'
+              }`}
+            >
+              <Upload className="w-8 h-8 text-gray-400 mb-2" />
+              <span className="text-sm font-medium text-gray-700">Choose a file or drop it here</span>
+              <span className="text-xs text-gray-500 mt-1">
+                PDF, JPG, PNG, WebP or HEIC up to {MAX_RECORD_BYTES / (1024 * 1024)} MB
+              </span>
+            </button>
+          )}
+
+          {fileError && (
+            <div className="flex items-start space-x-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{fileError}</span>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Document Name
@@ -337,10 +426,10 @@ function UploadModal({ onClose, onUploadComplete }: { onClose: () => void; onUpl
             </label>
             <select
               value={formData.document_type}
-              onChange={(e) => setFormData({ ...formData, document_type: e.target.value })}
+              onChange={(e) => setFormData({ ...formData, document_type: e.target.value as DocumentType })}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
             >
-              {documentTypes.map(type => (
+              {documentTypeOptions.map(type => (
                 <option key={type.value} value={type.value}>{type.label}</option>
               ))}
             </select>
@@ -359,17 +448,33 @@ function UploadModal({ onClose, onUploadComplete }: { onClose: () => void; onUpl
             />
           </div>
 
+          {uploading && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Uploading...</span>
+                <span>{Math.round(progress * 100)}%</span>
+              </div>
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-qivr-blue transition-all"
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           <div className="flex space-x-3 pt-4">
             <button
               type="button"
               onClick={onClose}
-              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+              disabled={uploading}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors disabled:opacity-50"
             >
               Cancel
             </button>
             <button
               type="submit"
-              disabled={uploading}
+              disabled={uploading || !file}
               className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {uploading ? 'Uploading...' : 'Upload'}
@@ -381,11 +486,68 @@ function UploadModal({ onClose, onUploadComplete }: { onClose: () => void; onUpl
   );
 }
 
-function RecordDetailsModal({ record, onClose }: { record: MedicalRecord; onClose: () => void }) {
+function DocumentPreview({ record }: { record: MedicalRecord }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const hasStoredFile = !!(record.storage_bucket && record.storage_path);
+  const isImage = record.mime_type.startsWith('image/');
+  const isPdf = record.mime_type === 'application/pdf';
+
+  useEffect(() => {
+    if (!hasStoredFile) return;
+    let cancelled = false;
+
+    getDocumentUrl(record)
+      .then(signedUrl => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(error => {
+        console.error('Error loading document preview:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [record, hasStoredFile]);
+
+  if (!hasStoredFile || failed || (!isImage && !isPdf)) {
+    return (
+      <div className="h-40 rounded-lg bg-gray-50 border border-gray-200 flex flex-col items-center justify-center text-gray-500">
+        <FileText className="w-10 h-10 mb-2" />
+        <p className="text-sm">{failed ? 'Preview could not be loaded' : 'Preview not available for this document'}</p>
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="h-64 rounded-lg bg-gray-50 border border-gray-200 flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return isImage ? (
+    <img
+      src={url}
+      alt={record.document_name}
+      className="w-full max-h-[50vh] object-contain rounded-lg bg-gray-50 border border-gray-200"
+    />
+  ) : (
+    <iframe
+      src={url}
+      title={record.document_name}
+      className="w-full h-[50vh] rounded-lg border border-gray-200"
+    />
+  );
+}
+
+function RecordDetailsModal({ record, onClose, onDelete }: { record: MedicalRecord; onClose: () => void; onDelete: () => void }) {
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-2xl max-w-md w-full">
-        <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
           <h2 className="text-xl font-semibold text-[#1F2937]">Document Details</h2>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
             <X className="w-6 h-6" />
@@ -393,6 +555,8 @@ function RecordDetailsModal({ record, onClose }: { record: MedicalRecord; onClos
         </div>
 
         <div className="p-6 space-y-4">
+          <DocumentPreview record={record} />
+
           <div>
             <label className="text-sm text-gray-600">Document Name</label>
             <p className="font-medium text-gray-900">{record.document_name}</p>
@@ -411,6 +575,7 @@ function RecordDetailsModal({ record, onClose }: { record: MedicalRecord; onClos
                 month: 'long',
                 day: 'numeric',
               })}
+              {record.file_size > 0 && ` · ${formatFileSize(record.file_size)}`}
             </p>
           </div>
 
@@ -421,13 +586,22 @@ function RecordDetailsModal({ record, onClose }: { record: MedicalRecord; onClos
             </div>
           )}
 
-          <button
-            onClick={() => window.open(record.document_url, '_blank')}
-            className="w-full bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
-          >
-            <Download className="w-5 h-5" />
-            <span>Download Document</span>
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => downloadDocument(record)}
+              className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
+            >
+              <Download className="w-5 h-5" />
+              <span>Download Document</span>
+            </button>
+            <button
+              onClick={onDelete}
+              className="p-3 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
         </div>
       </div>
     </div>
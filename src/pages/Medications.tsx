@@ -0,0 +1,888 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Plus, X, Pill, Check, SkipForward, Undo2, Pencil, Trash2, AlertTriangle, TrendingDown, Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Medication,
+  MedicationDose,
+  MedicationInput,
+  ScheduledDose,
+  TaperStep,
+  deleteDoseLog,
+  describeSchedule,
+  dosesForDate,
+  formatDoseTime,
+  frequencyPresets,
+  loadDoseLogs,
+  loadMedications,
+  logPrnDose,
+  logScheduledDose,
+  prnStatus,
+  saveMedication,
+  stopMedication,
+  taperProgress,
+} from '../lib/medications';
+import { localDateString } from '../lib/dates';
+
+interface MedicationsProps {
+  onBack: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export function Medications({ onBack }: MedicationsProps) {
+  const { user } = useAuth();
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [logs, setLogs] = useState<MedicationDose[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Medication | 'new' | null>(null);
+  const [prnTarget, setPrnTarget] = useState<Medication | null>(null);
+  const [savingDose, setSavingDose] = useState<string | null>(null);
+
+  const today = localDateString();
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      // Yesterday's PRN doses still matter for the minimum gap between doses.
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      const [meds, doseLogs] = await Promise.all([
+        loadMedications(user.id),
+        loadDoseLogs(user.id, localDateString(yesterday)),
+      ]);
+      setMedications(meds);
+      setLogs(doseLogs);
+    } catch (error) {
+      console.error('Error loading medications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const replaceLog = (previous: MedicationDose | null, next: MedicationDose | null) => {
+    setLogs(current => {
+      const without = previous ? current.filter(l => l.id !== previous.id) : current;
+      return next ? [next, ...without] : without;
+    });
+  };
+
+  const handleLogDose = async (dose: ScheduledDose, status: MedicationDose['status']) => {
+    if (!user) return;
+    const key = `${dose.medication.id}-${dose.time}`;
+
+    try {
+      setSavingDose(key);
+      const saved = await logScheduledDose(user.id, dose, status);
+      replaceLog(dose.log, saved);
+    } catch (error) {
+      console.error('Error logging dose:', error);
+      alert('Failed to log dose');
+    } finally {
+      setSavingDose(null);
+    }
+  };
+
+  const handleUndo = async (dose: MedicationDose) => {
+    try {
+      await deleteDoseLog(dose.id);
+      replaceLog(dose, null);
+    } catch (error) {
+      console.error('Error undoing dose:', error);
+      alert('Failed to undo');
+    }
+  };
+
+  const handleStop = async (medication: Medication) => {
+    if (!confirm(`Stop ${medication.name}? Your dose history is kept.`)) return;
+
+    try {
+      await stopMedication(medication.id);
+      setMedications(medications.filter(m => m.id !== medication.id));
+    } catch (error) {
+      console.error('Error stopping medication:', error);
+      alert('Failed to stop medication');
+    }
+  };
+
+  const todaysDoses = dosesForDate(medications, logs, today);
+  const prnMedications = medications.filter(m => m.is_prn);
+  const tapering = medications.filter(m => m.taper_steps.length > 0);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading medications...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB] pb-24">
+      <div className="bg-white px-6 py-4 border-b border-gray-200 sticky top-0 z-10">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center text-qivr-blue hover:text-qivr-blue-light transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back
+          </button>
+          <h1 className="text-xl font-semibold text-[#1F2937]">Medications</h1>
+          <button
+            onClick={() => setEditing('new')}
+            className="text-qivr-blue hover:text-qivr-blue-light"
+            aria-label="Add medication"
+          >
+            <Plus className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {medications.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Pill className="w-10 h-10 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">No Medications</h3>
+            <p className="text-gray-500 mb-6">Add your medications to get dose reminders and track how they help your pain</p>
+            <button
+              onClick={() => setEditing('new')}
+              className="bg-qivr-blue text-white px-6 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors inline-flex items-center space-x-2"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Medication</span>
+            </button>
+          </div>
+        ) : (
+          <>
+            {todaysDoses.length > 0 && (
+              <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                  <h2 className="font-semibold text-[#1F2937]">Today</h2>
+                  <span className="text-sm text-gray-600">
+                    {todaysDoses.filter(d => d.log?.status === 'taken').length} of {todaysDoses.length} taken
+                  </span>
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {todaysDoses.map(dose => (
+                    <DoseRow
+                      key={`${dose.medication.id}-${dose.time}`}
+                      dose={dose}
+                      saving={savingDose === `${dose.medication.id}-${dose.time}`}
+                      onLog={status => handleLogDose(dose, status)}
+                      onUndo={() => dose.log && handleUndo(dose.log)}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {prnMedications.length > 0 && (
+              <div>
+                <h2 className="text-lg font-semibold text-[#1F2937] mb-3">As Needed</h2>
+                <div className="space-y-3">
+                  {prnMedications.map(medication => {
+                    const status = prnStatus(medication, logs);
+                    return (
+                      <div key={medication.id} className="bg-white rounded-2xl p-4 border border-gray-200">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center space-x-2 mb-1">
+                              <h3 className="font-semibold text-gray-900">{medication.name}</h3>
+                              {medication.is_opioid && <OpioidBadge />}
+                            </div>
+                            <p className="text-sm text-gray-600">
+                              {medication.dose || 'As needed'}
+                              {medication.max_daily_doses && ` • up to ${medication.max_daily_doses} a day`}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {status.takenToday} taken today
+                              {status.lastTakenAt && ` • last at ${formatClock(status.lastTakenAt)}`}
+                            </p>
+                            {status.nextAllowedAt && (
+                              <p className="text-xs text-orange-600 mt-1 flex items-center">
+                                <Clock className="w-3 h-3 mr-1" />
+                                Next dose from {formatClock(status.nextAllowedAt)}
+                              </p>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => setPrnTarget(medication)}
+                            className="ml-4 bg-qivr-blue text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-qivr-blue-dark transition-colors"
+                          >
+                            Log dose
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {tapering.length > 0 && (
+              <div>
+                <h2 className="text-lg font-semibold text-[#1F2937] mb-3">Tapering</h2>
+                <div className="space-y-3">
+                  {tapering.map(medication => (
+                    <TaperCard key={medication.id} medication={medication} today={today} />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h2 className="font-semibold text-[#1F2937]">My Medications ({medications.length})</h2>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {medications.map(medication => {
+                  const schedule = taperProgress(medication, today);
+                  return (
+                    <div key={medication.id} className="px-6 py-4 flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <h3 className="font-medium text-gray-900">{medication.name}</h3>
+                          {medication.is_opioid && <OpioidBadge />}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {medication.is_prn
+                            ? `${medication.dose ? `${medication.dose}, ` : ''}as needed`
+                            : schedule
+                              ? describeSchedule(schedule.currentDose, schedule.currentTimes)
+                              : describeSchedule(medication.dose, medication.schedule_times)}
+                        </p>
+                        {medication.instructions && (
+                          <p className="text-xs text-gray-500 mt-1">{medication.instructions}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 ml-4">
+                        <button
+                          onClick={() => setEditing(medication)}
+                          className="p-2 text-gray-500 hover:text-qivr-blue hover:bg-qivr-blue/10 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Pencil className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleStop(medication)}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Stop taking"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500 text-center">
+              Always follow your prescriber's instructions. Talk to your care team before changing a dose.
+            </p>
+          </>
+        )}
+      </div>
+
+      {editing && (
+        <MedicationFormModal
+          medication={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            loadData();
+          }}
+        />
+      )}
+
+      {prnTarget && (
+        <PrnDoseModal
+          medication={prnTarget}
+          logs={logs}
+          onClose={() => setPrnTarget(null)}
+          onLogged={dose => {
+            setPrnTarget(null);
+            replaceLog(null, dose);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function OpioidBadge() {
+  return (
+    <span className="text-xs px-2 py-0.5 rounded font-medium bg-purple-100 text-purple-800">Opioid</span>
+  );
+}
+
+function DoseRow({
+  dose,
+  saving,
+  onLog,
+  onUndo,
+}: {
+  dose: ScheduledDose;
+  saving: boolean;
+  onLog: (status: MedicationDose['status']) => void;
+  onUndo: () => void;
+}) {
+  const status = dose.log?.status;
+
+  return (
+    <div className="px-6 py-4 flex items-center justify-between">
+      <div className="flex items-center space-x-3 min-w-0">
+        <div className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${
+          status === 'taken' ? 'bg-green-100' : status === 'skipped' ? 'bg-gray-100' : 'bg-qivr-blue/10'
+        }`}>
+          {status === 'taken' ? (
+            <Check className="w-5 h-5 text-green-600" />
+          ) : status === 'skipped' ? (
+            <SkipForward className="w-5 h-5 text-gray-500" />
+          ) : (
+            <Pill className="w-5 h-5 text-qivr-blue" />
+          )}
+        </div>
+        <div className="min-w-0">
+          <p className={`font-medium truncate ${status === 'skipped' ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+            {dose.medication.name} {dose.dose}
+          </p>
+          <p className="text-sm text-gray-600">
+            {formatDoseTime(dose.time)}
+            {status === 'taken' && dose.log && ` • taken at ${formatClock(new Date(dose.log.taken_at))}`}
+            {status === 'skipped' && ' • skipped'}
+          </p>
+        </div>
+      </div>
+
+      {status ? (
+        <button
+          onClick={onUndo}
+          className="p-2 text-gray-500 hover:text-qivr-blue hover:bg-qivr-blue/10 rounded-lg transition-colors"
+          title="Undo"
+        >
+          <Undo2 className="w-5 h-5" />
+        </button>
+      ) : (
+        <div className="flex items-center space-x-2 ml-4">
+          <button
+            onClick={() => onLog('skipped')}
+            disabled={saving}
+            className="px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Skip
+          </button>
+          <button
+            onClick={() => onLog('taken')}
+            disabled={saving}
+            className="px-3 py-2 text-sm bg-qivr-blue text-white rounded-lg font-medium hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+          >
+            Take
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TaperCard({ medication, today }: { medication: Medication; today: string }) {
+  const progress = taperProgress(medication, today);
+  if (!progress) return null;
+
+  return (
+    <div className="bg-white rounded-2xl p-4 border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <TrendingDown className="w-5 h-5 text-qivr-blue" />
+          <h3 className="font-semibold text-gray-900">{medication.name}</h3>
+          {medication.is_opioid && <OpioidBadge />}
+        </div>
+        <span className="text-sm text-gray-600">
+          Step {progress.currentStep} of {progress.totalSteps}
+        </span>
+      </div>
+      <p className="text-sm text-gray-700 mb-3">
+        Now: {describeSchedule(progress.currentDose, progress.currentTimes)}
+      </p>
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+        <div
+          className="bg-qivr-blue h-2 rounded-full transition-all"
+          style={{ width: `${progress.percentComplete}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        {progress.nextStep
+          ? `From ${formatDate(progress.nextStep.start_date)}: ${describeSchedule(progress.nextStep.dose, progress.nextStep.schedule_times)}`
+          : progress.currentTimes.length === 0
+            ? 'Taper complete'
+            : 'Final step of your taper'}
+      </p>
+    </div>
+  );
+}
+
+const STOP_OPTION = 'stop';
+
+function presetFor(times: string[]) {
+  return frequencyPresets.find(p => p.times.join(',') === times.join(','));
+}
+
+function MedicationFormModal({
+  medication,
+  onClose,
+  onSaved,
+}: {
+  medication: Medication | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<MedicationInput>({
+    name: medication?.name ?? '',
+    dose: medication?.dose ?? '',
+    instructions: medication?.instructions ?? '',
+    schedule_times: medication?.schedule_times.map(t => t.slice(0, 5)) ?? frequencyPresets[0].times,
+    is_prn: medication?.is_prn ?? false,
+    max_daily_doses: medication?.max_daily_doses ?? null,
+    min_hours_between: medication?.min_hours_between ?? null,
+    is_opioid: medication?.is_opioid ?? false,
+    taper_steps: medication?.taper_steps ?? [],
+    start_date: medication?.start_date ?? localDateString(),
+    end_date: medication?.end_date ?? null,
+  });
+
+  const update = (changes: Partial<MedicationInput>) => setFormData(current => ({ ...current, ...changes }));
+
+  const updateTime = (index: number, value: string) =>
+    update({ schedule_times: formData.schedule_times.map((t, i) => (i === index ? value : t)) });
+
+  const updateStep = (index: number, changes: Partial<TaperStep>) =>
+    update({ taper_steps: formData.taper_steps.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+
+  const addStep = () => {
+    const last = formData.taper_steps[formData.taper_steps.length - 1];
+    const startDate = new Date(`${last?.start_date ?? formData.start_date}T00:00:00`);
+    startDate.setDate(startDate.getDate() + 7);
+    update({
+      taper_steps: [
+        ...formData.taper_steps,
+        {
+          start_date: localDateString(startDate),
+          dose: last?.dose ?? formData.dose,
+          schedule_times: last?.schedule_times ?? formData.schedule_times,
+        },
+      ],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !formData.name.trim()) return;
+    if (!formData.is_prn && formData.schedule_times.length === 0) {
+      alert('Add at least one dose time');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveMedication(user.id, {
+        ...formData,
+        name: formData.name.trim(),
+        schedule_times: formData.is_prn ? [] : [...new Set(formData.schedule_times)].sort(),
+        taper_steps: formData.is_prn ? [] : formData.taper_steps,
+        max_daily_doses: formData.is_prn ? formData.max_daily_doses : null,
+        min_hours_between: formData.is_prn ? formData.min_hours_between : null,
+      }, medication?.id);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving medication:', error);
+      alert('Failed to save medication');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">{medication ? 'Edit Medication' : 'Add Medication'}</h2>
+          <button onClick={onClose} disabled={saving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              type="text"
+              required
+              value={formData.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., Paracetamol"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Dose</label>
+            <input
+              type="text"
+              value={formData.dose}
+              onChange={(e) => update({ dose: e.target.value })}
+              className={inputClass}
+              placeholder="e.g., 1 g or 2 tablets"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { value: false, label: 'On a schedule' },
+              { value: true, label: 'As needed' },
+            ].map(option => (
+              <button
+                key={option.label}
+                type="button"
+                onClick={() => update({ is_prn: option.value })}
+                className={`py-2 rounded-lg text-sm font-medium border transition-colors ${
+                  formData.is_prn === option.value
+                    ? 'bg-qivr-blue text-white border-qivr-blue'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-qivr-blue'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {formData.is_prn ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Max per day</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.max_daily_doses ?? ''}
+                  onChange={(e) => update({ max_daily_doses: e.target.value ? Number(e.target.value) : null })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Hours between</label>
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={formData.min_hours_between ?? ''}
+                  onChange={(e) => update({ min_hours_between: e.target.value ? Number(e.target.value) : null })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">How often</label>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {frequencyPresets.map(preset => (
+                  <button
+                    key={preset.id}
+                    type="button"
+                    onClick={() => update({ schedule_times: preset.times })}
+                    className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                      presetFor(formData.schedule_times)?.id === preset.id
+                        ? 'bg-qivr-blue text-white border-qivr-blue'
+                        : 'bg-white text-gray-700 border-gray-300 hover:border-qivr-blue'
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2">
+                {formData.schedule_times.map((time, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="time"
+                      required
+                      value={time}
+                      onChange={(e) => updateTime(index, e.target.value)}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => update({ schedule_times: formData.schedule_times.filter((_, i) => i !== index) })}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      aria-label="Remove time"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => update({ schedule_times: [...formData.schedule_times, '12:00'] })}
+                  className="text-sm text-qivr-blue font-medium hover:text-qivr-blue-dark"
+                >
+                  + Add a time
+                </button>
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.is_opioid}
+              onChange={(e) => update({ is_opioid: e.target.checked })}
+              className="w-4 h-4 text-qivr-blue border-gray-300 rounded focus:ring-qivr-blue"
+            />
+            <span className="text-sm text-gray-700">This is an opioid (e.g., oxycodone, tramadol)</span>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Start date</label>
+              <input
+                type="date"
+                required
+                value={formData.start_date}
+                onChange={(e) => update({ start_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">End date</label>
+              <input
+                type="date"
+                value={formData.end_date ?? ''}
+                min={formData.start_date}
+                onChange={(e) => update({ end_date: e.target.value || null })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {!formData.is_prn && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Taper plan</label>
+              <p className="text-xs text-gray-500 mb-3">
+                Add a step for each dose reduction your prescriber has given you.
+              </p>
+              <div className="space-y-3">
+                {formData.taper_steps.map((step, index) => {
+                  const preset = presetFor(step.schedule_times);
+                  const selected = step.schedule_times.length === 0 ? STOP_OPTION : preset?.id ?? 'custom';
+                  return (
+                    <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-700">Step {index + 1}</span>
+                        <button
+                          type="button"
+                          onClick={() => update({ taper_steps: formData.taper_steps.filter((_, i) => i !== index) })}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label="Remove step"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="date"
+                          required
+                          value={step.start_date}
+                          min={formData.start_date}
+                          onChange={(e) => updateStep(index, { start_date: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <input
+                          type="text"
+                          value={step.dose}
+                          disabled={selected === STOP_OPTION}
+                          onChange={(e) => updateStep(index, { dose: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                          placeholder="Dose"
+                        />
+                      </div>
+                      <select
+                        value={selected}
+                        onChange={(e) => {
+                          if (e.target.value === STOP_OPTION) {
+                            updateStep(index, { schedule_times: [] });
+                          } else {
+                            const next = frequencyPresets.find(p => p.id === e.target.value);
+                            if (next) updateStep(index, { schedule_times: next.times });
+                          }
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        {frequencyPresets.map(p => (
+                          <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                        {selected === 'custom' && (
+                          <option value="custom">{step.schedule_times.map(formatDoseTime).join(', ')}</option>
+                        )}
+                        <option value={STOP_OPTION}>Stop taking</option>
+                      </select>
+                    </div>
+                  );
+                })}
+                <button
+                  type="button"
+                  onClick={addStep}
+                  className="text-sm text-qivr-blue font-medium hover:text-qivr-blue-dark"
+                >
+                  + Add taper step
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Instructions (Optional)</label>
+            <textarea
+              value={formData.instructions}
+              onChange={(e) => update({ instructions: e.target.value })}
+              rows={2}
+              className={inputClass}
+              placeholder="e.g., Take with food"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !formData.name.trim()}
+              className="flex-1 bg-qivr-blue text-white px-4 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function PrnDoseModal({
+  medication,
+  logs,
+  onClose,
+  onLogged,
+}: {
+  medication: Medication;
+  logs: MedicationDose[];
+  onClose: () => void;
+  onLogged: (dose: MedicationDose) => void;
+}) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [reason, setReason] = useState('');
+  const [painLevel, setPainLevel] = useState<number | null>(null);
+  const status = prnStatus(medication, logs);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    try {
+      setSaving(true);
+      onLogged(await logPrnDose(user.id, medication, { takenAt: new Date(), reason, painLevel }));
+    } catch (error) {
+      console.error('Error logging dose:', error);
+      alert('Failed to log dose');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">Log {medication.name}</h2>
+          <button onClick={onClose} disabled={saving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {(status.atDailyLimit || status.nextAllowedAt) && (
+            <div className="flex items-start space-x-2 bg-orange-50 border border-orange-200 rounded-lg p-3">
+              <AlertTriangle className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-orange-800">
+                {status.atDailyLimit
+                  ? `You've already taken ${status.takenToday} doses today, the most your plan allows.`
+                  : `Your plan says to wait until ${formatClock(status.nextAllowedAt as Date)} before the next dose.`}
+                {' '}Check with your care team before taking more.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Pain level right now {painLevel !== null && <span className="text-qivr-blue">({painLevel}/10)</span>}
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={10}
+              value={painLevel ?? 5}
+              onChange={(e) => setPainLevel(Number(e.target.value))}
+              className="w-full accent-qivr-blue"
+            />
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>No pain</span>
+              <span>Worst pain</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">What prompted it? (Optional)</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+              placeholder="e.g., Pain after physio"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-qivr-blue text-white px-4 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : `Log ${medication.dose || 'dose'} now`}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
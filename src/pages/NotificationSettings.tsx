@@ -1,7 +1,20 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Bell, Clock, Check } from 'lucide-react';
+import { ArrowLeft, Bell, Clock, Check, Moon, Layers, SlidersHorizontal, ShieldAlert } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { detectTimeZone } from '../lib/reminders';
+import { isPushSupported, registerPushDevice } from '../lib/pushNotifications';
+import { PushDevices } from '../components/PushDevices';
+import {
+  ChannelRouting,
+  DeliveryCategory,
+  DigestFrequency,
+  deliveryCategories,
+  deliveryChannels,
+  routedChannels,
+  toggleRoute,
+  weekdayNames,
+} from '../lib/notificationPreferences';
 
 interface NotificationSettingsProps {
   onBack: () => void;
@@ -17,13 +30,30 @@ interface Settings {
   medication_reminders: boolean;
   educational_content: boolean;
   reminder_time: string;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  digest_frequency: DigestFrequency;
+  digest_day: number;
+  channel_routing: ChannelRouting;
 }
 
+// Categories that can be switched off entirely; care team updates always stay on.
+const categorySettingKeys: Partial<Record<DeliveryCategory, keyof Settings>> = {
+  daily_checkin: 'daily_checkin_reminder',
+  exercises: 'exercise_reminders',
+  medications: 'medication_reminders',
+  appointments: 'appointment_reminders',
+  educational: 'educational_content',
+};
+
 export function NotificationSettings({ onBack }: NotificationSettingsProps) {
-  const { user } = useAuth();
+  const { user, profile, updateProfile } = useAuth();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [pushError, setPushError] = useState<string | null>(null);
+  const [devicesVersion, setDevicesVersion] = useState(0);
   const [settings, setSettings] = useState<Settings>({
     push_enabled: true,
     email_enabled: true,
@@ -34,6 +64,12 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
     medication_reminders: true,
     educational_content: true,
     reminder_time: '09:00',
+    quiet_hours_enabled: false,
+    quiet_hours_start: '22:00',
+    quiet_hours_end: '07:00',
+    digest_frequency: 'off',
+    digest_day: 1,
+    channel_routing: {},
   });
 
   useEffect(() => {
@@ -64,6 +100,12 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
           medication_reminders: data.medication_reminders,
           educational_content: data.educational_content,
           reminder_time: data.reminder_time?.substring(0, 5) || '09:00',
+          quiet_hours_enabled: data.quiet_hours_enabled ?? false,
+          quiet_hours_start: data.quiet_hours_start?.substring(0, 5) || '22:00',
+          quiet_hours_end: data.quiet_hours_end?.substring(0, 5) || '07:00',
+          digest_frequency: data.digest_frequency || 'off',
+          digest_day: data.digest_day ?? 1,
+          channel_routing: data.channel_routing || {},
         });
       }
     } catch (error) {
@@ -90,6 +132,11 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
 
       if (error) throw error;
 
+      const timeZone = detectTimeZone();
+      if (profile?.time_zone !== timeZone) {
+        await updateProfile({ time_zone: timeZone });
+      }
+
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
     } catch (error) {
@@ -106,6 +153,26 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
     }));
   };
 
+  // Turning push on registers this browser straight away, while the tap still counts as a user gesture.
+  const togglePush = async () => {
+    if (!user) return;
+    setPushError(null);
+
+    if (settings.push_enabled || !isPushSupported()) {
+      toggleSetting('push_enabled');
+      return;
+    }
+
+    try {
+      await registerPushDevice(user.id);
+      setDevicesVersion(v => v + 1);
+      toggleSetting('push_enabled');
+    } catch (error) {
+      console.error('Error registering push device:', error);
+      setPushError(error instanceof Error ? error.message : 'Could not turn on push notifications');
+    }
+  };
+
   const ToggleSwitch = ({ enabled, onToggle }: { enabled: boolean; onToggle: () => void }) => (
     <button
       type="button"
@@ -172,15 +239,20 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
           </div>
 
           <div className="divide-y divide-gray-100">
-            <div className="flex items-center justify-between px-6 py-4">
-              <div>
-                <div className="font-medium text-gray-900">Push Notifications</div>
-                <div className="text-sm text-gray-600">Receive notifications in the app</div>
+            <div className="px-6 py-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">Push Notifications</div>
+                  <div className="text-sm text-gray-600">Receive notifications on your devices</div>
+                </div>
+                <ToggleSwitch
+                  enabled={settings.push_enabled}
+                  onToggle={togglePush}
+                />
               </div>
-              <ToggleSwitch
-                enabled={settings.push_enabled}
-                onToggle={() => toggleSetting('push_enabled')}
-              />
+              {pushError && (
+                <p className="text-sm text-red-600 mt-2">{pushError}</p>
+              )}
             </div>
 
             <div className="flex items-center justify-between px-6 py-4">
@@ -207,6 +279,10 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
           </div>
         </div>
 
+        {settings.push_enabled && user && (
+          <PushDevices patientId={user.id} reloadKey={devicesVersion} />
+        )}
+
         <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
             <h2 className="text-lg font-semibold text-[#1F2937]">Reminder Types</h2>
@@ -250,7 +326,7 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
             <div className="flex items-center justify-between px-6 py-4">
               <div>
                 <div className="font-medium text-gray-900">Medication Reminders</div>
-                <div className="text-sm text-gray-600">Reminders to take your medications</div>
+                <div className="text-sm text-gray-600">At each dose time in your medication schedule</div>
               </div>
               <ToggleSwitch
                 enabled={settings.medication_reminders}
@@ -271,13 +347,162 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
           </div>
         </div>
 
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center space-x-2">
+              <SlidersHorizontal className="w-5 h-5 text-qivr-blue" />
+              <h2 className="text-lg font-semibold text-[#1F2937]">Delivery by Category</h2>
+            </div>
+            <p className="text-sm text-gray-600 mt-1">Pick which channels each kind of notification uses</p>
+          </div>
+
+          <div className="px-6 py-2">
+            <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] items-center text-xs font-medium text-gray-500 uppercase tracking-wide py-2">
+              <span>Category</span>
+              {deliveryChannels.map(channel => (
+                <span key={channel.id} className="text-center">{channel.label}</span>
+              ))}
+            </div>
+
+            {deliveryCategories.map(category => {
+              const settingKey = categorySettingKeys[category.id];
+              const categoryOn = !settingKey || !!settings[settingKey];
+              const routed = routedChannels(settings.channel_routing, category.id);
+
+              return (
+                <div
+                  key={category.id}
+                  className={`grid grid-cols-[1fr_repeat(3,3.5rem)] items-center py-3 border-t border-gray-100 ${categoryOn ? '' : 'opacity-40'}`}
+                >
+                  <span className="text-sm font-medium text-gray-900">{category.label}</span>
+                  {deliveryChannels.map(channel => {
+                    const channelOn = settings[`${channel.id}_enabled` as const];
+                    const selected = routed.includes(channel.id);
+
+                    return (
+                      <div key={channel.id} className="flex justify-center">
+                        <button
+                          type="button"
+                          disabled={!categoryOn || !channelOn}
+                          onClick={() => setSettings(prev => ({
+                            ...prev,
+                            channel_routing: toggleRoute(prev.channel_routing, category.id, channel.id),
+                          }))}
+                          aria-label={`${category.label} by ${channel.label}`}
+                          aria-pressed={selected && channelOn}
+                          className={`w-6 h-6 rounded-md border-2 flex items-center justify-center transition-colors disabled:cursor-not-allowed ${
+                            selected && channelOn
+                              ? 'bg-qivr-blue border-qivr-blue text-white'
+                              : 'border-gray-300 bg-white'
+                          } ${channelOn ? '' : 'opacity-40'}`}
+                        >
+                          {selected && channelOn && <Check className="w-4 h-4" />}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mx-6 mb-4 bg-red-50 border border-red-100 rounded-lg p-3 flex items-start space-x-2">
+            <ShieldAlert className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-800">
+              Urgent safety alerts always reach you on every channel we can, even during quiet hours.
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Moon className="w-5 h-5 text-qivr-blue" />
+              <h2 className="text-lg font-semibold text-[#1F2937]">Quiet Hours</h2>
+            </div>
+            <ToggleSwitch
+              enabled={settings.quiet_hours_enabled}
+              onToggle={() => toggleSetting('quiet_hours_enabled')}
+            />
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Non-urgent notifications are held and sent when quiet hours end. They still appear in your inbox.
+          </p>
+
+          {settings.quiet_hours_enabled && (
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 mb-1">From</span>
+                <input
+                  type="time"
+                  value={settings.quiet_hours_start}
+                  onChange={(e) => setSettings({ ...settings, quiet_hours_start: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 mb-1">Until</span>
+                <input
+                  type="time"
+                  value={settings.quiet_hours_end}
+                  onChange={(e) => setSettings({ ...settings, quiet_hours_end: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 border border-gray-200">
+          <div className="flex items-center space-x-2 mb-2">
+            <Layers className="w-5 h-5 text-qivr-blue" />
+            <h2 className="text-lg font-semibold text-[#1F2937]">Digest</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Bundle {deliveryCategories.filter(c => c.lowPriority).map(c => c.label.toLowerCase()).join(' and ')} into
+            one summary, sent at your reminder time.
+          </p>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(['off', 'daily', 'weekly'] as DigestFrequency[]).map(frequency => (
+              <button
+                key={frequency}
+                type="button"
+                onClick={() => setSettings({ ...settings, digest_frequency: frequency })}
+                className={`py-2.5 rounded-lg text-sm font-medium capitalize transition-colors ${
+                  settings.digest_frequency === frequency
+                    ? 'bg-qivr-blue text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {frequency === 'off' ? 'Send right away' : frequency}
+              </button>
+            ))}
+          </div>
+
+          {settings.digest_frequency === 'weekly' && (
+            <label className="block mt-4">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Send on</span>
+              <select
+                value={settings.digest_day}
+                onChange={(e) => setSettings({ ...settings, digest_day: Number(e.target.value) })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+              >
+                {weekdayNames.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
         <div className="bg-white rounded-2xl p-6 border border-gray-200">
           <div className="flex items-center space-x-2 mb-4">
             <Clock className="w-5 h-5 text-qivr-blue" />
             <h2 className="text-lg font-semibold text-[#1F2937]">Reminder Time</h2>
           </div>
           <p className="text-sm text-gray-600 mb-4">
-            Choose your preferred time for daily reminders
+            Choose your preferred time for daily reminders. Exercise reminders follow six hours later.
           </p>
           <input
             type="time"
@@ -285,6 +510,9 @@ export function NotificationSettings({ onBack }: NotificationSettingsProps) {
             onChange={(e) => setSettings({ ...settings, reminder_time: e.target.value })}
             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
           />
+          <p className="text-xs text-gray-500 mt-2">
+            Times are in your local time zone ({profile?.time_zone || detectTimeZone()}).
+          </p>
         </div>
 
         <button
@@ -0,0 +1,297 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Bell, BellOff, AlertTriangle, Clock, HeartPulse, Info, CheckCheck, Trash2, ChevronRight } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import {
+  AppNotification,
+  NotificationCategory,
+  deleteNotification,
+  getNotificationCategory,
+  getNotificationPath,
+  loadNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  notificationCategoryLabels,
+  subscribeToNotifications,
+} from '../lib/notifications';
+
+const categoryStyles: Record<NotificationCategory, { icon: typeof Bell; className: string }> = {
+  red_flag: { icon: AlertTriangle, className: 'bg-red-100 text-red-600' },
+  reminder: { icon: Clock, className: 'bg-qivr-blue/10 text-qivr-blue' },
+  care: { icon: HeartPulse, className: 'bg-green-100 text-green-600' },
+  general: { icon: Info, className: 'bg-gray-100 text-gray-600' },
+};
+
+const categoryOrder: NotificationCategory[] = ['red_flag', 'reminder', 'care', 'general'];
+
+const SWIPE_DELETE_THRESHOLD = 96;
+
+function formatRelativeTime(dateString: string) {
+  const minutes = Math.round((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+interface NotificationsProps {
+  onBack: () => void;
+}
+
+export function Notifications({ onBack }: NotificationsProps) {
+  const { user } = useAuth();
+  const { navigate } = useRouter();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    loadNotifications(user.id)
+      .then(data => {
+        if (!cancelled) setNotifications(data);
+      })
+      .catch(error => console.error('Error loading notifications:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const unsubscribe = subscribeToNotifications(user.id, {
+      onInsert: (notification) => setNotifications(prev =>
+        prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]
+      ),
+      onUpdate: (notification) => setNotifications(prev =>
+        prev.map(n => (n.id === notification.id ? notification : n))
+      ),
+      onDelete: (notificationId) => setNotifications(prev => prev.filter(n => n.id !== notificationId)),
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user]);
+
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  const markRead = async (notification: AppNotification) => {
+    if (notification.read) return;
+
+    setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+    try {
+      await markNotificationRead(notification.id);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: false } : n)));
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+
+    const previous = notifications;
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    try {
+      await markAllNotificationsRead(user.id);
+    } catch (error) {
+      console.error('Error marking all notifications read:', error);
+      setNotifications(previous);
+    }
+  };
+
+  const removeNotification = async (notification: AppNotification) => {
+    setNotifications(prev => prev.filter(n => n.id !== notification.id));
+    try {
+      await deleteNotification(notification.id);
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+      setNotifications(prev => [...prev, notification].sort((a, b) => b.created_at.localeCompare(a.created_at)));
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    markRead(notification);
+    const path = getNotificationPath(notification);
+    if (path) navigate(path);
+  };
+
+  const visible = showUnreadOnly ? notifications.filter(n => !n.read) : notifications;
+  const grouped = categoryOrder
+    .map(category => ({
+      category,
+      items: visible.filter(n => getNotificationCategory(n.notification_type) === category),
+    }))
+    .filter(group => group.items.length > 0);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFB] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-qivr-blue border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading notifications...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFB] pb-24">
+      <div className="bg-white px-6 py-4 border-b border-gray-200 sticky top-0 z-10">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center text-qivr-blue hover:text-qivr-blue-light transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back
+          </button>
+          <h1 className="text-xl font-semibold text-[#1F2937]">Notifications</h1>
+          <button
+            onClick={markAllRead}
+            disabled={unreadCount === 0}
+            className="text-qivr-blue hover:text-qivr-blue-light disabled:text-gray-300"
+            title="Mark all as read"
+          >
+            <CheckCheck className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 mt-4">
+          {[false, true].map(unreadOnly => (
+            <button
+              key={String(unreadOnly)}
+              onClick={() => setShowUnreadOnly(unreadOnly)}
+              className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                showUnreadOnly === unreadOnly
+                  ? 'bg-qivr-blue text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {unreadOnly ? `Unread (${unreadCount})` : 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {grouped.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <BellOff className="w-10 h-10 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">
+              {showUnreadOnly ? "You're all caught up" : 'No notifications yet'}
+            </h3>
+            <p className="text-gray-500">Reminders and updates from your care team will appear here</p>
+          </div>
+        ) : (
+          <>
+            {grouped.map(({ category, items }) => (
+              <div key={category}>
+                <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                  {notificationCategoryLabels[category]}
+                </h2>
+                <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden divide-y divide-gray-100">
+                  {items.map(notification => (
+                    <SwipeableNotification
+                      key={notification.id}
+                      notification={notification}
+                      onOpen={() => openNotification(notification)}
+                      onDelete={() => removeNotification(notification)}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-400 text-center">Swipe left on a notification to delete it</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SwipeableNotificationProps {
+  notification: AppNotification;
+  onOpen: () => void;
+  onDelete: () => void;
+}
+
+function SwipeableNotification({ notification, onOpen, onDelete }: SwipeableNotificationProps) {
+  const [offset, setOffset] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const startX = useRef<number | null>(null);
+  const moved = useRef(false);
+  const category = getNotificationCategory(notification.notification_type);
+  const { icon: Icon, className } = categoryStyles[category];
+  const hasLink = !!getNotificationPath(notification);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    startX.current = e.clientX;
+    moved.current = false;
+    setDragging(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (startX.current === null) return;
+    const delta = Math.min(0, e.clientX - startX.current);
+    if (Math.abs(delta) > 5) {
+      moved.current = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setOffset(delta);
+  };
+
+  const handlePointerUp = () => {
+    startX.current = null;
+    setDragging(false);
+
+    if (offset <= -SWIPE_DELETE_THRESHOLD) {
+      setOffset(-window.innerWidth);
+      setTimeout(onDelete, 200);
+    } else {
+      setOffset(0);
+    }
+  };
+
+  return (
+    <div className="relative overflow-hidden">
+      <div className="absolute inset-0 bg-red-500 flex items-center justify-end px-6 text-white">
+        <Trash2 className="w-5 h-5" />
+      </div>
+      <button
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onClick={() => {
+          if (!moved.current) onOpen();
+        }}
+        style={{ transform: `translateX(${offset}px)`, touchAction: 'pan-y' }}
+        className={`relative w-full text-left px-4 py-4 flex items-start space-x-3 ${
+          notification.read ? 'bg-white' : 'bg-qivr-blue/5'
+        } ${dragging ? '' : 'transition-transform duration-200'}`}
+      >
+        <div className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${className}`}>
+          <Icon className="w-5 h-5" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between">
+            <h3 className={`text-sm text-gray-900 ${notification.read ? 'font-medium' : 'font-semibold'}`}>
+              {notification.title}
+            </h3>
+            <span className="text-xs text-gray-500 ml-2 flex-shrink-0">{formatRelativeTime(notification.created_at)}</span>
+          </div>
+          <p className="text-sm text-gray-600 mt-0.5">{notification.message}</p>
+        </div>
+        <div className="flex items-center self-center space-x-2 flex-shrink-0">
+          {!notification.read && <span className="w-2 h-2 bg-qivr-blue rounded-full" aria-label="Unread" />}
+          {hasLink && <ChevronRight className="w-4 h-4 text-gray-400" />}
+        </div>
+      </button>
+    </div>
+  );
+}
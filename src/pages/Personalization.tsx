@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { ArrowLeft, Bell, Video, FileText, Image as ImageIcon, Clock } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { detectTimeZone, saveReminderPreferences } from '../lib/reminders';
 
 interface PersonalizationProps {
   onBack: () => void;
@@ -8,7 +9,7 @@ interface PersonalizationProps {
 }
 
 export function Personalization({ onBack, onComplete }: PersonalizationProps) {
-  const { updateProfile } = useAuth();
+  const { user, updateProfile } = useAuth();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     notificationPreferences: { push: true, email: true, sms: false },
@@ -38,7 +39,14 @@ export function Personalization({ onBack, onComplete }: PersonalizationProps) {
         notification_preferences: formData.notificationPreferences,
         preferred_content_format: formData.preferredContentFormat,
         activity_level_goal: formData.activityLevelGoal,
+        time_zone: detectTimeZone(),
       });
+      if (user) {
+        await saveReminderPreferences(user.id, {
+          ...formData.notificationPreferences,
+          reminderTime: formData.reminderTime,
+        });
+      }
       onComplete();
     } catch (err) {
       console.error('Failed to update preferences:', err);
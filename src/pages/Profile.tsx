@@ -1,15 +1,11 @@
-import { useState } from 'react';
-import { LogOut, User, Bell, HelpCircle, FileText, Shield } from 'lucide-react';
+import { LogOut, User, Bell, HelpCircle, FileText, Shield, Pill, Calendar, ShieldCheck, Stethoscope } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { EditProfile } from './EditProfile';
-import { NotificationSettings } from './NotificationSettings';
-import { MedicalRecords } from './MedicalRecords';
-
-type ProfileSection = 'main' | 'edit-profile' | 'notifications' | 'medical-records';
+import { useRouter } from '../contexts/RouterContext';
+import { paths } from '../lib/routes';
 
 export function Profile() {
-  const { profile, signOut } = useAuth();
-  const [activeSection, setActiveSection] = useState<ProfileSection>('main');
+  const { profile, clinician, signOut } = useAuth();
+  const { navigate } = useRouter();
 
   const handleSignOut = async () => {
     try {
@@ -20,25 +16,17 @@ export function Profile() {
   };
 
   const menuItems = [
-    { icon: User, label: 'Edit Profile', action: () => setActiveSection('edit-profile') },
-    { icon: Bell, label: 'Notifications', action: () => setActiveSection('notifications') },
-    { icon: FileText, label: 'Medical Records', action: () => setActiveSection('medical-records') },
+    { icon: User, label: 'Edit Profile', action: () => navigate(paths.editProfile) },
+    { icon: Bell, label: 'Notifications', action: () => navigate(paths.notificationSettings) },
+    { icon: FileText, label: 'Medical Records', action: () => navigate(paths.medicalRecords) },
+    { icon: Pill, label: 'Medications', action: () => navigate(paths.medications) },
+    { icon: Calendar, label: 'Appointments', action: () => navigate(paths.appointments) },
+    { icon: ShieldCheck, label: 'Data Sharing', action: () => navigate(paths.dataSharing) },
+    ...(clinician ? [{ icon: Stethoscope, label: 'Clinician Portal', action: () => navigate(paths.clinician) }] : []),
     { icon: HelpCircle, label: 'Help & Support', action: () => {} },
     { icon: Shield, label: 'Privacy Policy', action: () => {} },
   ];
 
-  if (activeSection === 'edit-profile') {
-    return <EditProfile onBack={() => setActiveSection('main')} />;
-  }
-
-  if (activeSection === 'notifications') {
-    return <NotificationSettings onBack={() => setActiveSection('main')} />;
-  }
-
-  if (activeSection === 'medical-records') {
-    return <MedicalRecords onBack={() => setActiveSection('main')} />;
-  }
-
   return (
     <div className="min-h-screen bg-[#F8FAFB] pb-24">
       <div className="bg-gradient-to-br from-qivr-blue to-qivr-blue-light px-6 py-12 text-white">
@@ -107,7 +95,6 @@ export function Profile() {
 
         <div className="text-center text-xs text-gray-500 mt-6">
           <p>Qivr v1.0</p>
-          <p className="mt-1">Genspark Agent: 92dacb25-f2da-4a96-a4c5-a2b1be8aac66</p>
         </div>
       </div>
     </div>
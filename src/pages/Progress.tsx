@@ -1,28 +1,44 @@
 import { useState, useEffect } from 'react';
-import { TrendingDown, TrendingUp, Award, Calendar, Plus, Activity, Target, BarChart3, Users } from 'lucide-react';
+import { TrendingDown, TrendingUp, Award, Calendar, Plus, Activity, Target, BarChart3, Users, Share2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
 import { supabase } from '../lib/supabase';
-import { ODIAssessment } from '../components/ODIAssessment';
 import { calculateAnalytics, getBenchmarkComparison } from '../lib/analytics';
-
-interface ODIAssessmentData {
+import { paths } from '../lib/routes';
+import { localDateString } from '../lib/dates';
+import { SubmissionSyncStatus } from '../components/SubmissionSyncStatus';
+import { PainMedicationCard } from '../components/PainMedicationCard';
+import { ShareProgressReportModal } from '../components/ShareProgressReportModal';
+import { PromHistoryCard } from '../components/PromHistoryCard';
+import { EQ5DHistoryCard } from '../components/EQ5DHistoryCard';
+import { buildProgressReport } from '../lib/progressReport';
+import {
+  PromInstrument,
+  PromResponse,
+  isDisabilityIndex,
+  loadDefaultInstrumentId,
+  loadInstrument,
+  loadPromResponses,
+} from '../lib/proms';
+import { EQ5DAssessment, EQ5DValueSet, defaultValueSet, loadEQ5DAssessments, loadValueSets, valueSetNotice } from '../lib/eq5d';
+import {
+  DisabilityIndex,
+  disabilityIndexes,
+  disabilityIndexForCondition,
+  getDisabilityBand,
+  getDisabilityBandByLevel,
+} from '../lib/disabilityIndex';
+
+// Section columns differ between instruments, so they are read by name from the definition.
+interface DisabilityAssessmentData {
   id: string;
   assessment_date: string;
-  pain_intensity: number;
-  personal_care: number;
-  lifting: number;
-  walking: number;
-  sitting: number;
-  standing: number;
-  sleeping: number;
-  sex_life: number;
-  social_life: number;
-  traveling: number;
   total_score: number;
   percentage_score: number;
   disability_level: string;
   is_baseline?: boolean;
   created_at: string;
+  [section: string]: string | number | boolean | undefined;
 }
 
 interface AnalyticsData {
@@ -41,47 +57,96 @@ interface BenchmarkData {
 
 export function Progress() {
   const { user, profile } = useAuth();
-  const [odiAssessments, setOdiAssessments] = useState<ODIAssessmentData[]>([]);
+  const { navigate } = useRouter();
+  const [instrument, setInstrument] = useState<DisabilityIndex>(disabilityIndexForCondition(profile?.condition));
+  const [assessments, setAssessments] = useState<DisabilityAssessmentData[]>([]);
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [benchmark, setBenchmark] = useState<BenchmarkData | null>(null);
   const [timeRange, setTimeRange] = useState<'week' | 'month' | '3months' | 'all'>('3months');
   const [loading, setLoading] = useState(true);
-  const [showODIAssessment, setShowODIAssessment] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showShareReport, setShowShareReport] = useState(false);
+  const [promInstrument, setPromInstrument] = useState<PromInstrument | null>(null);
+  const [promResponses, setPromResponses] = useState<PromResponse[]>([]);
+  const [eq5dAssessments, setEQ5DAssessments] = useState<EQ5DAssessment[]>([]);
+  const [valueSets, setValueSets] = useState<EQ5DValueSet[]>([]);
+  const [valueSetId, setValueSetId] = useState<string | null>(null);
+
+  const definition = disabilityIndexes[instrument];
+  const valueSet = valueSets.find(option => option.id === valueSetId) ?? defaultValueSet(valueSets);
+  const newAssessmentPath = instrument === 'ndi' ? paths.newNDIAssessment : paths.newODIAssessment;
+
+  // Conditions with their own questionnaire show it above the ODI/NDI history.
+  useEffect(() => {
+    if (!user) return;
+    let active = true;
+
+    const loadQuestionnaire = async () => {
+      const instrumentId = await loadDefaultInstrumentId(profile?.condition);
+      const loaded = isDisabilityIndex(instrumentId) ? null : await loadInstrument(instrumentId);
+      const responses = loaded ? await loadPromResponses(user.id, loaded.id) : [];
+      if (!active) return;
+      setPromInstrument(loaded);
+      setPromResponses(responses);
+    };
+
+    loadQuestionnaire().catch(error => console.error('Error loading questionnaire:', error));
+
+    return () => {
+      active = false;
+    };
+  }, [user, profile?.condition]);
 
   useEffect(() => {
-    loadData();
+    if (!user) return;
+    let active = true;
+
+    Promise.all([loadEQ5DAssessments(user.id), loadValueSets()])
+      .then(([loadedAssessments, loadedValueSets]) => {
+        if (!active) return;
+        setEQ5DAssessments(loadedAssessments);
+        setValueSets(loadedValueSets);
+      })
+      .catch(error => console.error('Error loading EQ-5D-5L data:', error));
+
+    return () => {
+      active = false;
+    };
   }, [user]);
 
+  useEffect(() => {
+    loadData();
+  }, [user, instrument]);
+
   const loadData = async () => {
-    await loadODIAssessments();
+    await loadAssessments();
     await loadAnalytics();
     await loadBenchmark();
   };
 
   const generateDemoData = () => {
     const today = new Date();
-    const demoData: ODIAssessmentData[] = [];
+    const demoData: DisabilityAssessmentData[] = [];
 
     const baselineDate = new Date(today);
     baselineDate.setDate(today.getDate() - 90);
 
     const scores = [
-      { days: 0, score: 68, level: 'crippled' },
-      { days: 7, score: 64, level: 'crippled' },
-      { days: 14, score: 58, level: 'severe' },
-      { days: 21, score: 54, level: 'severe' },
-      { days: 28, score: 48, level: 'severe' },
-      { days: 35, score: 44, level: 'severe' },
-      { days: 42, score: 38, level: 'moderate' },
-      { days: 49, score: 36, level: 'moderate' },
-      { days: 56, score: 32, level: 'moderate' },
-      { days: 63, score: 28, level: 'moderate' },
-      { days: 70, score: 26, level: 'moderate' },
-      { days: 77, score: 22, level: 'moderate' },
-      { days: 84, score: 20, level: 'minimal' },
-      { days: 90, score: 18, level: 'minimal' },
+      { days: 0, score: 68 },
+      { days: 7, score: 64 },
+      { days: 14, score: 58 },
+      { days: 21, score: 54 },
+      { days: 28, score: 48 },
+      { days: 35, score: 44 },
+      { days: 42, score: 38 },
+      { days: 49, score: 36 },
+      { days: 56, score: 32 },
+      { days: 63, score: 28 },
+      { days: 70, score: 26 },
+      { days: 77, score: 22 },
+      { days: 84, score: 20 },
+      { days: 90, score: 18 },
     ];
 
     scores.forEach((point, index) => {
@@ -92,20 +157,11 @@ export function Progress() {
 
       demoData.push({
         id: `demo-${index}`,
-        assessment_date: assessmentDate.toISOString().split('T')[0],
-        pain_intensity: scorePerSection,
-        personal_care: scorePerSection,
-        lifting: scorePerSection,
-        walking: scorePerSection,
-        sitting: scorePerSection,
-        standing: scorePerSection,
-        sleeping: scorePerSection,
-        sex_life: scorePerSection,
-        social_life: scorePerSection,
-        traveling: scorePerSection,
+        assessment_date: localDateString(assessmentDate),
+        ...Object.fromEntries(definition.sections.map(section => [section.name, scorePerSection])),
         total_score: point.score / 2,
         percentage_score: point.score,
-        disability_level: point.level,
+        disability_level: getDisabilityBand(instrument, point.score).level,
         is_baseline: index === 0,
         created_at: assessmentDate.toISOString(),
       });
@@ -114,13 +170,13 @@ export function Progress() {
     return demoData;
   };
 
-  const loadODIAssessments = async () => {
+  const loadAssessments = async () => {
     if (!user) return;
 
     try {
       setLoading(true);
       const { data, error } = await supabase
-        .from('odi_assessments')
+        .from(definition.table)
         .select('*')
         .eq('patient_id', user.id)
         .order('assessment_date', { ascending: true });
@@ -128,13 +184,13 @@ export function Progress() {
       if (error) throw error;
 
       if (data && data.length > 0) {
-        setOdiAssessments(data);
+        setAssessments(data);
       } else {
-        setOdiAssessments(generateDemoData());
+        setAssessments(generateDemoData());
       }
     } catch (error) {
-      console.error('Error loading ODI assessments:', error);
-      setOdiAssessments(generateDemoData());
+      console.error(`Error loading ${definition.shortName} assessments:`, error);
+      setAssessments(generateDemoData());
     } finally {
       setLoading(false);
     }
@@ -144,17 +200,22 @@ export function Progress() {
     if (!user) return;
 
     try {
-      const analyticsData = await calculateAnalytics(user.id);
+      const analyticsData = await calculateAnalytics(user.id, instrument);
       setAnalytics(analyticsData);
     } catch (error) {
       console.error('Error loading analytics:', error);
     }
   };
 
+  // Population benchmarks are ODI scores, so they mean nothing next to another instrument.
   const loadBenchmark = async () => {
+    if (instrument !== 'odi') {
+      setBenchmark(null);
+      return;
+    }
     if (!user || !profile) return;
 
-    const latestAssessment = odiAssessments[odiAssessments.length - 1];
+    const latestAssessment = assessments[assessments.length - 1];
     if (!latestAssessment) return;
 
     const treatmentType = profile.treatment_type === 'post_surgery' ? 'post_surgery' : 'conservative';
@@ -182,7 +243,7 @@ export function Progress() {
     };
 
     const days = ranges[timeRange];
-    return odiAssessments.filter(d => {
+    return assessments.filter(d => {
       const date = new Date(d.assessment_date);
       const diffTime = now.getTime() - date.getTime();
       const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
@@ -192,43 +253,20 @@ export function Progress() {
 
   const filteredData = getFilteredData();
 
-  const latestAssessment = odiAssessments[odiAssessments.length - 1];
-  const previousAssessment = odiAssessments[odiAssessments.length - 2];
+  const latestAssessment = assessments[assessments.length - 1];
+  const previousAssessment = assessments[assessments.length - 2];
+
+  // Demo assessments fill the charts for new patients but must never be sent to a clinician.
+  const recordedAssessments = assessments.filter(a => !a.id.startsWith('demo-'));
+  const hasRecordedAssessments = recordedAssessments.length > 0
+    || promResponses.some(response => response.score !== null)
+    || eq5dAssessments.length > 0;
 
   const scoreTrend = latestAssessment && previousAssessment
     ? latestAssessment.percentage_score - previousAssessment.percentage_score
     : 0;
 
-  const getDisabilityLabel = (level: string) => {
-    const labels: Record<string, { label: string; color: string }> = {
-      minimal: { label: 'Minimal Disability', color: 'text-green-700 bg-green-100' },
-      moderate: { label: 'Moderate Disability', color: 'text-yellow-700 bg-yellow-100' },
-      severe: { label: 'Severe Disability', color: 'text-orange-700 bg-orange-100' },
-      crippled: { label: 'Crippled', color: 'text-red-700 bg-red-100' },
-      bed_bound: { label: 'Bed-Bound', color: 'text-red-900 bg-red-200' },
-    };
-    return labels[level] || labels.minimal;
-  };
-
-  const getDisabilityColor = (percentage: number) => {
-    if (percentage <= 20) return 'bg-green-500';
-    if (percentage <= 40) return 'bg-yellow-500';
-    if (percentage <= 60) return 'bg-orange-500';
-    if (percentage <= 80) return 'bg-red-500';
-    return 'bg-red-700';
-  };
-
-  if (showODIAssessment) {
-    return (
-      <ODIAssessment
-        onComplete={(score) => {
-          setShowODIAssessment(false);
-          loadODIAssessments();
-        }}
-        onCancel={() => setShowODIAssessment(false)}
-      />
-    );
-  }
+  const getDisabilityColor = (percentage: number) => getDisabilityBand(instrument, percentage).barColor;
 
   if (loading) {
     return (
@@ -248,21 +286,54 @@ export function Progress() {
       </div>
 
       <div className="p-6 space-y-6">
-        {odiAssessments.length === 0 ? (
+        <SubmissionSyncStatus />
+
+        {promInstrument && (
+          <PromHistoryCard
+            instrument={promInstrument}
+            responses={promResponses}
+            onTakeAssessment={() => navigate(paths.newPromAssessment(promInstrument.id))}
+          />
+        )}
+
+        <EQ5DHistoryCard
+          assessments={eq5dAssessments}
+          valueSets={valueSets}
+          valueSet={valueSet}
+          onValueSetChange={setValueSetId}
+        />
+
+        <div className="flex space-x-2">
+          {Object.values(disabilityIndexes).map(option => (
+            <button
+              key={option.id}
+              onClick={() => setInstrument(option.id)}
+              className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+                instrument === option.id
+                  ? 'bg-qivr-blue text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:border-qivr-blue'
+              }`}
+            >
+              {option.shortName} <span className="text-xs opacity-75">({option.region})</span>
+            </button>
+          ))}
+        </div>
+
+        {assessments.length === 0 ? (
           <div className="text-center py-12">
             <div className="w-20 h-20 bg-gradient-to-br from-qivr-blue to-qivr-blue-light rounded-full flex items-center justify-center mx-auto mb-4">
               <Activity className="w-10 h-10 text-white" />
             </div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">Track Your Recovery Progress</h3>
             <p className="text-gray-600 mb-6 max-w-md mx-auto">
-              Start measuring your recovery with the Oswestry Disability Index (ODI), a validated tool for tracking spinal condition outcomes.
+              Start measuring your recovery with the {definition.name} ({definition.shortName}), a validated tool for tracking {definition.region} condition outcomes.
             </p>
             <button
-              onClick={() => setShowODIAssessment(true)}
+              onClick={() => navigate(newAssessmentPath)}
               className="bg-qivr-blue text-white px-6 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors inline-flex items-center space-x-2"
             >
               <Plus className="w-5 h-5" />
-              <span>Take Your First ODI Assessment</span>
+              <span>Take Your First {definition.shortName} Assessment</span>
             </button>
           </div>
         ) : (
@@ -270,7 +341,7 @@ export function Progress() {
             <div className="bg-gradient-to-br from-qivr-blue to-qivr-blue-light rounded-2xl p-6 text-white">
               <div className="flex items-center justify-between mb-4">
                 <div>
-                  <h2 className="text-lg font-semibold mb-1">Current ODI Score</h2>
+                  <h2 className="text-lg font-semibold mb-1">Current {definition.shortName} Score</h2>
                   <p className="text-sm opacity-90">
                     {latestAssessment && new Date(latestAssessment.assessment_date).toLocaleDateString('en-US', {
                       month: 'short',
@@ -329,7 +400,7 @@ export function Progress() {
                 <div className="text-center">
                   <div className="inline-block px-4 py-2 bg-white/20 rounded-lg backdrop-blur">
                     <span className="font-semibold">
-                      {getDisabilityLabel(latestAssessment.disability_level).label}
+                      {getDisabilityBandByLevel(instrument, latestAssessment.disability_level).label}
                     </span>
                   </div>
                   {scoreTrend < 0 && (
@@ -358,7 +429,7 @@ export function Progress() {
             </div>
 
             <div className="bg-white rounded-2xl p-6 border border-gray-200">
-              <h2 className="text-lg font-semibold text-[#1F2937] mb-4">ODI Score Trend</h2>
+              <h2 className="text-lg font-semibold text-[#1F2937] mb-4">{definition.shortName} Score Trend</h2>
 
               {filteredData.length > 0 ? (
                 <>
@@ -383,22 +454,12 @@ export function Progress() {
                   </div>
 
                   <div className="grid grid-cols-2 gap-2 text-xs">
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-3 bg-green-500 rounded"></div>
-                      <span>Minimal (0-20%)</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-3 bg-yellow-500 rounded"></div>
-                      <span>Moderate (21-40%)</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-3 bg-orange-500 rounded"></div>
-                      <span>Severe (41-60%)</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-3 bg-red-500 rounded"></div>
-                      <span>Crippled (61-80%)</span>
-                    </div>
+                    {definition.bands.map((band, index) => (
+                      <div key={band.level} className="flex items-center space-x-2">
+                        <div className={`w-3 h-3 ${band.barColor} rounded`}></div>
+                        <span>{band.label} ({index === 0 ? 0 : definition.bands[index - 1].max + 1}-{band.max}%)</span>
+                      </div>
+                    ))}
                   </div>
                 </>
               ) : (
@@ -408,6 +469,8 @@ export function Progress() {
               )}
             </div>
 
+            <PainMedicationCard />
+
             {analytics && showAnalytics && (
               <>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -422,7 +485,7 @@ export function Progress() {
                           {analytics.timeToMCID} days
                         </div>
                         <p className="text-sm text-gray-600">
-                          You achieved meaningful improvement (10-point ODI reduction) in {Math.floor(analytics.timeToMCID / 7)} weeks
+                          You achieved meaningful improvement ({definition.mcidThreshold}-point {definition.shortName} reduction) in {Math.floor(analytics.timeToMCID / 7)} weeks
                         </p>
                       </>
                     ) : (
@@ -526,18 +589,10 @@ export function Progress() {
               <div className="bg-white rounded-2xl p-6 border border-gray-200">
                 <h2 className="text-lg font-semibold text-[#1F2937] mb-4">Latest Assessment Breakdown</h2>
                 <div className="space-y-3">
-                  {[
-                    { label: 'Pain Intensity', value: latestAssessment.pain_intensity },
-                    { label: 'Personal Care', value: latestAssessment.personal_care },
-                    { label: 'Lifting', value: latestAssessment.lifting },
-                    { label: 'Walking', value: latestAssessment.walking },
-                    { label: 'Sitting', value: latestAssessment.sitting },
-                    { label: 'Standing', value: latestAssessment.standing },
-                    { label: 'Sleeping', value: latestAssessment.sleeping },
-                    { label: 'Sex Life', value: latestAssessment.sex_life },
-                    { label: 'Social Life', value: latestAssessment.social_life },
-                    { label: 'Traveling', value: latestAssessment.traveling },
-                  ].map((section, index) => (
+                  {definition.sections.map(({ name, title }) => ({
+                    label: title.replace(/ \(.*\)$/, ''),
+                    value: Number(latestAssessment[name]),
+                  })).map((section, index) => (
                     <div key={index} className="flex items-center">
                       <span className="text-sm text-gray-700 w-32">{section.label}</span>
                       <div className="flex-1 bg-gray-200 rounded-full h-2 mx-3">
@@ -572,17 +627,27 @@ export function Progress() {
             </div>
 
             <button
-              onClick={() => setShowODIAssessment(true)}
+              onClick={() => navigate(newAssessmentPath)}
               className="w-full bg-qivr-blue text-white py-4 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
             >
               <Plus className="w-5 h-5" />
-              <span>Take New ODI Assessment</span>
+              <span>Take New {definition.shortName} Assessment</span>
             </button>
 
+            {hasRecordedAssessments && (
+              <button
+                onClick={() => setShowShareReport(true)}
+                className="w-full bg-white border border-qivr-blue text-qivr-blue py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue/5 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Share2 className="w-5 h-5" />
+                <span>Share Progress Report</span>
+              </button>
+            )}
+
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <h3 className="font-semibold text-blue-900 mb-2">Why Track Your Progress with ODI?</h3>
+              <h3 className="font-semibold text-blue-900 mb-2">Why Track Your Progress with {definition.shortName}?</h3>
               <p className="text-sm text-blue-800 mb-2">
-                The Oswestry Disability Index is a validated tool that measures how your spinal condition affects your daily activities. Regular tracking helps you and your healthcare team:
+                The {definition.name} is a validated tool that measures how your {definition.region} condition affects your daily activities. Regular tracking helps you and your healthcare team:
               </p>
               <ul className="text-sm text-blue-800 space-y-1 ml-4 list-disc">
                 <li>Make informed decisions about your treatment</li>
@@ -594,6 +659,20 @@ export function Progress() {
           </>
         )}
       </div>
+
+      {showShareReport && (
+        <ShareProgressReportModal
+          report={buildProgressReport(
+            profile?.full_name || 'Patient',
+            recordedAssessments,
+            recordedAssessments.length > 0 ? analytics : null,
+            instrument,
+            { assessments: eq5dAssessments, valueSet, notice: valueSetNotice(valueSet, valueSets) },
+            promInstrument ? { instrument: promInstrument, responses: promResponses } : undefined
+          )}
+          onClose={() => setShowShareReport(false)}
+        />
+      )}
     </div>
   );
 }
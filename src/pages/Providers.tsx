@@ -1,77 +1,170 @@
 import { useState, useEffect } from 'react';
-import { Search, Phone, Mail, MapPin, Globe, Filter, X, Check, Calendar, ChevronRight, FileText } from 'lucide-react';
+import { Search, Phone, Mail, MapPin, Globe, Filter, Check, Calendar, ChevronRight, FileText, ChevronDown, Pencil, XCircle, RotateCcw, ClipboardList, X, LocateFixed, Navigation, List, Map as MapIcon, Bookmark, Heart, Star, Users, Trash2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-
-interface Provider {
-  id: string;
-  provider_name: string;
-  specialty: string;
-  practice_name: string;
-  phone_number: string;
-  email: string;
-  address: string;
-  city: string;
-  state: string;
-  zip_code: string;
-  website_url: string;
-  accepts_new_patients: boolean;
-  insurance_accepted: string[];
-  languages_spoken: string[];
-  subspecialty: string;
-  notes: string;
-}
+import { useRouter } from '../contexts/RouterContext';
+import { paths } from '../lib/routes';
+import { localDateString } from '../lib/dates';
+import { PromInstrument, isDisabilityIndex, loadDefaultInstrumentId, loadInstrument, promImprovement } from '../lib/proms';
+import {
+  Provider,
+  ProviderFilterOptions,
+  ProviderFilterPreset,
+  ProviderFilters,
+  countActiveFilters,
+  deleteFilterPreset,
+  emptyProviderFilters,
+  getSpecialtyLabel,
+  loadFilterPresets,
+  loadProviderFilterOptions,
+  saveFilterPreset,
+  searchProviders,
+  specialtyOptions,
+} from '../lib/providers';
+import {
+  Referral,
+  ReferralEvent,
+  ReferralOutcome,
+  cancelReferral,
+  canTransition,
+  describeReferralEvent,
+  isClosed,
+  loadReferralEvents,
+  loadReferralOutcomes,
+  loadReferrals as fetchReferrals,
+  referralStatusLabels,
+  updateReferral,
+} from '../lib/referrals';
+import {
+  CareTeamMember,
+  addToCareTeam,
+  careTeamRoleOptions,
+  getCareTeamRoleLabel,
+  loadCareTeam,
+  removeFromCareTeam,
+  setPrimaryContact,
+  sortCareTeam,
+  updateCareTeamMember,
+} from '../lib/careTeam';
+import { SearchOrigin, distanceKm, formatDistance, geocodePostcode, getBrowserLocation, hasLocation, radiusOptions } from '../lib/geo';
+import { ReferralModal } from '../components/ReferralModal';
+import { ProviderMap } from '../components/ProviderMap';
+
+type ReferralDialog =
+  | { kind: 'schedule' | 'edit' | 'complete'; referral: Referral }
+  | { kind: 'cancel'; referral: Referral }
+  | { kind: 'completed'; referral: Referral };
 
-interface Referral {
-  id: string;
-  provider_id: string;
-  referral_date: string;
-  referral_reason: string;
-  status: string;
-  appointment_date: string | null;
-  notes: string;
-  provider?: Provider;
+interface ProvidersProps {
+  view: 'browse' | 'care-team' | 'my-referrals';
+  highlightedReferralId?: string;
 }
 
-export function Providers() {
-  const { user } = useAuth();
+export function Providers({ view, highlightedReferralId }: ProvidersProps) {
+  const { user, profile } = useAuth();
+  const { navigate } = useRouter();
   const [providers, setProviders] = useState<Provider[]>([]);
+  const [totalProviders, setTotalProviders] = useState(0);
   const [referrals, setReferrals] = useState<Referral[]>([]);
-  const [filteredProviders, setFilteredProviders] = useState<Provider[]>([]);
+  const [careTeam, setCareTeam] = useState<CareTeamMember[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedSpecialty, setSelectedSpecialty] = useState<string>('all');
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [filters, setFilters] = useState<ProviderFilters>(emptyProviderFilters);
+  const [filterOptions, setFilterOptions] = useState<ProviderFilterOptions | null>(null);
+  const [presets, setPresets] = useState<ProviderFilterPreset[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null);
   const [showReferralModal, setShowReferralModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'browse' | 'my-referrals'>('browse');
+  const [reReferral, setReReferral] = useState<Referral | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<string, ReferralOutcome>>({});
+  const [reassessment, setReassessment] = useState<PromInstrument | null>(null);
+  const [dialog, setDialog] = useState<ReferralDialog | null>(null);
+  const [origin, setOrigin] = useState<SearchOrigin | null>(null);
+  const [radiusKm, setRadiusKm] = useState<number | null>(null);
+  const [postcode, setPostcode] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState('');
+  const [layout, setLayout] = useState<'list' | 'map'>('list');
+  const [mapSelection, setMapSelection] = useState<Provider | null>(null);
 
   useEffect(() => {
     loadData();
   }, [user]);
 
+  // Typing is debounced so each keystroke doesn't become a query; a newer search discards older results.
   useEffect(() => {
-    filterProviders();
-  }, [providers, searchQuery, selectedSpecialty]);
+    let active = true;
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const result = await searchProviders(filters, { near: origin, radiusKm, limit: PROVIDER_PAGE_SIZE });
+        if (!active) return;
+        setProviders(result.providers);
+        setTotalProviders(result.total);
+      } catch (error) {
+        console.error('Error searching providers:', error);
+      } finally {
+        if (active) {
+          setSearching(false);
+          setLoading(false);
+        }
+      }
+    }, filters.query ? SEARCH_DEBOUNCE_MS : 0);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [filters, origin, radiusKm]);
+
+  useEffect(() => {
+    if (!loading && highlightedReferralId) {
+      document.getElementById(`referral-${highlightedReferralId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [loading, highlightedReferralId, referrals]);
 
   const loadData = async () => {
-    await Promise.all([loadProviders(), loadReferrals()]);
+    await Promise.all([loadReferrals(), loadFilters(), loadCareTeamMembers()]);
+  };
+
+  const loadCareTeamMembers = async () => {
+    if (!user) return;
+
+    try {
+      setCareTeam(await loadCareTeam(user.id));
+    } catch (error) {
+      console.error('Error loading care team:', error);
+    }
   };
 
-  const loadProviders = async () => {
+  const loadFilters = async () => {
     try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('healthcare_providers')
-        .select('*')
-        .order('provider_name', { ascending: true });
-
-      if (error) throw error;
-      if (data) setProviders(data);
+      const [options, savedPresets] = await Promise.all([
+        loadProviderFilterOptions(),
+        user ? loadFilterPresets(user.id) : Promise.resolve([]),
+      ]);
+      setFilterOptions(options);
+      setPresets(savedPresets);
     } catch (error) {
-      console.error('Error loading providers:', error);
+      console.error('Error loading provider filters:', error);
+    }
+  };
+
+  const loadMoreProviders = async () => {
+    try {
+      setLoadingMore(true);
+      const result = await searchProviders(filters, {
+        near: origin,
+        radiusKm,
+        offset: providers.length,
+        limit: PROVIDER_PAGE_SIZE,
+      });
+      setProviders([...providers, ...result.providers]);
+      setTotalProviders(result.total);
+    } catch (error) {
+      console.error('Error loading more providers:', error);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
   };
 
@@ -79,67 +172,150 @@ export function Providers() {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('patient_referrals')
-        .select(`
-          *,
-          provider:healthcare_providers(*)
-        `)
-        .eq('patient_id', user.id)
-        .order('referral_date', { ascending: false });
-
-      if (error) throw error;
-      if (data) setReferrals(data);
+      const data = await fetchReferrals(user.id);
+      setReferrals(data);
+      // Reassessments use the patient's own questionnaire, so a knee patient isn't asked about their lower back.
+      const instrument = await loadInstrument(await loadDefaultInstrumentId(profile?.condition));
+      setReassessment(instrument);
+      if (instrument) setOutcomes(await loadReferralOutcomes(user.id, data, instrument));
     } catch (error) {
       console.error('Error loading referrals:', error);
     }
   };
 
-  const filterProviders = () => {
-    let filtered = [...providers];
-
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        p =>
-          p.provider_name.toLowerCase().includes(query) ||
-          p.practice_name.toLowerCase().includes(query) ||
-          p.city.toLowerCase().includes(query) ||
-          p.subspecialty?.toLowerCase().includes(query)
-      );
+  const toggleSpecialty = (specialty: string) => {
+    setFilters(current => ({ ...current, specialties: toggleValue(current.specialties, specialty) }));
+  };
+
+  const handleSavePreset = async (name: string) => {
+    if (!user) return;
+
+    try {
+      // The search text is left out, so a preset can be combined with whatever is typed.
+      const saved = await saveFilterPreset(user.id, name, { ...filters, query: '' });
+      setPresets([...presets.filter(preset => preset.name !== saved.name), saved]);
+    } catch (error) {
+      console.error('Error saving filter preset:', error);
+      alert('Failed to save filter preset');
     }
+  };
 
-    if (selectedSpecialty !== 'all') {
-      filtered = filtered.filter(p => p.specialty === selectedSpecialty);
+  const handleDeletePreset = async (preset: ProviderFilterPreset) => {
+    if (!confirm(`Delete the "${preset.name}" preset?`)) return;
+
+    try {
+      await deleteFilterPreset(preset.id);
+      setPresets(presets.filter(p => p.id !== preset.id));
+    } catch (error) {
+      console.error('Error deleting filter preset:', error);
+      alert('Failed to delete filter preset');
     }
+  };
+
+  const careTeamMemberFor = (provider: Provider) =>
+    careTeam.find(member => member.provider_id === provider.id);
+
+  const toggleFavourite = async (provider: Provider) => {
+    if (!user) return;
 
-    setFilteredProviders(filtered);
+    const member = careTeamMemberFor(provider);
+    try {
+      if (member) {
+        if (member.notes && !confirm(`Remove ${provider.provider_name} from your care team? Your notes will be deleted.`)) return;
+        await removeFromCareTeam(member.id);
+        setCareTeam(careTeam.filter(m => m.id !== member.id));
+      } else {
+        const added = await addToCareTeam(user.id, provider);
+        setCareTeam(sortCareTeam([...careTeam, added]));
+      }
+    } catch (error) {
+      console.error('Error updating care team:', error);
+      alert('Failed to update care team');
+    }
   };
 
-  const specialties = [
-    { value: 'all', label: 'All Specialties' },
-    { value: 'orthopedic_surgeon', label: 'Orthopedic Surgeon' },
-    { value: 'physical_therapist', label: 'Physical Therapist' },
-    { value: 'pain_specialist', label: 'Pain Specialist' },
-    { value: 'neurosurgeon', label: 'Neurosurgeon' },
-    { value: 'sports_medicine', label: 'Sports Medicine' },
-    { value: 'chiropractor', label: 'Chiropractor' },
-    { value: 'imaging_radiology', label: 'Imaging & Radiology' },
-  ];
+  const handleUpdateMember = async (
+    member: CareTeamMember,
+    changes: Partial<Pick<CareTeamMember, 'role' | 'notes' | 'receives_reports'>>
+  ) => {
+    try {
+      await updateCareTeamMember(member.id, changes);
+      setCareTeam(careTeam.map(m => (m.id === member.id ? { ...m, ...changes } : m)));
+    } catch (error) {
+      console.error('Error updating care team member:', error);
+      alert('Failed to update care team member');
+    }
+  };
+
+  const handleSetPrimary = async (member: CareTeamMember) => {
+    if (!user) return;
 
-  const getSpecialtyLabel = (specialty: string) => {
-    const found = specialties.find(s => s.value === specialty);
-    return found?.label || specialty.replace('_', ' ');
+    // Tapping the current primary again clears it.
+    const primaryId = member.is_primary ? null : member.id;
+    try {
+      await setPrimaryContact(user.id, primaryId);
+      setCareTeam(sortCareTeam(careTeam.map(m => ({ ...m, is_primary: m.id === primaryId }))));
+    } catch (error) {
+      console.error('Error setting primary contact:', error);
+      alert('Failed to set primary contact');
+    }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending: 'bg-yellow-100 text-yellow-800',
-      scheduled: 'bg-blue-100 text-blue-800',
-      completed: 'bg-green-100 text-green-800',
-      cancelled: 'bg-gray-100 text-gray-800',
-    };
-    return colors[status] || 'bg-gray-100 text-gray-800';
+  const distanceFromOrigin = (provider: Provider) =>
+    origin && hasLocation(provider) ? distanceKm(origin, provider) : undefined;
+
+  const requestReferral = (provider: Provider) => {
+    setSelectedProvider(provider);
+    setShowReferralModal(true);
+  };
+
+  const locateMe = async () => {
+    try {
+      setLocating(true);
+      setLocationError('');
+      setOrigin(await getBrowserLocation());
+      setPostcode('');
+    } catch (error) {
+      console.error('Error getting location:', error);
+      setLocationError(error instanceof Error ? error.message : 'Could not find your location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const searchPostcode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!postcode.trim()) return;
+
+    try {
+      setLocating(true);
+      setLocationError('');
+      const result = await geocodePostcode(postcode);
+      if (result) {
+        setOrigin(result);
+      } else {
+        setLocationError(`Couldn't find ${postcode.trim()}`);
+      }
+    } catch (error) {
+      console.error('Error looking up postcode:', error);
+      setLocationError('Postcode lookup is unavailable right now');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const clearOrigin = () => {
+    setOrigin(null);
+    setRadiusKm(null);
+    setPostcode('');
+    setLocationError('');
+  };
+
+  const activeFilterCount = countActiveFilters(filters);
+
+  const handleDialogSaved = async (saved: ReferralDialog) => {
+    setDialog(saved.kind === 'complete' ? { kind: 'completed', referral: saved.referral } : null);
+    await loadReferrals();
   };
 
   if (loading) {
@@ -162,49 +338,75 @@ export function Providers() {
 
       <div className="p-6 space-y-6">
         <div className="flex space-x-2">
-          <button
-            onClick={() => setActiveTab('browse')}
-            className={`flex-1 py-3 px-4 rounded-lg font-medium transition-colors ${
-              activeTab === 'browse'
-                ? 'bg-qivr-blue text-white'
-                : 'bg-white text-gray-700 border border-gray-300'
-            }`}
-          >
-            Browse Providers
-          </button>
-          <button
-            onClick={() => setActiveTab('my-referrals')}
-            className={`flex-1 py-3 px-4 rounded-lg font-medium transition-colors ${
-              activeTab === 'my-referrals'
-                ? 'bg-qivr-blue text-white'
-                : 'bg-white text-gray-700 border border-gray-300'
-            }`}
-          >
-            My Referrals ({referrals.length})
-          </button>
+          {([
+            { view: 'browse', path: paths.providers, label: 'Browse' },
+            { view: 'care-team', path: paths.careTeam, label: `Care Team (${careTeam.length})` },
+            { view: 'my-referrals', path: paths.referrals, label: `Referrals (${referrals.length})` },
+          ] as const).map(tab => (
+            <button
+              key={tab.view}
+              onClick={() => navigate(tab.path)}
+              className={`flex-1 py-3 px-2 rounded-lg font-medium text-sm whitespace-nowrap transition-colors ${
+                view === tab.view
+                  ? 'bg-qivr-blue text-white'
+                  : 'bg-white text-gray-700 border border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
         </div>
 
-        {activeTab === 'browse' ? (
+        {view === 'browse' ? (
           <>
             <div className="space-y-3">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <input
-                  type="text"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search by name, practice, or location..."
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
-                />
+              <div className="flex space-x-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                  <input
+                    type="text"
+                    value={filters.query}
+                    onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+                    placeholder="Search by name, practice, or location..."
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                  />
+                </div>
+                <button
+                  onClick={() => setShowFilters(!showFilters)}
+                  className={`relative px-4 rounded-lg border font-medium flex items-center space-x-2 transition-colors ${
+                    showFilters || activeFilterCount > 0
+                      ? 'bg-qivr-blue/10 border-qivr-blue text-qivr-blue'
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                  aria-expanded={showFilters}
+                >
+                  <Filter className="w-5 h-5" />
+                  <span className="hidden sm:inline">Filters</span>
+                  {activeFilterCount > 0 && (
+                    <span className="absolute -top-2 -right-2 bg-qivr-blue text-white text-xs w-5 h-5 rounded-full flex items-center justify-center">
+                      {activeFilterCount}
+                    </span>
+                  )}
+                </button>
               </div>
 
               <div className="flex space-x-2 overflow-x-auto pb-2">
-                {specialties.map(specialty => (
+                <button
+                  onClick={() => setFilters({ ...filters, specialties: [] })}
+                  className={`px-4 py-2 rounded-lg font-medium whitespace-nowrap transition-colors ${
+                    filters.specialties.length === 0
+                      ? 'bg-qivr-blue text-white'
+                      : 'bg-white text-gray-700 border border-gray-300'
+                  }`}
+                >
+                  All Specialties
+                </button>
+                {specialtyOptions.map(specialty => (
                   <button
                     key={specialty.value}
-                    onClick={() => setSelectedSpecialty(specialty.value)}
+                    onClick={() => toggleSpecialty(specialty.value)}
                     className={`px-4 py-2 rounded-lg font-medium whitespace-nowrap transition-colors ${
-                      selectedSpecialty === specialty.value
+                      filters.specialties.includes(specialty.value)
                         ? 'bg-qivr-blue text-white'
                         : 'bg-white text-gray-700 border border-gray-300'
                     }`}
@@ -213,123 +415,208 @@ export function Providers() {
                   </button>
                 ))}
               </div>
-            </div>
-
-            <div className="text-sm text-gray-600">
-              {filteredProviders.length} provider{filteredProviders.length !== 1 ? 's' : ''} found
-            </div>
-
-            <div className="space-y-3">
-              {filteredProviders.map(provider => (
-                <div
-                  key={provider.id}
-                  className="bg-white rounded-2xl p-5 border border-gray-200 hover:shadow-md transition-shadow"
-                >
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex-1">
-                      <h3 className="text-lg font-semibold text-[#1F2937]">{provider.provider_name}</h3>
-                      <p className="text-sm text-gray-600">{provider.practice_name}</p>
-                    </div>
-                    {provider.accepts_new_patients && (
-                      <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
-                        Accepting Patients
-                      </span>
-                    )}
-                  </div>
-
-                  <div className="space-y-2 mb-4">
-                    <div className="flex items-center text-sm text-gray-700">
-                      <span className="px-2 py-1 bg-qivr-blue/10 text-qivr-blue rounded font-medium">
-                        {getSpecialtyLabel(provider.specialty)}
-                      </span>
-                      {provider.subspecialty && (
-                        <span className="ml-2 text-gray-600">
-                          • {provider.subspecialty.replace('_', ' ')}
-                        </span>
-                      )}
-                    </div>
 
-                    <div className="flex items-start space-x-2 text-sm text-gray-600">
-                      <MapPin className="w-4 h-4 flex-shrink-0 mt-0.5" />
-                      <span>{provider.address}, {provider.city}, {provider.state} {provider.zip_code}</span>
-                    </div>
-
-                    <div className="flex items-center space-x-2 text-sm text-gray-600">
-                      <Phone className="w-4 h-4 flex-shrink-0" />
-                      <a href={`tel:${provider.phone_number}`} className="hover:text-qivr-blue">
-                        {provider.phone_number}
-                      </a>
+              {presets.length > 0 && (
+                <div className="flex space-x-2 overflow-x-auto pb-1">
+                  {presets.map(preset => (
+                    <div
+                      key={preset.id}
+                      className="flex items-center bg-white border border-gray-300 rounded-full whitespace-nowrap"
+                    >
+                      <button
+                        onClick={() => setFilters({ ...preset.filters, query: filters.query })}
+                        className="pl-3 pr-1 py-1.5 text-sm text-gray-700 hover:text-qivr-blue flex items-center space-x-1"
+                      >
+                        <Bookmark className="w-3.5 h-3.5" />
+                        <span>{preset.name}</span>
+                      </button>
+                      <button
+                        onClick={() => handleDeletePreset(preset)}
+                        className="pr-2 pl-1 py-1.5 text-gray-400 hover:text-red-600"
+                        aria-label={`Delete ${preset.name} preset`}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
                     </div>
+                  ))}
+                </div>
+              )}
 
-                    {provider.email && (
-                      <div className="flex items-center space-x-2 text-sm text-gray-600">
-                        <Mail className="w-4 h-4 flex-shrink-0" />
-                        <a href={`mailto:${provider.email}`} className="hover:text-qivr-blue">
-                          {provider.email}
-                        </a>
-                      </div>
-                    )}
-
-                    {provider.website_url && (
-                      <div className="flex items-center space-x-2 text-sm text-gray-600">
-                        <Globe className="w-4 h-4 flex-shrink-0" />
-                        <a
-                          href={provider.website_url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="hover:text-qivr-blue"
-                        >
-                          Visit Website
-                        </a>
-                      </div>
-                    )}
-                  </div>
+              {showFilters && (
+                <ProviderFilterPanel
+                  filters={filters}
+                  options={filterOptions}
+                  onChange={setFilters}
+                  onSavePreset={handleSavePreset}
+                />
+              )}
 
-                  {provider.insurance_accepted.length > 0 && (
-                    <div className="mb-4">
-                      <p className="text-xs text-gray-600 mb-1">Insurance Accepted:</p>
-                      <div className="flex flex-wrap gap-1">
-                        {provider.insurance_accepted.slice(0, 3).map((insurance, idx) => (
-                          <span key={idx} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
-                            {insurance}
-                          </span>
-                        ))}
-                        {provider.insurance_accepted.length > 3 && (
-                          <span className="text-xs text-gray-600">
-                            +{provider.insurance_accepted.length - 3} more
-                          </span>
-                        )}
-                      </div>
+              <div className="bg-white rounded-2xl p-4 border border-gray-200 space-y-3">
+                {origin ? (
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 text-sm text-gray-700">
+                      <Navigation className="w-4 h-4 text-qivr-blue" />
+                      <span>Sorted by distance from <span className="font-medium">{origin.label}</span></span>
                     </div>
-                  )}
-
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                    <button
-                      onClick={() => {
-                        setSelectedProvider(provider);
-                        setShowReferralModal(true);
-                      }}
-                      className="bg-qivr-blue text-white py-2.5 px-4 rounded-lg font-medium hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
-                    >
-                      <Calendar className="w-4 h-4" />
-                      <span>Book Appointment</span>
+                    <button onClick={clearOrigin} className="text-sm text-gray-500 hover:text-gray-700">
+                      Clear
                     </button>
+                  </div>
+                ) : (
+                  <div className="flex space-x-2">
                     <button
-                      onClick={() => {
-                        setSelectedProvider(provider);
-                        setShowReferralModal(true);
-                      }}
-                      className="bg-white text-qivr-blue border-2 border-qivr-blue py-2.5 px-4 rounded-lg font-medium hover:bg-qivr-blue hover:text-white transition-colors flex items-center justify-center space-x-2"
-                      aria-label="Request a referral to this provider"
+                      onClick={locateMe}
+                      disabled={locating}
+                      className="flex items-center space-x-2 px-4 py-2 rounded-lg border border-qivr-blue text-qivr-blue font-medium hover:bg-qivr-blue/5 transition-colors disabled:opacity-50 whitespace-nowrap"
                     >
-                      <FileText className="w-4 h-4" />
-                      <span>Request Referral</span>
+                      <LocateFixed className="w-4 h-4" />
+                      <span>Near me</span>
                     </button>
+                    <form onSubmit={searchPostcode} className="flex-1 flex space-x-2">
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={postcode}
+                        onChange={(e) => setPostcode(e.target.value)}
+                        placeholder="or postcode"
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+                      />
+                      <button
+                        type="submit"
+                        disabled={locating || !postcode.trim()}
+                        className="px-4 py-2 rounded-lg bg-qivr-blue text-white font-medium hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+                      >
+                        {locating ? '...' : 'Go'}
+                      </button>
+                    </form>
                   </div>
-                </div>
-              ))}
+                )}
+
+                {locationError && <p className="text-sm text-red-600">{locationError}</p>}
+
+                {origin && (
+                  <div className="flex space-x-2 overflow-x-auto">
+                    {[null, ...radiusOptions].map(option => (
+                      <button
+                        key={option ?? 'any'}
+                        onClick={() => setRadiusKm(option)}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
+                          radiusKm === option
+                            ? 'bg-qivr-blue text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {option === null ? 'Any distance' : `Within ${option} km`}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-600">
+                {searching ? 'Searching...' : `${totalProviders} provider${totalProviders !== 1 ? 's' : ''} found`}
+              </div>
+              <div className="flex bg-white rounded-lg border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => setLayout('list')}
+                  className={`p-2 ${layout === 'list' ? 'bg-qivr-blue text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                  aria-label="List view"
+                >
+                  <List className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setLayout('map')}
+                  className={`p-2 ${layout === 'map' ? 'bg-qivr-blue text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                  aria-label="Map view"
+                >
+                  <MapIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {layout === 'map' ? (
+              <div className="space-y-3">
+                <ProviderMap
+                  providers={providers}
+                  origin={origin}
+                  radiusKm={radiusKm}
+                  selectedProviderId={mapSelection?.id}
+                  onSelectProvider={setMapSelection}
+                />
+                {mapSelection && providers.some(p => p.id === mapSelection.id) ? (
+                  <ProviderCard
+                    provider={mapSelection}
+                    distance={distanceFromOrigin(mapSelection)}
+                    careTeamMember={careTeamMemberFor(mapSelection)}
+                    onRequest={() => requestReferral(mapSelection)}
+                    onToggleFavourite={() => toggleFavourite(mapSelection)}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500 text-center">Tap a pin to see the provider's details</p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {providers.map(provider => (
+                  <ProviderCard
+                    key={provider.id}
+                    provider={provider}
+                    distance={distanceFromOrigin(provider)}
+                    careTeamMember={careTeamMemberFor(provider)}
+                    onRequest={() => requestReferral(provider)}
+                    onToggleFavourite={() => toggleFavourite(provider)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {providers.length < totalProviders && (
+              <button
+                onClick={loadMoreProviders}
+                disabled={loadingMore}
+                className="w-full py-3 rounded-lg border border-gray-300 bg-white text-gray-700 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : `Show more (${totalProviders - providers.length} left)`}
+              </button>
+            )}
           </>
+        ) : view === 'care-team' ? (
+          <div className="space-y-3">
+            {careTeam.length === 0 ? (
+              <div className="text-center py-12">
+                <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-600 mb-2">No Care Team Yet</h3>
+                <p className="text-gray-500 mb-6">
+                  Tap the heart on a provider you see to add them to your care team
+                </p>
+                <button
+                  onClick={() => navigate(paths.providers)}
+                  className="bg-qivr-blue text-white px-6 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors"
+                >
+                  Browse Providers
+                </button>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  Your care team appears as quick contacts on Home, is listed on new referrals and is
+                  offered when you share a progress report. Notes are only visible to you.
+                </p>
+                {careTeam.map(member => (
+                  <CareTeamCard
+                    key={member.id}
+                    member={member}
+                    onUpdate={(changes) => handleUpdateMember(member, changes)}
+                    onTogglePrimary={() => handleSetPrimary(member)}
+                    onRemove={() => toggleFavourite(member.provider)}
+                    onRequest={() => requestReferral(member.provider)}
+                  />
+                ))}
+              </>
+            )}
+          </div>
         ) : (
           <div className="space-y-3">
             {referrals.length === 0 ? (
@@ -338,7 +625,7 @@ export function Providers() {
                 <h3 className="text-lg font-semibold text-gray-600 mb-2">No Referrals Yet</h3>
                 <p className="text-gray-500 mb-6">Browse providers to request your first referral</p>
                 <button
-                  onClick={() => setActiveTab('browse')}
+                  onClick={() => navigate(paths.providers)}
                   className="bg-qivr-blue text-white px-6 py-3 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors"
                 >
                   Browse Providers
@@ -346,62 +633,21 @@ export function Providers() {
               </div>
             ) : (
               referrals.map(referral => (
-                <div
+                <ReferralCard
                   key={referral.id}
-                  className="bg-white rounded-2xl p-5 border border-gray-200"
-                >
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex-1">
-                      <h3 className="text-lg font-semibold text-[#1F2937]">
-                        {referral.provider?.provider_name}
-                      </h3>
-                      <p className="text-sm text-gray-600">{referral.provider?.practice_name}</p>
-                    </div>
-                    <span className={`text-xs px-2 py-1 rounded font-medium ${getStatusColor(referral.status)}`}>
-                      {referral.status.charAt(0).toUpperCase() + referral.status.slice(1)}
-                    </span>
-                  </div>
-
-                  <div className="space-y-2 mb-3">
-                    <div className="text-sm">
-                      <span className="text-gray-600">Referral Date:</span>
-                      <span className="ml-2 font-medium text-gray-900">
-                        {new Date(referral.referral_date).toLocaleDateString()}
-                      </span>
-                    </div>
-
-                    {referral.appointment_date && (
-                      <div className="text-sm">
-                        <span className="text-gray-600">Appointment:</span>
-                        <span className="ml-2 font-medium text-gray-900">
-                          {new Date(referral.appointment_date).toLocaleDateString()}
-                        </span>
-                      </div>
-                    )}
-
-                    <div className="text-sm">
-                      <span className="text-gray-600">Reason:</span>
-                      <p className="text-gray-900 mt-1">{referral.referral_reason}</p>
-                    </div>
-
-                    {referral.notes && (
-                      <div className="text-sm">
-                        <span className="text-gray-600">Notes:</span>
-                        <p className="text-gray-900 mt-1">{referral.notes}</p>
-                      </div>
-                    )}
-                  </div>
-
-                  <div className="flex items-center space-x-2 text-sm text-gray-600">
-                    <Phone className="w-4 h-4" />
-                    <a
-                      href={`tel:${referral.provider?.phone_number}`}
-                      className="hover:text-qivr-blue"
-                    >
-                      {referral.provider?.phone_number}
-                    </a>
-                  </div>
-                </div>
+                  referral={referral}
+                  previousReferral={referrals.find(r => r.id === referral.previous_referral_id)}
+                  reReferred={referrals.some(r => r.previous_referral_id === referral.id)}
+                  outcome={outcomes[referral.id]}
+                  instrument={reassessment}
+                  highlighted={referral.id === highlightedReferralId}
+                  onSchedule={() => setDialog({ kind: 'schedule', referral })}
+                  onEdit={() => setDialog({ kind: 'edit', referral })}
+                  onComplete={() => setDialog({ kind: 'complete', referral })}
+                  onCancel={() => setDialog({ kind: 'cancel', referral })}
+                  onReRefer={() => setReReferral(referral)}
+                  onReassess={() => reassessment && navigate(paths.referralAssessment(reassessment.id, referral.id))}
+                />
               ))
             )}
           </div>
@@ -415,53 +661,724 @@ export function Providers() {
             setShowReferralModal(false);
             setSelectedProvider(null);
           }}
-          onSuccess={() => {
+          onSuccess={(referralId) => {
             setShowReferralModal(false);
             setSelectedProvider(null);
             loadReferrals();
-            setActiveTab('my-referrals');
+            navigate(paths.referral(referralId));
           }}
         />
       )}
+
+      {reReferral?.provider && (
+        <ReferralModal
+          provider={reReferral.provider}
+          initialReason={reReferral.referral_reason}
+          previousReferralId={reReferral.id}
+          onClose={() => setReReferral(null)}
+          onSuccess={(referralId) => {
+            setReReferral(null);
+            loadReferrals();
+            navigate(paths.referral(referralId));
+          }}
+        />
+      )}
+
+      {dialog && (dialog.kind === 'schedule' || dialog.kind === 'edit' || dialog.kind === 'complete') && (
+        <ReferralUpdateModal
+          mode={dialog.kind}
+          referral={dialog.referral}
+          onClose={() => setDialog(null)}
+          onSaved={() => handleDialogSaved(dialog)}
+        />
+      )}
+
+      {dialog?.kind === 'cancel' && (
+        <CancelReferralModal
+          referral={dialog.referral}
+          onClose={() => setDialog(null)}
+          onSaved={() => handleDialogSaved(dialog)}
+        />
+      )}
+
+      {dialog?.kind === 'completed' && reassessment && (
+        <ReassessmentPrompt
+          referral={dialog.referral}
+          instrument={reassessment}
+          onStart={() => navigate(paths.referralAssessment(reassessment.id, dialog.referral.id))}
+          onClose={() => setDialog(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+const PROVIDER_PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+function ProviderFilterPanel({
+  filters,
+  options,
+  onChange,
+  onSavePreset,
+}: {
+  filters: ProviderFilters;
+  options: ProviderFilterOptions | null;
+  onChange: (filters: ProviderFilters) => void;
+  onSavePreset: (name: string) => Promise<void>;
+}) {
+  const [presetName, setPresetName] = useState('');
+  const [savingPreset, setSavingPreset] = useState(false);
+
+  const groups: { key: 'subspecialties' | 'insurance' | 'languages'; label: string; values: { value: string; count: number }[] }[] = [
+    { key: 'subspecialties', label: 'Subspecialty', values: options?.subspecialty ?? [] },
+    { key: 'insurance', label: 'Insurance', values: options?.insurance ?? [] },
+    { key: 'languages', label: 'Languages', values: options?.language ?? [] },
+  ];
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) return;
+
+    setSavingPreset(true);
+    await onSavePreset(presetName.trim());
+    setSavingPreset(false);
+    setPresetName('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-4 border border-gray-200 space-y-4">
+      <label className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900">Accepting new patients only</span>
+        <input
+          type="checkbox"
+          checked={filters.acceptingNewPatients}
+          onChange={(e) => onChange({ ...filters, acceptingNewPatients: e.target.checked })}
+          className="w-5 h-5 rounded text-qivr-blue focus:ring-qivr-blue"
+        />
+      </label>
+
+      {groups.map(group => group.values.length > 0 && (
+        <div key={group.key}>
+          <p className="text-sm font-medium text-gray-900 mb-2">{group.label}</p>
+          <div className="flex flex-wrap gap-2">
+            {group.values.map(({ value, count }) => {
+              const selected = filters[group.key].includes(value);
+              return (
+                <button
+                  key={value}
+                  onClick={() => onChange({ ...filters, [group.key]: toggleValue(filters[group.key], value) })}
+                  className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                    selected
+                      ? 'bg-qivr-blue text-white border-qivr-blue'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                  aria-pressed={selected}
+                >
+                  {group.key === 'subspecialties' ? value.replace('_', ' ') : value}
+                  <span className={selected ? 'text-white/70' : 'text-gray-400'}> {count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-3 border-t border-gray-200">
+        <form onSubmit={handleSave} className="flex-1 flex space-x-2 mr-3">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Name these filters"
+            className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={savingPreset || !presetName.trim()}
+            className="px-3 py-2 text-sm rounded-lg bg-qivr-blue text-white font-medium hover:bg-qivr-blue-dark transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+        <button
+          onClick={() => onChange({ ...emptyProviderFilters, query: filters.query })}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear all
+        </button>
+      </div>
     </div>
   );
 }
 
-function ReferralModal({
+function ProviderCard({
   provider,
-  onClose,
-  onSuccess,
+  distance,
+  careTeamMember,
+  onRequest,
+  onToggleFavourite,
 }: {
   provider: Provider;
+  distance?: number;
+  careTeamMember?: CareTeamMember;
+  onRequest: () => void;
+  onToggleFavourite: () => void;
+}) {
+  return (
+    <div className="bg-white rounded-2xl p-5 border border-gray-200 hover:shadow-md transition-shadow">
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-[#1F2937]">{provider.provider_name}</h3>
+          <p className="text-sm text-gray-600">{provider.practice_name}</p>
+          {distance !== undefined && (
+            <p className="text-sm text-qivr-blue font-medium mt-1 flex items-center space-x-1">
+              <Navigation className="w-3.5 h-3.5" />
+              <span>{formatDistance(distance)} away</span>
+            </p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {provider.accepts_new_patients && (
+            <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
+              Accepting Patients
+            </span>
+          )}
+          <button
+            onClick={onToggleFavourite}
+            className={`p-1.5 rounded-full transition-colors ${
+              careTeamMember ? 'text-red-500 hover:bg-red-50' : 'text-gray-400 hover:text-red-500 hover:bg-gray-50'
+            }`}
+            aria-pressed={!!careTeamMember}
+            aria-label={careTeamMember ? 'Remove from my care team' : 'Add to my care team'}
+            title={careTeamMember ? `On your care team (${getCareTeamRoleLabel(careTeamMember.role)})` : 'Add to my care team'}
+          >
+            <Heart className={`w-5 h-5 ${careTeamMember ? 'fill-current' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex items-center text-sm text-gray-700">
+          <span className="px-2 py-1 bg-qivr-blue/10 text-qivr-blue rounded font-medium">
+            {getSpecialtyLabel(provider.specialty)}
+          </span>
+          {provider.subspecialty && (
+            <span className="ml-2 text-gray-600">
+              • {provider.subspecialty.replace('_', ' ')}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-start space-x-2 text-sm text-gray-600">
+          <MapPin className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{provider.address}, {provider.city}, {provider.state} {provider.zip_code}</span>
+        </div>
+
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <Phone className="w-4 h-4 flex-shrink-0" />
+          <a href={`tel:${provider.phone_number}`} className="hover:text-qivr-blue">
+            {provider.phone_number}
+          </a>
+        </div>
+
+        {provider.email && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <Mail className="w-4 h-4 flex-shrink-0" />
+            <a href={`mailto:${provider.email}`} className="hover:text-qivr-blue">
+              {provider.email}
+            </a>
+          </div>
+        )}
+
+        {provider.website_url && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <Globe className="w-4 h-4 flex-shrink-0" />
+            <a
+              href={provider.website_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:text-qivr-blue"
+            >
+              Visit Website
+            </a>
+          </div>
+        )}
+      </div>
+
+      {provider.insurance_accepted.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs text-gray-600 mb-1">Insurance Accepted:</p>
+          <div className="flex flex-wrap gap-1">
+            {provider.insurance_accepted.slice(0, 3).map((insurance, idx) => (
+              <span key={idx} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                {insurance}
+              </span>
+            ))}
+            {provider.insurance_accepted.length > 3 && (
+              <span className="text-xs text-gray-600">
+                +{provider.insurance_accepted.length - 3} more
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <button
+          onClick={onRequest}
+          className="bg-qivr-blue text-white py-2.5 px-4 rounded-lg font-medium hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
+        >
+          <Calendar className="w-4 h-4" />
+          <span>Book Appointment</span>
+        </button>
+        <button
+          onClick={onRequest}
+          className="bg-white text-qivr-blue border-2 border-qivr-blue py-2.5 px-4 rounded-lg font-medium hover:bg-qivr-blue hover:text-white transition-colors flex items-center justify-center space-x-2"
+          aria-label="Request a referral to this provider"
+        >
+          <FileText className="w-4 h-4" />
+          <span>Request Referral</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CareTeamCard({
+  member,
+  onUpdate,
+  onTogglePrimary,
+  onRemove,
+  onRequest,
+}: {
+  member: CareTeamMember;
+  onUpdate: (changes: Partial<Pick<CareTeamMember, 'role' | 'notes' | 'receives_reports'>>) => Promise<void>;
+  onTogglePrimary: () => void;
+  onRemove: () => void;
+  onRequest: () => void;
+}) {
+  const { provider } = member;
+  const [notes, setNotes] = useState(member.notes);
+  const [savingNotes, setSavingNotes] = useState(false);
+
+  const saveNotes = async () => {
+    if (notes === member.notes) return;
+    setSavingNotes(true);
+    await onUpdate({ notes });
+    setSavingNotes(false);
+  };
+
+  return (
+    <div className={`bg-white rounded-2xl p-5 border ${member.is_primary ? 'border-qivr-blue' : 'border-gray-200'}`}>
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-x-2">
+            <h3 className="text-lg font-semibold text-[#1F2937] truncate">{provider.provider_name}</h3>
+            {member.is_primary && (
+              <span className="text-xs bg-qivr-blue/10 text-qivr-blue px-2 py-0.5 rounded font-medium whitespace-nowrap">
+                Primary contact
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600">{provider.practice_name}</p>
+          <p className="text-xs text-gray-500 mt-1">{getSpecialtyLabel(provider.specialty)}</p>
+        </div>
+        <button
+          onClick={onTogglePrimary}
+          className={`p-1.5 rounded-full transition-colors ${
+            member.is_primary ? 'text-yellow-500 hover:bg-yellow-50' : 'text-gray-400 hover:text-yellow-500 hover:bg-gray-50'
+          }`}
+          aria-pressed={member.is_primary}
+          aria-label={member.is_primary ? 'Unset primary contact' : 'Make primary contact'}
+          title={member.is_primary ? 'Primary contact' : 'Make primary contact'}
+        >
+          <Star className={`w-5 h-5 ${member.is_primary ? 'fill-current' : ''}`} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {careTeamRoleOptions.map(option => (
+          <button
+            key={option.value}
+            onClick={() => option.value !== member.role && onUpdate({ role: option.value })}
+            className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+              member.role === option.value
+                ? 'bg-qivr-blue text-white border-qivr-blue'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+            aria-pressed={member.role === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <Phone className="w-4 h-4 flex-shrink-0" />
+          <a href={`tel:${provider.phone_number}`} className="hover:text-qivr-blue">
+            {provider.phone_number}
+          </a>
+        </div>
+        {provider.email && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <Mail className="w-4 h-4 flex-shrink-0" />
+            <a href={`mailto:${provider.email}`} className="hover:text-qivr-blue">
+              {provider.email}
+            </a>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Private notes {savingNotes && <span className="text-xs text-gray-400 font-normal">Saving...</span>}
+        </label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+          rows={2}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
+          placeholder="e.g., Ask about driving after the next review"
+        />
+      </div>
+
+      <label className="flex items-center justify-between mb-4">
+        <span className="text-sm text-gray-700">
+          Send my progress reports
+          {!provider.email && <span className="block text-xs text-gray-500">No email on file</span>}
+        </span>
+        <input
+          type="checkbox"
+          checked={member.receives_reports}
+          onChange={(e) => onUpdate({ receives_reports: e.target.checked })}
+          className="w-5 h-5 rounded text-qivr-blue focus:ring-qivr-blue"
+        />
+      </label>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={onRequest}
+          className="flex-1 bg-qivr-blue text-white py-2.5 px-4 rounded-lg font-medium hover:bg-qivr-blue-dark transition-colors flex items-center justify-center space-x-2"
+        >
+          <Calendar className="w-4 h-4" />
+          <span>Book Appointment</span>
+        </button>
+        <button
+          onClick={onRemove}
+          className="px-4 rounded-lg border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+          aria-label={`Remove ${provider.provider_name} from my care team`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const getStatusColor = (status: string) => {
+  const colors: Record<string, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    scheduled: 'bg-blue-100 text-blue-800',
+    completed: 'bg-green-100 text-green-800',
+    cancelled: 'bg-gray-100 text-gray-800',
+  };
+  return colors[status] || 'bg-gray-100 text-gray-800';
+};
+
+const cancellationReasons = [
+  'No longer needed',
+  'Symptoms improved',
+  'Seeing another provider',
+  'Cost or insurance',
+  'Provider unavailable',
+];
+
+function ReferralCard({
+  referral,
+  previousReferral,
+  reReferred,
+  outcome,
+  instrument,
+  highlighted,
+  onSchedule,
+  onEdit,
+  onComplete,
+  onCancel,
+  onReRefer,
+  onReassess,
+}: {
+  referral: Referral;
+  previousReferral?: Referral;
+  reReferred: boolean;
+  outcome?: ReferralOutcome;
+  instrument: PromInstrument | null;
+  highlighted: boolean;
+  onSchedule: () => void;
+  onEdit: () => void;
+  onComplete: () => void;
+  onCancel: () => void;
+  onReRefer: () => void;
+  onReassess: () => void;
+}) {
+  const [showTimeline, setShowTimeline] = useState(highlighted);
+  // ODI and NDI are percentages; other questionnaires are on their own scale.
+  const unit = instrument && isDisabilityIndex(instrument.id) ? '%' : '';
+
+  return (
+    <div
+      id={`referral-${referral.id}`}
+      className={`bg-white rounded-2xl p-5 border ${
+        highlighted ? 'border-qivr-blue ring-2 ring-qivr-blue/30' : 'border-gray-200'
+      }`}
+    >
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-[#1F2937]">
+            {referral.provider?.provider_name}
+          </h3>
+          <p className="text-sm text-gray-600">{referral.provider?.practice_name}</p>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded font-medium ${getStatusColor(referral.status)}`}>
+          {referralStatusLabels[referral.status]}
+        </span>
+      </div>
+
+      <div className="space-y-2 mb-3">
+        <div className="text-sm">
+          <span className="text-gray-600">Referral Date:</span>
+          <span className="ml-2 font-medium text-gray-900">
+            {new Date(referral.referral_date).toLocaleDateString()}
+          </span>
+        </div>
+
+        {referral.appointment_date && (
+          <div className="text-sm">
+            <span className="text-gray-600">Appointment:</span>
+            <span className="ml-2 font-medium text-gray-900">
+              {new Date(referral.appointment_date).toLocaleDateString()}
+            </span>
+          </div>
+        )}
+
+        {previousReferral && (
+          <div className="text-sm text-gray-600">
+            Re-referral from {previousReferral.provider?.provider_name ?? 'an earlier referral'}
+            {' '}({new Date(previousReferral.referral_date).toLocaleDateString()})
+          </div>
+        )}
+
+        <div className="text-sm">
+          <span className="text-gray-600">Reason:</span>
+          <p className="text-gray-900 mt-1">{referral.referral_reason}</p>
+        </div>
+
+        {referral.notes && (
+          <div className="text-sm">
+            <span className="text-gray-600">Notes:</span>
+            <p className="text-gray-900 mt-1">{referral.notes}</p>
+          </div>
+        )}
+
+        {referral.status === 'cancelled' && referral.cancellation_reason && (
+          <div className="text-sm">
+            <span className="text-gray-600">Cancelled because:</span>
+            <p className="text-gray-900 mt-1">{referral.cancellation_reason}</p>
+          </div>
+        )}
+      </div>
+
+      {referral.status === 'completed' && outcome && instrument && (
+        <div className="mb-3 p-3 bg-gray-50 rounded-lg text-sm">
+          {outcome.followUp !== null ? (
+            <p className="text-gray-700">
+              <span className="font-medium">{instrument.short_name} outcome:</span>{' '}
+              {outcome.baseline !== null ? `${Math.round(outcome.baseline)}${unit} → ` : ''}
+              {Math.round(outcome.followUp)}{unit}
+              {outcome.baseline !== null && (
+                <span
+                  className={
+                    promImprovement(instrument.definition, outcome.baseline, outcome.followUp) >= 0 ? 'text-green-700' : 'text-red-700'
+                  }
+                >
+                  {' '}({outcome.followUp <= outcome.baseline ? '−' : '+'}
+                  {Math.abs(Math.round(outcome.followUp - outcome.baseline))} points)
+                </span>
+              )}
+            </p>
+          ) : (
+            <button
+              onClick={onReassess}
+              className="flex items-center space-x-2 text-qivr-blue font-medium hover:text-qivr-blue-dark"
+            >
+              <ClipboardList className="w-4 h-4" />
+              <span>Take your {instrument.short_name} reassessment</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2 text-sm text-gray-600 mb-4">
+        <Phone className="w-4 h-4" />
+        <a
+          href={`tel:${referral.provider?.phone_number}`}
+          className="hover:text-qivr-blue"
+        >
+          {referral.provider?.phone_number}
+        </a>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {canTransition(referral.status, 'scheduled') && (
+          <button
+            onClick={onSchedule}
+            className="bg-qivr-blue text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-qivr-blue-dark transition-colors flex items-center space-x-1"
+          >
+            <Calendar className="w-4 h-4" />
+            <span>Schedule</span>
+          </button>
+        )}
+        {canTransition(referral.status, 'completed') && (
+          <button
+            onClick={onComplete}
+            className="bg-qivr-blue text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-qivr-blue-dark transition-colors flex items-center space-x-1"
+          >
+            <Check className="w-4 h-4" />
+            <span>Mark Completed</span>
+          </button>
+        )}
+        {referral.status !== 'cancelled' && (
+          <button
+            onClick={onEdit}
+            className="bg-white text-gray-700 border border-gray-300 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center space-x-1"
+          >
+            <Pencil className="w-4 h-4" />
+            <span>Edit</span>
+          </button>
+        )}
+        {canTransition(referral.status, 'cancelled') && (
+          <button
+            onClick={onCancel}
+            className="bg-white text-red-600 border border-red-200 py-2 px-4 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors flex items-center space-x-1"
+          >
+            <XCircle className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        )}
+        {isClosed(referral) && !reReferred && referral.provider && (
+          <button
+            onClick={onReRefer}
+            className="bg-white text-qivr-blue border border-qivr-blue py-2 px-4 rounded-lg text-sm font-medium hover:bg-qivr-blue/5 transition-colors flex items-center space-x-1"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Re-refer</span>
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={() => setShowTimeline(!showTimeline)}
+        className="mt-4 flex items-center space-x-1 text-sm text-gray-600 hover:text-qivr-blue"
+      >
+        {showTimeline ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <span>History</span>
+      </button>
+
+      {showTimeline && <ReferralTimeline referral={referral} />}
+    </div>
+  );
+}
+
+function ReferralTimeline({ referral }: { referral: Referral }) {
+  const [events, setEvents] = useState<ReferralEvent[] | null>(null);
+
+  // Reloads whenever the referral changes, since every change adds an entry.
+  useEffect(() => {
+    let active = true;
+    loadReferralEvents(referral.id)
+      .then(data => {
+        if (active) setEvents(data);
+      })
+      .catch(error => console.error('Error loading referral history:', error));
+    return () => {
+      active = false;
+    };
+  }, [referral]);
+
+  if (!events) {
+    return <p className="mt-3 text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="mt-3 text-sm text-gray-500">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="mt-3 border-l-2 border-gray-200 ml-2 space-y-3">
+      {events.map(event => (
+        <li key={event.id} className="relative pl-4">
+          <span className={`absolute -left-[5px] top-1.5 w-2 h-2 rounded-full ${
+            event.to_status === 'cancelled' ? 'bg-gray-400' : 'bg-qivr-blue'
+          }`} />
+          <p className="text-sm font-medium text-gray-900">{describeReferralEvent(event)}</p>
+          <p className="text-xs text-gray-500">{new Date(event.created_at).toLocaleString()}</p>
+          {event.appointment_date && event.to_status !== 'cancelled' && (
+            <p className="text-xs text-gray-600 mt-1">
+              Appointment: {new Date(event.appointment_date).toLocaleDateString()}
+            </p>
+          )}
+          {event.reason && <p className="text-xs text-gray-600 mt-1">Reason: {event.reason}</p>}
+          {event.event === 'updated' && event.notes && (
+            <p className="text-xs text-gray-600 mt-1">Notes: {event.notes}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function ReferralUpdateModal({
+  mode,
+  referral,
+  onClose,
+  onSaved,
+}: {
+  mode: 'schedule' | 'edit' | 'complete';
+  referral: Referral;
   onClose: () => void;
-  onSuccess: () => void;
+  onSaved: () => void;
 }) {
-  const { user } = useAuth();
   const [saving, setSaving] = useState(false);
   const [formData, setFormData] = useState({
-    referral_reason: '',
-    notes: '',
+    appointment_date: referral.appointment_date ?? (mode === 'complete' ? localDateString() : ''),
+    notes: referral.notes ?? '',
   });
 
+  // Pending referrals get their date by being scheduled, not by editing.
+  const showDate = mode !== 'edit' || referral.status !== 'pending';
+  const titles = { schedule: 'Schedule Referral', edit: 'Edit Referral', complete: 'Complete Referral' };
+  const submitLabels = { schedule: 'Schedule', edit: 'Save Changes', complete: 'Mark Completed' };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
 
     try {
       setSaving(true);
-      const { error } = await supabase.from('patient_referrals').insert({
-        patient_id: user.id,
-        provider_id: provider.id,
-        referral_reason: formData.referral_reason,
+      await updateReferral(referral.id, {
+        ...(mode === 'schedule' ? { status: 'scheduled' as const } : {}),
+        ...(mode === 'complete' ? { status: 'completed' as const } : {}),
+        ...(showDate ? { appointment_date: formData.appointment_date || null } : {}),
         notes: formData.notes,
-        status: 'pending',
       });
-
-      if (error) throw error;
-      onSuccess();
+      onSaved();
     } catch (error) {
-      console.error('Error creating referral:', error);
-      alert('Failed to create referral');
+      console.error('Error updating referral:', error);
+      alert('Failed to update referral');
     } finally {
       setSaving(false);
     }
@@ -471,88 +1388,198 @@ function ReferralModal({
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
-          <h2 className="text-xl font-semibold text-[#1F2937]">Book Appointment</h2>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <h2 className="text-xl font-semibold text-[#1F2937]">{titles[mode]}</h2>
+          <button onClick={onClose} disabled={saving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
             <X className="w-6 h-6" />
           </button>
         </div>
 
-        <div className="p-6">
-          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-            <h3 className="font-semibold text-gray-900 mb-1">{provider.provider_name}</h3>
-            <p className="text-sm text-gray-600">{provider.practice_name}</p>
-            <p className="text-sm text-gray-600 mt-2">
-              {getSpecialtyLabel(provider.specialty)}
-              {provider.subspecialty && ` - ${provider.subspecialty.replace('_', ' ')}`}
-            </p>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <h3 className="font-semibold text-gray-900 mb-1">{referral.provider?.provider_name}</h3>
+            <p className="text-sm text-gray-600">{referral.referral_reason}</p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
+          {showDate && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Reason for Appointment
+                {mode === 'complete' ? 'Date Seen' : 'Appointment Date'}
               </label>
-              <textarea
-                required
-                value={formData.referral_reason}
-                onChange={(e) => setFormData({ ...formData, referral_reason: e.target.value })}
-                rows={3}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
-                placeholder="e.g., Persistent lower back pain requiring surgical evaluation"
+              <input
+                type="date"
+                required={mode !== 'edit' || referral.status === 'scheduled'}
+                value={formData.appointment_date}
+                onChange={(e) => setFormData({ ...formData, appointment_date: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent"
               />
             </div>
+          )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Additional Notes (Optional)
-              </label>
-              <textarea
-                value={formData.notes}
-                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                rows={2}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
-                placeholder="Any additional information..."
-              />
-            </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes (Optional)</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
+              placeholder={mode === 'complete' ? 'e.g., Advised 6 weeks of physio, review if no better' : 'Any additional information...'}
+            />
+          </div>
 
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-              <p className="text-sm text-blue-800">
-                This appointment request will be saved to your records. The provider's office will contact you to confirm your appointment date and time.
-              </p>
-            </div>
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : submitLabels[mode]}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function CancelReferralModal({
+  referral,
+  onClose,
+  onSaved,
+}: {
+  referral: Referral;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    try {
+      setSaving(true);
+      await cancelReferral(referral.id, reason.trim());
+      onSaved();
+    } catch (error) {
+      console.error('Error cancelling referral:', error);
+      alert('Failed to cancel referral');
+    } finally {
+      setSaving(false);
+    }
+  };
 
-            <div className="flex space-x-3 pt-2">
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-[#1F2937]">Cancel Referral</h2>
+          <button onClick={onClose} disabled={saving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Cancel your referral to {referral.provider?.provider_name ?? 'this provider'}? If you have an
+            appointment booked, remember to let the practice know too.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {cancellationReasons.map(option => (
               <button
+                key={option}
                 type="button"
-                onClick={onClose}
-                className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                type="submit"
-                disabled={saving}
-                className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => setReason(option)}
+                className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                  reason === option
+                    ? 'bg-qivr-blue text-white border-qivr-blue'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
               >
-                {saving ? 'Booking...' : 'Book Appointment'}
+                {option}
               </button>
-            </div>
-          </form>
-        </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+            <textarea
+              required
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-qivr-blue focus:border-transparent resize-none"
+              placeholder="Why are you cancelling?"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Keep Referral
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !reason.trim()}
+              className="flex-1 bg-red-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Cancelling...' : 'Cancel Referral'}
+            </button>
+          </div>
+        </form>
       </div>
     </div>
   );
+}
 
-  function getSpecialtyLabel(specialty: string) {
-    const specialties: Record<string, string> = {
-      orthopedic_surgeon: 'Orthopedic Surgeon',
-      physical_therapist: 'Physical Therapist',
-      pain_specialist: 'Pain Specialist',
-      neurosurgeon: 'Neurosurgeon',
-      sports_medicine: 'Sports Medicine',
-      chiropractor: 'Chiropractor',
-      imaging_radiology: 'Imaging & Radiology',
-    };
-    return specialties[specialty] || specialty.replace('_', ' ');
-  }
+function ReassessmentPrompt({
+  referral,
+  instrument,
+  onStart,
+  onClose,
+}: {
+  referral: Referral;
+  instrument: PromInstrument;
+  onStart: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6 text-center">
+        <div className="w-14 h-14 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Check className="w-7 h-7 text-green-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-[#1F2937] mb-2">Referral Completed</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Take a quick {instrument.short_name} reassessment so you can see how your care with{' '}
+          {referral.provider?.provider_name ?? 'this provider'} has changed things.
+        </p>
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+          >
+            Later
+          </button>
+          <button
+            onClick={onStart}
+            className="flex-1 bg-qivr-blue text-white py-3 px-6 rounded-lg font-semibold hover:bg-qivr-blue-dark transition-colors"
+          >
+            Start {instrument.short_name}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
 }
@@ -0,0 +1,238 @@
+/*
+  # Notification channel adapters
+
+  Each outbound channel sits behind the same small interface so the scheduler
+  never talks to a provider directly. Tests and local runs swap in
+  `createRecordingAdapter`; production picks real providers from secrets.
+
+  Secrets (a channel without its secrets is unavailable and its deliveries are
+  recorded as skipped; set NOTIFICATIONS_LOG_ONLY=true locally to log them instead):
+    - Email: RESEND_API_KEY, EMAIL_FROM
+    - SMS: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER
+    - Push: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (sent with Web Push
+      to every device in `push_subscriptions`, see webPush.ts), plus optional
+      PUSH_SERVICE_HOSTS (see pushServices.ts)
+*/
+
+import { pushServiceHosts } from './pushServices.ts';
+import { PushTarget, VapidKeys, WebPushError, sendWebPush } from './webPush.ts';
+
+export type Channel = 'push' | 'email' | 'sms';
+
+export type Recipient = {
+  patientId: string;
+  fullName: string;
+  email: string | null;
+  phoneNumber: string | null;
+  pushTargets: PushTarget[];
+};
+
+export type OutboundMessage = {
+  notificationId: string;
+  recipient: Recipient;
+  title: string;
+  body: string;
+  actionUrl: string | null;
+};
+
+export type DeliveryResult = {
+  providerMessageId?: string;
+};
+
+export interface ChannelAdapter {
+  channel: Channel;
+  // Returns false when the recipient can't be reached on this channel, e.g. no phone number.
+  canDeliver(recipient: Recipient): boolean;
+  // Set when the channel has no provider configured, so nothing can be delivered on it.
+  unavailableReason?: string;
+  send(message: OutboundMessage): Promise<DeliveryResult>;
+}
+
+export type ChannelAdapters = Record<Channel, ChannelAdapter>;
+
+type Env = { get(name: string): string | undefined };
+
+// Development only: logs which notification would have gone out, never its contents.
+export function createLoggingAdapter(channel: Channel): ChannelAdapter {
+  return {
+    channel,
+    canDeliver: () => true,
+    send: async (message) => {
+      console.log(`[${channel}] would send notification ${message.notificationId}`);
+      return {};
+    },
+  };
+}
+
+export function createUnavailableAdapter(channel: Channel): ChannelAdapter {
+  const unavailableReason = `No ${channel} provider is configured`;
+  return {
+    channel,
+    unavailableReason,
+    canDeliver: () => false,
+    send: async () => {
+      throw new Error(unavailableReason);
+    },
+  };
+}
+
+// Keeps every message in memory so a test can assert on exactly what would have gone out.
+export function createRecordingAdapter(
+  channel: Channel,
+  options: { canDeliver?: (recipient: Recipient) => boolean; fail?: boolean } = {}
+): ChannelAdapter & { sent: OutboundMessage[] } {
+  const sent: OutboundMessage[] = [];
+  return {
+    channel,
+    sent,
+    canDeliver: options.canDeliver ?? (() => true),
+    send: async (message) => {
+      if (options.fail) throw new Error(`${channel} delivery failed`);
+      sent.push(message);
+      return { providerMessageId: `${channel}-${sent.length}` };
+    },
+  };
+}
+
+function absoluteActionUrl(actionUrl: string | null, appUrl: string | undefined): string | null {
+  if (!actionUrl) return null;
+  return appUrl ? new URL(actionUrl, appUrl).toString() : actionUrl;
+}
+
+export function createResendEmailAdapter(apiKey: string, from: string, appUrl?: string): ChannelAdapter {
+  return {
+    channel: 'email',
+    canDeliver: (recipient) => !!recipient.email,
+    send: async (message) => {
+      const link = absoluteActionUrl(message.actionUrl, appUrl);
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          from,
+          to: message.recipient.email,
+          subject: message.title,
+          text: link ? `${message.body}\n\n${link}` : message.body,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend responded with ${response.status}: ${await response.text()}`);
+      }
+
+      const { id } = await response.json();
+      return { providerMessageId: id };
+    },
+  };
+}
+
+export function createTwilioSmsAdapter(accountSid: string, authToken: string, from: string, appUrl?: string): ChannelAdapter {
+  return {
+    channel: 'sms',
+    canDeliver: (recipient) => !!recipient.phoneNumber,
+    send: async (message) => {
+      const link = absoluteActionUrl(message.actionUrl, appUrl);
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        },
+        body: new URLSearchParams({
+          From: from,
+          To: message.recipient.phoneNumber ?? '',
+          Body: link ? `${message.title}: ${message.body} ${link}` : `${message.title}: ${message.body}`,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Twilio responded with ${response.status}: ${await response.text()}`);
+      }
+
+      const { sid } = await response.json();
+      return { providerMessageId: sid };
+    },
+  };
+}
+
+export type PushDeliveryHooks = {
+  onDelivered?: (target: PushTarget) => Promise<void>;
+  // Called for subscriptions the push service says no longer exist, so they can be deleted.
+  onGone?: (target: PushTarget) => Promise<void>;
+};
+
+export function createWebPushAdapter(
+  vapid: VapidKeys,
+  hooks: PushDeliveryHooks = {},
+  hosts?: string[]
+): ChannelAdapter {
+  return {
+    channel: 'push',
+    canDeliver: (recipient) => recipient.pushTargets.length > 0,
+    send: async (message) => {
+      // The service worker resolves relative links against the app's own origin.
+      const payload = JSON.stringify({
+        notification_id: message.notificationId,
+        title: message.title,
+        body: message.body,
+        action_url: message.actionUrl,
+      });
+
+      let providerMessageId: string | undefined;
+      let delivered = 0;
+      const errors: string[] = [];
+
+      for (const target of message.recipient.pushTargets) {
+        try {
+          const location = await sendWebPush(target, payload, vapid, { pushServiceHosts: hosts });
+          providerMessageId ??= location;
+          delivered++;
+          await hooks.onDelivered?.(target);
+        } catch (error) {
+          if (error instanceof WebPushError && error.isGone) {
+            await hooks.onGone?.(target);
+          }
+          errors.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+
+      if (delivered === 0) {
+        throw new Error(`No device accepted the push: ${errors.join('; ')}`);
+      }
+      return { providerMessageId };
+    },
+  };
+}
+
+export function readVapidKeys(env: Env): VapidKeys | null {
+  const publicKey = env.get('VAPID_PUBLIC_KEY');
+  const privateKey = env.get('VAPID_PRIVATE_KEY');
+  const subject = env.get('VAPID_SUBJECT');
+  return publicKey && privateKey && subject ? { publicKey, privateKey, subject } : null;
+}
+
+export function createChannelAdapters(env: Env, pushHooks?: PushDeliveryHooks): ChannelAdapters {
+  const appUrl = env.get('APP_URL');
+  const resendKey = env.get('RESEND_API_KEY');
+  const emailFrom = env.get('EMAIL_FROM');
+  const twilioSid = env.get('TWILIO_ACCOUNT_SID');
+  const twilioToken = env.get('TWILIO_AUTH_TOKEN');
+  const twilioFrom = env.get('TWILIO_FROM_NUMBER');
+  const vapid = readVapidKeys(env);
+  const fallback = env.get('NOTIFICATIONS_LOG_ONLY') === 'true' ? createLoggingAdapter : createUnavailableAdapter;
+
+  return {
+    push: vapid
+      ? createWebPushAdapter(vapid, pushHooks, pushServiceHosts(env.get('PUSH_SERVICE_HOSTS')))
+      : fallback('push'),
+    email: resendKey && emailFrom
+      ? createResendEmailAdapter(resendKey, emailFrom, appUrl)
+      : fallback('email'),
+    sms: twilioSid && twilioToken && twilioFrom
+      ? createTwilioSmsAdapter(twilioSid, twilioToken, twilioFrom, appUrl)
+      : fallback('sms'),
+  };
+}
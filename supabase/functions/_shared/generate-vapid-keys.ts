@@ -0,0 +1,18 @@
+/*
+  # Generate a VAPID key pair
+
+  Prints a fresh key pair for Web Push:
+
+    deno run supabase/functions/_shared/generate-vapid-keys.ts
+
+  Set VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT as function secrets,
+  and the same public key as VITE_VAPID_PUBLIC_KEY for the app.
+*/
+
+import { generateVapidKeys } from './webPush.ts';
+
+const { publicKey, privateKey } = await generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log(`VITE_VAPID_PUBLIC_KEY=${publicKey}`);
@@ -0,0 +1,36 @@
+/*
+  # Push service allowlist
+
+  Shared by the app (src/lib/pushNotifications.ts) and the Edge Functions
+  (webPush.ts), so both accept exactly the same endpoints. Has no imports so
+  it runs unchanged in the browser, Deno and Node.
+
+  Browsers' push services are always allowed: FCM for Chrome-based browsers,
+  Firefox, Windows (WNS) and Safari. Extra hosts, e.g. a local push server for
+  tests, come from a comma-separated list in PUSH_SERVICE_HOSTS for the
+  functions and VITE_PUSH_SERVICE_HOSTS for the app.
+*/
+
+export const DEFAULT_PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'push.services.mozilla.com', 'notify.windows.com', 'push.apple.com'];
+
+export function pushServiceHosts(extraHosts?: string): string[] {
+  const extras = (extraHosts ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_PUSH_SERVICE_HOSTS, ...extras];
+}
+
+// Endpoints come from the patient's browser, so anything else must never be fetched with our VAPID key.
+export function isPushServiceEndpoint(endpoint: string, hosts: string[] = DEFAULT_PUSH_SERVICE_HOSTS): boolean {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:'
+      && !url.port
+      && !url.username
+      && !url.password
+      && hosts.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+}
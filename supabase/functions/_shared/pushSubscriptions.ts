@@ -0,0 +1,46 @@
+/*
+  # Push subscription storage
+
+  Reads and maintains `push_subscriptions` for the Web Push channel. Works with
+  either a service role client or a patient's own client, since RLS lets patients
+  manage their own devices.
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { PushDeliveryHooks } from './channels.ts';
+import { PushTarget } from './webPush.ts';
+
+export async function loadPushTargets(supabase: SupabaseClient, patientId: string, deviceId?: string): Promise<PushTarget[]> {
+  let query = supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('patient_id', patientId);
+
+  if (deviceId) query = query.eq('id', deviceId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+}
+
+export function createPushSubscriptionHooks(supabase: SupabaseClient): PushDeliveryHooks {
+  return {
+    async onDelivered(target) {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', target.id);
+
+      if (error) console.error('Error updating push subscription:', error);
+    },
+
+    async onGone(target) {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('id', target.id);
+
+      if (error) console.error('Error removing expired push subscription:', error);
+    },
+  };
+}
@@ -0,0 +1,201 @@
+/*
+  # Web Push sender
+
+  Sends a message straight to a browser's push service using VAPID (RFC 8292)
+  and `aes128gcm` payload encryption (RFC 8291). Only WebCrypto is used, so it
+  runs unchanged in Deno and in Node, and needs nothing beyond a locally
+  generated VAPID key pair (see generate-vapid-keys.ts).
+
+  Keys are base64url strings in the same format as the `web-push` tooling:
+    - publicKey: uncompressed P-256 point (65 bytes)
+    - privateKey: P-256 private scalar (32 bytes)
+*/
+
+import { isPushServiceEndpoint } from './pushServices.ts';
+
+export type VapidKeys = {
+  publicKey: string;
+  privateKey: string;
+  // A mailto: or https: contact the push service can use to reach the sender.
+  subject: string;
+};
+
+export type PushTarget = {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+export type WebPushOptions = {
+  // Seconds the push service keeps the message for an offline device.
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string;
+  // Hosts endpoints may point at; defaults to the browsers' own push services.
+  pushServiceHosts?: string[];
+};
+
+export class WebPushError extends Error {
+  constructor(message: string, public statusCode: number, public body: string) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+
+  // The subscription was revoked or expired and should be deleted.
+  get isGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const RECORD_SIZE = 4096;
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export async function generateVapidKeys(): Promise<{ publicKey: string; privateKey: string }> {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const jwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+  return {
+    publicKey: base64UrlEncode(concat(new Uint8Array([4]), base64UrlDecode(jwk.x!), base64UrlDecode(jwk.y!))),
+    privateKey: jwk.d!,
+  };
+}
+
+async function createVapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 4) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+
+  const signingKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    // Push services reject tokens valid for more than 24 hours.
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject,
+  })));
+
+  // WebCrypto already produces the raw r || s signature that JWS expects.
+  const signature = new Uint8Array(await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signingKey,
+    encoder.encode(`${header}.${claims}`)
+  ));
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+export async function encryptPayload(target: Pick<PushTarget, 'p256dh' | 'auth'>, payload: Uint8Array): Promise<Uint8Array> {
+  const receiverPublicKey = base64UrlDecode(target.p256dh);
+  const authSecret = base64UrlDecode(target.auth);
+
+  const senderKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const senderPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', senderKeys.publicKey));
+  const receiverKey = await crypto.subtle.importKey('raw', receiverPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: receiverKey }, senderKeys.privateKey, 256)
+  );
+
+  const inputKey = await hkdf(
+    authSecret,
+    sharedSecret,
+    concat(encoder.encode('WebPush: info\0'), receiverPublicKey, senderPublicKey),
+    32
+  );
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, inputKey, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, inputKey, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // A single record, terminated by the 0x02 padding delimiter.
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, concat(payload, new Uint8Array([2])))
+  );
+
+  const header = new Uint8Array(21);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = senderPublicKey.length;
+
+  return concat(header, senderPublicKey, ciphertext);
+}
+
+// Resolves with the push service's message location, if it returned one.
+export async function sendWebPush(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidKeys,
+  options: WebPushOptions = {}
+): Promise<string | undefined> {
+  // Reported as gone so the subscription is deleted rather than retried.
+  if (!isPushServiceEndpoint(target.endpoint, options.pushServiceHosts)) {
+    throw new WebPushError('Endpoint is not a known push service', 410, '');
+  }
+
+  const headers: Record<string, string> = {
+    Authorization: await createVapidAuthorization(target.endpoint, vapid),
+    'Content-Type': 'application/octet-stream',
+    'Content-Encoding': 'aes128gcm',
+    TTL: String(options.ttl ?? DEFAULT_TTL_SECONDS),
+  };
+  if (options.urgency) headers.Urgency = options.urgency;
+  if (options.topic) headers.Topic = options.topic;
+
+  const response = await fetch(target.endpoint, {
+    method: 'POST',
+    headers,
+    body: await encryptPayload(target, encoder.encode(payload)),
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new WebPushError(`Push service responded with ${response.status}`, response.status, body);
+  }
+
+  return response.headers.get('Location') ?? undefined;
+}
@@ -0,0 +1,167 @@
+/*
+  # Calendar feed edge function
+
+  Serves appointments as iCalendar (.ics) so patients can add them to their
+  calendar app.
+
+  Deploy with `--no-verify-jwt`: calendar apps fetch subscribed feeds without a
+  Supabase token, so the feed token in the URL is the only credential.
+
+  Secrets:
+    - SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+
+  Requests (GET):
+    - ?token=<calendar_feeds.token>
+        The patient's subscribable feed: every appointment from the last 90 days on
+    - ?appointment=<uuid> with the patient's `Authorization: Bearer <access token>`
+        A single appointment as a downloadable file
+
+  Response:
+    text/calendar
+*/
+
+import { SupabaseClient, createClient } from 'npm:@supabase/supabase-js@2';
+import { CalendarEvent, buildCalendar } from './ics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+const FEED_HISTORY_DAYS = 90;
+
+const APPOINTMENT_COLUMNS = `
+  id, title, starts_at, ends_at, location, notes, status, updated_at,
+  provider:healthcare_providers(provider_name, practice_name, phone_number, address, city, state, zip_code)
+`;
+
+type AppointmentRow = {
+  id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  location: string | null;
+  notes: string | null;
+  status: string;
+  updated_at: string;
+  provider: {
+    provider_name: string;
+    practice_name: string;
+    phone_number: string;
+    address: string;
+    city: string;
+    state: string;
+    zip_code: string;
+  } | null;
+};
+
+function toCalendarEvent(row: AppointmentRow): CalendarEvent {
+  const provider = row.provider;
+  const providerAddress = provider
+    ? `${provider.practice_name}, ${provider.address}, ${provider.city} ${provider.state} ${provider.zip_code}`
+    : '';
+  const description = [
+    provider ? `${provider.provider_name}, ${provider.practice_name}` : '',
+    provider?.phone_number ? `Phone: ${provider.phone_number}` : '',
+    row.notes ?? '',
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: `${row.id}@qivr`,
+    start: new Date(row.starts_at),
+    end: new Date(row.ends_at),
+    updatedAt: new Date(row.updated_at),
+    summary: row.title,
+    description,
+    location: row.location || providerAddress,
+    cancelled: row.status === 'cancelled',
+  };
+}
+
+function calendarResponse(body: string, filename?: string) {
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, max-age=300',
+      ...(filename ? { 'Content-Disposition': `attachment; filename="${filename}"` } : {}),
+    },
+  });
+}
+
+async function serveFeed(supabase: SupabaseClient, token: string) {
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select('patient_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) throw feedError;
+  if (!feed) return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_COLUMNS)
+    .eq('patient_id', feed.patient_id)
+    .gte('starts_at', since.toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (error) throw error;
+
+  return calendarResponse(buildCalendar({
+    name: 'Qivr appointments',
+    events: ((data ?? []) as unknown as AppointmentRow[]).map(toCalendarEvent),
+  }));
+}
+
+async function serveAppointment(supabase: SupabaseClient, appointmentId: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_COLUMNS)
+    .eq('id', appointmentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return new Response('Appointment not found', { status: 404, headers: corsHeaders });
+
+  const row = data as unknown as AppointmentRow;
+  return calendarResponse(
+    buildCalendar({ name: row.title, events: [toCalendarEvent(row)] }),
+    'appointment.ics'
+  );
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token');
+  const appointmentId = url.searchParams.get('appointment');
+
+  try {
+    if (token) {
+      const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+      return await serveFeed(supabase, token);
+    }
+
+    if (appointmentId) {
+      // The patient's own token, so RLS limits the lookup to their appointments.
+      const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+      });
+      return await serveAppointment(supabase, appointmentId);
+    }
+  } catch (error) {
+    console.error('Error building calendar:', error);
+    return new Response('Could not build calendar', { status: 500, headers: corsHeaders });
+  }
+
+  return new Response('token or appointment is required', { status: 400, headers: corsHeaders });
+});
@@ -0,0 +1,156 @@
+/*
+  # Geocode edge function
+
+  Turns a postcode or address into coordinates through a Nominatim-compatible
+  search API, so the browser never calls the geocoder directly.
+
+  Two uses:
+    - Patients look up a postcode for "near me" provider search
+    - With the service role key, fills in coordinates for providers that have
+      none (run after adding providers)
+
+  Secrets:
+    - SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+    - GEOCODER_URL (optional, defaults to the public Nominatim search endpoint;
+      point it at your own instance for heavy use)
+    - GEOCODER_COUNTRY (optional, ISO 3166 codes to search within, defaults to "au")
+    - GEOCODER_EMAIL (optional, contact address Nominatim asks heavy users to send)
+
+  Request body:
+    { "query": string } with the patient's `Authorization: Bearer <access token>`
+    { "backfill": "providers" } with the service role key
+
+  Response:
+    query:    { "latitude": number, "longitude": number, "label": string }, 404 when nothing matches
+    backfill: { "updated": number, "notFound": string[] }
+*/
+
+import { SupabaseClient, createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Nominatim's usage policy allows one request per second.
+const BACKFILL_DELAY_MS = 1100;
+
+type GeocodeResult = {
+  latitude: number;
+  longitude: number;
+  label: string;
+};
+
+async function geocode(query: string): Promise<GeocodeResult | null> {
+  const url = new URL(Deno.env.get('GEOCODER_URL') ?? 'https://nominatim.openstreetmap.org/search');
+  url.searchParams.set('q', query);
+  url.searchParams.set('format', 'jsonv2');
+  url.searchParams.set('limit', '1');
+  url.searchParams.set('countrycodes', Deno.env.get('GEOCODER_COUNTRY') ?? 'au');
+  const email = Deno.env.get('GEOCODER_EMAIL');
+  if (email) url.searchParams.set('email', email);
+
+  const response = await fetch(url, { headers: { 'User-Agent': 'qivr-geocode/1.0' } });
+  if (!response.ok) {
+    throw new Error(`Geocoder responded with ${response.status}`);
+  }
+
+  const [match] = await response.json() as { lat: string; lon: string; display_name: string }[];
+  if (!match) return null;
+
+  return {
+    latitude: Number(match.lat),
+    longitude: Number(match.lon),
+    label: match.display_name,
+  };
+}
+
+async function backfillProviders(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('healthcare_providers')
+    .select('id, practice_name, address, city, state, zip_code')
+    .is('latitude', null);
+
+  if (error) throw error;
+
+  let updated = 0;
+  const notFound: string[] = [];
+
+  for (const [index, provider] of (data ?? []).entries()) {
+    if (index > 0) await new Promise(resolve => setTimeout(resolve, BACKFILL_DELAY_MS));
+
+    const result = await geocode(`${provider.address}, ${provider.city} ${provider.state} ${provider.zip_code}`);
+    if (!result) {
+      notFound.push(provider.practice_name);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('healthcare_providers')
+      .update({ latitude: result.latitude, longitude: result.longitude, geocoded_at: new Date().toISOString() })
+      .eq('id', provider.id);
+
+    if (updateError) throw updateError;
+    updated++;
+  }
+
+  return { updated, notFound };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let body: { query?: string; backfill?: string } = {};
+  try {
+    const text = await req.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return new Response('Invalid JSON body', { status: 400, headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const authorization = req.headers.get('Authorization') ?? '';
+
+  try {
+    if (body.backfill === 'providers') {
+      if (authorization !== `Bearer ${serviceRoleKey}`) {
+        return new Response('Forbidden', { status: 403, headers: corsHeaders });
+      }
+      return jsonResponse(await backfillProviders(createClient(supabaseUrl, serviceRoleKey)));
+    }
+
+    const query = body.query?.trim();
+    if (!query) {
+      return new Response('query or backfill is required', { status: 400, headers: corsHeaders });
+    }
+
+    // Only signed-in patients may use the geocoder, so the public endpoint can't be used as an open proxy.
+    const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+    }
+
+    const result = await geocode(query);
+    if (!result) {
+      return new Response('No match for that location', { status: 404, headers: corsHeaders });
+    }
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Error geocoding:', error);
+    return new Response('Geocoding failed', { status: 502, headers: corsHeaders });
+  }
+});
@@ -0,0 +1,102 @@
+/*
+  # Test push edge function
+
+  Sends a test Web Push to the signed-in patient's registered devices, so they
+  can check notifications arrive before relying on them for reminders. Devices
+  the push service reports as gone are removed.
+
+  Secrets:
+    - SUPABASE_URL, SUPABASE_ANON_KEY (provided by Supabase)
+    - VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT, see ../_shared/webPush.ts
+    - PUSH_SERVICE_HOSTS (optional), see ../_shared/pushServices.ts
+
+  Request body (optional):
+    { "deviceId": uuid } to test a single device instead of all of them
+
+  Response:
+    { "results": [{ "deviceId": uuid, "status": "sent" | "failed" | "removed", "error"?: string }] }
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { readVapidKeys } from '../_shared/channels.ts';
+import { pushServiceHosts } from '../_shared/pushServices.ts';
+import { createPushSubscriptionHooks, loadPushTargets } from '../_shared/pushSubscriptions.ts';
+import { WebPushError, sendWebPush } from '../_shared/webPush.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type TestResult = {
+  deviceId: string;
+  status: 'sent' | 'failed' | 'removed';
+  error?: string;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const vapid = readVapidKeys(Deno.env);
+  if (!vapid) {
+    return new Response('VAPID keys are not configured', { status: 500, headers: corsHeaders });
+  }
+
+  // The patient's own token, so RLS limits everything below to their devices.
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  let body: { deviceId?: string } = {};
+  try {
+    const text = await req.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return new Response('Invalid JSON body', { status: 400, headers: corsHeaders });
+  }
+
+  const hooks = createPushSubscriptionHooks(supabase);
+  const hosts = pushServiceHosts(Deno.env.get('PUSH_SERVICE_HOSTS'));
+  const results: TestResult[] = [];
+
+  try {
+    const targets = await loadPushTargets(supabase, user.id, body.deviceId);
+    const payload = JSON.stringify({
+      title: 'Test notification',
+      body: 'Push notifications are working on this device.',
+      action_url: '/profile/notifications',
+      tag: 'qivr-test',
+    });
+
+    for (const target of targets) {
+      try {
+        await sendWebPush(target, payload, vapid, { ttl: 60, urgency: 'high', pushServiceHosts: hosts });
+        await hooks.onDelivered?.(target);
+        results.push({ deviceId: target.id, status: 'sent' });
+      } catch (error) {
+        if (error instanceof WebPushError && error.isGone) {
+          await hooks.onGone?.(target);
+          results.push({ deviceId: target.id, status: 'removed', error: 'This device is no longer subscribed' });
+        } else {
+          console.error('Error sending test push:', error);
+          results.push({ deviceId: target.id, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error loading push subscriptions:', error);
+    return new Response('Could not load devices', { status: 500, headers: corsHeaders });
+  }
+
+  return new Response(JSON.stringify({ results }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+});
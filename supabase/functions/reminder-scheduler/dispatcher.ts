@@ -0,0 +1,206 @@
+/*
+  # Notification dispatcher
+
+  Sends every undelivered `notifications` row through the patient's channels,
+  following the delivery policy in routing.ts. Reminders created by this
+  function and rows inserted elsewhere (red flags from the app, for example) all
+  go through here, so every notification follows the same rules.
+
+  Like the scheduler, all I/O comes in through `DispatchStore` and the channel
+  adapters.
+*/
+
+import { Channel, ChannelAdapters, Recipient } from '../_shared/channels.ts';
+import { PushTarget } from '../_shared/webPush.ts';
+import { DeliveryPreferences, classifyNotification, defaultPreferences, isDigestDue, planDelivery, resolveChannels } from './routing.ts';
+import { localClock } from './scheduler.ts';
+
+export type DeliveryStatus = 'pending' | 'sending' | 'digest' | 'sent' | 'in_app_only';
+
+export type UndeliveredNotification = {
+  id: string;
+  patientId: string;
+  type: string;
+  title: string;
+  message: string;
+  actionUrl: string | null;
+  deliveryStatus: 'pending' | 'digest';
+  createdAt: string;
+};
+
+export type DeliveryRecord = {
+  notificationId: string;
+  patientId: string;
+  channel: Channel;
+  status: 'sent' | 'failed' | 'skipped';
+  providerMessageId?: string;
+  error?: string;
+};
+
+export interface DispatchStore {
+  // Pending rows whose hold has expired, plus everything waiting for a digest.
+  loadUndeliveredNotifications(now: Date): Promise<UndeliveredNotification[]>;
+  loadDeliveryPreferences(patientIds: string[]): Promise<DeliveryPreferences[]>;
+  loadEmail(patientId: string): Promise<string | null>;
+  loadPushTargets(patientId: string): Promise<PushTarget[]>;
+  // Moves rows out of `pending`/`digest`; resolves with the ids this run won, so overlapping runs never send twice.
+  claimNotifications(ids: string[]): Promise<string[]>;
+  setDeliveryStatus(ids: string[], status: DeliveryStatus, deliverAfter?: Date | null): Promise<void>;
+  // Resolves false if another run already sent this patient's digest for the day.
+  claimDigest(patientId: string, localDate: string): Promise<boolean>;
+  recordDelivery(delivery: DeliveryRecord): Promise<void>;
+}
+
+export type DispatchSummary = {
+  sent: number;
+  held: number;
+  queuedForDigest: number;
+  inAppOnly: number;
+  digestsSent: number;
+  deliveries: Record<DeliveryRecord['status'], number>;
+};
+
+export async function runDispatcher(options: {
+  store: DispatchStore;
+  channels: ChannelAdapters;
+  now?: Date;
+}): Promise<DispatchSummary> {
+  const { store, channels, now = new Date() } = options;
+  const summary: DispatchSummary = {
+    sent: 0,
+    held: 0,
+    queuedForDigest: 0,
+    inAppOnly: 0,
+    digestsSent: 0,
+    deliveries: { sent: 0, failed: 0, skipped: 0 },
+  };
+
+  const notifications = await store.loadUndeliveredNotifications(now);
+  if (notifications.length === 0) return summary;
+
+  const patientIds = [...new Set(notifications.map(n => n.patientId))];
+  const preferencesById = new Map(
+    (await store.loadDeliveryPreferences(patientIds)).map(p => [p.patientId, p])
+  );
+  const recipients = new Map<string, Recipient>();
+  const loadedChannels = new Map<string, Set<Channel>>();
+
+  // Contact details are looked up once per patient, and only for channels actually in use.
+  const recipientFor = async (preferences: DeliveryPreferences, channelsInUse: Channel[]) => {
+    const recipient = recipients.get(preferences.patientId) ?? {
+      patientId: preferences.patientId,
+      fullName: preferences.fullName,
+      email: null,
+      phoneNumber: preferences.phoneNumber,
+      pushTargets: [],
+    };
+    const loaded = loadedChannels.get(preferences.patientId) ?? new Set<Channel>();
+
+    if (channelsInUse.includes('email') && !loaded.has('email')) {
+      recipient.email = await store.loadEmail(preferences.patientId);
+      loaded.add('email');
+    }
+    if (channelsInUse.includes('push') && !loaded.has('push')) {
+      recipient.pushTargets = await store.loadPushTargets(preferences.patientId);
+      loaded.add('push');
+    }
+
+    recipients.set(preferences.patientId, recipient);
+    loadedChannels.set(preferences.patientId, loaded);
+    return recipient;
+  };
+
+  const deliver = async (
+    notificationId: string,
+    recipient: Recipient,
+    sendOn: Channel[],
+    message: { title: string; body: string; actionUrl: string | null }
+  ) => {
+    for (const channel of sendOn) {
+      const adapter = channels[channel];
+      const record = async (delivery: Omit<DeliveryRecord, 'notificationId' | 'patientId' | 'channel'>) => {
+        summary.deliveries[delivery.status]++;
+        await store.recordDelivery({ notificationId, patientId: recipient.patientId, channel, ...delivery });
+      };
+
+      if (!adapter.canDeliver(recipient)) {
+        await record({ status: 'skipped', error: adapter.unavailableReason ?? 'No contact details for this channel' });
+        continue;
+      }
+
+      try {
+        const { providerMessageId } = await adapter.send({ notificationId, recipient, ...message });
+        await record({ status: 'sent', providerMessageId });
+      } catch (error) {
+        console.error(`Error sending ${channel} notification:`, error);
+        await record({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+
+  const digestItems = new Map<string, UndeliveredNotification[]>();
+
+  for (const notification of notifications) {
+    const preferences = preferencesById.get(notification.patientId) ?? defaultPreferences(notification.patientId);
+    const plan = planDelivery(notification.type, preferences, now);
+
+    if (plan.action === 'digest') {
+      if (notification.deliveryStatus !== 'digest') {
+        await store.setDeliveryStatus([notification.id], 'digest');
+        summary.queuedForDigest++;
+      }
+      digestItems.set(notification.patientId, [...(digestItems.get(notification.patientId) ?? []), notification]);
+      continue;
+    }
+
+    if (plan.action === 'hold') {
+      await store.setDeliveryStatus([notification.id], 'pending', plan.until);
+      summary.held++;
+      continue;
+    }
+
+    if (plan.action === 'in_app_only') {
+      await store.setDeliveryStatus([notification.id], 'in_app_only');
+      summary.inAppOnly++;
+      continue;
+    }
+
+    const [claimed] = await store.claimNotifications([notification.id]);
+    if (!claimed) continue;
+
+    await deliver(notification.id, await recipientFor(preferences, plan.channels), plan.channels, {
+      title: notification.title,
+      body: notification.message,
+      actionUrl: notification.actionUrl,
+    });
+    await store.setDeliveryStatus([notification.id], 'sent', null);
+    summary.sent++;
+  }
+
+  for (const [patientId, items] of digestItems) {
+    const preferences = preferencesById.get(patientId) ?? defaultPreferences(patientId);
+    if (!isDigestDue(preferences, now)) continue;
+    if (!await store.claimDigest(patientId, localClock(now, preferences.timeZone).date)) continue;
+
+    const claimedIds = new Set(await store.claimNotifications(items.map(item => item.id)));
+    const included = items.filter(item => claimedIds.has(item.id));
+    if (included.length === 0) continue;
+
+    // Each item's own routing still applies; the digest goes to every channel any of them uses.
+    const digestChannels = [...new Set(included.flatMap(item => {
+      const { category } = classifyNotification(item.type);
+      return category ? resolveChannels(preferences, category) : [];
+    }))];
+
+    // Deliveries are logged against the first item; the rest are marked sent with it.
+    await deliver(included[0].id, await recipientFor(preferences, digestChannels), digestChannels, {
+      title: preferences.digest.frequency === 'weekly' ? 'Your weekly summary' : 'Your daily summary',
+      body: included.map(item => `• ${item.title}`).join('\n'),
+      actionUrl: '/notifications',
+    });
+    await store.setDeliveryStatus(included.map(item => item.id), 'sent', null);
+    summary.digestsSent++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,90 @@
+/*
+  # Reminder scheduler edge function
+
+  Runs on a schedule (every 15 minutes works well). For each patient it reads
+  `notification_settings`, works out their local time from
+  `patient_profiles.time_zone` and creates a `notifications` row for every
+  reminder that is due. It then dispatches every undelivered notification,
+  reminders and red flags alike, following the patient's quiet hours, digest and
+  channel routing (see routing.ts).
+
+  Only callable with the service role key.
+
+  Secrets:
+    - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+    - APP_URL (optional, used to turn reminder links into absolute URLs)
+    - Channel secrets, see ../_shared/channels.ts
+
+  Request body (optional):
+    { "now": ISO timestamp, "catchUpMinutes": number } to replay a past run locally
+
+  Response:
+    {
+      "patientsChecked": number, "remindersCreated": number,
+      "dispatch": { "sent", "held", "queuedForDigest", "inAppOnly", "digestsSent", "deliveries": { "sent", "failed", "skipped" } }
+    }
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createChannelAdapters } from '../_shared/channels.ts';
+import { createPushSubscriptionHooks } from '../_shared/pushSubscriptions.ts';
+import { runDispatcher } from './dispatcher.ts';
+import { runReminderScheduler } from './scheduler.ts';
+import { createSupabaseDispatchStore, createSupabaseReminderStore } from './store.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    return new Response('Supabase service credentials are not configured', { status: 500, headers: corsHeaders });
+  }
+
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Forbidden', { status: 403, headers: corsHeaders });
+  }
+
+  let body: { now?: string; catchUpMinutes?: number } = {};
+  try {
+    const text = await req.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return new Response('Invalid JSON body', { status: 400, headers: corsHeaders });
+  }
+
+  const now = body.now ? new Date(body.now) : new Date();
+  if (Number.isNaN(now.getTime())) {
+    return new Response('now must be an ISO timestamp', { status: 400, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const reminders = await runReminderScheduler({
+      store: createSupabaseReminderStore(supabase),
+      now,
+      catchUpMinutes: body.catchUpMinutes,
+    });
+    const dispatch = await runDispatcher({
+      store: createSupabaseDispatchStore(supabase),
+      channels: createChannelAdapters(Deno.env, createPushSubscriptionHooks(supabase)),
+      now,
+    });
+    const summary = { ...reminders, dispatch };
+
+    return new Response(JSON.stringify(summary), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error running reminder scheduler:', error);
+    return new Response('Reminder run failed', { status: 500, headers: corsHeaders });
+  }
+});
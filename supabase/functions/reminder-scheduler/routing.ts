@@ -0,0 +1,151 @@
+/*
+  # Delivery policy
+
+  Decides what happens to a notification outside the app: send it now on some
+  channels, hold it until quiet hours end, fold it into the next digest, or
+  leave it in the in-app inbox only. Pure functions, no I/O.
+
+  Red flags are critical: they go to every channel the patient can be reached on,
+  regardless of channel switches, routing, quiet hours or digest settings.
+*/
+
+import { Channel } from '../_shared/channels.ts';
+import { localClock, parseReminderTime } from './scheduler.ts';
+
+export type DeliveryCategory =
+  | 'daily_checkin'
+  | 'exercises'
+  | 'medications'
+  | 'appointments'
+  | 'care_updates'
+  | 'educational';
+
+export type Priority = 'critical' | 'normal' | 'low';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export type ChannelRouting = Partial<Record<DeliveryCategory, Channel[]>>;
+
+export type DeliveryPreferences = {
+  patientId: string;
+  fullName: string;
+  phoneNumber: string | null;
+  timeZone: string | null;
+  reminderTime: string | null;
+  channels: Record<Channel, boolean>;
+  categories: Record<DeliveryCategory, boolean>;
+  routing: ChannelRouting;
+  quietHours: { start: string; end: string } | null;
+  digest: { frequency: DigestFrequency; day: number };
+};
+
+export type DeliveryPlan =
+  | { action: 'send'; channels: Channel[] }
+  | { action: 'hold'; until: Date }
+  | { action: 'digest' }
+  | { action: 'in_app_only' };
+
+export const ALL_CHANNELS: Channel[] = ['push', 'email', 'sms'];
+
+// Mirrors the column defaults for patients who never saved their settings.
+export function defaultPreferences(patientId: string, fullName = ''): DeliveryPreferences {
+  return {
+    patientId,
+    fullName,
+    phoneNumber: null,
+    timeZone: null,
+    reminderTime: null,
+    channels: { push: true, email: true, sms: false },
+    categories: {
+      daily_checkin: true,
+      exercises: true,
+      medications: true,
+      appointments: true,
+      care_updates: true,
+      educational: true,
+    },
+    routing: {},
+    quietHours: null,
+    digest: { frequency: 'off', day: 1 },
+  };
+}
+
+export function classifyNotification(notificationType: string): {
+  category: DeliveryCategory | null;
+  priority: Priority;
+} {
+  if (notificationType === 'red_flag') return { category: null, priority: 'critical' };
+
+  const type = notificationType.replace(/^reminder_/, '');
+  if (type === 'daily_checkin') return { category: 'daily_checkin', priority: 'normal' };
+  if (type.startsWith('exercise')) return { category: 'exercises', priority: 'low' };
+  if (type.startsWith('medication')) return { category: 'medications', priority: 'normal' };
+  if (type.startsWith('appointment')) return { category: 'appointments', priority: 'normal' };
+  if (type.startsWith('educational') || type.startsWith('content')) return { category: 'educational', priority: 'low' };
+  return { category: 'care_updates', priority: 'normal' };
+}
+
+export function resolveChannels(preferences: DeliveryPreferences, category: DeliveryCategory): Channel[] {
+  const routed = preferences.routing[category] ?? ALL_CHANNELS;
+  return ALL_CHANNELS.filter(channel => routed.includes(channel) && preferences.channels[channel]);
+}
+
+export function isQuietTime(preferences: DeliveryPreferences, now: Date): boolean {
+  if (!preferences.quietHours) return false;
+
+  const { minutes } = localClock(now, preferences.timeZone);
+  const start = parseReminderTime(preferences.quietHours.start);
+  const end = parseReminderTime(preferences.quietHours.end);
+
+  if (start === end) return false;
+  // Overnight windows such as 22:00-07:00 wrap past midnight.
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// Close enough across a DST change: at worst the hold ends an hour early or late.
+export function quietHoursEnd(preferences: DeliveryPreferences, now: Date): Date {
+  const { minutes } = localClock(now, preferences.timeZone);
+  const end = parseReminderTime(preferences.quietHours?.end ?? null);
+  const minutesUntilEnd = (end - minutes + 24 * 60) % (24 * 60);
+
+  const until = new Date(now.getTime() + minutesUntilEnd * 60 * 1000);
+  until.setUTCSeconds(0, 0);
+  return until;
+}
+
+export function planDelivery(
+  notificationType: string,
+  preferences: DeliveryPreferences,
+  now: Date
+): DeliveryPlan {
+  const { category, priority } = classifyNotification(notificationType);
+
+  if (priority === 'critical' || !category) {
+    return { action: 'send', channels: ALL_CHANNELS };
+  }
+
+  if (!preferences.categories[category]) return { action: 'in_app_only' };
+
+  const channels = resolveChannels(preferences, category);
+  if (channels.length === 0) return { action: 'in_app_only' };
+
+  if (priority === 'low' && preferences.digest.frequency !== 'off') return { action: 'digest' };
+
+  if (isQuietTime(preferences, now)) return { action: 'hold', until: quietHoursEnd(preferences, now) };
+
+  return { action: 'send', channels };
+}
+
+// A digest goes out at the first run after `reminder_time` on its day, outside quiet hours.
+export function isDigestDue(preferences: DeliveryPreferences, now: Date): boolean {
+  const { frequency, day } = preferences.digest;
+  if (frequency === 'off') return false;
+
+  const { minutes, weekday } = localClock(now, preferences.timeZone);
+  if (frequency === 'weekly' && weekday !== day) return false;
+  if (minutes < parseReminderTime(preferences.reminderTime)) return false;
+
+  return !isQuietTime(preferences, now);
+}
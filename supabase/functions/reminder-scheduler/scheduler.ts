@@ -0,0 +1,385 @@
+/*
+  # Reminder scheduling rules
+
+  Pure scheduling logic for the reminder-scheduler function. Everything that
+  touches the database comes in through `ReminderStore`, so a run can be driven
+  entirely by fakes. Reminders are only created here; sending them is up to
+  the dispatcher (dispatcher.ts), like any other notification.
+
+  Medication reminders follow each patient's own schedule (the `medications`
+  table) rather than the daily reminder time: one reminder per dose time,
+  listing every medication due then that hasn't been logged yet.
+
+  Appointment reminders go out twice: at the reminder time the day before, and
+  two hours before the appointment starts.
+*/
+
+export const DEFAULT_TIME_ZONE = 'Australia/Melbourne';
+
+// A reminder is still sent if the scheduler runs up to this long after it was due.
+export const DEFAULT_CATCH_UP_MINUTES = 60;
+
+export type ReminderType = 'daily_checkin' | 'exercises' | 'medications' | 'appointment';
+
+export type ReminderSettings = {
+  patientId: string;
+  timeZone: string | null;
+  reminderTime: string | null;
+  dailyCheckinReminder: boolean;
+  exerciseReminders: boolean;
+  medicationReminders: boolean;
+  appointmentReminders: boolean;
+};
+
+type ReminderDefinition = {
+  type: ReminderType;
+  enabled: (settings: ReminderSettings) => boolean;
+  // Minutes after the patient's reminder time.
+  offsetMinutes: number;
+  title: string;
+  message: string;
+  actionUrl: string;
+};
+
+const reminderDefinitions: ReminderDefinition[] = [
+  {
+    type: 'daily_checkin',
+    enabled: settings => settings.dailyCheckinReminder,
+    offsetMinutes: 0,
+    title: 'Time for your daily check-in',
+    message: 'It only takes a minute and helps your care team track your recovery.',
+    actionUrl: '/check-in',
+  },
+  {
+    type: 'exercises',
+    enabled: settings => settings.exerciseReminders,
+    // A second touchpoint later in the day rather than stacking everything on one alert.
+    offsetMinutes: 6 * 60,
+    title: "Don't forget your exercises",
+    message: "Your rehab exercises for today are ready when you are.",
+    actionUrl: '/learn',
+  },
+];
+
+export type MedicationSchedule = {
+  id: string;
+  patientId: string;
+  name: string;
+  dose: string;
+  // Local HH:MM times.
+  scheduleTimes: string[];
+  taperSteps: { startDate: string; dose: string; scheduleTimes: string[] }[];
+  startDate: string;
+  endDate: string | null;
+};
+
+export type MedicationSlot = {
+  time: string;
+  medications: { id: string; name: string; dose: string }[];
+};
+
+export type UpcomingAppointment = {
+  id: string;
+  patientId: string;
+  title: string;
+  startsAt: Date;
+  location: string;
+};
+
+export type DueAppointmentReminder = {
+  key: string;
+  localDate: string;
+  appointment: UpcomingAppointment;
+  when: 'day_before' | 'soon';
+};
+
+// Far enough ahead to cover tomorrow's appointments in every time zone.
+export const APPOINTMENT_LOOKAHEAD_HOURS = 48;
+
+const APPOINTMENT_SOON_MINUTES = 2 * 60;
+
+export interface ReminderStore {
+  loadReminderSettings(): Promise<ReminderSettings[]>;
+  hasCheckedIn(patientId: string, localDate: string): Promise<boolean>;
+  // Active, scheduled (non-PRN) medications for these patients.
+  loadMedicationSchedules(patientIds: string[]): Promise<MedicationSchedule[]>;
+  // Ids of medications already taken or skipped for this dose slot.
+  loadLoggedMedicationIds(patientId: string, localDate: string, time: string): Promise<string[]>;
+  // Scheduled appointments starting between `from` and `to`.
+  loadUpcomingAppointments(patientIds: string[], from: Date, to: Date): Promise<UpcomingAppointment[]>;
+  // `key` is the reminder type, `medications_HH:MM` for a dose slot or
+  // `appointment_<when>_<id>` for an appointment.
+  // Resolves false if another run already claimed this reminder.
+  claimReminder(patientId: string, key: string, localDate: string): Promise<boolean>;
+  createNotification(
+    patientId: string,
+    notification: { type: ReminderType; title: string; message: string; actionUrl: string }
+  ): Promise<string>;
+  linkNotification(patientId: string, key: string, localDate: string, notificationId: string): Promise<void>;
+}
+
+export type ReminderRunSummary = {
+  patientsChecked: number;
+  remindersCreated: number;
+};
+
+export type LocalClock = {
+  date: string;
+  minutes: number;
+  // 0 = Sunday ... 6 = Saturday
+  weekday: number;
+};
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function localClock(now: Date, timeZone: string | null): LocalClock {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || DEFAULT_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    // An unknown zone name shouldn't stop the patient getting reminders.
+    return localClock(now, DEFAULT_TIME_ZONE);
+  }
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    weekday: weekdays.indexOf(part('weekday')),
+  };
+}
+
+export function parseReminderTime(reminderTime: string | null): number {
+  const [hours, minutes] = (reminderTime || '09:00').split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function findDueReminders(
+  settings: ReminderSettings,
+  now: Date,
+  catchUpMinutes: number = DEFAULT_CATCH_UP_MINUTES
+): { localDate: string; reminders: ReminderDefinition[] } {
+  const { date, minutes } = localClock(now, settings.timeZone);
+  const baseMinutes = parseReminderTime(settings.reminderTime);
+
+  const reminders = reminderDefinitions.filter(definition => {
+    if (!definition.enabled(settings)) return false;
+    const dueAt = Math.min(baseMinutes + definition.offsetMinutes, 24 * 60 - 1);
+    return minutes >= dueAt && minutes < dueAt + catchUpMinutes;
+  });
+
+  return { localDate: date, reminders };
+}
+
+// Mirrors scheduleForDate in src/lib/medications.ts: the latest taper step that has started wins.
+export function medicationScheduleFor(
+  medication: MedicationSchedule,
+  localDate: string
+): { dose: string; times: string[] } | null {
+  if (localDate < medication.startDate) return null;
+  if (medication.endDate && localDate > medication.endDate) return null;
+
+  let schedule = { dose: medication.dose, times: medication.scheduleTimes };
+  for (const step of medication.taperSteps) {
+    if (step.startDate <= localDate) schedule = { dose: step.dose, times: step.scheduleTimes };
+  }
+
+  return { dose: schedule.dose, times: schedule.times.map(time => time.slice(0, 5)) };
+}
+
+export function findDueMedicationSlots(
+  settings: ReminderSettings,
+  medications: MedicationSchedule[],
+  now: Date,
+  catchUpMinutes: number = DEFAULT_CATCH_UP_MINUTES
+): { localDate: string; slots: MedicationSlot[] } {
+  const { date, minutes } = localClock(now, settings.timeZone);
+  const slots = new Map<string, MedicationSlot>();
+
+  for (const medication of medications) {
+    const schedule = medicationScheduleFor(medication, date);
+    if (!schedule) continue;
+
+    for (const time of schedule.times) {
+      const dueAt = parseReminderTime(time);
+      if (minutes < dueAt || minutes >= dueAt + catchUpMinutes) continue;
+
+      const slot = slots.get(time) ?? { time, medications: [] };
+      slot.medications.push({ id: medication.id, name: medication.name, dose: schedule.dose });
+      slots.set(time, slot);
+    }
+  }
+
+  return { localDate: date, slots: [...slots.values()].sort((a, b) => a.time.localeCompare(b.time)) };
+}
+
+// Calendar arithmetic on the YYYY-MM-DD date itself, since a local day is 23 or 25 hours long across a DST change.
+export function previousLocalDate(localDate: string): string {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+}
+
+export function findDueAppointmentReminders(
+  settings: ReminderSettings,
+  appointments: UpcomingAppointment[],
+  now: Date,
+  catchUpMinutes: number = DEFAULT_CATCH_UP_MINUTES
+): DueAppointmentReminder[] {
+  const { date: today, minutes } = localClock(now, settings.timeZone);
+  const reminderMinutes = parseReminderTime(settings.reminderTime);
+  const due: DueAppointmentReminder[] = [];
+
+  for (const appointment of appointments) {
+    const startsIn = (appointment.startsAt.getTime() - now.getTime()) / (60 * 1000);
+    if (startsIn <= 0) continue;
+
+    const appointmentDate = localClock(appointment.startsAt, settings.timeZone).date;
+    const dayBefore = previousLocalDate(appointmentDate);
+
+    if (today === dayBefore && minutes >= reminderMinutes && minutes < reminderMinutes + catchUpMinutes) {
+      due.push({ key: `appointment_day_before_${appointment.id}`, localDate: appointmentDate, appointment, when: 'day_before' });
+    }
+    if (startsIn <= APPOINTMENT_SOON_MINUTES && startsIn > APPOINTMENT_SOON_MINUTES - catchUpMinutes) {
+      due.push({ key: `appointment_soon_${appointment.id}`, localDate: appointmentDate, appointment, when: 'soon' });
+    }
+  }
+
+  return due;
+}
+
+function formatLocalTime(date: Date, timeZone: string | null): string {
+  try {
+    return new Intl.DateTimeFormat('en-AU', {
+      timeZone: timeZone || DEFAULT_TIME_ZONE,
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(date);
+  } catch {
+    return formatLocalTime(date, DEFAULT_TIME_ZONE);
+  }
+}
+
+function appointmentReminder(reminder: DueAppointmentReminder, timeZone: string | null) {
+  const { appointment } = reminder;
+  const time = formatLocalTime(appointment.startsAt, timeZone);
+
+  return {
+    type: 'appointment' as const,
+    title: reminder.when === 'day_before'
+      ? `Appointment tomorrow at ${time}`
+      : `Appointment at ${time}`,
+    message: appointment.location ? `${appointment.title}, ${appointment.location}` : appointment.title,
+    actionUrl: '/appointments',
+  };
+}
+
+function medicationReminder(medications: MedicationSlot['medications']) {
+  const describe = (medication: MedicationSlot['medications'][number]) =>
+    medication.dose ? `${medication.name} ${medication.dose}` : medication.name;
+
+  return {
+    type: 'medications' as const,
+    title: medications.length === 1
+      ? `Time to take ${describe(medications[0])}`
+      : `Time to take ${medications.length} medications`,
+    message: medications.length === 1
+      ? 'Tap to log your dose once you have taken it.'
+      : `${medications.map(describe).join(', ')}. Tap to log your doses.`,
+    actionUrl: '/medications',
+  };
+}
+
+export async function runReminderScheduler(options: {
+  store: ReminderStore;
+  now?: Date;
+  catchUpMinutes?: number;
+}): Promise<ReminderRunSummary> {
+  const { store, now = new Date(), catchUpMinutes } = options;
+  const summary: ReminderRunSummary = { patientsChecked: 0, remindersCreated: 0 };
+
+  const allSettings = await store.loadReminderSettings();
+  const medicationPatientIds = allSettings.filter(s => s.medicationReminders).map(s => s.patientId);
+  const medications = medicationPatientIds.length > 0
+    ? await store.loadMedicationSchedules(medicationPatientIds)
+    : [];
+  const appointmentPatientIds = allSettings.filter(s => s.appointmentReminders).map(s => s.patientId);
+  const appointments = appointmentPatientIds.length > 0
+    ? await store.loadUpcomingAppointments(
+      appointmentPatientIds,
+      now,
+      new Date(now.getTime() + APPOINTMENT_LOOKAHEAD_HOURS * 60 * 60 * 1000)
+    )
+    : [];
+
+  const createReminder = async (
+    patientId: string,
+    key: string,
+    localDate: string,
+    notification: Parameters<ReminderStore['createNotification']>[1]
+  ) => {
+    if (!await store.claimReminder(patientId, key, localDate)) return;
+
+    const notificationId = await store.createNotification(patientId, notification);
+    await store.linkNotification(patientId, key, localDate, notificationId);
+    summary.remindersCreated++;
+  };
+
+  for (const settings of allSettings) {
+    summary.patientsChecked++;
+
+    const { localDate, reminders } = findDueReminders(settings, now, catchUpMinutes);
+
+    for (const reminder of reminders) {
+      if (reminder.type === 'daily_checkin' && await store.hasCheckedIn(settings.patientId, localDate)) {
+        continue;
+      }
+      await createReminder(settings.patientId, reminder.type, localDate, reminder);
+    }
+
+    if (settings.medicationReminders) {
+      const { slots } = findDueMedicationSlots(
+        settings,
+        medications.filter(m => m.patientId === settings.patientId),
+        now,
+        catchUpMinutes
+      );
+
+      for (const slot of slots) {
+        const logged = new Set(await store.loadLoggedMedicationIds(settings.patientId, localDate, slot.time));
+        const outstanding = slot.medications.filter(m => !logged.has(m.id));
+        if (outstanding.length === 0) continue;
+
+        await createReminder(settings.patientId, `medications_${slot.time}`, localDate, medicationReminder(outstanding));
+      }
+    }
+
+    if (settings.appointmentReminders) {
+      const due = findDueAppointmentReminders(
+        settings,
+        appointments.filter(a => a.patientId === settings.patientId),
+        now,
+        catchUpMinutes
+      );
+
+      for (const reminder of due) {
+        await createReminder(
+          settings.patientId,
+          reminder.key,
+          reminder.localDate,
+          appointmentReminder(reminder, settings.timeZone)
+        );
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,304 @@
+/*
+  # Supabase-backed reminder and dispatch stores
+
+  Uses the service role client, so RLS does not apply; every query is scoped by
+  patient explicitly.
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { loadPushTargets } from '../_shared/pushSubscriptions.ts';
+import { DispatchStore, UndeliveredNotification } from './dispatcher.ts';
+import { DeliveryPreferences, DigestFrequency, defaultPreferences } from './routing.ts';
+import { MedicationSchedule, ReminderSettings, ReminderStore, UpcomingAppointment } from './scheduler.ts';
+
+const UNIQUE_VIOLATION = '23505';
+
+// Enough for one run; anything left over is picked up fifteen minutes later.
+const DISPATCH_BATCH_SIZE = 500;
+
+async function claimScheduledReminder(
+  supabase: SupabaseClient,
+  patientId: string,
+  type: string,
+  localDate: string
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('scheduled_reminders')
+    .insert({ patient_id: patientId, reminder_type: type, local_date: localDate });
+
+  if (error?.code === UNIQUE_VIOLATION) return false;
+  if (error) throw error;
+  return true;
+}
+
+export function createSupabaseReminderStore(supabase: SupabaseClient): ReminderStore {
+  return {
+    async loadReminderSettings() {
+      const { data, error } = await supabase
+        .from('notification_settings')
+        .select('*, patient_profiles!inner(time_zone)')
+        .or('daily_checkin_reminder.eq.true,exercise_reminders.eq.true,medication_reminders.eq.true,appointment_reminders.eq.true');
+
+      if (error) throw error;
+
+      return (data ?? []).map((row): ReminderSettings => ({
+        patientId: row.patient_id,
+        timeZone: row.patient_profiles.time_zone,
+        reminderTime: row.reminder_time,
+        dailyCheckinReminder: row.daily_checkin_reminder,
+        exerciseReminders: row.exercise_reminders,
+        medicationReminders: row.medication_reminders,
+        appointmentReminders: row.appointment_reminders,
+      }));
+    },
+
+    // `check_in_date` is the patient's own calendar day; the app keeps `time_zone` matched to the device that sets it.
+    async hasCheckedIn(patientId, localDate) {
+      const { count, error } = await supabase
+        .from('proms_data')
+        .select('id', { count: 'exact', head: true })
+        .eq('patient_id', patientId)
+        .eq('check_in_date', localDate);
+
+      if (error) throw error;
+      return (count ?? 0) > 0;
+    },
+
+    async loadMedicationSchedules(patientIds) {
+      const { data, error } = await supabase
+        .from('medications')
+        .select('id, patient_id, name, dose, schedule_times, taper_steps, start_date, end_date')
+        .in('patient_id', patientIds)
+        .eq('active', true)
+        .eq('is_prn', false);
+
+      if (error) throw error;
+
+      return (data ?? []).map((row): MedicationSchedule => ({
+        id: row.id,
+        patientId: row.patient_id,
+        name: row.name,
+        dose: row.dose,
+        scheduleTimes: row.schedule_times ?? [],
+        taperSteps: ((row.taper_steps ?? []) as { start_date: string; dose: string; schedule_times: string[] }[])
+          .map(step => ({ startDate: step.start_date, dose: step.dose, scheduleTimes: step.schedule_times }))
+          .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+        startDate: row.start_date,
+        endDate: row.end_date,
+      }));
+    },
+
+    async loadLoggedMedicationIds(patientId, localDate, time) {
+      const { data, error } = await supabase
+        .from('medication_doses')
+        .select('medication_id')
+        .eq('patient_id', patientId)
+        .eq('scheduled_date', localDate)
+        .eq('scheduled_time', time);
+
+      if (error) throw error;
+      return (data ?? []).map(row => row.medication_id);
+    },
+
+    async loadUpcomingAppointments(patientIds, from, to) {
+      const { data, error } = await supabase
+        .from('appointments')
+        .select('id, patient_id, title, starts_at, location, provider:healthcare_providers(practice_name, address, city)')
+        .in('patient_id', patientIds)
+        .eq('status', 'scheduled')
+        .gt('starts_at', from.toISOString())
+        .lte('starts_at', to.toISOString());
+
+      if (error) throw error;
+
+      return (data ?? []).map((row): UpcomingAppointment => {
+        // PostgREST types a to-one embed as an array unless generated types say otherwise.
+        const provider = (Array.isArray(row.provider) ? row.provider[0] : row.provider) as
+          { practice_name: string; address: string; city: string } | null;
+        return {
+          id: row.id,
+          patientId: row.patient_id,
+          title: row.title,
+          startsAt: new Date(row.starts_at),
+          location: row.location || (provider ? `${provider.practice_name}, ${provider.address}, ${provider.city}` : ''),
+        };
+      });
+    },
+
+    claimReminder(patientId, key, localDate) {
+      return claimScheduledReminder(supabase, patientId, key, localDate);
+    },
+
+    async createNotification(patientId, notification) {
+      const { data, error } = await supabase
+        .from('notifications')
+        .insert({
+          patient_id: patientId,
+          notification_type: `reminder_${notification.type}`,
+          title: notification.title,
+          message: notification.message,
+          action_url: notification.actionUrl,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    },
+
+    async linkNotification(patientId, key, localDate, notificationId) {
+      const { error } = await supabase
+        .from('scheduled_reminders')
+        .update({ notification_id: notificationId })
+        .eq('patient_id', patientId)
+        .eq('reminder_type', key)
+        .eq('local_date', localDate);
+
+      if (error) throw error;
+    },
+  };
+}
+
+type SettingsRow = {
+  push_enabled: boolean;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+  daily_checkin_reminder: boolean;
+  exercise_reminders: boolean;
+  appointment_reminders: boolean;
+  medication_reminders: boolean;
+  educational_content: boolean;
+  reminder_time: string | null;
+  quiet_hours_enabled: boolean | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  digest_frequency: DigestFrequency | null;
+  digest_day: number | null;
+  channel_routing: DeliveryPreferences['routing'] | null;
+};
+
+function toDeliveryPreferences(
+  profile: { id: string; full_name: string; phone_number: string | null; time_zone: string | null },
+  settings: SettingsRow | null
+): DeliveryPreferences {
+  const preferences = defaultPreferences(profile.id, profile.full_name);
+  preferences.phoneNumber = profile.phone_number;
+  preferences.timeZone = profile.time_zone;
+  if (!settings) return preferences;
+
+  return {
+    ...preferences,
+    reminderTime: settings.reminder_time,
+    channels: { push: settings.push_enabled, email: settings.email_enabled, sms: settings.sms_enabled },
+    categories: {
+      daily_checkin: settings.daily_checkin_reminder,
+      exercises: settings.exercise_reminders,
+      medications: settings.medication_reminders,
+      appointments: settings.appointment_reminders,
+      care_updates: true,
+      educational: settings.educational_content,
+    },
+    routing: settings.channel_routing ?? {},
+    quietHours: settings.quiet_hours_enabled && settings.quiet_hours_start && settings.quiet_hours_end
+      ? { start: settings.quiet_hours_start, end: settings.quiet_hours_end }
+      : null,
+    digest: { frequency: settings.digest_frequency ?? 'off', day: settings.digest_day ?? 1 },
+  };
+}
+
+export function createSupabaseDispatchStore(supabase: SupabaseClient): DispatchStore {
+  return {
+    async loadUndeliveredNotifications(now) {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, patient_id, notification_type, title, message, action_url, delivery_status, created_at')
+        .or(`delivery_status.eq.digest,and(delivery_status.eq.pending,or(deliver_after.is.null,deliver_after.lte.${now.toISOString()}))`)
+        .order('created_at', { ascending: true })
+        .limit(DISPATCH_BATCH_SIZE);
+
+      if (error) throw error;
+
+      return (data ?? []).map((row): UndeliveredNotification => ({
+        id: row.id,
+        patientId: row.patient_id,
+        type: row.notification_type,
+        title: row.title,
+        message: row.message,
+        actionUrl: row.action_url,
+        deliveryStatus: row.delivery_status,
+        createdAt: row.created_at,
+      }));
+    },
+
+    async loadDeliveryPreferences(patientIds) {
+      const { data, error } = await supabase
+        .from('patient_profiles')
+        .select('id, full_name, phone_number, time_zone, notification_settings(*)')
+        .in('id', patientIds);
+
+      if (error) throw error;
+
+      return (data ?? []).map(row => {
+        // PostgREST embeds a one-to-one relation as an object, but older schemas return an array.
+        const settings = Array.isArray(row.notification_settings)
+          ? row.notification_settings[0] ?? null
+          : row.notification_settings;
+        return toDeliveryPreferences(row, settings as SettingsRow | null);
+      });
+    },
+
+    async loadEmail(patientId) {
+      const { data, error } = await supabase.auth.admin.getUserById(patientId);
+      if (error) {
+        console.error('Error loading patient email:', error);
+        return null;
+      }
+      return data.user?.email ?? null;
+    },
+
+    loadPushTargets(patientId) {
+      return loadPushTargets(supabase, patientId);
+    },
+
+    async claimNotifications(ids) {
+      const { data, error } = await supabase
+        .from('notifications')
+        .update({ delivery_status: 'sending' })
+        .in('id', ids)
+        .in('delivery_status', ['pending', 'digest'])
+        .select('id');
+
+      if (error) throw error;
+      return (data ?? []).map(row => row.id);
+    },
+
+    async setDeliveryStatus(ids, status, deliverAfter) {
+      const update: Record<string, unknown> = { delivery_status: status };
+      if (deliverAfter !== undefined) update.deliver_after = deliverAfter?.toISOString() ?? null;
+
+      const { error } = await supabase
+        .from('notifications')
+        .update(update)
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    claimDigest(patientId, localDate) {
+      return claimScheduledReminder(supabase, patientId, 'digest', localDate);
+    },
+
+    async recordDelivery(delivery) {
+      const { error } = await supabase.from('notification_deliveries').insert({
+        notification_id: delivery.notificationId,
+        patient_id: delivery.patientId,
+        channel: delivery.channel,
+        status: delivery.status,
+        provider_message_id: delivery.providerMessageId ?? null,
+        error: delivery.error ?? null,
+      });
+
+      if (error) console.error('Error recording notification delivery:', error);
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/*
+  # Transcription edge function
+
+  Fallback speech-to-text for browsers without the Web Speech API. Forwards a
+  clip recorded by a signed-in patient to an OpenAI-compatible audio
+  transcription API and returns the text.
+
+  Secrets:
+    - SUPABASE_URL, SUPABASE_ANON_KEY (provided by Supabase)
+    - LLM_API_KEY (required, shared with orthoai-chat)
+    - TRANSCRIBE_API_URL (optional, defaults to the OpenAI audio transcriptions endpoint)
+    - TRANSCRIBE_MODEL (optional, defaults to whisper-1)
+
+  Request body (multipart/form-data), with the patient's `Authorization: Bearer <access token>`:
+    - file: audio clip
+    - language: ISO-639-1 code, e.g. "en"
+
+  Response:
+    { "text": string }
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const apiKey = Deno.env.get('LLM_API_KEY');
+  if (!apiKey) {
+    return new Response('LLM_API_KEY is not configured', { status: 500, headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return new Response('Expected multipart form data', { status: 400, headers: corsHeaders });
+  }
+
+  const file = form.get('file');
+  if (!(file instanceof File) || file.size === 0) {
+    return new Response('file is required', { status: 400, headers: corsHeaders });
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    return new Response('Recording is too long', { status: 413, headers: corsHeaders });
+  }
+
+  const upstreamForm = new FormData();
+  upstreamForm.append('file', file, file.name || 'dictation.webm');
+  upstreamForm.append('model', Deno.env.get('TRANSCRIBE_MODEL') ?? 'whisper-1');
+  const language = form.get('language');
+  if (typeof language === 'string' && language) upstreamForm.append('language', language);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(
+      Deno.env.get('TRANSCRIBE_API_URL') ?? 'https://api.openai.com/v1/audio/transcriptions',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: upstreamForm,
+      }
+    );
+  } catch (error) {
+    console.error('Transcription request failed:', error);
+    return new Response('Transcription request failed', { status: 502, headers: corsHeaders });
+  }
+
+  if (!upstream.ok) {
+    const detail = await upstream.text();
+    console.error('Transcription request failed:', upstream.status, detail);
+    return new Response('Transcription request failed', { status: 502, headers: corsHeaders });
+  }
+
+  const { text } = await upstream.json();
+
+  return new Response(JSON.stringify({ text: text ?? '' }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+});
@@ -0,0 +1,64 @@
+/*
+  # Red-Flag Triage Events
+
+  1. New Tables
+    - `triage_events`
+      - `id` (uuid, primary key)
+      - `patient_id` (uuid, references patient_profiles)
+      - `source` (text) - chat, check_in
+      - `severity` (text) - emergency, urgent
+      - `rule_ids` (text[]) - ids of the triage rules that fired
+      - `evidence` (jsonb) - per-rule evidence shown to the patient
+      - `excerpt` (text) - the message or check-in notes that were scanned
+      - `acknowledged_at` (timestamptz, nullable) - when the patient dismissed the guidance
+      - `reviewed_at` (timestamptz, nullable) - when a clinician reviewed the event
+      - `reviewed_by` (uuid, nullable)
+      - `review_notes` (text)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `triage_events`
+    - Patients can insert and view their own events and acknowledge them
+    - Patients can insert their own notifications so red-flag hits reach the inbox
+*/
+
+CREATE TABLE IF NOT EXISTS triage_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('chat', 'check_in')),
+  severity text NOT NULL CHECK (severity IN ('emergency', 'urgent')),
+  rule_ids text[] NOT NULL DEFAULT '{}',
+  evidence jsonb DEFAULT '[]'::jsonb,
+  excerpt text DEFAULT '',
+  acknowledged_at timestamptz,
+  reviewed_at timestamptz,
+  reviewed_by uuid,
+  review_notes text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE triage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own triage events"
+  ON triage_events FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own triage events"
+  ON triage_events FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own triage events"
+  ON triage_events FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own notifications"
+  ON notifications FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_triage_events_patient ON triage_events(patient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_triage_events_unreviewed ON triage_events(created_at DESC) WHERE reviewed_at IS NULL;
@@ -0,0 +1,35 @@
+/*
+  # Chat Conversations and Message Search
+
+  1. Modified Tables
+    - `chat_sessions`
+      - `title` (text) - generated from the first patient message, editable by the patient
+      - `archived` (boolean) - hidden from the main conversation list when true
+    - `chat_messages`
+      - `search_vector` (tsvector, generated) - English full-text index of `message`
+
+  2. Indexes
+    - Conversation list ordered by recent activity
+    - GIN index for full-text search across messages
+*/
+
+ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS title text DEFAULT '';
+ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS archived boolean DEFAULT false;
+
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(message, ''))) STORED;
+
+-- Existing conversations take their title from the first thing the patient asked
+UPDATE chat_sessions
+SET title = left(first_message.message, 60)
+FROM (
+  SELECT DISTINCT ON (session_id) session_id, message
+  FROM chat_messages
+  WHERE sender = 'patient'
+  ORDER BY session_id, created_at ASC
+) AS first_message
+WHERE first_message.session_id = chat_sessions.id
+AND (chat_sessions.title IS NULL OR chat_sessions.title = '');
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_activity ON chat_sessions(patient_id, archived, last_activity DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_search ON chat_messages USING GIN(search_vector);
@@ -0,0 +1,63 @@
+/*
+  # Chat Attachments
+
+  1. Storage
+    - Private `chat-attachments` bucket for photos and PDFs sent in chat
+    - Objects are stored under `<patient id>/<chat session id>/` and referenced from
+      `chat_messages.metadata.attachments`
+
+  2. Modified Tables
+    - `medical_records`
+      - `storage_bucket` (text, nullable) - bucket holding the file when it lives in Supabase Storage
+      - `storage_path` (text, nullable) - object path within `storage_bucket`
+
+  3. Security
+    - Patients can upload, read and delete objects in their own folder only
+    - Patients can update messages in their own sessions so filed attachments are marked in metadata
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own chat attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'chat-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view own chat attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'chat-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own chat attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'chat-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+ALTER TABLE medical_records ADD COLUMN IF NOT EXISTS storage_bucket text;
+ALTER TABLE medical_records ADD COLUMN IF NOT EXISTS storage_path text;
+
+CREATE POLICY "Users can update messages in own sessions"
+  ON chat_messages FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_sessions
+      WHERE chat_sessions.id = chat_messages.session_id
+      AND chat_sessions.patient_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM chat_sessions
+      WHERE chat_sessions.id = chat_messages.session_id
+      AND chat_sessions.patient_id = auth.uid()
+    )
+  );
@@ -0,0 +1,37 @@
+/*
+  # Medical Records Storage
+
+  1. Storage
+    - Private `medical-records` bucket for uploaded documents (PDFs and images, up to 20 MB)
+    - Objects are stored under `<patient id>/` and referenced from
+      `medical_records.storage_bucket` / `medical_records.storage_path`
+
+  2. Security
+    - Patients can upload, read and delete objects in their own folder only
+    - Files are only ever served through short-lived signed URLs
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'medical-records',
+  'medical-records',
+  false,
+  20971520,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own medical record files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'medical-records' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view own medical record files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'medical-records' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own medical record files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'medical-records' AND (storage.foldername(name))[1] = auth.uid()::text);
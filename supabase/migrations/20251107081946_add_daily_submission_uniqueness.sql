@@ -0,0 +1,90 @@
+/*
+  # One Check-In and ODI Assessment per Day
+
+  Check-ins and ODI assessments can now be saved on the device while offline and
+  replayed later, possibly more than once. Replays upsert on the patient and date,
+  so each table needs a matching unique constraint.
+
+  1. New Tables
+    - `archived_submissions`
+      - `id` (uuid, primary key)
+      - `source_table` (text) - the table the row was moved out of
+      - `source_id` (uuid) - the row's id in that table
+      - `patient_id` (uuid, references patient_profiles)
+      - `row_data` (jsonb) - the full row as it was
+      - `archived_at` (timestamptz)
+
+  2. Data Cleanup
+    - Where a patient already has several rows for the same day, the most
+      recently created one stays (this is the one the app already displays)
+      and the others are moved to `archived_submissions`, so nothing a patient
+      entered is lost
+
+  3. Constraints
+    - `proms_data`: unique (`patient_id`, `check_in_date`)
+    - `odi_assessments`: unique (`patient_id`, `assessment_date`)
+
+  4. Security
+    - Patients can view their own archived rows; only the service role can
+      change them
+*/
+
+CREATE TABLE IF NOT EXISTS archived_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_table text NOT NULL,
+  source_id uuid NOT NULL,
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  row_data jsonb NOT NULL,
+  archived_at timestamptz DEFAULT now(),
+  CONSTRAINT archived_submissions_source_key UNIQUE (source_table, source_id)
+);
+
+ALTER TABLE archived_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own archived submissions"
+  ON archived_submissions FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+WITH superseded AS (
+  DELETE FROM proms_data p
+  USING proms_data newer
+  WHERE p.patient_id = newer.patient_id
+    AND p.check_in_date = newer.check_in_date
+    AND (p.created_at, p.id) < (newer.created_at, newer.id)
+  RETURNING p.*
+)
+INSERT INTO archived_submissions (source_table, source_id, patient_id, row_data)
+SELECT DISTINCT ON (s.id) 'proms_data', s.id, s.patient_id, to_jsonb(s)
+FROM superseded s
+ON CONFLICT (source_table, source_id) DO NOTHING;
+
+WITH superseded AS (
+  DELETE FROM odi_assessments o
+  USING odi_assessments newer
+  WHERE o.patient_id = newer.patient_id
+    AND o.assessment_date = newer.assessment_date
+    AND (o.created_at, o.id) < (newer.created_at, newer.id)
+  RETURNING o.*
+)
+INSERT INTO archived_submissions (source_table, source_id, patient_id, row_data)
+SELECT DISTINCT ON (s.id) 'odi_assessments', s.id, s.patient_id, to_jsonb(s)
+FROM superseded s
+ON CONFLICT (source_table, source_id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'proms_data_patient_date_key'
+  ) THEN
+    ALTER TABLE proms_data
+      ADD CONSTRAINT proms_data_patient_date_key UNIQUE (patient_id, check_in_date);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'odi_assessments_patient_date_key'
+  ) THEN
+    ALTER TABLE odi_assessments
+      ADD CONSTRAINT odi_assessments_patient_date_key UNIQUE (patient_id, assessment_date);
+  END IF;
+END $$;
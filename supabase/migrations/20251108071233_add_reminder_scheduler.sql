@@ -0,0 +1,73 @@
+/*
+  # Reminder Scheduler
+
+  Supports the `reminder-scheduler` edge function, which turns
+  `notification_settings` into `notifications` rows and sends them through each
+  enabled channel.
+
+  1. Modified Tables
+    - `patient_profiles`
+      - `time_zone` (text, IANA name such as `Australia/Melbourne`), used to work
+        out when `notification_settings.reminder_time` falls for the patient
+
+  2. New Tables
+    - `scheduled_reminders`
+      - One row per patient, reminder type and local date. The scheduler claims the
+        row before sending, so overlapping runs never send the same reminder twice
+      - `notification_id` (uuid, the in-app notification that was created)
+    - `notification_deliveries`
+      - One row per notification and channel (`push`, `email`, `sms`)
+      - `status` (`sent`, `failed` or `skipped`), `provider_message_id`, `error`
+
+  3. Security
+    - RLS enabled on both tables
+    - Patients can read their own rows; only the service role writes them
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'patient_profiles' AND column_name = 'time_zone'
+  ) THEN
+    ALTER TABLE patient_profiles ADD COLUMN time_zone text DEFAULT 'Australia/Melbourne';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS scheduled_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  reminder_type text NOT NULL,
+  local_date date NOT NULL,
+  notification_id uuid REFERENCES notifications(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (patient_id, reminder_type, local_date)
+);
+
+ALTER TABLE scheduled_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scheduled reminders"
+  ON scheduled_reminders FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  channel text NOT NULL CHECK (channel IN ('push', 'email', 'sms')),
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  provider_message_id text,
+  error text,
+  attempted_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification deliveries"
+  ON notification_deliveries FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification ON notification_deliveries(notification_id);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_patient ON notification_deliveries(patient_id, attempted_at DESC);
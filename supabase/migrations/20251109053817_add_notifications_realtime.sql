@@ -0,0 +1,29 @@
+/*
+  # Realtime Notifications
+
+  Lets the in-app inbox and the header bell receive new notifications as they
+  are created, without the patient refreshing.
+
+  1. Changes
+    - Adds `notifications` to the `supabase_realtime` publication
+    - Sets `REPLICA IDENTITY FULL` on `notifications` so update and delete events
+      carry the full row, which Realtime needs to apply the `patient_id` filter
+
+  2. Security
+    - Realtime respects the existing RLS policies on `notifications`, so patients
+      only receive changes to their own rows
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
+
+ALTER TABLE notifications REPLICA IDENTITY FULL;
@@ -0,0 +1,58 @@
+/*
+  # Web Push Subscriptions
+
+  Stores the Web Push subscription of every browser or installed app a patient
+  has turned push notifications on for, so reminders and test pushes can be
+  sent to each device.
+
+  1. New Tables
+    - `push_subscriptions`
+      - `endpoint` (text, the push service URL for this device)
+      - `p256dh`, `auth` (text, base64url keys from the browser's subscription,
+        used to encrypt each message for this device only)
+      - `device_label` (text, e.g. "Chrome on Android"), `user_agent` (text)
+      - `last_used_at` (timestamptz, last successful delivery)
+      - One row per patient and endpoint
+
+  2. Security
+    - RLS enabled
+    - Patients can view, register, update and revoke their own devices
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  device_label text,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz,
+  UNIQUE (patient_id, endpoint)
+);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own push subscriptions"
+  ON push_subscriptions FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own push subscriptions"
+  ON push_subscriptions FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON push_subscriptions FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_patient ON push_subscriptions(patient_id);
@@ -0,0 +1,59 @@
+/*
+  # Notification Delivery Preferences
+
+  Moves outbound delivery (push, email, SMS) out of reminder creation and into a
+  dispatch step, so every notification follows the patient's quiet hours, digest
+  and per-category routing. Red-flag notifications skip all three.
+
+  1. Modified Tables
+    - `notification_settings`
+      - `quiet_hours_enabled` (boolean), `quiet_hours_start` / `quiet_hours_end`
+        (time, local to `patient_profiles.time_zone`; the window may cross midnight)
+      - `digest_frequency` (`off`, `daily` or `weekly`) bundles low-priority
+        notifications into one message sent at `reminder_time`
+      - `digest_day` (0 = Sunday ... 6 = Saturday) for weekly digests
+      - `channel_routing` (jsonb, category -> list of channels, e.g.
+        `{"appointments": ["sms"], "educational": ["email"]}`); a missing category
+        uses every enabled channel
+    - `notifications`
+      - `delivery_status` (`pending`, `sending`, `digest`, `sent`, `in_app_only`)
+      - `deliver_after` (timestamptz, set while a notification is held for quiet hours)
+      - Existing rows are marked `sent` so they are never delivered retroactively
+
+  2. Security
+    - No policy changes; patients already manage their own settings and only the
+      service role dispatches notifications
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notification_settings' AND column_name = 'quiet_hours_enabled'
+  ) THEN
+    ALTER TABLE notification_settings
+      ADD COLUMN quiet_hours_enabled boolean DEFAULT false,
+      ADD COLUMN quiet_hours_start time DEFAULT '22:00:00',
+      ADD COLUMN quiet_hours_end time DEFAULT '07:00:00',
+      ADD COLUMN digest_frequency text DEFAULT 'off' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+      ADD COLUMN digest_day smallint DEFAULT 1 CHECK (digest_day BETWEEN 0 AND 6),
+      ADD COLUMN channel_routing jsonb DEFAULT '{}'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'delivery_status'
+  ) THEN
+    -- Added with a 'sent' default so existing rows are backfilled as already delivered.
+    ALTER TABLE notifications
+      ADD COLUMN delivery_status text NOT NULL DEFAULT 'sent'
+        CHECK (delivery_status IN ('pending', 'sending', 'digest', 'sent', 'in_app_only')),
+      ADD COLUMN deliver_after timestamptz;
+
+    ALTER TABLE notifications ALTER COLUMN delivery_status SET DEFAULT 'pending';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_undelivered
+  ON notifications(created_at)
+  WHERE delivery_status IN ('pending', 'digest');
@@ -0,0 +1,113 @@
+/*
+  # Medications
+
+  A per-patient medication schedule with dose logging, opioid tapers and
+  as-needed (PRN) use. The reminder-scheduler function reads active schedules
+  to send a reminder at each dose time.
+
+  1. New Tables
+    - `medications`
+      - `name`, `dose` (text, e.g. "5 mg"), `instructions` (text)
+      - `schedule_times` (time[], local dose times such as {08:00,20:00}; empty for PRN)
+      - `is_prn` (boolean, taken as needed rather than on a schedule)
+      - `max_daily_doses` (integer) and `min_hours_between` (numeric), PRN limits
+      - `is_opioid` (boolean)
+      - `taper_steps` (jsonb, ordered list of `{ start_date, dose, schedule_times }`;
+        from each step's start date its dose and times replace the ones above, and
+        a step with no times ends the course)
+      - `start_date`, `end_date` (date), `active` (boolean)
+    - `medication_doses`
+      - One row per logged dose: `status` (`taken` or `skipped`), `taken_at`,
+        `dose` (text, the dose actually taken), `reason` (text, why skipped or why
+        a PRN dose was needed), `pain_level` (0-10, optional, for PRN doses)
+      - Scheduled doses carry `scheduled_date` and `scheduled_time` in the
+        patient's local time and can only be logged once; PRN doses leave them null
+
+  2. Security
+    - RLS enabled on both tables
+    - Patients can view, add, update and delete their own medications and doses
+*/
+
+CREATE TABLE IF NOT EXISTS medications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  dose text NOT NULL DEFAULT '',
+  instructions text DEFAULT '',
+  schedule_times time[] NOT NULL DEFAULT '{}',
+  is_prn boolean NOT NULL DEFAULT false,
+  max_daily_doses integer CHECK (max_daily_doses > 0),
+  min_hours_between numeric CHECK (min_hours_between > 0),
+  is_opioid boolean NOT NULL DEFAULT false,
+  taper_steps jsonb NOT NULL DEFAULT '[]'::jsonb,
+  start_date date NOT NULL DEFAULT CURRENT_DATE,
+  end_date date,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own medications"
+  ON medications FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own medications"
+  ON medications FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own medications"
+  ON medications FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own medications"
+  ON medications FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS medication_doses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id uuid NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('taken', 'skipped')),
+  scheduled_date date,
+  scheduled_time time,
+  taken_at timestamptz NOT NULL DEFAULT now(),
+  dose text DEFAULT '',
+  reason text DEFAULT '',
+  pain_level integer CHECK (pain_level BETWEEN 0 AND 10),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (medication_id, scheduled_date, scheduled_time)
+);
+
+ALTER TABLE medication_doses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own medication doses"
+  ON medication_doses FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own medication doses"
+  ON medication_doses FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own medication doses"
+  ON medication_doses FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own medication doses"
+  ON medication_doses FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_medications_patient ON medications(patient_id) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_medication_doses_patient ON medication_doses(patient_id, taken_at DESC);
+CREATE INDEX IF NOT EXISTS idx_medication_doses_scheduled ON medication_doses(patient_id, scheduled_date);
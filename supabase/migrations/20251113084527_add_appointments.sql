@@ -0,0 +1,108 @@
+/*
+  # Appointments
+
+  Replaces the date-only `patient_referrals.appointment_date` with proper
+  appointments that have a start and end time and a location, and adds a private
+  calendar feed patients can subscribe to from their calendar app.
+
+  1. New Tables
+    - `appointments`
+      - `title` (text), `starts_at` and `ends_at` (timestamptz)
+      - `provider_id` (uuid, optional, the provider's address is used as the location)
+      - `referral_id` (uuid, optional, the referral this appointment is for)
+      - `location` (text, used when there is no provider or it differs from the
+        provider's address), `notes` (text)
+      - `status` (`scheduled`, `completed` or `cancelled`)
+    - `calendar_feeds`
+      - One row per patient with a random `token`; anyone holding the feed URL
+        can read that patient's appointments, so resetting the link replaces the token
+
+  2. Data
+    - Every referral with an `appointment_date` gets an appointment at 9:00 in the
+      patient's time zone, one hour long
+
+  3. Security
+    - RLS enabled on both tables
+    - Patients can view, add, update and delete their own appointments and feed;
+      the `calendar-feed` function reads feeds with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  provider_id uuid REFERENCES healthcare_providers(id) ON DELETE SET NULL,
+  referral_id uuid REFERENCES patient_referrals(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  location text DEFAULT '',
+  notes text DEFAULT '',
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'cancelled')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own appointments"
+  ON appointments FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own appointments"
+  ON appointments FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own appointments"
+  ON appointments FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own appointments"
+  ON appointments FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_appointments_patient ON appointments(patient_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_upcoming ON appointments(starts_at) WHERE status = 'scheduled';
+
+INSERT INTO appointments (patient_id, provider_id, referral_id, title, starts_at, ends_at, status)
+SELECT
+  r.patient_id,
+  r.provider_id,
+  r.id,
+  hp.provider_name,
+  (r.appointment_date + time '09:00') AT TIME ZONE COALESCE(p.time_zone, 'Australia/Melbourne'),
+  (r.appointment_date + time '10:00') AT TIME ZONE COALESCE(p.time_zone, 'Australia/Melbourne'),
+  CASE r.status WHEN 'completed' THEN 'completed' WHEN 'cancelled' THEN 'cancelled' ELSE 'scheduled' END
+FROM patient_referrals r
+JOIN patient_profiles p ON p.id = r.patient_id
+JOIN healthcare_providers hp ON hp.id = r.provider_id
+WHERE r.appointment_date IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM appointments a WHERE a.referral_id = r.id);
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  patient_id uuid PRIMARY KEY REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed"
+  ON calendar_feeds FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own calendar feed"
+  ON calendar_feeds FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own calendar feed"
+  ON calendar_feeds FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
@@ -0,0 +1,172 @@
+/*
+  # Referral Lifecycle
+
+  Referrals can now move from pending to scheduled to completed, or be cancelled
+  with a reason, and every change is kept in an audit timeline. A finished or
+  cancelled referral can be re-referred, and ODI assessments taken after a
+  referral is completed are linked to it so outcomes can be attributed to that
+  episode of care.
+
+  1. Changes to `patient_referrals`
+    - `cancellation_reason` (text), required by the app when cancelling
+    - `previous_referral_id` (uuid, nullable) - the referral this one re-refers
+    - `completed_at`, `cancelled_at`, `updated_at` (timestamptz)
+
+  2. Changes to `odi_assessments`
+    - `referral_id` (uuid, nullable) - the referral this assessment follows up
+
+  3. New Tables
+    - `referral_events`
+      - `event` (`created`, `status_changed` or `updated`)
+      - `from_status`, `to_status` (text)
+      - `appointment_date` (date), `notes` (text), `reason` (text) - the values
+        after the change, so each entry reads on its own
+
+  4. Triggers
+    - Before update: rejects status changes that skip or reverse the lifecycle
+      and stamps `updated_at`, `completed_at` and `cancelled_at`
+    - After insert or update: writes the `referral_events` entry, so changes made
+      from appointments and chat are recorded too
+
+  5. Security
+    - RLS enabled on `referral_events`; patients can view their own entries, which
+      are only ever written by the trigger
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'patient_referrals' AND column_name = 'cancellation_reason'
+  ) THEN
+    ALTER TABLE patient_referrals ADD COLUMN cancellation_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'patient_referrals' AND column_name = 'previous_referral_id'
+  ) THEN
+    ALTER TABLE patient_referrals
+      ADD COLUMN previous_referral_id uuid REFERENCES patient_referrals(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'patient_referrals' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE patient_referrals ADD COLUMN completed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'patient_referrals' AND column_name = 'cancelled_at'
+  ) THEN
+    ALTER TABLE patient_referrals ADD COLUMN cancelled_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'patient_referrals' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE patient_referrals ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'odi_assessments' AND column_name = 'referral_id'
+  ) THEN
+    ALTER TABLE odi_assessments
+      ADD COLUMN referral_id uuid REFERENCES patient_referrals(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_odi_assessments_referral ON odi_assessments(referral_id) WHERE referral_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS referral_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  referral_id uuid NOT NULL REFERENCES patient_referrals(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('created', 'status_changed', 'updated')),
+  from_status text,
+  to_status text NOT NULL,
+  appointment_date date,
+  notes text DEFAULT '',
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE referral_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own referral events"
+  ON referral_events FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_referral_events_referral ON referral_events(referral_id, created_at);
+
+CREATE OR REPLACE FUNCTION check_referral_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('scheduled', 'cancelled'))
+      OR (OLD.status = 'scheduled' AND NEW.status IN ('completed', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Referral cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+      NEW.completed_at := now();
+    ELSIF NEW.status = 'cancelled' THEN
+      NEW.cancelled_at := now();
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- SECURITY DEFINER so the entry can be written even though patients have no insert policy.
+CREATE OR REPLACE FUNCTION log_referral_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO referral_events (referral_id, patient_id, event, to_status, appointment_date, notes)
+    VALUES (NEW.id, NEW.patient_id, 'created', NEW.status, NEW.appointment_date, NEW.notes);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO referral_events (referral_id, patient_id, event, from_status, to_status, appointment_date, notes, reason)
+    VALUES (
+      NEW.id, NEW.patient_id, 'status_changed', OLD.status, NEW.status, NEW.appointment_date, NEW.notes,
+      CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+    );
+  ELSIF NEW.appointment_date IS DISTINCT FROM OLD.appointment_date OR NEW.notes IS DISTINCT FROM OLD.notes THEN
+    INSERT INTO referral_events (referral_id, patient_id, event, from_status, to_status, appointment_date, notes)
+    VALUES (NEW.id, NEW.patient_id, 'updated', OLD.status, NEW.status, NEW.appointment_date, NEW.notes);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_referral_transition ON patient_referrals;
+CREATE TRIGGER check_referral_transition
+  BEFORE UPDATE ON patient_referrals
+  FOR EACH ROW EXECUTE FUNCTION check_referral_transition();
+
+DROP TRIGGER IF EXISTS log_referral_event ON patient_referrals;
+CREATE TRIGGER log_referral_event
+  AFTER INSERT OR UPDATE ON patient_referrals
+  FOR EACH ROW EXECUTE FUNCTION log_referral_event();
+
+-- Existing referrals start their timeline from when they were made.
+INSERT INTO referral_events (referral_id, patient_id, event, to_status, appointment_date, notes, created_at)
+SELECT r.id, r.patient_id, 'created', r.status, r.appointment_date, r.notes, r.created_at
+FROM patient_referrals r
+WHERE NOT EXISTS (SELECT 1 FROM referral_events e WHERE e.referral_id = r.id);
@@ -0,0 +1,61 @@
+/*
+  # Provider Locations
+
+  Gives providers coordinates so patients can search near them, sort by distance
+  and see providers on a map.
+
+  1. Changes to `healthcare_providers`
+    - `latitude`, `longitude` (double precision, nullable)
+    - `geocoded_at` (timestamptz) - when the coordinates were last looked up
+
+  2. Data
+    - The Melbourne providers get coordinates for their street address; providers
+      added later are filled in by the `geocode` function's backfill
+
+  3. Indexes
+    - Partial index on the coordinates of located providers
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'healthcare_providers' AND column_name = 'latitude'
+  ) THEN
+    ALTER TABLE healthcare_providers
+      ADD COLUMN latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+      ADD COLUMN longitude double precision CHECK (longitude BETWEEN -180 AND 180);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'healthcare_providers' AND column_name = 'geocoded_at'
+  ) THEN
+    ALTER TABLE healthcare_providers ADD COLUMN geocoded_at timestamptz;
+  END IF;
+END $$;
+
+UPDATE healthcare_providers p
+SET latitude = l.latitude, longitude = l.longitude, geocoded_at = now()
+FROM (VALUES
+  ('31 Erin Street', '3121', -37.8199, 144.9931),
+  ('89 Bridge Road', '3121', -37.8186, 144.9915),
+  ('270 Church Street', '3186', -37.9088, 144.9988),
+  ('166 Gipps Street', '3002', -37.8105, 144.9842),
+  ('145 Studley Road', '3084', -37.7566, 145.0590),
+  ('12 Collins Street', '3000', -37.8142, 144.9733),
+  ('45 Smith Street', '3065', -37.8061, 144.9834),
+  ('180 Toorak Road', '3141', -37.8393, 144.9911),
+  ('1022 Whitehorse Road', '3128', -37.8190, 145.1221),
+  ('119 Greville Street', '3181', -37.8495, 144.9911),
+  ('32 Wellington Parade', '3002', -37.8158, 144.9806),
+  ('120 Victoria Parade', '3002', -37.8086, 144.9780),
+  ('55 Victoria Parade', '3065', -37.8075, 144.9751),
+  ('20 Erin Street', '3121', -37.8205, 144.9936)
+) AS l(address, zip_code, latitude, longitude)
+WHERE p.address = l.address
+  AND p.zip_code = l.zip_code
+  AND p.latitude IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_providers_location ON healthcare_providers(latitude, longitude)
+  WHERE latitude IS NOT NULL;
@@ -0,0 +1,132 @@
+/*
+  # Provider Search
+
+  Moves provider filtering into Postgres so the directory can grow past what the
+  app can load in one go, adds filters for insurance, language, subspecialty and
+  new patients, and lets patients save filter combinations as presets.
+
+  1. Functions
+    - `search_providers(...)`
+      - Every argument is optional; filters in different groups combine with AND,
+        and several values in one group match any of them
+      - `search` matches provider, practice, city and subspecialty
+      - With `near_latitude`/`near_longitude`, results are ordered by distance and
+        `radius_km` limits them to providers within that distance
+      - Security invoker, so the usual RLS on `healthcare_providers` applies
+    - `provider_filter_options()`
+      - Each subspecialty, insurer and language with how many providers list it
+
+  2. Indexes
+    - GIN on `insurance_accepted` and `languages_spoken`
+    - B-tree on `subspecialty` and on `accepts_new_patients`
+
+  3. New Tables
+    - `provider_filter_presets`
+      - `name` (text), `filters` (jsonb, the filter panel's state)
+
+  4. Security
+    - RLS enabled on `provider_filter_presets`; patients manage their own presets
+*/
+
+CREATE INDEX IF NOT EXISTS idx_providers_insurance ON healthcare_providers USING gin(insurance_accepted);
+CREATE INDEX IF NOT EXISTS idx_providers_languages ON healthcare_providers USING gin(languages_spoken);
+CREATE INDEX IF NOT EXISTS idx_providers_subspecialty ON healthcare_providers(subspecialty);
+CREATE INDEX IF NOT EXISTS idx_providers_accepting ON healthcare_providers(accepts_new_patients) WHERE accepts_new_patients;
+
+CREATE OR REPLACE FUNCTION search_providers(
+  search text DEFAULT NULL,
+  specialties text[] DEFAULT NULL,
+  subspecialties text[] DEFAULT NULL,
+  insurance text[] DEFAULT NULL,
+  languages text[] DEFAULT NULL,
+  accepting_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL
+)
+RETURNS SETOF healthcare_providers
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM healthcare_providers p
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN near_latitude IS NULL OR near_longitude IS NULL OR p.latitude IS NULL THEN NULL
+      ELSE 2 * 6371 * asin(sqrt(
+        power(sin(radians(p.latitude - near_latitude) / 2), 2)
+        + cos(radians(near_latitude)) * cos(radians(p.latitude))
+          * power(sin(radians(p.longitude - near_longitude) / 2), 2)
+      ))
+    END AS km
+  ) distance
+  CROSS JOIN LATERAL (
+    SELECT '%' || replace(replace(replace(btrim(search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ) query
+  WHERE (
+      search IS NULL OR btrim(search) = ''
+      OR p.provider_name ILIKE query.pattern
+      OR p.practice_name ILIKE query.pattern
+      OR p.city ILIKE query.pattern
+      OR p.subspecialty ILIKE query.pattern
+    )
+    AND (COALESCE(cardinality(specialties), 0) = 0 OR p.specialty = ANY(specialties))
+    AND (COALESCE(cardinality(subspecialties), 0) = 0 OR p.subspecialty = ANY(subspecialties))
+    AND (COALESCE(cardinality(insurance), 0) = 0 OR p.insurance_accepted && insurance)
+    AND (COALESCE(cardinality(languages), 0) = 0 OR p.languages_spoken && languages)
+    AND (accepting_only IS NOT TRUE OR p.accepts_new_patients)
+    AND (radius_km IS NULL OR distance.km <= radius_km)
+  ORDER BY distance.km ASC NULLS LAST, p.provider_name ASC, p.id ASC;
+$$;
+
+CREATE OR REPLACE FUNCTION provider_filter_options()
+RETURNS TABLE (facet text, value text, provider_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'subspecialty', subspecialty, count(*)
+  FROM healthcare_providers
+  WHERE subspecialty IS NOT NULL AND subspecialty <> ''
+  GROUP BY subspecialty
+  UNION ALL
+  SELECT 'insurance', insurer, count(*)
+  FROM healthcare_providers, unnest(insurance_accepted) AS insurer
+  GROUP BY insurer
+  UNION ALL
+  SELECT 'language', spoken, count(*)
+  FROM healthcare_providers, unnest(languages_spoken) AS spoken
+  GROUP BY spoken
+  ORDER BY 1, 3 DESC, 2;
+$$;
+
+CREATE TABLE IF NOT EXISTS provider_filter_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (patient_id, name)
+);
+
+ALTER TABLE provider_filter_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own filter presets"
+  ON provider_filter_presets FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own filter presets"
+  ON provider_filter_presets FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own filter presets"
+  ON provider_filter_presets FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own filter presets"
+  ON provider_filter_presets FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
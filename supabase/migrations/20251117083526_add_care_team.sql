@@ -0,0 +1,62 @@
+/*
+  # Care Team
+
+  Lets patients keep the handful of providers they actually see as their care
+  team, with a role, private notes and one primary contact. The care team is
+  shown as quick contacts on the home screen, pre-fills referrals and decides
+  who a shared progress report goes to.
+
+  1. New Tables
+    - `care_team_members`
+      - `provider_id` (uuid, references healthcare_providers)
+      - `role` (text) - surgeon, physio, gp, specialist or other
+      - `notes` (text) - private to the patient, never shared with the provider
+      - `is_primary` (boolean) - the patient's main point of contact
+      - `receives_reports` (boolean) - pre-selected when sharing a progress report
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Constraints
+    - Each provider appears once per patient
+    - At most one primary contact per patient
+
+  3. Security
+    - RLS enabled; patients manage their own care team
+*/
+
+CREATE TABLE IF NOT EXISTS care_team_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES healthcare_providers(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'other' CHECK (role IN ('surgeon', 'physio', 'gp', 'specialist', 'other')),
+  notes text NOT NULL DEFAULT '',
+  is_primary boolean NOT NULL DEFAULT false,
+  receives_reports boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (patient_id, provider_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_care_team_one_primary ON care_team_members(patient_id) WHERE is_primary;
+
+ALTER TABLE care_team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own care team"
+  ON care_team_members FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own care team"
+  ON care_team_members FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own care team"
+  ON care_team_members FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own care team"
+  ON care_team_members FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
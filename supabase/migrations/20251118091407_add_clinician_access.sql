@@ -0,0 +1,148 @@
+/*
+  # Clinician Access
+
+  Lets surgeons, physios and other providers sign in to a clinician portal and
+  read the outcomes of patients who have consented to share them. Until now
+  every policy only let patients see their own rows.
+
+  1. New Tables
+    - `clinician_accounts`
+      - `user_id` (uuid, the clinician's auth user)
+      - `provider_id` (uuid, the `healthcare_providers` row they are)
+      - Created with the service role once the clinician has been verified;
+        there is no self sign-up
+    - `clinician_access_grants`
+      - `patient_id`, `provider_id` (uuid)
+      - `granted_at`, `revoked_at` (timestamptz) - revoking keeps the row so the
+        patient's sharing history is preserved
+
+  2. Functions
+    - `is_clinician_for(patient)` - true when the signed-in user is a clinician
+      the patient currently shares their data with
+
+  3. Security
+    - Patients view, grant and revoke their own grants; a grant can only be
+      revoked, not edited or reinstated (grant again instead)
+    - Clinicians view their own account and the grants made to them
+    - Granted clinicians can read, but not change, the patient's profile,
+      `odi_assessments`, `proms_data`, `vas_pain_scores` and `analytics_metrics`
+*/
+
+CREATE TABLE IF NOT EXISTS clinician_accounts (
+  user_id uuid PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  provider_id uuid NOT NULL UNIQUE REFERENCES healthcare_providers(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE clinician_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinicians can view own account"
+  ON clinician_accounts FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS clinician_access_grants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES healthcare_providers(id) ON DELETE CASCADE,
+  granted_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz,
+  CHECK (revoked_at IS NULL OR revoked_at >= granted_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_access_grants_active
+  ON clinician_access_grants(patient_id, provider_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_access_grants_provider
+  ON clinician_access_grants(provider_id) WHERE revoked_at IS NULL;
+
+ALTER TABLE clinician_access_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own access grants"
+  ON clinician_access_grants FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own access grants"
+  ON clinician_access_grants FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid() AND revoked_at IS NULL);
+
+CREATE POLICY "Users can update own access grants"
+  ON clinician_access_grants FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Clinicians can view grants made to them"
+  ON clinician_access_grants FOR SELECT
+  TO authenticated
+  USING (provider_id IN (SELECT provider_id FROM clinician_accounts WHERE user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION check_access_grant_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Access grant % has already been revoked', OLD.id;
+  END IF;
+
+  IF NEW.patient_id <> OLD.patient_id
+    OR NEW.provider_id <> OLD.provider_id
+    OR NEW.granted_at <> OLD.granted_at THEN
+    RAISE EXCEPTION 'Access grants can only be revoked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS access_grant_update_check ON clinician_access_grants;
+CREATE TRIGGER access_grant_update_check
+  BEFORE UPDATE ON clinician_access_grants
+  FOR EACH ROW
+  EXECUTE FUNCTION check_access_grant_update();
+
+-- SECURITY DEFINER so policies on patient tables can check grants and accounts without
+-- depending on (or recursing through) those tables' own policies.
+CREATE OR REPLACE FUNCTION is_clinician_for(patient uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM clinician_access_grants g
+    JOIN clinician_accounts c ON c.provider_id = g.provider_id
+    WHERE c.user_id = auth.uid()
+      AND g.patient_id = patient
+      AND g.revoked_at IS NULL
+  );
+$$;
+
+CREATE POLICY "Clinicians can view consenting patients' profiles"
+  ON patient_profiles FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(id));
+
+CREATE POLICY "Clinicians can view consenting patients' ODI assessments"
+  ON odi_assessments FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(patient_id));
+
+CREATE POLICY "Clinicians can view consenting patients' PROMs data"
+  ON proms_data FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(patient_id));
+
+CREATE POLICY "Clinicians can view consenting patients' VAS scores"
+  ON vas_pain_scores FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(patient_id));
+
+CREATE POLICY "Clinicians can view consenting patients' analytics metrics"
+  ON analytics_metrics FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(patient_id));
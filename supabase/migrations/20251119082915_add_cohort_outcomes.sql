@@ -0,0 +1,174 @@
+/*
+  # Cohort Outcomes
+
+  Population views of ODI outcomes for the clinician portal. `lib/analytics.ts`
+  works one patient at a time in the browser; these functions do the same
+  calculations for every patient the caller can see and aggregate them.
+
+  1. Functions
+    - `cohort_patient_outcomes(dimension)`
+      - One row per patient with at least one ODI: the cohort they fall in,
+        baseline and latest ODI, days to MCID (a 10 point improvement on
+        baseline) and whether the last four scores have plateaued (each within
+        5 points of the one before), matching `lib/analytics.ts`
+      - `dimension` is 'condition', 'treatment_type', 'provider' (one row per
+        provider the patient shares with) or anything else for a single cohort
+    - `cohort_outcomes(dimension)`
+      - Per cohort: patients, share reaching MCID (of those with a follow-up
+        ODI), median days to MCID, plateau rate (of those with four or more
+        ODIs) and mean baseline and latest ODI
+    - `cohort_odi_by_week(dimension, max_weeks)`
+      - Mean ODI per cohort for each whole week since baseline; each patient's
+        scores within a week are averaged first so frequent assessors don't
+        dominate
+
+  2. Security
+    - Security invoker, so RLS decides who is included: clinicians see the
+      patients sharing with them, and the caller is never part of their own
+      cohort. Run with the service role, they cover every patient, which is
+      what refreshing `population_benchmarks` from real data would need.
+*/
+
+CREATE OR REPLACE FUNCTION cohort_patient_outcomes(dimension text DEFAULT 'all')
+RETURNS TABLE (
+  cohort text,
+  patient_id uuid,
+  baseline_date date,
+  baseline_odi numeric,
+  latest_odi numeric,
+  assessment_count integer,
+  days_to_mcid integer,
+  plateau_detected boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH members AS (
+    SELECT
+      p.id AS patient_id,
+      CASE dimension
+        WHEN 'condition' THEN COALESCE(NULLIF(btrim(p.condition), ''), 'Not specified')
+        WHEN 'treatment_type' THEN COALESCE(p.treatment_type, 'Not specified')
+        ELSE 'All patients'
+      END AS cohort
+    FROM patient_profiles p
+    WHERE dimension <> 'provider'
+      AND p.id IS DISTINCT FROM auth.uid()
+    UNION ALL
+    SELECT g.patient_id, hp.provider_name || ', ' || hp.practice_name
+    FROM clinician_access_grants g
+    JOIN healthcare_providers hp ON hp.id = g.provider_id
+    JOIN patient_profiles p ON p.id = g.patient_id
+    WHERE dimension = 'provider'
+      AND g.revoked_at IS NULL
+      AND g.patient_id IS DISTINCT FROM auth.uid()
+  ),
+  baselines AS (
+    SELECT DISTINCT ON (o.patient_id) o.patient_id, o.assessment_date, o.percentage_score
+    FROM odi_assessments o
+    ORDER BY o.patient_id, o.is_baseline DESC NULLS LAST, o.assessment_date, o.created_at
+  ),
+  stats AS (
+    SELECT
+      o.patient_id,
+      count(*)::integer AS assessment_count,
+      (array_agg(o.percentage_score ORDER BY o.assessment_date DESC, o.created_at DESC))[1] AS latest_odi,
+      min(o.assessment_date - b.assessment_date) FILTER (
+        WHERE o.assessment_date >= b.assessment_date
+          AND b.percentage_score - o.percentage_score >= 10
+      ) AS days_to_mcid
+    FROM odi_assessments o
+    JOIN baselines b ON b.patient_id = o.patient_id
+    GROUP BY o.patient_id
+  ),
+  recent AS (
+    SELECT
+      r.patient_id,
+      r.percentage_score - lag(r.percentage_score) OVER (
+        PARTITION BY r.patient_id ORDER BY r.assessment_date, r.created_at
+      ) AS change
+    FROM (
+      SELECT
+        o.*,
+        row_number() OVER (PARTITION BY o.patient_id ORDER BY o.assessment_date DESC, o.created_at DESC) AS recency
+      FROM odi_assessments o
+    ) r
+    WHERE r.recency <= 4
+  ),
+  plateaus AS (
+    SELECT patient_id, count(*) = 4 AND max(abs(change)) < 5 AS plateau_detected
+    FROM recent
+    GROUP BY patient_id
+  )
+  SELECT
+    m.cohort,
+    m.patient_id,
+    b.assessment_date,
+    b.percentage_score,
+    s.latest_odi,
+    s.assessment_count,
+    s.days_to_mcid,
+    pl.plateau_detected
+  FROM members m
+  JOIN baselines b ON b.patient_id = m.patient_id
+  JOIN stats s ON s.patient_id = m.patient_id
+  JOIN plateaus pl ON pl.patient_id = m.patient_id;
+$$;
+
+CREATE OR REPLACE FUNCTION cohort_outcomes(dimension text DEFAULT 'all')
+RETURNS TABLE (
+  cohort text,
+  patient_count bigint,
+  followed_up_count bigint,
+  mcid_count bigint,
+  mcid_rate numeric,
+  median_days_to_mcid double precision,
+  plateau_eligible_count bigint,
+  plateau_count bigint,
+  plateau_rate numeric,
+  mean_baseline_odi numeric,
+  mean_latest_odi numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    cohort,
+    count(*),
+    count(*) FILTER (WHERE assessment_count > 1),
+    count(days_to_mcid),
+    round(count(days_to_mcid)::numeric / NULLIF(count(*) FILTER (WHERE assessment_count > 1), 0), 4),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY days_to_mcid),
+    count(*) FILTER (WHERE assessment_count >= 4),
+    count(*) FILTER (WHERE plateau_detected),
+    round(count(*) FILTER (WHERE plateau_detected)::numeric / NULLIF(count(*) FILTER (WHERE assessment_count >= 4), 0), 4),
+    round(avg(baseline_odi), 1),
+    round(avg(latest_odi), 1)
+  FROM cohort_patient_outcomes(dimension)
+  GROUP BY cohort
+  ORDER BY count(*) DESC, cohort;
+$$;
+
+CREATE OR REPLACE FUNCTION cohort_odi_by_week(dimension text DEFAULT 'all', max_weeks integer DEFAULT 52)
+RETURNS TABLE (
+  cohort text,
+  week integer,
+  patient_count bigint,
+  mean_odi numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.cohort, w.week, count(*), round(avg(w.odi), 1)
+  FROM cohort_patient_outcomes(dimension) c
+  CROSS JOIN LATERAL (
+    SELECT (o.assessment_date - c.baseline_date) / 7 AS week, avg(o.percentage_score) AS odi
+    FROM odi_assessments o
+    WHERE o.patient_id = c.patient_id
+      AND o.assessment_date >= c.baseline_date
+      AND o.assessment_date - c.baseline_date < max_weeks * 7
+    GROUP BY 1
+  ) w
+  GROUP BY c.cohort, w.week
+  ORDER BY c.cohort, w.week;
+$$;
@@ -0,0 +1,126 @@
+/*
+  # NDI (Neck Disability Index) Assessments
+
+  The ODI is a low-back instrument, so neck patients get the NDI instead. It has
+  the same shape: ten sections scored 0-5, a 0-50 total and a percentage.
+
+  1. New Tables
+    - `ndi_assessments`
+      - `id` (uuid, primary key)
+      - `patient_id` (uuid, references patient_profiles)
+      - `assessment_date` (date), unique per patient like `odi_assessments`
+        so the offline queue can upsert on it
+      - `pain_intensity`, `personal_care`, `lifting`, `reading`, `headaches`,
+        `concentration`, `work`, `driving`, `sleeping`, `recreation`
+        (integer, 0-5)
+      - `total_score` (integer) - sum of all sections
+      - `percentage_score` (numeric) - (total/50)*100
+      - `disability_level` (text) - none, mild, moderate, severe, complete
+      - `is_baseline` (boolean)
+      - `referral_id` (uuid, nullable) - the referral this assessment follows up
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on ndi_assessments
+    - Patients manage their own assessments
+    - Clinicians the patient shares with can read them
+
+  3. Notes
+    - NDI bands (Vernon & Mior) on the raw score: 0-4 none, 5-14 mild,
+      15-24 moderate, 25-34 severe, 35-50 complete
+*/
+
+CREATE TABLE IF NOT EXISTS ndi_assessments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  assessment_date date NOT NULL DEFAULT CURRENT_DATE,
+  pain_intensity integer CHECK (pain_intensity >= 0 AND pain_intensity <= 5),
+  personal_care integer CHECK (personal_care >= 0 AND personal_care <= 5),
+  lifting integer CHECK (lifting >= 0 AND lifting <= 5),
+  reading integer CHECK (reading >= 0 AND reading <= 5),
+  headaches integer CHECK (headaches >= 0 AND headaches <= 5),
+  concentration integer CHECK (concentration >= 0 AND concentration <= 5),
+  work integer CHECK (work >= 0 AND work <= 5),
+  driving integer CHECK (driving >= 0 AND driving <= 5),
+  sleeping integer CHECK (sleeping >= 0 AND sleeping <= 5),
+  recreation integer CHECK (recreation >= 0 AND recreation <= 5),
+  total_score integer GENERATED ALWAYS AS (
+    COALESCE(pain_intensity, 0) +
+    COALESCE(personal_care, 0) +
+    COALESCE(lifting, 0) +
+    COALESCE(reading, 0) +
+    COALESCE(headaches, 0) +
+    COALESCE(concentration, 0) +
+    COALESCE(work, 0) +
+    COALESCE(driving, 0) +
+    COALESCE(sleeping, 0) +
+    COALESCE(recreation, 0)
+  ) STORED,
+  percentage_score numeric GENERATED ALWAYS AS (
+    (COALESCE(pain_intensity, 0) +
+     COALESCE(personal_care, 0) +
+     COALESCE(lifting, 0) +
+     COALESCE(reading, 0) +
+     COALESCE(headaches, 0) +
+     COALESCE(concentration, 0) +
+     COALESCE(work, 0) +
+     COALESCE(driving, 0) +
+     COALESCE(sleeping, 0) +
+     COALESCE(recreation, 0))::numeric / 50.0 * 100.0
+  ) STORED,
+  disability_level text GENERATED ALWAYS AS (
+    CASE
+      WHEN (COALESCE(pain_intensity, 0) + COALESCE(personal_care, 0) + COALESCE(lifting, 0) +
+            COALESCE(reading, 0) + COALESCE(headaches, 0) + COALESCE(concentration, 0) +
+            COALESCE(work, 0) + COALESCE(driving, 0) + COALESCE(sleeping, 0) +
+            COALESCE(recreation, 0)) <= 4 THEN 'none'
+      WHEN (COALESCE(pain_intensity, 0) + COALESCE(personal_care, 0) + COALESCE(lifting, 0) +
+            COALESCE(reading, 0) + COALESCE(headaches, 0) + COALESCE(concentration, 0) +
+            COALESCE(work, 0) + COALESCE(driving, 0) + COALESCE(sleeping, 0) +
+            COALESCE(recreation, 0)) <= 14 THEN 'mild'
+      WHEN (COALESCE(pain_intensity, 0) + COALESCE(personal_care, 0) + COALESCE(lifting, 0) +
+            COALESCE(reading, 0) + COALESCE(headaches, 0) + COALESCE(concentration, 0) +
+            COALESCE(work, 0) + COALESCE(driving, 0) + COALESCE(sleeping, 0) +
+            COALESCE(recreation, 0)) <= 24 THEN 'moderate'
+      WHEN (COALESCE(pain_intensity, 0) + COALESCE(personal_care, 0) + COALESCE(lifting, 0) +
+            COALESCE(reading, 0) + COALESCE(headaches, 0) + COALESCE(concentration, 0) +
+            COALESCE(work, 0) + COALESCE(driving, 0) + COALESCE(sleeping, 0) +
+            COALESCE(recreation, 0)) <= 34 THEN 'severe'
+      ELSE 'complete'
+    END
+  ) STORED,
+  is_baseline boolean DEFAULT false,
+  referral_id uuid REFERENCES patient_referrals(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT ndi_assessments_patient_date_key UNIQUE (patient_id, assessment_date)
+);
+
+ALTER TABLE ndi_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own NDI assessments"
+  ON ndi_assessments FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own NDI assessments"
+  ON ndi_assessments FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own NDI assessments"
+  ON ndi_assessments FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own NDI assessments"
+  ON ndi_assessments FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Clinicians can view consenting patients' NDI assessments"
+  ON ndi_assessments FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(patient_id));
+
+CREATE INDEX IF NOT EXISTS idx_ndi_assessments_referral ON ndi_assessments(referral_id) WHERE referral_id IS NOT NULL;
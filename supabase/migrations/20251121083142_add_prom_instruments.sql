@@ -0,0 +1,612 @@
+/*
+  # PROM Instruments
+
+  Until now the only functional score was the ODI (and the NDI for necks),
+  each with its own hard-wired table. Other patient-reported outcome measures
+  are now defined as data: an instrument's questions, answer options, scoring
+  formulas, subscales and MCID live in a JSON definition that the app renders
+  and scores, so adding an instrument is an insert rather than a release.
+
+  1. New Tables
+    - `prom_instruments`
+      - `id` (text, primary key) - e.g. 'koos_12'
+      - `short_name`, `name`, `description` (text)
+      - `default_for_conditions` (text[]) - profile conditions that use this
+        instrument by default; conditions without one keep the ODI or NDI
+      - `definition` (jsonb) - see below
+      - `active` (boolean) - retired instruments stay for existing responses
+    - `prom_responses`
+      - `id` (uuid, primary key)
+      - `patient_id` (uuid, references patient_profiles)
+      - `instrument_id` (text, references prom_instruments)
+      - `assessment_date` (date), unique per patient and instrument so the
+        offline queue can upsert on it
+      - `responses` (jsonb) - item id to the value of the chosen option
+      - `score` (numeric) - overall score from the definition's formula
+      - `subscale_scores` (jsonb) - subscale id to score
+      - `is_baseline` (boolean)
+      - `referral_id` (uuid, nullable) - the referral this assessment follows up
+      - `created_at` (timestamptz)
+
+  2. Definition format
+    - `instructions` (text), `optionSets` (name to a list of label/value
+      options), `sections` (title, optional prompt and items; each item has an
+      id, text, optional prompt and an option set name or its own options)
+    - `subscales` (id, label, formula, optional mcid) and `score` (formula)
+    - A formula takes the `sum` or `mean` of `items` (default: every item) or
+      of `subscales`, needs `minAnswered` values (default: all of them) and
+      returns `offset + multiplier * aggregate`
+    - `scoreRange` ([min, max]), `higherIsBetter` (boolean), `mcid` (number)
+
+  3. Seed Data
+    - KOOS-12 (knee) and HOOS-12 (hip): pain, function and quality of life
+      subscales scored 0-100 (100 = no problems) and their mean as a summary
+    - Oxford Knee Score and Oxford Hip Score: 12 items summed to 0-48
+      (48 = best)
+    - QuickDASH (shoulder, elbow, wrist): 11 items scored 0-100
+      (0 = no disability), with at least 10 answered
+
+  4. Security
+    - Signed-in users can read active instruments; instruments are managed
+      with the service role
+    - Patients manage their own responses
+    - Clinicians the patient shares with can read them
+*/
+
+CREATE TABLE IF NOT EXISTS prom_instruments (
+  id text PRIMARY KEY,
+  short_name text NOT NULL,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  default_for_conditions text[] NOT NULL DEFAULT '{}',
+  definition jsonb NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE prom_instruments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view active PROM instruments"
+  ON prom_instruments FOR SELECT
+  TO authenticated
+  USING (active);
+
+CREATE TABLE IF NOT EXISTS prom_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  instrument_id text NOT NULL REFERENCES prom_instruments(id),
+  assessment_date date NOT NULL DEFAULT CURRENT_DATE,
+  responses jsonb NOT NULL DEFAULT '{}',
+  score numeric,
+  subscale_scores jsonb NOT NULL DEFAULT '{}',
+  is_baseline boolean DEFAULT false,
+  referral_id uuid REFERENCES patient_referrals(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT prom_responses_patient_instrument_date_key UNIQUE (patient_id, instrument_id, assessment_date)
+);
+
+ALTER TABLE prom_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own PROM responses"
+  ON prom_responses FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own PROM responses"
+  ON prom_responses FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own PROM responses"
+  ON prom_responses FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own PROM responses"
+  ON prom_responses FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Clinicians can view consenting patients' PROM responses"
+  ON prom_responses FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(patient_id));
+
+CREATE INDEX IF NOT EXISTS idx_prom_responses_referral ON prom_responses(referral_id) WHERE referral_id IS NOT NULL;
+
+INSERT INTO prom_instruments (id, short_name, name, description, default_for_conditions, definition) VALUES
+(
+  'koos_12',
+  'KOOS-12',
+  'Knee injury and Osteoarthritis Outcome Score (12 items)',
+  'Knee pain, function and quality of life over the last week.',
+  ARRAY['Knee'],
+  $json${
+    "instructions": "These questions ask about your knee over the last week. Choose the ONE answer that best describes you for each question.",
+    "optionSets": {
+      "frequency": [
+        { "label": "Never", "value": 0 },
+        { "label": "Monthly", "value": 1 },
+        { "label": "Weekly", "value": 2 },
+        { "label": "Daily", "value": 3 },
+        { "label": "Always", "value": 4 }
+      ],
+      "awareness": [
+        { "label": "Never", "value": 0 },
+        { "label": "Monthly", "value": 1 },
+        { "label": "Weekly", "value": 2 },
+        { "label": "Daily", "value": 3 },
+        { "label": "Constantly", "value": 4 }
+      ],
+      "severity": [
+        { "label": "None", "value": 0 },
+        { "label": "Mild", "value": 1 },
+        { "label": "Moderate", "value": 2 },
+        { "label": "Severe", "value": 3 },
+        { "label": "Extreme", "value": 4 }
+      ],
+      "extent": [
+        { "label": "Not at all", "value": 0 },
+        { "label": "Mildly", "value": 1 },
+        { "label": "Moderately", "value": 2 },
+        { "label": "Severely", "value": 3 },
+        { "label": "Totally", "value": 4 }
+      ],
+      "trouble": [
+        { "label": "Not at all", "value": 0 },
+        { "label": "Mildly", "value": 1 },
+        { "label": "Moderately", "value": 2 },
+        { "label": "Severely", "value": 3 },
+        { "label": "Extremely", "value": 4 }
+      ]
+    },
+    "sections": [
+      {
+        "title": "Pain",
+        "prompt": "How much knee pain have you had during this activity in the last week?",
+        "items": [
+          { "id": "pain_frequency", "text": "How often do you experience knee pain?", "prompt": "", "options": "frequency" },
+          { "id": "pain_walking", "text": "Walking on a flat surface", "options": "severity" },
+          { "id": "pain_stairs", "text": "Going up or down stairs", "options": "severity" },
+          { "id": "pain_sitting", "text": "Sitting or lying", "options": "severity" }
+        ]
+      },
+      {
+        "title": "Function",
+        "prompt": "How much difficulty have you had with this activity in the last week because of your knee?",
+        "items": [
+          { "id": "function_rising", "text": "Rising from sitting", "options": "severity" },
+          { "id": "function_standing", "text": "Standing", "options": "severity" },
+          { "id": "function_car", "text": "Getting in or out of a car", "options": "severity" },
+          { "id": "function_twisting", "text": "Twisting or pivoting on your injured knee", "options": "severity" }
+        ]
+      },
+      {
+        "title": "Quality of Life",
+        "items": [
+          { "id": "qol_awareness", "text": "How often are you aware of your knee problem?", "options": "awareness" },
+          { "id": "qol_lifestyle", "text": "Have you modified your lifestyle to avoid activities that could damage your knee?", "options": "extent" },
+          { "id": "qol_confidence", "text": "How much are you troubled by lack of confidence in your knee?", "options": "trouble" },
+          { "id": "qol_difficulty", "text": "In general, how much difficulty do you have with your knee?", "options": "severity" }
+        ]
+      }
+    ],
+    "subscales": [
+      { "id": "pain", "label": "Pain", "formula": { "method": "mean", "items": ["pain_frequency", "pain_walking", "pain_stairs", "pain_sitting"], "minAnswered": 3, "offset": 100, "multiplier": -25 } },
+      { "id": "function", "label": "Function", "formula": { "method": "mean", "items": ["function_rising", "function_standing", "function_car", "function_twisting"], "minAnswered": 3, "offset": 100, "multiplier": -25 } },
+      { "id": "quality_of_life", "label": "Quality of Life", "formula": { "method": "mean", "items": ["qol_awareness", "qol_lifestyle", "qol_confidence", "qol_difficulty"], "minAnswered": 3, "offset": 100, "multiplier": -25 } }
+    ],
+    "score": { "method": "mean", "subscales": ["pain", "function", "quality_of_life"] },
+    "scoreRange": [0, 100],
+    "higherIsBetter": true,
+    "mcid": 10
+  }$json$::jsonb
+),
+(
+  'hoos_12',
+  'HOOS-12',
+  'Hip disability and Osteoarthritis Outcome Score (12 items)',
+  'Hip pain, function and quality of life over the last week.',
+  ARRAY['Hip'],
+  $json${
+    "instructions": "These questions ask about your hip over the last week. Choose the ONE answer that best describes you for each question.",
+    "optionSets": {
+      "awareness": [
+        { "label": "Never", "value": 0 },
+        { "label": "Monthly", "value": 1 },
+        { "label": "Weekly", "value": 2 },
+        { "label": "Daily", "value": 3 },
+        { "label": "Constantly", "value": 4 }
+      ],
+      "severity": [
+        { "label": "None", "value": 0 },
+        { "label": "Mild", "value": 1 },
+        { "label": "Moderate", "value": 2 },
+        { "label": "Severe", "value": 3 },
+        { "label": "Extreme", "value": 4 }
+      ],
+      "extent": [
+        { "label": "Not at all", "value": 0 },
+        { "label": "Mildly", "value": 1 },
+        { "label": "Moderately", "value": 2 },
+        { "label": "Severely", "value": 3 },
+        { "label": "Totally", "value": 4 }
+      ],
+      "trouble": [
+        { "label": "Not at all", "value": 0 },
+        { "label": "Mildly", "value": 1 },
+        { "label": "Moderately", "value": 2 },
+        { "label": "Severely", "value": 3 },
+        { "label": "Extremely", "value": 4 }
+      ]
+    },
+    "sections": [
+      {
+        "title": "Pain",
+        "prompt": "How much hip pain have you had during this activity in the last week?",
+        "items": [
+          { "id": "pain_stairs", "text": "Going up or down stairs", "options": "severity" },
+          { "id": "pain_uneven", "text": "Walking on an uneven surface", "options": "severity" },
+          { "id": "pain_sitting", "text": "Sitting or lying", "options": "severity" },
+          { "id": "pain_walking", "text": "Walking on a flat surface", "options": "severity" }
+        ]
+      },
+      {
+        "title": "Function",
+        "prompt": "How much difficulty have you had with this activity in the last week because of your hip?",
+        "items": [
+          { "id": "function_rising", "text": "Rising from sitting", "options": "severity" },
+          { "id": "function_bending", "text": "Bending to the floor or picking up an object", "options": "severity" },
+          { "id": "function_car", "text": "Getting in or out of a car", "options": "severity" },
+          { "id": "function_bath", "text": "Getting in or out of the bath", "options": "severity" }
+        ]
+      },
+      {
+        "title": "Quality of Life",
+        "items": [
+          { "id": "qol_awareness", "text": "How often are you aware of your hip problem?", "options": "awareness" },
+          { "id": "qol_lifestyle", "text": "Have you modified your lifestyle to avoid activities that could damage your hip?", "options": "extent" },
+          { "id": "qol_confidence", "text": "How much are you troubled by lack of confidence in your hip?", "options": "trouble" },
+          { "id": "qol_difficulty", "text": "In general, how much difficulty do you have with your hip?", "options": "severity" }
+        ]
+      }
+    ],
+    "subscales": [
+      { "id": "pain", "label": "Pain", "formula": { "method": "mean", "items": ["pain_stairs", "pain_uneven", "pain_sitting", "pain_walking"], "minAnswered": 3, "offset": 100, "multiplier": -25 } },
+      { "id": "function", "label": "Function", "formula": { "method": "mean", "items": ["function_rising", "function_bending", "function_car", "function_bath"], "minAnswered": 3, "offset": 100, "multiplier": -25 } },
+      { "id": "quality_of_life", "label": "Quality of Life", "formula": { "method": "mean", "items": ["qol_awareness", "qol_lifestyle", "qol_confidence", "qol_difficulty"], "minAnswered": 3, "offset": 100, "multiplier": -25 } }
+    ],
+    "score": { "method": "mean", "subscales": ["pain", "function", "quality_of_life"] },
+    "scoreRange": [0, 100],
+    "higherIsBetter": true,
+    "mcid": 10
+  }$json$::jsonb
+),
+(
+  'oxford_knee',
+  'OKS',
+  'Oxford Knee Score',
+  'Knee pain and function over the last four weeks.',
+  ARRAY[]::text[],
+  $json${
+    "instructions": "These questions ask about your knee over the last four weeks. Choose the ONE answer that best describes you for each question.",
+    "optionSets": {
+      "trouble": [
+        { "label": "No trouble at all", "value": 4 },
+        { "label": "Very little trouble", "value": 3 },
+        { "label": "Moderate trouble", "value": 2 },
+        { "label": "Extreme difficulty", "value": 1 },
+        { "label": "Impossible to do", "value": 0 }
+      ],
+      "ability": [
+        { "label": "Yes, easily", "value": 4 },
+        { "label": "With little difficulty", "value": 3 },
+        { "label": "With moderate difficulty", "value": 2 },
+        { "label": "With extreme difficulty", "value": 1 },
+        { "label": "No, impossible", "value": 0 }
+      ],
+      "often": [
+        { "label": "Rarely or never", "value": 4 },
+        { "label": "Sometimes, or just at first", "value": 3 },
+        { "label": "Often, not just at first", "value": 2 },
+        { "label": "Most of the time", "value": 1 },
+        { "label": "All of the time", "value": 0 }
+      ]
+    },
+    "sections": [
+      {
+        "title": "Your Knee",
+        "items": [
+          {
+            "id": "pain",
+            "text": "How would you describe the pain you usually have from your knee?",
+            "options": [
+              { "label": "None", "value": 4 },
+              { "label": "Very mild", "value": 3 },
+              { "label": "Mild", "value": 2 },
+              { "label": "Moderate", "value": 1 },
+              { "label": "Severe", "value": 0 }
+            ]
+          },
+          { "id": "washing", "text": "Have you had any trouble washing and drying yourself (all over) because of your knee?", "options": "trouble" },
+          { "id": "transport", "text": "Have you had any trouble getting in and out of a car or using public transport because of your knee?", "options": "trouble" },
+          {
+            "id": "walking",
+            "text": "For how long have you been able to walk before pain from your knee becomes severe (with or without a stick)?",
+            "options": [
+              { "label": "No pain, or more than 30 minutes", "value": 4 },
+              { "label": "16 to 30 minutes", "value": 3 },
+              { "label": "5 to 15 minutes", "value": 2 },
+              { "label": "Around the house only", "value": 1 },
+              { "label": "Not at all, pain is severe when walking", "value": 0 }
+            ]
+          },
+          {
+            "id": "standing_up",
+            "text": "After a meal (sat at a table), how painful has it been to stand up from a chair because of your knee?",
+            "options": [
+              { "label": "Not at all painful", "value": 4 },
+              { "label": "Slightly painful", "value": 3 },
+              { "label": "Moderately painful", "value": 2 },
+              { "label": "Very painful", "value": 1 },
+              { "label": "Unbearable", "value": 0 }
+            ]
+          },
+          { "id": "limping", "text": "Have you been limping when walking because of your knee?", "options": "often" },
+          { "id": "kneeling", "text": "Could you kneel down and get up again afterwards?", "options": "ability" },
+          {
+            "id": "night_pain",
+            "text": "Have you been troubled by pain from your knee in bed at night?",
+            "options": [
+              { "label": "No nights", "value": 4 },
+              { "label": "Only 1 or 2 nights", "value": 3 },
+              { "label": "Some nights", "value": 2 },
+              { "label": "Most nights", "value": 1 },
+              { "label": "Every night", "value": 0 }
+            ]
+          },
+          {
+            "id": "work",
+            "text": "How much has pain from your knee interfered with your usual work (including housework)?",
+            "options": [
+              { "label": "Not at all", "value": 4 },
+              { "label": "A little bit", "value": 3 },
+              { "label": "Moderately", "value": 2 },
+              { "label": "Greatly", "value": 1 },
+              { "label": "Totally", "value": 0 }
+            ]
+          },
+          { "id": "giving_way", "text": "Have you felt that your knee might suddenly give way or let you down?", "options": "often" },
+          { "id": "shopping", "text": "Could you do the household shopping on your own?", "options": "ability" },
+          { "id": "stairs", "text": "Could you walk down one flight of stairs?", "options": "ability" }
+        ]
+      }
+    ],
+    "subscales": [],
+    "score": { "method": "sum" },
+    "scoreRange": [0, 48],
+    "higherIsBetter": true,
+    "mcid": 5
+  }$json$::jsonb
+),
+(
+  'oxford_hip',
+  'OHS',
+  'Oxford Hip Score',
+  'Hip pain and function over the last four weeks.',
+  ARRAY[]::text[],
+  $json${
+    "instructions": "These questions ask about your hip over the last four weeks. Choose the ONE answer that best describes you for each question.",
+    "optionSets": {
+      "trouble": [
+        { "label": "No trouble at all", "value": 4 },
+        { "label": "Very little trouble", "value": 3 },
+        { "label": "Moderate trouble", "value": 2 },
+        { "label": "Extreme difficulty", "value": 1 },
+        { "label": "Impossible to do", "value": 0 }
+      ],
+      "ability": [
+        { "label": "Yes, easily", "value": 4 },
+        { "label": "With little difficulty", "value": 3 },
+        { "label": "With moderate difficulty", "value": 2 },
+        { "label": "With extreme difficulty", "value": 1 },
+        { "label": "No, impossible", "value": 0 }
+      ]
+    },
+    "sections": [
+      {
+        "title": "Your Hip",
+        "items": [
+          {
+            "id": "pain",
+            "text": "How would you describe the pain you usually have from your hip?",
+            "options": [
+              { "label": "None", "value": 4 },
+              { "label": "Very mild", "value": 3 },
+              { "label": "Mild", "value": 2 },
+              { "label": "Moderate", "value": 1 },
+              { "label": "Severe", "value": 0 }
+            ]
+          },
+          { "id": "washing", "text": "Have you had any trouble washing and drying yourself (all over) because of your hip?", "options": "trouble" },
+          { "id": "transport", "text": "Have you had any trouble getting in and out of a car or using public transport because of your hip?", "options": "trouble" },
+          { "id": "socks", "text": "Have you been able to put on a pair of socks, stockings or tights?", "options": "ability" },
+          { "id": "shopping", "text": "Could you do the household shopping on your own?", "options": "ability" },
+          {
+            "id": "walking",
+            "text": "For how long have you been able to walk before pain from your hip becomes severe (with or without a stick)?",
+            "options": [
+              { "label": "No pain, or more than 30 minutes", "value": 4 },
+              { "label": "16 to 30 minutes", "value": 3 },
+              { "label": "5 to 15 minutes", "value": 2 },
+              { "label": "Around the house only", "value": 1 },
+              { "label": "Not at all, pain is severe when walking", "value": 0 }
+            ]
+          },
+          { "id": "stairs", "text": "Have you been able to climb a flight of stairs?", "options": "ability" },
+          {
+            "id": "standing_up",
+            "text": "After a meal (sat at a table), how painful has it been to stand up from a chair because of your hip?",
+            "options": [
+              { "label": "Not at all painful", "value": 4 },
+              { "label": "Slightly painful", "value": 3 },
+              { "label": "Moderately painful", "value": 2 },
+              { "label": "Very painful", "value": 1 },
+              { "label": "Unbearable", "value": 0 }
+            ]
+          },
+          {
+            "id": "limping",
+            "text": "Have you been limping when walking because of your hip?",
+            "options": [
+              { "label": "Rarely or never", "value": 4 },
+              { "label": "Sometimes, or just at first", "value": 3 },
+              { "label": "Often, not just at first", "value": 2 },
+              { "label": "Most of the time", "value": 1 },
+              { "label": "All of the time", "value": 0 }
+            ]
+          },
+          {
+            "id": "sudden_pain",
+            "text": "Have you had any sudden, severe pain (shooting, stabbing or spasms) from your hip?",
+            "options": [
+              { "label": "No days", "value": 4 },
+              { "label": "Only 1 or 2 days", "value": 3 },
+              { "label": "Some days", "value": 2 },
+              { "label": "Most days", "value": 1 },
+              { "label": "Every day", "value": 0 }
+            ]
+          },
+          {
+            "id": "work",
+            "text": "How much has pain from your hip interfered with your usual work (including housework)?",
+            "options": [
+              { "label": "Not at all", "value": 4 },
+              { "label": "A little bit", "value": 3 },
+              { "label": "Moderately", "value": 2 },
+              { "label": "Greatly", "value": 1 },
+              { "label": "Totally", "value": 0 }
+            ]
+          },
+          {
+            "id": "night_pain",
+            "text": "Have you been troubled by pain from your hip in bed at night?",
+            "options": [
+              { "label": "No nights", "value": 4 },
+              { "label": "Only 1 or 2 nights", "value": 3 },
+              { "label": "Some nights", "value": 2 },
+              { "label": "Most nights", "value": 1 },
+              { "label": "Every night", "value": 0 }
+            ]
+          }
+        ]
+      }
+    ],
+    "subscales": [],
+    "score": { "method": "sum" },
+    "scoreRange": [0, 48],
+    "higherIsBetter": true,
+    "mcid": 5
+  }$json$::jsonb
+),
+(
+  'quickdash',
+  'QuickDASH',
+  'Quick Disabilities of the Arm, Shoulder and Hand',
+  'Arm, shoulder and hand function and symptoms over the last week.',
+  ARRAY['Shoulder', 'Elbow', 'Wrist'],
+  $json${
+    "instructions": "These questions ask about your ability to do certain activities over the last week. If you did not do an activity, choose the answer that best describes how well you could have done it. It does not matter which hand or arm you use.",
+    "optionSets": {
+      "difficulty": [
+        { "label": "No difficulty", "value": 1 },
+        { "label": "Mild difficulty", "value": 2 },
+        { "label": "Moderate difficulty", "value": 3 },
+        { "label": "Severe difficulty", "value": 4 },
+        { "label": "Unable", "value": 5 }
+      ],
+      "severity": [
+        { "label": "None", "value": 1 },
+        { "label": "Mild", "value": 2 },
+        { "label": "Moderate", "value": 3 },
+        { "label": "Severe", "value": 4 },
+        { "label": "Extreme", "value": 5 }
+      ]
+    },
+    "sections": [
+      {
+        "title": "Activities",
+        "prompt": "How much difficulty have you had doing this in the last week?",
+        "items": [
+          { "id": "jar", "text": "Open a tight or new jar", "options": "difficulty" },
+          { "id": "chores", "text": "Do heavy household chores (e.g. wash walls, floors)", "options": "difficulty" },
+          { "id": "carry", "text": "Carry a shopping bag or briefcase", "options": "difficulty" },
+          { "id": "wash_back", "text": "Wash your back", "options": "difficulty" },
+          { "id": "knife", "text": "Use a knife to cut food", "options": "difficulty" },
+          { "id": "recreation", "text": "Recreational activities in which you take some force or impact through your arm, shoulder or hand (e.g. golf, hammering, tennis)", "options": "difficulty" }
+        ]
+      },
+      {
+        "title": "Daily Life",
+        "items": [
+          {
+            "id": "social",
+            "text": "In the last week, how much has your arm, shoulder or hand problem interfered with your normal social activities with family, friends, neighbours or groups?",
+            "options": [
+              { "label": "Not at all", "value": 1 },
+              { "label": "Slightly", "value": 2 },
+              { "label": "Moderately", "value": 3 },
+              { "label": "Quite a bit", "value": 4 },
+              { "label": "Extremely", "value": 5 }
+            ]
+          },
+          {
+            "id": "work",
+            "text": "In the last week, were you limited in your work or other regular daily activities as a result of your arm, shoulder or hand problem?",
+            "options": [
+              { "label": "Not limited at all", "value": 1 },
+              { "label": "Slightly limited", "value": 2 },
+              { "label": "Moderately limited", "value": 3 },
+              { "label": "Very limited", "value": 4 },
+              { "label": "Unable", "value": 5 }
+            ]
+          }
+        ]
+      },
+      {
+        "title": "Symptoms",
+        "prompt": "How severe has this been in the last week?",
+        "items": [
+          { "id": "pain", "text": "Arm, shoulder or hand pain", "options": "severity" },
+          { "id": "tingling", "text": "Tingling (pins and needles) in your arm, shoulder or hand", "options": "severity" },
+          {
+            "id": "sleeping",
+            "text": "In the last week, how much difficulty have you had sleeping because of the pain in your arm, shoulder or hand?",
+            "prompt": "",
+            "options": [
+              { "label": "No difficulty", "value": 1 },
+              { "label": "Mild difficulty", "value": 2 },
+              { "label": "Moderate difficulty", "value": 3 },
+              { "label": "Severe difficulty", "value": 4 },
+              { "label": "So much difficulty that I can't sleep", "value": 5 }
+            ]
+          }
+        ]
+      }
+    ],
+    "subscales": [],
+    "score": { "method": "mean", "minAnswered": 10, "offset": -25, "multiplier": 25 },
+    "scoreRange": [0, 100],
+    "higherIsBetter": false,
+    "mcid": 16
+  }$json$::jsonb
+)
+ON CONFLICT (id) DO UPDATE SET
+  short_name = EXCLUDED.short_name,
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  default_for_conditions = EXCLUDED.default_for_conditions,
+  definition = EXCLUDED.definition,
+  updated_at = now();
@@ -0,0 +1,264 @@
+/*
+  # EQ-5D-5L
+
+  A generic health-related quality-of-life measure for outcome reporting. The
+  daily check-in sliders in `proms_data` are not a validated instrument, and
+  the ODI, NDI and joint PROMs are condition-specific, so funders can't compare
+  them across patients. The EQ-5D-5L asks five questions (mobility, self-care,
+  usual activities, pain/discomfort, anxiety/depression) with five levels each,
+  plus a 0-100 visual analogue scale (VAS) for overall health today.
+
+  The five answers make a health state such as 11223, which a national value
+  set turns into an index: 1 is full health, 0 is as bad as being dead and
+  negative values are worse than dead. Value sets are data, so more countries
+  can be added without a release.
+
+  1. New Tables
+    - `eq5d_value_sets`
+      - `id` (text, primary key) - e.g. 'UK'
+      - `country` (text), `source` (text) - the published valuation study
+      - `intercept` (numeric) - subtracted from every state other than 11111;
+        0 for value sets without one
+      - `coefficients` (jsonb) - dimension to a list of five decrements, one
+        per level, starting with level 1 (always 0)
+      - `active` (boolean)
+    - `eq5d_assessments`
+      - `id` (uuid, primary key)
+      - `patient_id` (uuid, references patient_profiles)
+      - `assessment_date` (date), unique per patient so the offline queue can
+        upsert on it
+      - `mobility`, `self_care`, `usual_activities`, `pain_discomfort`,
+        `anxiety_depression` (integer, 1-5)
+      - `health_state` (text) - the five levels as a five digit code
+      - `vas` (integer, 0-100)
+      - `is_baseline` (boolean)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `eq5d_index(value_set_id, mobility, self_care, usual_activities,
+      pain_discomfort, anxiety_depression)`
+      - The index for a health state, rounded to three decimals; null for an
+        unknown value set. Matches `lib/eq5d.ts`
+    - `cohort_members(dimension)`
+      - The cohort each patient the caller can see falls in, grouped the same
+        way as `cohort_patient_outcomes`
+    - `cohort_eq5d_outcomes(dimension, value_set_id)`
+      - Per cohort: patients with an EQ-5D, those with a follow-up, and mean
+        baseline and latest index and VAS
+
+  3. Seed Data
+    - England (Devlin et al. 2018) and United States (Pickard et al. 2019).
+      The app defaults to the Australian value set (Norman et al. 2023) once
+      it has been added
+
+  4. Security
+    - Signed-in users can read active value sets; value sets are managed with
+      the service role
+    - Patients manage their own assessments
+    - Clinicians the patient shares with can read them
+    - The cohort functions are security invoker, like `cohort_outcomes`
+*/
+
+CREATE TABLE IF NOT EXISTS eq5d_value_sets (
+  id text PRIMARY KEY,
+  country text NOT NULL,
+  source text NOT NULL DEFAULT '',
+  intercept numeric NOT NULL DEFAULT 0,
+  coefficients jsonb NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE eq5d_value_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view active EQ-5D value sets"
+  ON eq5d_value_sets FOR SELECT
+  TO authenticated
+  USING (active);
+
+CREATE TABLE IF NOT EXISTS eq5d_assessments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  assessment_date date NOT NULL DEFAULT CURRENT_DATE,
+  mobility integer NOT NULL CHECK (mobility >= 1 AND mobility <= 5),
+  self_care integer NOT NULL CHECK (self_care >= 1 AND self_care <= 5),
+  usual_activities integer NOT NULL CHECK (usual_activities >= 1 AND usual_activities <= 5),
+  pain_discomfort integer NOT NULL CHECK (pain_discomfort >= 1 AND pain_discomfort <= 5),
+  anxiety_depression integer NOT NULL CHECK (anxiety_depression >= 1 AND anxiety_depression <= 5),
+  health_state text GENERATED ALWAYS AS (
+    mobility::text || self_care::text || usual_activities::text || pain_discomfort::text || anxiety_depression::text
+  ) STORED,
+  vas integer CHECK (vas >= 0 AND vas <= 100),
+  is_baseline boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT eq5d_assessments_patient_date_key UNIQUE (patient_id, assessment_date)
+);
+
+ALTER TABLE eq5d_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own EQ-5D assessments"
+  ON eq5d_assessments FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Users can insert own EQ-5D assessments"
+  ON eq5d_assessments FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can update own EQ-5D assessments"
+  ON eq5d_assessments FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Users can delete own EQ-5D assessments"
+  ON eq5d_assessments FOR DELETE
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Clinicians can view consenting patients' EQ-5D assessments"
+  ON eq5d_assessments FOR SELECT
+  TO authenticated
+  USING (is_clinician_for(patient_id));
+
+CREATE OR REPLACE FUNCTION eq5d_index(
+  value_set_id text,
+  mobility integer,
+  self_care integer,
+  usual_activities integer,
+  pain_discomfort integer,
+  anxiety_depression integer
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT round(
+    1
+    - CASE WHEN greatest(mobility, self_care, usual_activities, pain_discomfort, anxiety_depression) > 1 THEN v.intercept ELSE 0 END
+    - (v.coefficients->'mobility'->>(mobility - 1))::numeric
+    - (v.coefficients->'self_care'->>(self_care - 1))::numeric
+    - (v.coefficients->'usual_activities'->>(usual_activities - 1))::numeric
+    - (v.coefficients->'pain_discomfort'->>(pain_discomfort - 1))::numeric
+    - (v.coefficients->'anxiety_depression'->>(anxiety_depression - 1))::numeric,
+    3
+  )
+  FROM eq5d_value_sets v
+  WHERE v.id = value_set_id;
+$$;
+
+CREATE OR REPLACE FUNCTION cohort_members(dimension text DEFAULT 'all')
+RETURNS TABLE (
+  cohort text,
+  patient_id uuid
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    CASE dimension
+      WHEN 'condition' THEN COALESCE(NULLIF(btrim(p.condition), ''), 'Not specified')
+      WHEN 'treatment_type' THEN COALESCE(p.treatment_type, 'Not specified')
+      ELSE 'All patients'
+    END,
+    p.id
+  FROM patient_profiles p
+  WHERE dimension <> 'provider'
+    AND p.id IS DISTINCT FROM auth.uid()
+  UNION ALL
+  SELECT hp.provider_name || ', ' || hp.practice_name, g.patient_id
+  FROM clinician_access_grants g
+  JOIN healthcare_providers hp ON hp.id = g.provider_id
+  JOIN patient_profiles p ON p.id = g.patient_id
+  WHERE dimension = 'provider'
+    AND g.revoked_at IS NULL
+    AND g.patient_id IS DISTINCT FROM auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION cohort_eq5d_outcomes(dimension text, value_set_id text)
+RETURNS TABLE (
+  cohort text,
+  patient_count bigint,
+  followed_up_count bigint,
+  mean_baseline_index numeric,
+  mean_latest_index numeric,
+  mean_baseline_vas numeric,
+  mean_latest_vas numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scored AS (
+    SELECT
+      e.patient_id,
+      eq5d_index(value_set_id, e.mobility, e.self_care, e.usual_activities, e.pain_discomfort, e.anxiety_depression) AS index_value,
+      e.vas,
+      row_number() OVER (
+        PARTITION BY e.patient_id ORDER BY e.is_baseline DESC NULLS LAST, e.assessment_date, e.created_at
+      ) AS from_baseline,
+      row_number() OVER (
+        PARTITION BY e.patient_id ORDER BY e.assessment_date DESC, e.created_at DESC
+      ) AS from_latest,
+      count(*) OVER (PARTITION BY e.patient_id) AS assessment_count
+    FROM eq5d_assessments e
+  ),
+  patients AS (
+    SELECT
+      patient_id,
+      max(assessment_count) AS assessment_count,
+      max(index_value) FILTER (WHERE from_baseline = 1) AS baseline_index,
+      max(index_value) FILTER (WHERE from_latest = 1) AS latest_index,
+      max(vas) FILTER (WHERE from_baseline = 1) AS baseline_vas,
+      max(vas) FILTER (WHERE from_latest = 1) AS latest_vas
+    FROM scored
+    GROUP BY patient_id
+  )
+  SELECT
+    m.cohort,
+    count(*),
+    count(*) FILTER (WHERE p.assessment_count > 1),
+    round(avg(p.baseline_index), 3),
+    round(avg(p.latest_index), 3),
+    round(avg(p.baseline_vas), 1),
+    round(avg(p.latest_vas), 1)
+  FROM cohort_members(dimension) m
+  JOIN patients p ON p.patient_id = m.patient_id
+  GROUP BY m.cohort
+  ORDER BY count(*) DESC, m.cohort;
+$$;
+
+INSERT INTO eq5d_value_sets (id, country, source, intercept, coefficients) VALUES
+(
+  'UK',
+  'England',
+  'Devlin NJ, Shah KK, Feng Y, Mulhern B, van Hout B. Valuing health-related quality of life: an EQ-5D-5L value set for England. Health Econ. 2018;27(1):7-22.',
+  0,
+  '{
+    "mobility": [0, 0.058, 0.076, 0.207, 0.274],
+    "self_care": [0, 0.050, 0.080, 0.164, 0.203],
+    "usual_activities": [0, 0.050, 0.063, 0.162, 0.184],
+    "pain_discomfort": [0, 0.063, 0.084, 0.276, 0.335],
+    "anxiety_depression": [0, 0.078, 0.104, 0.285, 0.289]
+  }'::jsonb
+),
+(
+  'US',
+  'United States',
+  'Pickard AS, Law EH, Jiang R, et al. United States valuation of EQ-5D-5L health states using an international protocol. Value Health. 2019;22(8):931-941.',
+  0,
+  '{
+    "mobility": [0, 0.096, 0.122, 0.237, 0.322],
+    "self_care": [0, 0.089, 0.107, 0.220, 0.261],
+    "usual_activities": [0, 0.068, 0.101, 0.255, 0.255],
+    "pain_discomfort": [0, 0.060, 0.098, 0.318, 0.414],
+    "anxiety_depression": [0, 0.057, 0.123, 0.299, 0.321]
+  }'::jsonb
+)
+ON CONFLICT (id) DO UPDATE SET
+  country = EXCLUDED.country,
+  source = EXCLUDED.source,
+  intercept = EXCLUDED.intercept,
+  coefficients = EXCLUDED.coefficients,
+  updated_at = now();
@@ -0,0 +1,20 @@
+/*
+  # Restrict patient writes to triage events
+
+  The update policy on `triage_events` let patients write any column of their
+  own events, including `reviewed_at`, `reviewed_by` and `review_notes`, so a
+  patient could mark their own red flag as reviewed by a clinician. RLS picks
+  the rows; column privileges now pick what patients may write in them.
+
+  1. Security
+    - Patients may insert only the event itself (source, severity, rules,
+      evidence and excerpt), never acknowledgement or review fields
+    - Patients may update only `acknowledged_at`
+    - Review fields are left to the service role and to future clinician
+      tooling, which should use a SECURITY DEFINER function
+*/
+
+REVOKE INSERT, UPDATE ON triage_events FROM authenticated, anon;
+
+GRANT INSERT (patient_id, source, severity, rule_ids, evidence, excerpt) ON triage_events TO authenticated;
+GRANT UPDATE (acknowledged_at) ON triage_events TO authenticated;
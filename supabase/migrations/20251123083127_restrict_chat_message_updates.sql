@@ -0,0 +1,92 @@
+/*
+  # Restrict patient updates to chat messages
+
+  The update policy on `chat_messages` let patients rewrite any column of any
+  message in their own sessions, including assistant replies and the triage
+  metadata written with red-flag guidance. The app only ever needs two narrow
+  writes, so the policy is replaced with functions that make exactly those.
+
+  1. Functions
+    - `mark_chat_attachment_filed(message_id, attachment_path, record_id)`
+      - Sets `medical_record_id` on one attachment of the caller's own message,
+        after checking the record belongs to the caller
+    - `mark_chat_action_completed(message_id, action_id)`
+      - Adds an action to `completed_action_ids` on an assistant reply in the
+        caller's own session, if that reply offered it
+
+  2. Security
+    - Drops "Users can update messages in own sessions"; patients can no longer
+      update chat messages directly
+*/
+
+DROP POLICY IF EXISTS "Users can update messages in own sessions" ON chat_messages;
+
+-- SECURITY DEFINER so the only metadata patients can change is the filed record on their own attachment.
+CREATE OR REPLACE FUNCTION mark_chat_attachment_filed(message_id uuid, attachment_path text, record_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM medical_records WHERE id = record_id AND patient_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Medical record not found';
+  END IF;
+
+  UPDATE chat_messages m
+  SET metadata = jsonb_set(
+    m.metadata,
+    '{attachments}',
+    (
+      SELECT jsonb_agg(
+        CASE WHEN a->>'path' = attachment_path THEN a || jsonb_build_object('medical_record_id', record_id) ELSE a END
+        ORDER BY ord
+      )
+      FROM jsonb_array_elements(m.metadata->'attachments') WITH ORDINALITY AS t(a, ord)
+    )
+  )
+  FROM chat_sessions s
+  WHERE m.id = message_id
+    AND s.id = m.session_id
+    AND s.patient_id = auth.uid()
+    AND m.sender = 'patient'
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(m.metadata->'attachments') a WHERE a->>'path' = attachment_path
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attachment not found';
+  END IF;
+END;
+$$;
+
+-- SECURITY DEFINER so patients can mark an offered action as used without being able to edit the reply.
+CREATE OR REPLACE FUNCTION mark_chat_action_completed(message_id uuid, action_id text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE chat_messages m
+  SET metadata = jsonb_set(
+    m.metadata,
+    '{completed_action_ids}',
+    COALESCE(m.metadata->'completed_action_ids', '[]'::jsonb) || to_jsonb(action_id)
+  )
+  FROM chat_sessions s
+  WHERE m.id = message_id
+    AND s.id = m.session_id
+    AND s.patient_id = auth.uid()
+    AND m.sender = 'ai'
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(m.metadata->'actions') a WHERE a->>'id' = action_id
+    )
+    AND NOT COALESCE(m.metadata->'completed_action_ids', '[]'::jsonb) ? action_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_chat_attachment_filed(uuid, text, uuid) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION mark_chat_action_completed(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION mark_chat_attachment_filed(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_chat_action_completed(uuid, text) TO authenticated;
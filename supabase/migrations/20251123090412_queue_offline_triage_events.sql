@@ -0,0 +1,15 @@
+/*
+  # Queue red flags raised offline
+
+  Red flags found in an offline check-in were lost: the insert into
+  `triage_events` failed and nothing retried it. They now go through the
+  same device queue as check-ins, which may send an entry more than once, so
+  the app picks each event's id up front and replays are ignored once the
+  first copy has arrived.
+
+  1. Security
+    - Patients may also insert `id` on their own triage events. A replay that
+      hits an existing id does nothing, so no update privilege is needed
+*/
+
+GRANT INSERT (id) ON triage_events TO authenticated;
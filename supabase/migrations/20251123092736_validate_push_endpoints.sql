@@ -0,0 +1,26 @@
+/*
+  # Validate push subscription endpoints
+
+  `push_subscriptions.endpoint` accepted any URL, and the scheduler POSTs to it
+  with the app's VAPID signature, so a patient could point deliveries at an
+  arbitrary server. Endpoints must now be https URLs on a browser push
+  service: Firefox, Safari, Windows (WNS) or FCM for Chrome-based browsers.
+  The same list is checked in the app and in `_shared/webPush.ts`.
+
+  1. Constraints
+    - `push_subscriptions_endpoint_check` on `endpoint`. Added NOT VALID so
+      existing rows don't block the migration; the sender refuses and deletes
+      any that don't match
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'push_subscriptions_endpoint_check'
+  ) THEN
+    ALTER TABLE push_subscriptions
+      ADD CONSTRAINT push_subscriptions_endpoint_check CHECK (
+        endpoint ~ '^https://(fcm\.googleapis\.com|([a-z0-9-]+\.)*push\.services\.mozilla\.com|([a-z0-9-]+\.)*notify\.windows\.com|([a-z0-9-]+\.)*push\.apple\.com)/'
+      ) NOT VALID;
+  END IF;
+END $$;
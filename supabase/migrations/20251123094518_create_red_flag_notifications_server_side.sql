@@ -0,0 +1,69 @@
+/*
+  # Create red-flag notifications in the database
+
+  Patients could insert rows into `notifications` directly, so that red-flag
+  hits reached the inbox. Every new row is `pending` and the dispatcher sends
+  it by push, email and SMS, so a patient could relay any text through our
+  Twilio and email accounts. A row typed `red_flag` also skipped quiet hours
+  and opt-outs. Patients could also reset `delivery_status` on their own rows
+  through the update policy, so a row would be sent again.
+
+  Red-flag notifications are now written by a trigger on `triage_events`,
+  with fixed wording chosen by severity, so every notification is created
+  server-side.
+
+  1. Functions
+    - `notify_triage_event()` trigger, after insert on `triage_events`
+      - Adds a `red_flag` notification for the patient, unless the same alert
+        was already sent in the last 10 minutes
+
+  2. Security
+    - Drops "Users can insert own notifications"; patients can no longer
+      create notifications
+    - Patients may update only `read` on their own notifications
+*/
+
+DROP POLICY IF EXISTS "Users can insert own notifications" ON notifications;
+
+REVOKE INSERT, UPDATE ON notifications FROM authenticated, anon;
+GRANT UPDATE (read) ON notifications TO authenticated;
+
+-- SECURITY DEFINER so the notification can be written even though patients have no insert policy.
+CREATE OR REPLACE FUNCTION notify_triage_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  alert_title text := CASE WHEN NEW.severity = 'emergency' THEN 'Seek emergency care' ELSE 'Contact your care team today' END;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM notifications
+    WHERE patient_id = NEW.patient_id
+      AND notification_type = 'red_flag'
+      AND title = alert_title
+      AND created_at > now() - interval '10 minutes'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (patient_id, notification_type, title, message)
+  VALUES (
+    NEW.patient_id,
+    'red_flag',
+    alert_title,
+    CASE WHEN NEW.severity = 'emergency'
+      THEN 'Something you told Qivr may need emergency care. Call 000 now or go to the nearest emergency department.'
+      ELSE 'Something you told Qivr should be checked by your surgeon or care team today. Open Qivr for what to do next.'
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_triage_event ON triage_events;
+CREATE TRIGGER notify_triage_event
+  AFTER INSERT ON triage_events
+  FOR EACH ROW EXECUTE FUNCTION notify_triage_event();
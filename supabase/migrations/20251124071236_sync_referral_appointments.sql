@@ -0,0 +1,87 @@
+/*
+  # Keep appointments in step with their referral
+
+  Booking an appointment for a referral marks the referral scheduled, but the
+  other direction was missing: cancelling or completing a referral left its
+  appointment on the calendar (and its reminders firing), and scheduling a
+  referral from the Providers page created no appointment at all.
+
+  1. Functions
+    - `sync_referral_appointment()` trigger, after insert or update on
+      `patient_referrals`
+      - Cancelled or completed: the referral's scheduled appointments are
+        cancelled or completed with it
+      - Scheduled with an appointment date: creates a 09:00-10:00 appointment
+        in the patient's time zone (as the appointments backfill did) when
+        there is none, or moves the existing one to the new date, keeping its
+        time of day and length
+
+  2. Security
+    - SECURITY DEFINER, like `log_referral_event`, and only touches
+      appointments linked to the referral being changed
+*/
+
+-- SECURITY DEFINER so the appointment follows the referral whoever changes it.
+CREATE OR REPLACE FUNCTION sync_referral_appointment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz text;
+BEGIN
+  IF NEW.status IN ('cancelled', 'completed') THEN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+      UPDATE appointments
+      SET status = NEW.status, updated_at = now()
+      WHERE referral_id = NEW.id
+        AND status = 'scheduled';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'scheduled' OR NEW.appointment_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'scheduled'
+    AND NEW.appointment_date IS NOT DISTINCT FROM OLD.appointment_date THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(time_zone, 'Australia/Melbourne') INTO tz
+  FROM patient_profiles
+  WHERE id = NEW.patient_id;
+
+  IF EXISTS (SELECT 1 FROM appointments WHERE referral_id = NEW.id AND status = 'scheduled') THEN
+    UPDATE appointments
+    SET
+      starts_at = (NEW.appointment_date + (starts_at AT TIME ZONE tz)::time) AT TIME ZONE tz,
+      ends_at = ((NEW.appointment_date + (starts_at AT TIME ZONE tz)::time) AT TIME ZONE tz) + (ends_at - starts_at),
+      updated_at = now()
+    WHERE referral_id = NEW.id
+      AND status = 'scheduled'
+      AND (starts_at AT TIME ZONE tz)::date <> NEW.appointment_date;
+  ELSE
+    INSERT INTO appointments (patient_id, provider_id, referral_id, title, starts_at, ends_at)
+    SELECT
+      NEW.patient_id,
+      NEW.provider_id,
+      NEW.id,
+      hp.provider_name,
+      (NEW.appointment_date + time '09:00') AT TIME ZONE tz,
+      (NEW.appointment_date + time '10:00') AT TIME ZONE tz
+    FROM healthcare_providers hp
+    WHERE hp.id = NEW.provider_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_referral_appointment ON patient_referrals;
+CREATE TRIGGER sync_referral_appointment
+  AFTER INSERT OR UPDATE ON patient_referrals
+  FOR EACH ROW EXECUTE FUNCTION sync_referral_appointment();
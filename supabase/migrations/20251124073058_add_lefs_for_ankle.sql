@@ -0,0 +1,72 @@
+/*
+  # Lower Extremity Functional Scale for ankle patients
+
+  No seeded instrument claimed Ankle, so ankle patients fell back to the ODI,
+  a low-back questionnaire. The LEFS is validated across lower-limb conditions,
+  including the foot and ankle, and now becomes the Ankle default.
+
+  1. Seed Data
+    - LEFS (Binkley et al. 1999): 20 activities rated 0 (extreme difficulty or
+      unable) to 4 (no difficulty), summed to 0-80 (80 = best), MCID 9 points
+*/
+
+INSERT INTO prom_instruments (id, short_name, name, description, default_for_conditions, definition) VALUES
+(
+  'lefs',
+  'LEFS',
+  'Lower Extremity Functional Scale',
+  'Difficulty with everyday activities because of a lower-limb problem.',
+  ARRAY['Ankle'],
+  $json${
+    "instructions": "We are interested in knowing whether you are having any difficulty at all with the activities listed below because of the lower-limb problem for which you are currently seeking attention. Please provide an answer for each activity.",
+    "optionSets": {
+      "difficulty": [
+        { "label": "Extreme difficulty or unable to perform activity", "value": 0 },
+        { "label": "Quite a bit of difficulty", "value": 1 },
+        { "label": "Moderate difficulty", "value": 2 },
+        { "label": "A little bit of difficulty", "value": 3 },
+        { "label": "No difficulty", "value": 4 }
+      ]
+    },
+    "sections": [
+      {
+        "title": "Activities",
+        "prompt": "Today, do you or would you have any difficulty at all with this activity?",
+        "items": [
+          { "id": "usual_work", "text": "Any of your usual work, housework or school activities", "options": "difficulty" },
+          { "id": "hobbies", "text": "Your usual hobbies, recreational or sporting activities", "options": "difficulty" },
+          { "id": "bath", "text": "Getting into or out of the bath", "options": "difficulty" },
+          { "id": "walking_rooms", "text": "Walking between rooms", "options": "difficulty" },
+          { "id": "shoes", "text": "Putting on your shoes or socks", "options": "difficulty" },
+          { "id": "squatting", "text": "Squatting", "options": "difficulty" },
+          { "id": "lifting", "text": "Lifting an object, like a bag of groceries, from the floor", "options": "difficulty" },
+          { "id": "light_activities", "text": "Performing light activities around your home", "options": "difficulty" },
+          { "id": "heavy_activities", "text": "Performing heavy activities around your home", "options": "difficulty" },
+          { "id": "car", "text": "Getting into or out of a car", "options": "difficulty" },
+          { "id": "walking_2_blocks", "text": "Walking 2 blocks", "options": "difficulty" },
+          { "id": "walking_mile", "text": "Walking a mile", "options": "difficulty" },
+          { "id": "stairs", "text": "Going up or down 10 stairs (about 1 flight of stairs)", "options": "difficulty" },
+          { "id": "standing", "text": "Standing for 1 hour", "options": "difficulty" },
+          { "id": "sitting", "text": "Sitting for 1 hour", "options": "difficulty" },
+          { "id": "running_even", "text": "Running on even ground", "options": "difficulty" },
+          { "id": "running_uneven", "text": "Running on uneven ground", "options": "difficulty" },
+          { "id": "sharp_turns", "text": "Making sharp turns while running fast", "options": "difficulty" },
+          { "id": "hopping", "text": "Hopping", "options": "difficulty" },
+          { "id": "rolling", "text": "Rolling over in bed", "options": "difficulty" }
+        ]
+      }
+    ],
+    "subscales": [],
+    "score": { "method": "sum" },
+    "scoreRange": [0, 80],
+    "higherIsBetter": true,
+    "mcid": 9
+  }$json$::jsonb
+)
+ON CONFLICT (id) DO UPDATE SET
+  short_name = EXCLUDED.short_name,
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  default_for_conditions = EXCLUDED.default_for_conditions,
+  definition = EXCLUDED.definition,
+  updated_at = now();
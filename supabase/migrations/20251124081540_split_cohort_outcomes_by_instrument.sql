@@ -0,0 +1,182 @@
+/*
+  # Cohort outcomes for the NDI as well as the ODI
+
+  The cohort functions only read `odi_assessments`, so neck patients, who are
+  tracked with the NDI, were left out of every cohort. They now take the
+  instrument to report on, and each patient counts in the cohorts of the
+  instrument they have scores for.
+
+  1. Functions
+    - `cohort_patient_outcomes(dimension, instrument)`,
+      `cohort_outcomes(dimension, instrument)` and
+      `cohort_scores_by_week(dimension, instrument, max_weeks)` replace the
+      ODI-only versions and `cohort_odi_by_week`
+      - `instrument` is 'odi' (default) or 'ndi'
+      - MCID is the instrument's own: 10 points for the ODI, 15 for the NDI
+      - Score columns are renamed from `*_odi` to `*_score`
+
+  2. Security
+    - Still security invoker, so RLS decides who is included
+*/
+
+DROP FUNCTION IF EXISTS cohort_odi_by_week(text, integer);
+DROP FUNCTION IF EXISTS cohort_outcomes(text);
+DROP FUNCTION IF EXISTS cohort_patient_outcomes(text);
+
+CREATE OR REPLACE FUNCTION cohort_patient_outcomes(dimension text DEFAULT 'all', instrument text DEFAULT 'odi')
+RETURNS TABLE (
+  cohort text,
+  patient_id uuid,
+  baseline_date date,
+  baseline_score numeric,
+  latest_score numeric,
+  assessment_count integer,
+  days_to_mcid integer,
+  plateau_detected boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH members AS (
+    SELECT
+      p.id AS patient_id,
+      CASE dimension
+        WHEN 'condition' THEN COALESCE(NULLIF(btrim(p.condition), ''), 'Not specified')
+        WHEN 'treatment_type' THEN COALESCE(p.treatment_type, 'Not specified')
+        ELSE 'All patients'
+      END AS cohort
+    FROM patient_profiles p
+    WHERE dimension <> 'provider'
+      AND p.id IS DISTINCT FROM auth.uid()
+    UNION ALL
+    SELECT g.patient_id, hp.provider_name || ', ' || hp.practice_name
+    FROM clinician_access_grants g
+    JOIN healthcare_providers hp ON hp.id = g.provider_id
+    JOIN patient_profiles p ON p.id = g.patient_id
+    WHERE dimension = 'provider'
+      AND g.revoked_at IS NULL
+      AND g.patient_id IS DISTINCT FROM auth.uid()
+  ),
+  scores AS (
+    SELECT o.patient_id, o.assessment_date, o.created_at, o.is_baseline, o.percentage_score
+    FROM odi_assessments o
+    WHERE instrument = 'odi'
+    UNION ALL
+    SELECT n.patient_id, n.assessment_date, n.created_at, n.is_baseline, n.percentage_score
+    FROM ndi_assessments n
+    WHERE instrument = 'ndi'
+  ),
+  baselines AS (
+    SELECT DISTINCT ON (s.patient_id) s.patient_id, s.assessment_date, s.percentage_score
+    FROM scores s
+    ORDER BY s.patient_id, s.is_baseline DESC NULLS LAST, s.assessment_date, s.created_at
+  ),
+  stats AS (
+    SELECT
+      s.patient_id,
+      count(*)::integer AS assessment_count,
+      (array_agg(s.percentage_score ORDER BY s.assessment_date DESC, s.created_at DESC))[1] AS latest_score,
+      min(s.assessment_date - b.assessment_date) FILTER (
+        WHERE s.assessment_date >= b.assessment_date
+          AND b.percentage_score - s.percentage_score >= CASE instrument WHEN 'ndi' THEN 15 ELSE 10 END
+      ) AS days_to_mcid
+    FROM scores s
+    JOIN baselines b ON b.patient_id = s.patient_id
+    GROUP BY s.patient_id
+  ),
+  recent AS (
+    SELECT
+      r.patient_id,
+      r.percentage_score - lag(r.percentage_score) OVER (
+        PARTITION BY r.patient_id ORDER BY r.assessment_date, r.created_at
+      ) AS change
+    FROM (
+      SELECT
+        s.*,
+        row_number() OVER (PARTITION BY s.patient_id ORDER BY s.assessment_date DESC, s.created_at DESC) AS recency
+      FROM scores s
+    ) r
+    WHERE r.recency <= 4
+  ),
+  plateaus AS (
+    SELECT patient_id, count(*) = 4 AND max(abs(change)) < 5 AS plateau_detected
+    FROM recent
+    GROUP BY patient_id
+  )
+  SELECT
+    m.cohort,
+    m.patient_id,
+    b.assessment_date,
+    b.percentage_score,
+    s.latest_score,
+    s.assessment_count,
+    s.days_to_mcid,
+    pl.plateau_detected
+  FROM members m
+  JOIN baselines b ON b.patient_id = m.patient_id
+  JOIN stats s ON s.patient_id = m.patient_id
+  JOIN plateaus pl ON pl.patient_id = m.patient_id;
+$$;
+
+CREATE OR REPLACE FUNCTION cohort_outcomes(dimension text DEFAULT 'all', instrument text DEFAULT 'odi')
+RETURNS TABLE (
+  cohort text,
+  patient_count bigint,
+  followed_up_count bigint,
+  mcid_count bigint,
+  mcid_rate numeric,
+  median_days_to_mcid double precision,
+  plateau_eligible_count bigint,
+  plateau_count bigint,
+  plateau_rate numeric,
+  mean_baseline_score numeric,
+  mean_latest_score numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    cohort,
+    count(*),
+    count(*) FILTER (WHERE assessment_count > 1),
+    count(days_to_mcid),
+    round(count(days_to_mcid)::numeric / NULLIF(count(*) FILTER (WHERE assessment_count > 1), 0), 4),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY days_to_mcid),
+    count(*) FILTER (WHERE assessment_count >= 4),
+    count(*) FILTER (WHERE plateau_detected),
+    round(count(*) FILTER (WHERE plateau_detected)::numeric / NULLIF(count(*) FILTER (WHERE assessment_count >= 4), 0), 4),
+    round(avg(baseline_score), 1),
+    round(avg(latest_score), 1)
+  FROM cohort_patient_outcomes(dimension, instrument)
+  GROUP BY cohort
+  ORDER BY count(*) DESC, cohort;
+$$;
+
+CREATE OR REPLACE FUNCTION cohort_scores_by_week(dimension text DEFAULT 'all', instrument text DEFAULT 'odi', max_weeks integer DEFAULT 52)
+RETURNS TABLE (
+  cohort text,
+  week integer,
+  patient_count bigint,
+  mean_score numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.cohort, w.week, count(*), round(avg(w.score), 1)
+  FROM cohort_patient_outcomes(dimension, instrument) c
+  CROSS JOIN LATERAL (
+    SELECT (s.assessment_date - c.baseline_date) / 7 AS week, avg(s.percentage_score) AS score
+    FROM (
+      SELECT o.assessment_date, o.percentage_score FROM odi_assessments o
+      WHERE instrument = 'odi' AND o.patient_id = c.patient_id
+      UNION ALL
+      SELECT n.assessment_date, n.percentage_score FROM ndi_assessments n
+      WHERE instrument = 'ndi' AND n.patient_id = c.patient_id
+    ) s
+    WHERE s.assessment_date >= c.baseline_date
+      AND s.assessment_date - c.baseline_date < max_weeks * 7
+    GROUP BY 1
+  ) w
+  GROUP BY c.cohort, w.week
+  ORDER BY c.cohort, w.week;
+$$;
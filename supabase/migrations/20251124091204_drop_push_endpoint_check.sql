@@ -0,0 +1,18 @@
+/*
+  # Drop the push endpoint check constraint
+
+  The push service hosts were listed three times: in the app, in the Edge
+  Functions and in `push_subscriptions_endpoint_check`, so a local push server
+  for development or tests could only be used by editing all three. The list
+  now lives in `supabase/functions/_shared/pushServices.ts` and is extended
+  through PUSH_SERVICE_HOSTS / VITE_PUSH_SERVICE_HOSTS.
+
+  1. Constraints
+    - Drop `push_subscriptions_endpoint_check`
+
+  2. Security
+    - Endpoints are still never fetched unless they match the allowlist: the
+      sender refuses anything else and deletes the subscription
+*/
+
+ALTER TABLE push_subscriptions DROP CONSTRAINT IF EXISTS push_subscriptions_endpoint_check;
@@ -0,0 +1,68 @@
+/*
+  # Keep referrals in step with their appointment
+
+  The app marked a pending referral scheduled when an appointment was booked
+  for it, but moving that appointment later left the referral on its old
+  date. The database now owns both directions, using the patient's time zone
+  for the date, so the two can't disagree.
+
+  1. Functions
+    - `sync_appointment_referral()` trigger, after insert or update on
+      `appointments`
+      - A scheduled appointment linked to a pending or scheduled referral
+        marks the referral scheduled on the appointment's date
+      - Skipped when the referral has another scheduled appointment, so
+        follow-up visits don't move the referral date
+      - `sync_referral_appointment` then finds the appointment already on that
+        date and leaves it alone, so the triggers don't call each other again
+
+  2. Security
+    - SECURITY DEFINER, like `sync_referral_appointment`, and only touches the
+      referral the appointment is linked to
+*/
+
+-- SECURITY DEFINER so the referral follows the appointment whoever changes it.
+CREATE OR REPLACE FUNCTION sync_appointment_referral()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz text;
+  appointment_day date;
+BEGIN
+  IF NEW.referral_id IS NULL OR NEW.status <> 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE referral_id = NEW.referral_id
+      AND status = 'scheduled'
+      AND id <> NEW.id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  tz := COALESCE(
+    (SELECT time_zone FROM patient_profiles WHERE id = NEW.patient_id),
+    'Australia/Melbourne'
+  );
+
+  appointment_day := (NEW.starts_at AT TIME ZONE tz)::date;
+
+  UPDATE patient_referrals
+  SET status = 'scheduled', appointment_date = appointment_day
+  WHERE id = NEW.referral_id
+    AND status IN ('pending', 'scheduled')
+    AND (status <> 'scheduled' OR appointment_date IS DISTINCT FROM appointment_day);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_appointment_referral ON appointments;
+CREATE TRIGGER sync_appointment_referral
+  AFTER INSERT OR UPDATE OF starts_at, status, referral_id ON appointments
+  FOR EACH ROW EXECUTE FUNCTION sync_appointment_referral();
@@ -0,0 +1,33 @@
+/*
+  # Only log doses against the patient's own medications
+
+  The insert and update policies on `medication_doses` checked `patient_id`
+  but not `medication_id`, so a patient could log doses against another
+  patient's medication and take its scheduled dose slots, which can only be
+  logged once.
+
+  1. Security
+    - "Users can insert own medication doses" and "Users can update own
+      medication doses" are recreated to also require the medication to
+      belong to the caller
+*/
+
+DROP POLICY IF EXISTS "Users can insert own medication doses" ON medication_doses;
+DROP POLICY IF EXISTS "Users can update own medication doses" ON medication_doses;
+
+CREATE POLICY "Users can insert own medication doses"
+  ON medication_doses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    patient_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM medications m WHERE m.id = medication_id AND m.patient_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own medication doses"
+  ON medication_doses FOR UPDATE
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (
+    patient_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM medications m WHERE m.id = medication_id AND m.patient_id = auth.uid())
+  );